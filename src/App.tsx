@@ -38,10 +38,13 @@ const TablePage = lazy(() => import("./pages/admin/TablePage"));
 const ManageMenusPage = lazy(() => import("./pages/admin/ManageMenusPage"));
 const SettingsPage = lazy(() => import("./pages/admin/SettingsPage"));
 const PosPage = lazy(() => import("./pages/admin/PosPage"));
+const FeedbackPage = lazy(() => import("./pages/admin/FeedbackPage"));
+const InventoryPage = lazy(() => import("./pages/admin/InventoryPage"));
 
 // Chef pages
 const ChefDashboard = lazy(() => import("./pages/chef/index"));
 const ChefOrdersPage = lazy(() => import("./pages/chef/ChefOrdersPage"));
+const StockControlPage = lazy(() => import("./pages/chef/StockControlPage"));
 
 // Waiter pages
 const WaiterDashboard = lazy(() => import("./pages/waiter/index"));
@@ -121,6 +124,14 @@ function App() {
                   </AuthGuard>
                 }
               />
+              <Route
+                path="/admin/inventory"
+                element={
+                  <AuthGuard>
+                    <InventoryPage />
+                  </AuthGuard>
+                }
+              />
               <Route
                 path="/admin/settings"
                 element={
@@ -129,6 +140,14 @@ function App() {
                   </AuthGuard>
                 }
               />
+              <Route
+                path="/admin/feedback"
+                element={
+                  <AuthGuard>
+                    <FeedbackPage />
+                  </AuthGuard>
+                }
+              />
               <Route
                 path="/posAdmin/pos"
                 element={
@@ -143,6 +162,7 @@ function App() {
               {/* Chef routes - not using AuthGuard to prevent infinite update loop */}
               <Route path="/chef" element={<ChefDashboard />} />
               <Route path="/chef/orders" element={<ChefOrdersPage />} />
+              <Route path="/chef/stock" element={<StockControlPage />} />
 
               {/* Waiter routes - not using AuthGuard to prevent infinite update loop */}
               <Route path="/waiter" element={<WaiterDashboard />} />
@@ -174,7 +194,7 @@ function App() {
                 }
               />
               {/* Public Menu Card Route - accessible by QR code */}
-              <Route path="/table/:tableNumber" element={<MenuCardPage />} />
+              <Route path="/table/:tableToken" element={<MenuCardPage />} />
 
               {/* Redirect any other route to root for processing */}
               <Route path="*" element={<Navigate to="/" replace />} />
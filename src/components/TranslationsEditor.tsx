@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import {
+  ContentTranslations,
+  LanguageCode,
+  TRANSLATION_LANGUAGES,
+} from "../lib/i18n";
+
+interface TranslationsEditorProps {
+  value: ContentTranslations;
+  onChange: (translations: ContentTranslations) => void;
+  originalName: string;
+  originalDescription?: string;
+  showDescription?: boolean;
+}
+
+export default function TranslationsEditor({
+  value,
+  onChange,
+  originalName,
+  originalDescription,
+  showDescription = true,
+}: TranslationsEditorProps) {
+  const [language, setLanguage] = useState<LanguageCode>(
+    TRANSLATION_LANGUAGES[0].code
+  );
+
+  const current = value[language] || {};
+
+  const updateField = (field: "name" | "description", text: string) => {
+    onChange({ ...value, [language]: { ...current, [field]: text } });
+  };
+
+  // A language counts as translated once it has a name
+  const isTranslated = (code: LanguageCode) => !!value[code]?.name?.trim();
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {TRANSLATION_LANGUAGES.map((option) => (
+          <button
+            key={option.code}
+            type="button"
+            className={`text-xs px-2 py-1 border rounded-full transition-colors ${
+              language === option.code
+                ? "bg-primary text-primary-foreground border-primary"
+                : "border-input hover:bg-muted"
+            }`}
+            onClick={() => setLanguage(option.code)}
+          >
+            {option.label}
+            {isTranslated(option.code) && " ✓"}
+          </button>
+        ))}
+      </div>
+
+      <Input
+        placeholder={originalName || "Translated name"}
+        value={current.name || ""}
+        onChange={(e) => updateField("name", e.target.value)}
+      />
+      {showDescription && (
+        <Textarea
+          placeholder={originalDescription || "Translated description"}
+          value={current.description || ""}
+          onChange={(e) => updateField("description", e.target.value)}
+          rows={2}
+        />
+      )}
+      <p className="text-xs text-muted-foreground">
+        Leave empty to show the original text to guests in this language.
+      </p>
+    </div>
+  );
+}
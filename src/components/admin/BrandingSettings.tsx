@@ -0,0 +1,396 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Palette, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { brandingApi } from "../../lib/api/branding";
+import { Menu, menusApi } from "../../lib/api/menus";
+import {
+  BRAND_FONTS,
+  BrandContact,
+  Branding,
+  BrandPalette,
+  DEFAULT_BRANDING,
+  getBrandingOverride,
+  isHexColor,
+  PALETTE_LABELS,
+  resolveBranding,
+  SOCIAL_PLATFORM_LABELS,
+  SocialPlatform,
+  validateBranding,
+} from "../../lib/branding";
+import BrandingPreview from "../branding/BrandingPreview";
+
+// Scope value used for the restaurant-wide branding
+const RESTAURANT_SCOPE = "restaurant";
+
+const CONTACT_FIELDS: { key: keyof BrandContact; label: string; placeholder: string }[] = [
+  { key: "address", label: "Address", placeholder: "Street, city" },
+  { key: "phone", label: "Phone", placeholder: "e.g., 98765-43210" },
+  { key: "email", label: "Email", placeholder: "hello@example.com" },
+  { key: "hours", label: "Opening hours", placeholder: "11:00 AM - 11:00 PM (Mon-Sun)" },
+  { key: "gstin", label: "GSTIN (printed on receipts)", placeholder: "Optional" },
+];
+
+export function BrandingSettings() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [menus, setMenus] = useState<Menu[]>([]);
+  const [scope, setScope] = useState<string>(RESTAURANT_SCOPE);
+  const [restaurantBranding, setRestaurantBranding] =
+    useState<Branding>(DEFAULT_BRANDING);
+  const [draft, setDraft] = useState<Branding>(DEFAULT_BRANDING);
+  const [hasMenuOverride, setHasMenuOverride] = useState(false);
+
+  useEffect(() => {
+    fetchBranding();
+  }, []);
+
+  const fetchBranding = async () => {
+    try {
+      setLoading(true);
+      const [brandingData, menusData] = await Promise.all([
+        brandingApi.get(),
+        menusApi.getAll(),
+      ]);
+      setRestaurantBranding(brandingData);
+      setDraft(brandingData);
+      setMenus(menusData);
+    } catch (error) {
+      console.error("Error fetching branding:", error);
+      toast.error("Failed to load branding");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Switch between the restaurant branding and a menu's override
+  const handleScopeChange = async (value: string) => {
+    setScope(value);
+
+    if (value === RESTAURANT_SCOPE) {
+      setDraft(restaurantBranding);
+      setHasMenuOverride(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const menu = await menusApi.getById(value);
+      setDraft(resolveBranding(restaurantBranding, menu.branding));
+      setHasMenuOverride(!!menu.branding);
+    } catch (error) {
+      console.error("Error fetching menu branding:", error);
+      toast.error("Failed to load the menu's branding");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePalette = (key: keyof BrandPalette, value: string) => {
+    setDraft((prev) => ({ ...prev, palette: { ...prev.palette, [key]: value } }));
+  };
+
+  const updateContact = (key: keyof BrandContact, value: string) => {
+    setDraft((prev) => ({ ...prev, contact: { ...prev.contact, [key]: value } }));
+  };
+
+  const updateSocialLink = (
+    index: number,
+    changes: Partial<Branding["socialLinks"][number]>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      socialLinks: prev.socialLinks.map((link, i) =>
+        i === index ? { ...link, ...changes } : link
+      ),
+    }));
+  };
+
+  const handleSave = async () => {
+    const error = validateBranding(draft);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (scope === RESTAURANT_SCOPE) {
+        const saved = await brandingApi.update(draft);
+        setRestaurantBranding(saved);
+        setDraft(saved);
+        toast.success("Branding saved");
+      } else {
+        const override = getBrandingOverride(restaurantBranding, draft);
+        await brandingApi.updateMenuOverride(scope, override);
+        setHasMenuOverride(!!override);
+        toast.success("Menu branding saved");
+      }
+    } catch (error) {
+      console.error("Error saving branding:", error);
+      toast.error("Failed to save branding");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Drop a menu's override so it follows the restaurant branding again
+  const handleResetMenu = async () => {
+    try {
+      setSaving(true);
+      await brandingApi.updateMenuOverride(scope, null);
+      setDraft(restaurantBranding);
+      setHasMenuOverride(false);
+      toast.success("Menu now uses the restaurant branding");
+    } catch (error) {
+      console.error("Error resetting menu branding:", error);
+      toast.error("Failed to reset the menu's branding");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && menus.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[1fr_360px] gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            Branding
+          </CardTitle>
+          <CardDescription>
+            Logo, colours and contact details shown on the guest menu, QR codes and
+            receipts. Menus can override the restaurant branding.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={scope} onValueChange={handleScopeChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={RESTAURANT_SCOPE}>Whole restaurant (default)</SelectItem>
+                {menus.map((menu) => (
+                  <SelectItem key={menu.id} value={menu.id.toString()}>
+                    Menu: {menu.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {scope !== RESTAURANT_SCOPE && (
+              <p className="text-xs text-muted-foreground">
+                {hasMenuOverride
+                  ? "This menu has its own branding. Fields left as they are follow the restaurant branding."
+                  : "This menu uses the restaurant branding. Changes saved here apply to this menu only."}
+              </p>
+            )}
+          </div>
+
+          {/* Identity */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="brand-name">Brand name</Label>
+              <Input
+                id="brand-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-logo">Logo URL</Label>
+              <Input
+                id="brand-logo"
+                placeholder="/logo.png"
+                value={draft.logoUrl || ""}
+                onChange={(e) => setDraft({ ...draft, logoUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-hero">Hero image URL</Label>
+              <Input
+                id="brand-hero"
+                placeholder="Optional"
+                value={draft.heroImageUrl || ""}
+                onChange={(e) => setDraft({ ...draft, heroImageUrl: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {/* Colours */}
+          <div className="space-y-2">
+            <Label>Colour palette</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(PALETTE_LABELS) as (keyof BrandPalette)[]).map((key) => (
+                <div key={key} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    aria-label={PALETTE_LABELS[key]}
+                    value={isHexColor(draft.palette[key]) && draft.palette[key].length === 7
+                      ? draft.palette[key]
+                      : "#000000"}
+                    onChange={(e) => updatePalette(key, e.target.value.toUpperCase())}
+                    className="h-9 w-9 rounded border cursor-pointer bg-transparent"
+                  />
+                  <Input
+                    value={draft.palette[key]}
+                    onChange={(e) => updatePalette(key, e.target.value)}
+                    className="w-28 font-mono"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {PALETTE_LABELS[key]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Fonts */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(["headingFont", "bodyFont"] as const).map((key) => (
+              <div key={key} className="space-y-2">
+                <Label>{key === "headingFont" ? "Heading font" : "Body font"}</Label>
+                <Select
+                  value={draft[key]}
+                  onValueChange={(value) => setDraft({ ...draft, [key]: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BRAND_FONTS.map((font) => (
+                      <SelectItem key={font} value={font}>
+                        {font === "System" ? "Device default" : font}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {/* Contact */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {CONTACT_FIELDS.map((field) => (
+              <div
+                key={field.key}
+                className={`space-y-2 ${field.key === "address" ? "md:col-span-2" : ""}`}
+              >
+                <Label htmlFor={`brand-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`brand-${field.key}`}
+                  placeholder={field.placeholder}
+                  value={draft.contact[field.key] || ""}
+                  onChange={(e) => updateContact(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Social links */}
+          <div className="space-y-2">
+            <Label>Social links</Label>
+            {draft.socialLinks.map((link, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={link.platform}
+                  onValueChange={(value) =>
+                    updateSocialLink(index, { platform: value as SocialPlatform })
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SOCIAL_PLATFORM_LABELS) as SocialPlatform[]).map(
+                      (platform) => (
+                        <SelectItem key={platform} value={platform}>
+                          {SOCIAL_PLATFORM_LABELS[platform]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="https://"
+                  value={link.url}
+                  onChange={(e) => updateSocialLink(index, { url: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      socialLinks: draft.socialLinks.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  socialLinks: [...draft.socialLinks, { platform: "instagram", url: "" }],
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add link
+            </Button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {scope !== RESTAURANT_SCOPE && hasMenuOverride && (
+              <Button variant="outline" onClick={handleResetMenu} disabled={saving}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Use restaurant branding
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || loading}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Branding
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2 xl:sticky xl:top-4 self-start">
+        <Label>Live preview</Label>
+        <BrandingPreview branding={draft} />
+      </div>
+    </div>
+  );
+}
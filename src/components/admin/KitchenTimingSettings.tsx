@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Timer } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { KitchenSettings, kitchenApi } from "../../lib/api/kitchen";
+import { DEFAULT_KITCHEN_SETTINGS } from "../../lib/kitchenSla";
+
+export function KitchenTimingSettings() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<KitchenSettings>(DEFAULT_KITCHEN_SETTINGS);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        setDraft(await kitchenApi.getSettings());
+      } catch (error) {
+        console.error("Error fetching kitchen settings:", error);
+        toast.error("Failed to load kitchen settings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (draft.atRiskPercent < 1 || draft.atRiskPercent > 100) {
+      toast.error("At risk must be between 1 and 100% of the preparation time");
+      return;
+    }
+    if (draft.escalateAfterMinutes < 0) {
+      toast.error("Escalation time cannot be negative");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setDraft(await kitchenApi.updateSettings(draft));
+      toast.success("Kitchen settings saved");
+    } catch (error) {
+      console.error("Error saving kitchen settings:", error);
+      toast.error("Failed to save kitchen settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Ticket Timers
+        </CardTitle>
+        <CardDescription>
+          Chef and waiter screens time every ticket against the longest preparation
+          time in the order, and late tickets move to the top.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="at-risk-percent">At risk after (% of preparation time)</Label>
+          <Input
+            id="at-risk-percent"
+            type="number"
+            min={1}
+            max={100}
+            value={draft.atRiskPercent}
+            onChange={(e) =>
+              setDraft({ ...draft, atRiskPercent: parseInt(e.target.value, 10) || 0 })
+            }
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="escalation-enabled">Escalate late tickets</Label>
+            <p className="text-sm text-muted-foreground">
+              Alert admins and floor managers when a ticket stays late.
+            </p>
+          </div>
+          <Switch
+            id="escalation-enabled"
+            checked={draft.escalationEnabled}
+            onCheckedChange={(checked) => setDraft({ ...draft, escalationEnabled: checked })}
+          />
+        </div>
+
+        {draft.escalationEnabled && (
+          <div className="space-y-2">
+            <Label htmlFor="escalate-after">Escalate after (minutes late)</Label>
+            <Input
+              id="escalate-after"
+              type="number"
+              min={0}
+              value={draft.escalateAfterMinutes}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  escalateAfterMinutes: parseInt(e.target.value, 10) || 0,
+                })
+              }
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Kitchen Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { Branding } from "../../lib/branding";
+
+interface BrandLogoProps {
+  branding: Pick<Branding, "name" | "logoUrl">;
+  // Height of the logo in pixels
+  height?: number;
+}
+
+// Shows the brand logo, or the brand name when no logo is set
+export default function BrandLogo({ branding, height = 42 }: BrandLogoProps) {
+  if (!branding.logoUrl) {
+    return (
+      <span className="font-brand-heading text-lg font-bold text-brand-primary">
+        {branding.name}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex-shrink-0" style={{ width: "auto", height: `${height}px` }}>
+      <img
+        src={branding.logoUrl}
+        alt={branding.name}
+        className="h-full w-auto object-contain"
+        style={{ maxWidth: "none" }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { Plus, ShoppingCart } from "lucide-react";
+import { Branding, loadBrandFonts, toCssVariables } from "../../lib/branding";
+import BrandLogo from "./BrandLogo";
+
+interface BrandingPreviewProps {
+  branding: Branding;
+}
+
+// A small mock of the guest menu rendered with the branding being edited
+export default function BrandingPreview({ branding }: BrandingPreviewProps) {
+  useEffect(() => {
+    loadBrandFonts(branding);
+  }, [branding]);
+
+  return (
+    <div
+      className="font-brand rounded-lg overflow-hidden border bg-brand-background text-white"
+      style={toCssVariables(branding)}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-brand-surface border-b border-brand-primary/20">
+        <BrandLogo branding={branding} height={32} />
+        <ShoppingCart className="h-5 w-5 text-brand-primary" />
+      </div>
+
+      {branding.heroImageUrl && (
+        <img
+          src={branding.heroImageUrl}
+          alt={branding.name}
+          className="w-full h-28 object-cover"
+        />
+      )}
+
+      <div className="p-4 space-y-3">
+        <h2 className="font-brand-heading text-lg font-bold border-b border-brand-muted pb-2 text-brand-primary">
+          Starters
+        </h2>
+
+        <div className="bg-brand-surface rounded-lg p-3 border border-brand-muted">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h3 className="font-brand-heading font-bold text-brand-primary">
+                Paneer Tikka
+              </h3>
+              <p className="text-xs text-gray-300 mt-1">
+                Cottage cheese marinated in spices and grilled in the tandoor.
+              </p>
+            </div>
+            <span className="text-xs px-2 py-0.5 rounded-full bg-brand-muted text-brand-accent">
+              Chef's pick
+            </span>
+          </div>
+          <div className="flex items-center justify-between mt-3">
+            <span className="font-medium text-white">₹280.00</span>
+            <button
+              type="button"
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-brand-primary text-brand-on-primary hover:bg-brand-primary-hover transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              ADD
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-brand-surface-alt rounded-lg px-3 py-2 text-sm text-gray-300">
+          Search the menu...
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-3 border-t border-brand-primary/15 text-xs text-gray-200 space-y-1">
+        {branding.contact.address && <p>📍 {branding.contact.address}</p>}
+        {branding.contact.phone && <p>📞 {branding.contact.phone}</p>}
+        {branding.contact.email && <p>✉️ {branding.contact.email}</p>}
+        {branding.contact.hours && (
+          <p className="text-brand-primary">{branding.contact.hours}</p>
+        )}
+      </div>
+    </div>
+  );
+}
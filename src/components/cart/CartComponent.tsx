@@ -1,6 +1,24 @@
 import React, { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { CartItem, Cart, cartApi } from "../../lib/api/cart";
+import axios from "axios";
+import {
+  CartItem,
+  Cart,
+  cartApi,
+  CartItemAuthor,
+  CartOrderPlacedEvent,
+  CartOrderPlacingEvent,
+  CartUpdatedEvent,
+} from "../../lib/api/cart";
+import { formatModifiers, getModifiersTotal } from "../../lib/utils";
+import { formatComboItems } from "../../lib/combos";
+import { MenuItem, SelectedComboItem } from "../../lib/api/menuItems";
+import { ItemPairings } from "../../lib/api/menus";
+import { getSuggestions } from "../../lib/upsell";
+import UpsellCarousel from "../menu/UpsellCarousel";
+import { useSocket } from "../../lib/SocketContext";
+import { getGuestId, getGuestName, setGuestName } from "../../lib/GuestIdentity";
+import { getLocalizedName, LanguageCode, Translate } from "../../lib/i18n";
 import {
   Plus,
   Minus,
@@ -9,21 +27,36 @@ import {
   ShoppingCart,
   CheckCircle,
   Pizza,
-  Loader
+  Loader,
+  MessageSquare,
+  User
 } from "lucide-react";
 
+// Unlock the cart if the guest placing the order is not heard from again,
+// e.g. because their request failed or they closed the tab
+const PLACING_LOCK_TIMEOUT_MS = 30 * 1000;
+
 interface CartComponentProps {
   tableId: number;
   isOpen: boolean;
   onClose: () => void;
   onCartUpdate: (cartItemCount: number) => void;
+  // Items on the menu being shown, used for "goes well with" suggestions
+  menuItems?: MenuItem[];
+  pairings?: ItemPairings;
+  language: LanguageCode;
+  t: Translate;
 }
 
 const CartComponent: React.FC<CartComponentProps> = ({
   tableId,
   isOpen,
   onClose,
-  onCartUpdate
+  onCartUpdate,
+  menuItems = [],
+  pairings,
+  language,
+  t
 }) => {
   const [cart, setCart] = useState<Cart | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -31,6 +64,15 @@ const CartComponent: React.FC<CartComponentProps> = ({
   const [placingOrder, setPlacingOrder] = useState<boolean>(false);
   const [orderSuccess, setOrderSuccess] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [editingNoteId, setEditingNoteId] = useState<number | null>(null);
+  const [noteDraft, setNoteDraft] = useState<string>("");
+  const [notice, setNotice] = useState<string | null>(null);
+  // Another guest at the table who is currently placing the order
+  const [placingBy, setPlacingBy] = useState<CartItemAuthor | null>(null);
+  const [guestName, setGuestNameState] = useState<string>(getGuestName());
+  const [editingName, setEditingName] = useState<boolean>(false);
+  const { socket } = useSocket();
+  const guestId = getGuestId();
 
   // Fetch cart when component mounts and whenever it opens
   useEffect(() => {
@@ -39,6 +81,50 @@ const CartComponent: React.FC<CartComponentProps> = ({
     }
   }, [isOpen, tableId]);
 
+  // Never leave the cart locked by another guest for good
+  useEffect(() => {
+    if (!placingBy) return;
+
+    const timeout = setTimeout(() => setPlacingBy(null), PLACING_LOCK_TIMEOUT_MS);
+    return () => clearTimeout(timeout);
+  }, [placingBy]);
+
+  // Keep the cart in sync with the other devices at this table
+  useEffect(() => {
+    if (!tableId) return;
+
+    const onCartUpdated = (event: CartUpdatedEvent) => {
+      if (event.tableId !== tableId) return;
+      setCart(event.cart);
+      setPlacingBy(null);
+    };
+
+    const onOrderPlacing = (event: CartOrderPlacingEvent) => {
+      if (event.tableId !== tableId) return;
+      if (event.placedBy && event.placedBy.guestId !== guestId) {
+        setPlacingBy(event.placedBy);
+      }
+    };
+
+    const onOrderPlaced = (event: CartOrderPlacedEvent) => {
+      if (event.tableId !== tableId) return;
+      setPlacingBy(null);
+      if (event.placedBy && event.placedBy.guestId !== guestId) {
+        setNotice(t("orderPlacedBy", { name: event.placedBy.name, id: event.orderId }));
+      }
+    };
+
+    socket.on("cart:updated", onCartUpdated);
+    socket.on("cart:order-placing", onOrderPlacing);
+    socket.on("cart:order-placed", onOrderPlaced);
+
+    return () => {
+      socket.off("cart:updated", onCartUpdated);
+      socket.off("cart:order-placing", onOrderPlacing);
+      socket.off("cart:order-placed", onOrderPlaced);
+    };
+  }, [socket, tableId, guestId, t]);
+
   const fetchCart = async () => {
     try {
       setLoading(true);
@@ -48,7 +134,7 @@ const CartComponent: React.FC<CartComponentProps> = ({
       onCartUpdate(cartData.items.length);
     } catch (err) {
       console.error("Error fetching cart:", err);
-      setError("Failed to load cart. Please try again.");
+      setError(t("loadCartFailed"));
     } finally {
       setLoading(false);
     }
@@ -63,7 +149,26 @@ const CartComponent: React.FC<CartComponentProps> = ({
       await fetchCart();
     } catch (err) {
       console.error("Error updating item quantity:", err);
-      setError("Failed to update quantity. Please try again.");
+      setError(t("updateQuantityFailed"));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const startEditingNote = (item: CartItem) => {
+    setEditingNoteId(item.id);
+    setNoteDraft(item.notes || "");
+  };
+
+  const saveNote = async (item: CartItem) => {
+    try {
+      setUpdating(true);
+      await cartApi.updateCartItem(item.id, item.quantity, noteDraft.trim());
+      setEditingNoteId(null);
+      await fetchCart();
+    } catch (err) {
+      console.error("Error saving note:", err);
+      setError(t("saveNoteFailed"));
     } finally {
       setUpdating(false);
     }
@@ -76,17 +181,42 @@ const CartComponent: React.FC<CartComponentProps> = ({
       await fetchCart();
     } catch (err) {
       console.error("Error removing item:", err);
-      setError("Failed to remove item. Please try again.");
+      setError(t("removeItemFailed"));
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Add a suggested item as a plain line; suggestions never need any choices
+  const addSuggestion = async (item: MenuItem) => {
+    try {
+      setUpdating(true);
+      await cartApi.addToCart(tableId, item.id, 1);
+      await fetchCart();
+    } catch (err) {
+      console.error("Error adding suggested item:", err);
+      setError(t("addItemFailed"));
+      throw err;
     } finally {
       setUpdating(false);
     }
   };
 
+  const cartItemIds = cart?.items.map((item) => item.itemId) || [];
+  const suggestions = getSuggestions(cartItemIds, menuItems, pairings, cartItemIds);
+
+  const saveGuestName = () => {
+    setGuestName(guestName);
+    setGuestNameState(getGuestName());
+    setEditingName(false);
+  };
+
   const placeOrder = async () => {
     try {
       setPlacingOrder(true);
       setError(null);
-      await cartApi.placeOrder(tableId);
+      setNotice(null);
+      await cartApi.placeOrder(tableId, cart?.version);
       setOrderSuccess(true);
       await fetchCart(); // Refresh cart after placing order (should be empty)
       
@@ -96,7 +226,14 @@ const CartComponent: React.FC<CartComponentProps> = ({
       }, 3000);
     } catch (err) {
       console.error("Error placing order:", err);
-      setError("Failed to place order. Please try again.");
+      setPlacingBy(null);
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        // Someone else changed the cart or is already placing the order
+        setNotice(t("cartChangedByOthers"));
+        await fetchCart();
+      } else {
+        setError(t("placeOrderFailed"));
+      }
     } finally {
       setPlacingOrder(false);
     }
@@ -110,21 +247,36 @@ const CartComponent: React.FC<CartComponentProps> = ({
     }).format(price);
   };
 
-  // Get the price for an item, handling fullPrice and halfPrice
-  const getItemPrice = (item: any, isHalfPortion: boolean = false): number => {
-    if (isHalfPortion && item.halfPrice) {
-      return item.halfPrice;
-    }
-    return item.fullPrice || 0;
+  // Get the unit price for a cart line, handling the chosen portion and modifiers
+  const getLinePrice = (cartItem: CartItem): number => {
+    const basePrice = cartItem.variant
+      ? cartItem.variant.price
+      : cartItem.item.fullPrice || 0;
+    return basePrice + getModifiersTotal(cartItem.modifiers);
+  };
+
+  // Name of a menu item in the guest's language, preferring the menu's copy of the item
+  const getMenuItemName = (itemId: number, fallback: string) => {
+    const menuItem = menuItems.find((candidate) => candidate.id === itemId);
+    return menuItem ? getLocalizedName(menuItem, language) : fallback;
   };
 
+  const getCartItemName = (cartItem: CartItem) =>
+    getMenuItemName(cartItem.itemId, getLocalizedName(cartItem.item, language));
+
+  const localizeComboItems = (comboItems: SelectedComboItem[]) =>
+    comboItems.map((comboItem) => ({
+      ...comboItem,
+      name: getMenuItemName(comboItem.itemId, comboItem.name),
+    }));
+
   // Empty cart view
   const EmptyCartView = () => (
     <div className="flex flex-col items-center justify-center py-12">
       <ShoppingCart className="h-16 w-16 text-gray-400 mb-4" />
-      <h3 className="text-lg font-medium text-gray-300 mb-1">Your cart is empty</h3>
+      <h3 className="text-lg font-medium text-gray-300 mb-1">{t("cartEmpty")}</h3>
       <p className="text-sm text-gray-500 max-w-xs text-center">
-        Add some delicious items from the menu to place an order.
+        {t("cartEmptyHint")}
       </p>
     </div>
   );
@@ -137,9 +289,9 @@ const CartComponent: React.FC<CartComponentProps> = ({
       className="flex flex-col items-center justify-center py-12"
     >
       <CheckCircle className="h-16 w-16 text-green-500 mb-4" />
-      <h3 className="text-lg font-medium text-gray-300 mb-1">Order Placed Successfully!</h3>
+      <h3 className="text-lg font-medium text-gray-300 mb-1">{t("orderPlaced")}</h3>
       <p className="text-sm text-gray-500 max-w-xs text-center">
-        Your order has been received and is being prepared.
+        {t("orderPlacedHint")}
       </p>
     </motion.div>
   );
@@ -166,7 +318,7 @@ const CartComponent: React.FC<CartComponentProps> = ({
             <div className="sticky top-0 bg-zinc-900 z-10 border-b border-zinc-800 px-4 py-4 flex justify-between items-center">
               <div className="flex items-center">
                 <ShoppingCart className="h-5 w-5 mr-2" />
-                <h2 className="text-xl font-bold">Your Order</h2>
+                <h2 className="text-xl font-bold">{t("yourOrder")}</h2>
               </div>
               <button
                 className="p-2 rounded-full hover:bg-zinc-800"
@@ -176,8 +328,51 @@ const CartComponent: React.FC<CartComponentProps> = ({
               </button>
             </div>
 
+            {/* Guest name shown on the lines this device adds */}
+            <div className="px-4 py-2 border-b border-zinc-800 flex items-center text-sm text-gray-400">
+              <User className="h-4 w-4 mr-2" />
+              {editingName ? (
+                <>
+                  <input
+                    type="text"
+                    value={guestName}
+                    maxLength={30}
+                    autoFocus
+                    onChange={(e) => setGuestNameState(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") saveGuestName();
+                    }}
+                    className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white focus:outline-none"
+                  />
+                  <button
+                    className="ml-2 text-green-500 hover:text-green-400"
+                    onClick={saveGuestName}
+                  >
+                    {t("save")}
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span>
+                    {t("orderingAs")} <span className="text-white">{guestName}</span>
+                  </span>
+                  <button
+                    className="ml-2 underline hover:text-white"
+                    onClick={() => setEditingName(true)}
+                  >
+                    {t("change")}
+                  </button>
+                </>
+              )}
+            </div>
+
             {/* Cart Content */}
             <div className="px-4 py-4">
+              {notice && (
+                <div className="mb-4 rounded-md bg-amber-500/10 text-amber-400 text-sm p-3">
+                  {notice}
+                </div>
+              )}
               {loading ? (
                 <div className="flex justify-center items-center h-48">
                   <Loader className="h-8 w-8 animate-spin text-gray-500" />
@@ -198,7 +393,7 @@ const CartComponent: React.FC<CartComponentProps> = ({
                           {item.item.imageUrl ? (
                             <img
                               src={item.item.imageUrl}
-                              alt={item.item.name}
+                              alt={getCartItemName(item)}
                               className="h-full w-full object-cover"
                             />
                           ) : (
@@ -210,9 +405,26 @@ const CartComponent: React.FC<CartComponentProps> = ({
                         <div className="flex flex-1 flex-col">
                           <div className="flex justify-between text-base font-medium">
                             <div>
-                              <h3 className="text-white">{item.item.name}</h3>
-                              {item.isHalfPortion && (
-                                <span className="text-xs text-amber-400">Half Portion</span>
+                              <h3 className="text-white">{getCartItemName(item)}</h3>
+                              {item.variant && (
+                                <span className="text-xs text-amber-400">{item.variant.name}</span>
+                              )}
+                              {item.comboItems && item.comboItems.length > 0 && (
+                                <p className="text-xs text-gray-400">
+                                  {formatComboItems(localizeComboItems(item.comboItems))}
+                                </p>
+                              )}
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <p className="text-xs text-gray-400">
+                                  {formatModifiers(item.modifiers)}
+                                </p>
+                              )}
+                              {item.addedBy && (
+                                <p className="text-xs text-gray-500">
+                                  {item.addedBy.guestId === guestId
+                                    ? t("addedByYou")
+                                    : t("addedBy", { name: item.addedBy.name })}
+                                </p>
                               )}
                               {item.item.tags && item.item.tags.length > 0 && (
                                 <div className="flex gap-1 mt-1">
@@ -225,12 +437,44 @@ const CartComponent: React.FC<CartComponentProps> = ({
                               )}
                             </div>
                             <p className="ml-4 text-white">
-                              {formatPrice(getItemPrice(item.item, item.isHalfPortion) * item.quantity)}
+                              {formatPrice(getLinePrice(item) * item.quantity)}
                             </p>
                           </div>
                           <p className="mt-1 text-sm text-gray-500 line-clamp-1">
-                            {formatPrice(getItemPrice(item.item, item.isHalfPortion))} each
+                            {t("priceEach", { price: formatPrice(getLinePrice(item)) })}
                           </p>
+                          {editingNoteId === item.id ? (
+                            <div className="mt-2 flex gap-2">
+                              <input
+                                type="text"
+                                value={noteDraft}
+                                maxLength={200}
+                                autoFocus
+                                onChange={(e) => setNoteDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") saveNote(item);
+                                  if (e.key === "Escape") setEditingNoteId(null);
+                                }}
+                                placeholder={t("notePlaceholder")}
+                                className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none"
+                              />
+                              <button
+                                className="text-sm text-green-500 hover:text-green-400 disabled:opacity-50"
+                                onClick={() => saveNote(item)}
+                                disabled={updating}
+                              >
+                                {t("save")}
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              className="mt-1 flex items-center text-xs text-gray-400 hover:text-white text-left"
+                              onClick={() => startEditingNote(item)}
+                            >
+                              <MessageSquare className="h-3 w-3 mr-1 flex-shrink-0" />
+                              {item.notes ? <span className="italic">"{item.notes}"</span> : t("addNote")}
+                            </button>
+                          )}
                           <div className="flex items-center justify-between mt-2">
                             <div className="flex border border-zinc-700 rounded">
                               <button
@@ -264,24 +508,41 @@ const CartComponent: React.FC<CartComponentProps> = ({
                     ))}
                   </ul>
 
+                  {/* Items that go well with what is already in the cart */}
+                  {suggestions.length > 0 && (
+                    <div className="border-t border-zinc-800 pt-4 mt-4">
+                      <UpsellCarousel
+                        items={suggestions}
+                        onAdd={addSuggestion}
+                        getItemName={(item) => getLocalizedName(item, language)}
+                        t={t}
+                      />
+                    </div>
+                  )}
+
                   {/* Cart Summary */}
                   <div className="border-t border-zinc-800 pt-4 mt-4">
                     <div className="flex justify-between text-base font-medium text-white mb-4">
-                      <p>Subtotal</p>
+                      <p>{t("subtotal")}</p>
                       <p>{formatPrice(cart?.total || 0)}</p>
                     </div>
+                    {placingBy && (
+                      <p className="text-sm text-amber-400 mb-2 text-center">
+                        {t("placingOrderFor", { name: placingBy.name })}
+                      </p>
+                    )}
                     <button
                       onClick={placeOrder}
-                      disabled={placingOrder || cart?.items.length === 0}
+                      disabled={placingOrder || !!placingBy || cart?.items.length === 0}
                       className="w-full bg-green-600 text-white py-3 px-4 rounded-md font-medium hover:bg-green-700 transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-zinc-900 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {placingOrder ? (
                         <span className="flex items-center justify-center">
                           <Loader className="animate-spin -ml-1 mr-2 h-4 w-4" />
-                          Processing...
+                          {t("processing")}
                         </span>
                       ) : (
-                        "Place Order"
+                        t("placeOrder")
                       )}
                     </button>
                   </div>
@@ -9,7 +9,15 @@ import {
   FormMessage,
 } from "../ui/form";
 import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
 import { useForm } from "react-hook-form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
 import { useState, useEffect } from "react";
 import { useDropzone } from "react-dropzone";
 import {
@@ -17,7 +25,10 @@ import {
   CreateCategoryPayload,
   UpdateCategoryPayload,
 } from "../../lib/api/categories";
+import { KitchenStation } from "../../lib/api/stations";
 import ImagePreview from "../ImagePreview";
+import TranslationsEditor from "../TranslationsEditor";
+import { cleanTranslations, ContentTranslations } from "../../lib/i18n";
 import { useToast } from "../ui/use-toast";
 import { Loader2 } from "lucide-react";
 
@@ -25,6 +36,9 @@ import { Loader2 } from "lucide-react";
 type FormData = {
   name: string;
   description?: string;
+  translations: ContentTranslations;
+  // Station id as a string, or "none"
+  stationId: string;
   image?: File;
 };
 
@@ -33,6 +47,7 @@ interface CategoryDialogProps {
   onOpenChange: (open: boolean) => void;
   onSubmit: (data: CreateCategoryPayload | UpdateCategoryPayload) => void;
   category?: Category;
+  stations?: KitchenStation[];
   title?: string;
   description?: string;
 }
@@ -42,12 +57,16 @@ export default function CategoryDialog({
   onOpenChange,
   onSubmit,
   category,
+  stations = [],
   title,
   description,
 }: CategoryDialogProps) {
   const form = useForm<FormData>({
     defaultValues: {
       name: "",
+      description: "",
+      translations: {},
+      stationId: "none",
       image: undefined,
     },
   });
@@ -60,11 +79,17 @@ export default function CategoryDialog({
     if (category) {
       form.reset({
         name: category.name,
+        description: category.description || "",
+        translations: category.translations || {},
+        stationId: category.stationId ? category.stationId.toString() : "none",
         image: undefined,
       });
     } else {
       form.reset({
         name: "",
+        description: "",
+        translations: {},
+        stationId: "none",
         image: undefined,
       });
     }
@@ -96,6 +121,8 @@ export default function CategoryDialog({
   });
 
   const image = form.watch("image");
+  const name = form.watch("name");
+  const categoryDescription = form.watch("description");
 
   const handleSubmit = async (values: FormData) => {
     // Validate required fields
@@ -114,6 +141,8 @@ export default function CategoryDialog({
       const payload: CreateCategoryPayload = {
         name: values.name,
         description: values.description,
+        translations: cleanTranslations(values.translations),
+        stationId: values.stationId === "none" ? null : parseInt(values.stationId, 10),
         image: values.image,
       };
       
@@ -161,6 +190,65 @@ export default function CategoryDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Category description" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="stationId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kitchen station</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="No station" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No station</SelectItem>
+                      {stations.map((station) => (
+                        <SelectItem key={station.id} value={station.id.toString()}>
+                          {station.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="translations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Translations (optional)</FormLabel>
+                  <FormControl>
+                    <TranslationsEditor
+                      value={field.value || {}}
+                      onChange={field.onChange}
+                      originalName={name}
+                      originalDescription={categoryDescription}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="image"
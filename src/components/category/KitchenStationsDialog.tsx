@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { DeleteConfirmDialog } from "../menu/DeleteConfirmDialog";
+import { KitchenStation, stationsApi } from "../../lib/api/stations";
+
+interface KitchenStationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stations: KitchenStation[];
+  onStationsChange: (stations: KitchenStation[]) => void;
+}
+
+export function KitchenStationsDialog({
+  open,
+  onOpenChange,
+  stations,
+  onStationsChange,
+}: KitchenStationsDialogProps) {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Station waiting for the delete to be confirmed
+  const [deletingStation, setDeletingStation] = useState<KitchenStation | null>(null);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    try {
+      setSaving(true);
+      const station = await stationsApi.create({ name, sortOrder: stations.length });
+      onStationsChange([...stations, station]);
+      setNewName("");
+      toast.success(`Added ${station.name}`);
+    } catch {
+      toast.error("Failed to add station");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (station: KitchenStation) => {
+    const name = editingName.trim();
+    if (!name) return;
+
+    try {
+      setSaving(true);
+      const updated = await stationsApi.update(station.id, {
+        name,
+        sortOrder: station.sortOrder,
+      });
+      onStationsChange(stations.map((s) => (s.id === station.id ? updated : s)));
+      setEditingId(null);
+    } catch {
+      toast.error("Failed to rename station");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingStation) return;
+    const station = deletingStation;
+
+    try {
+      setSaving(true);
+      await stationsApi.delete(station.id);
+      onStationsChange(stations.filter((s) => s.id !== station.id));
+      toast.success(`Removed ${station.name}`);
+    } catch {
+      toast.error("Failed to remove station");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Kitchen Stations</DialogTitle>
+          <DialogDescription>
+            Each station sees only its own lines of an order on the chef screen. Assign a
+            station to a category, or to an item to override its category.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {stations.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No stations yet, e.g. "Grill", "Tandoor", "Bar" or "Desserts".
+            </p>
+          )}
+          {stations.map((station) => (
+            <div key={station.id} className="flex items-center gap-2 rounded-md border p-2">
+              {editingId === station.id ? (
+                <>
+                  <Input
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(station);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={saving}
+                    onClick={() => handleRename(station)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 text-sm">{station.name}</span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => {
+                      setEditingId(station.id);
+                      setEditingName(station.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={saving}
+                    onClick={() => setDeletingStation(station)}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New station name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+          />
+          <Button onClick={handleCreate} disabled={saving || !newName.trim()}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </Button>
+        </div>
+      </DialogContent>
+
+      <DeleteConfirmDialog
+        open={deletingStation !== null}
+        onOpenChange={(open) => !open && setDeletingStation(null)}
+        onConfirm={handleDelete}
+        title="Delete Kitchen Station"
+        description={`Are you sure you want to delete ${deletingStation?.name}? Items and categories sent to it will show at every station until they are assigned another one.`}
+      />
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import React from "react";
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  // Rating from 0 to 5; fractions are rounded to the nearest star
+  value: number;
+  // Makes the stars clickable; leave out to only display the rating
+  onChange?: (rating: number) => void;
+  size?: "sm" | "md" | "lg";
+  label?: string;
+}
+
+const STAR_SIZES = {
+  sm: "h-3 w-3",
+  md: "h-5 w-5",
+  lg: "h-8 w-8",
+};
+
+const StarRating: React.FC<StarRatingProps> = ({
+  value,
+  onChange,
+  size = "md",
+  label,
+}) => {
+  const rounded = Math.round(value);
+
+  return (
+    <div className="flex items-center gap-0.5" aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={`${STAR_SIZES[size]} ${
+              star <= rounded ? "fill-amber-400 text-amber-400" : "text-gray-400"
+            }`}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            className="p-0.5"
+            onClick={() => onChange(star)}
+          >
+            {icon}
+            <span className="sr-only">
+              {star} {star === 1 ? "star" : "stars"}
+            </span>
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
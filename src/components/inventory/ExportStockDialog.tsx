@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { useToast } from "../ui/use-toast";
+import { inventoryApi, StockReport } from "../../lib/api/inventory";
+import { downloadBlob } from "../../lib/utils";
+
+interface ExportStockDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: StockReport;
+}
+
+// What each export is called and the columns it contains
+const REPORT_DETAILS: Record<StockReport, { title: string; columns: [string, string][] }> = {
+  receipts: {
+    title: "Goods Received",
+    columns: [
+      ["receivedAt", "Date and time the delivery was received"],
+      ["supplier", "Supplier name"],
+      ["invoiceNumber", "Supplier invoice number"],
+      ["stockItem", "Ingredient received"],
+      ["quantity", "Quantity, in the ingredient's unit"],
+      ["unitCost", "Cost per unit on the invoice"],
+      ["receivedBy", "Staff member who received it"],
+    ],
+  },
+  wastage: {
+    title: "Wastage",
+    columns: [
+      ["loggedAt", "Date and time the wastage was logged"],
+      ["stockItem", "Ingredient wasted"],
+      ["quantity", "Quantity, in the ingredient's unit"],
+      ["reason", "Spoiled, Dropped, Staff meal or Other"],
+      ["note", "Note left with the entry"],
+      ["loggedBy", "Staff member who logged it"],
+    ],
+  },
+  "stock-takes": {
+    title: "Stock-Takes",
+    columns: [
+      ["countedAt", "Date and time of the count"],
+      ["stockItem", "Ingredient counted"],
+      ["theoretical", "Stock the system expected"],
+      ["counted", "Stock actually counted"],
+      ["variance", "Counted minus expected"],
+      ["countedBy", "Staff member who counted"],
+    ],
+  },
+};
+
+export default function ExportStockDialog({ open, onOpenChange, report }: ExportStockDialogProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const details = REPORT_DETAILS[report];
+
+  // Default to the last 30 days each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setFrom(format(subDays(new Date(), 30), "yyyy-MM-dd"));
+    setTo(format(new Date(), "yyyy-MM-dd"));
+  }, [open]);
+
+  const handleExport = async () => {
+    if (from && to && from > to) {
+      toast({
+        title: "Invalid date range",
+        description: "The start date must be on or before the end date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await inventoryApi.exportToExcel(report, {
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+      });
+      downloadBlob(blob, `${report}-${from || "all"}-to-${to || "now"}.xlsx`);
+      toast({
+        title: "Export Successful",
+        description: `${details.title} downloaded`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error(`Error exporting ${report}:`, error);
+      toast({
+        title: "Export Failed",
+        description: `There was an error exporting ${details.title.toLowerCase()}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Export {details.title} to Excel
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="text-sm text-muted-foreground">
+            <p>Downloads an Excel file (.xlsx) with one row per line and the following columns:</p>
+            <ul className="list-disc pl-5 mt-2">
+              {details.columns.map(([column, description]) => (
+                <li key={column}>
+                  <strong>{column}</strong> - {description}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">From</Label>
+              <Input
+                id="export-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">To</Label>
+              <Input
+                id="export-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={isExporting}>
+              {isExporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Loader2, Plus, Save, Trash2, Truck } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  GoodsReceipt,
+  GoodsReceiptLine,
+  inventoryApi,
+  StockItem,
+  Supplier,
+} from "../../lib/api/inventory";
+import { formatStockQuantity, getReceiptTotal } from "../../lib/inventory";
+import { formatPrice } from "../../lib/utils";
+
+interface GoodsReceivedTabProps {
+  stockItems: StockItem[];
+  suppliers: Supplier[];
+  onSupplierCreated: (supplier: Supplier) => void;
+  // Called once a delivery has been added to stock
+  onStockChanged: () => void;
+}
+
+const NEW_SUPPLIER = "new";
+
+// Records deliveries from suppliers against the ingredients they brought
+export default function GoodsReceivedTab({
+  stockItems,
+  suppliers,
+  onSupplierCreated,
+  onStockChanged,
+}: GoodsReceivedTabProps) {
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [supplierId, setSupplierId] = useState("");
+  const [newSupplierName, setNewSupplierName] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [lines, setLines] = useState<GoodsReceiptLine[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchReceipts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReceipts(await inventoryApi.getReceipts());
+    } catch (err) {
+      console.error("Error fetching goods receipts:", err);
+      toast.error("Failed to load goods received");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReceipts();
+  }, [fetchReceipts]);
+
+  // Update a single line by index
+  const updateLine = (index: number, changes: Partial<GoodsReceiptLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const resetForm = () => {
+    setSupplierId("");
+    setNewSupplierName("");
+    setInvoiceNumber("");
+    setLines([]);
+  };
+
+  const handleSave = async () => {
+    if (!supplierId || (supplierId === NEW_SUPPLIER && !newSupplierName.trim())) {
+      toast.error("Pick the supplier the delivery came from");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("Add at least one ingredient");
+      return;
+    }
+    if (lines.some((line) => !line.stockItemId || !(line.quantity > 0))) {
+      toast.error("Every line needs an ingredient and a quantity above zero");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      let id = parseInt(supplierId, 10);
+      if (supplierId === NEW_SUPPLIER) {
+        const supplier = await inventoryApi.createSupplier({ name: newSupplierName.trim() });
+        onSupplierCreated(supplier);
+        id = supplier.id;
+      }
+
+      const receipt = await inventoryApi.createReceipt({
+        supplierId: id,
+        invoiceNumber: invoiceNumber.trim() || undefined,
+        lines,
+      });
+      setReceipts((prev) => [receipt, ...prev]);
+      resetForm();
+      onStockChanged();
+      toast.success("Delivery added to stock");
+    } catch (err) {
+      console.error("Error recording goods receipt:", err);
+      toast.error("Failed to record delivery");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStockItem = (id: number) => stockItems.find((stockItem) => stockItem.id === id);
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Receive Delivery
+          </CardTitle>
+          <CardDescription>Quantities are added to on-hand stock when saved</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pick a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NEW_SUPPLIER}>+ New supplier</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-number">Invoice number</Label>
+              <Input
+                id="invoice-number"
+                placeholder="Optional"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+              />
+            </div>
+          </div>
+          {supplierId === NEW_SUPPLIER && (
+            <div className="space-y-2">
+              <Label htmlFor="new-supplier">Supplier name</Label>
+              <Input
+                id="new-supplier"
+                value={newSupplierName}
+                onChange={(e) => setNewSupplierName(e.target.value)}
+              />
+            </div>
+          )}
+
+          {lines.length > 0 && (
+            <div className="grid grid-cols-[1fr_6rem_6rem_2.5rem] gap-2 items-center">
+              <Label className="text-xs">Ingredient</Label>
+              <Label className="text-xs">Quantity</Label>
+              <Label className="text-xs">Unit cost (₹)</Label>
+              <span />
+              {lines.map((line, index) => (
+                <div key={index} className="contents">
+                  <Select
+                    value={line.stockItemId ? line.stockItemId.toString() : undefined}
+                    onValueChange={(id) => updateLine(index, { stockItemId: parseInt(id, 10) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pick an ingredient" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {stockItems.map((stockItem) => (
+                        <SelectItem key={stockItem.id} value={stockItem.id.toString()}>
+                          {stockItem.name} ({stockItem.unit})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={line.quantity || ""}
+                    onChange={(e) =>
+                      updateLine(index, { quantity: parseFloat(e.target.value) || 0 })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Optional"
+                    value={line.unitCost ?? ""}
+                    onChange={(e) =>
+                      updateLine(index, {
+                        unitCost: e.target.value ? parseFloat(e.target.value) || 0 : null,
+                      })
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setLines((prev) => [...prev, { stockItemId: 0, quantity: 0 }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add ingredient
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Receive
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle>Recent Deliveries</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : receipts.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-muted-foreground">No deliveries recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receipts.map((receipt) => (
+                  <TableRow key={receipt.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(receipt.receivedAt), "dd MMM, HH:mm")}
+                      {receipt.receivedBy && (
+                        <div className="text-xs text-muted-foreground">
+                          {receipt.receivedBy.name}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {receipt.supplier?.name ?? `Supplier #${receipt.supplierId}`}
+                      {receipt.invoiceNumber && (
+                        <div className="text-xs text-muted-foreground">
+                          Invoice {receipt.invoiceNumber}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {receipt.lines
+                        .map((line) => {
+                          const stockItem = line.stockItem ?? getStockItem(line.stockItemId);
+                          return stockItem
+                            ? `${formatStockQuantity(line.quantity, stockItem.unit)} ${stockItem.name}`
+                            : `${line.quantity} x #${line.stockItemId}`;
+                        })
+                        .join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatPrice(getReceiptTotal(receipt))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useSocket } from "../../lib/SocketContext";
+import { LowStockEvent } from "../../lib/api/inventory";
+import { formatStockQuantity, getStockStatus } from "../../lib/inventory";
+
+// Alerts staff when an ingredient falls to its low-stock level or runs out
+export default function LowStockAlerts() {
+  const { socket } = useSocket();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const onLowStock = ({ stockItem }: LowStockEvent) => {
+      const isOut = getStockStatus(stockItem) === "out";
+      const notify = isOut ? toast.error : toast.warning;
+
+      notify(
+        isOut ? `${stockItem.name} has run out` : `${stockItem.name} is running low`,
+        {
+          id: `low-stock-${stockItem.id}`,
+          description: isOut
+            ? "Items that use it are hidden from the menu until it is restocked."
+            : `${formatStockQuantity(stockItem.onHand, stockItem.unit)} left`,
+          duration: 15000,
+          action: {
+            label: "View",
+            onClick: () => navigate("/admin/inventory"),
+          },
+        }
+      );
+    };
+
+    socket.on("inventory:low-stock", onLowStock);
+    return () => {
+      socket.off("inventory:low-stock", onLowStock);
+    };
+  }, [socket, navigate]);
+
+  return null;
+}
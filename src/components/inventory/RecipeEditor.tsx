@@ -0,0 +1,106 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { RecipeIngredient, StockItem } from "../../lib/api/inventory";
+
+interface RecipeEditorProps {
+  value: RecipeIngredient[];
+  onChange: (ingredients: RecipeIngredient[]) => void;
+  stockItems: StockItem[];
+}
+
+// Edits how much of each stock item one portion of a menu item uses
+export default function RecipeEditor({ value, onChange, stockItems }: RecipeEditorProps) {
+  // Update a single ingredient by index
+  const updateIngredient = (index: number, changes: Partial<RecipeIngredient>) => {
+    onChange(
+      value.map((ingredient, i) => (i === index ? { ...ingredient, ...changes } : ingredient))
+    );
+  };
+
+  const addIngredient = () => {
+    onChange([...value, { stockItemId: 0, quantity: 0 }]);
+  };
+
+  const removeIngredient = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  if (stockItems.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add stock items on the Stock tab before building recipes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No ingredients yet. Items without a recipe never run out of stock.
+        </p>
+      ) : (
+        <div className="grid grid-cols-[1fr_6rem_2.5rem_2.5rem] gap-2 items-center">
+          <Label className="text-xs">Stock item</Label>
+          <Label className="text-xs">Per portion</Label>
+          <span />
+          <span />
+          {value.map((ingredient, index) => {
+            const stockItem = stockItems.find((s) => s.id === ingredient.stockItemId);
+            return (
+              <div key={index} className="contents">
+                <Select
+                  value={ingredient.stockItemId ? ingredient.stockItemId.toString() : undefined}
+                  onValueChange={(id) => updateIngredient(index, { stockItemId: parseInt(id, 10) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick an ingredient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stockItems.map((option) => (
+                      <SelectItem key={option.id} value={option.id.toString()}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={ingredient.quantity || ""}
+                  onChange={(e) =>
+                    updateIngredient(index, { quantity: parseFloat(e.target.value) || 0 })
+                  }
+                />
+                <span className="text-sm text-muted-foreground">{stockItem?.unit}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeIngredient(index)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={addIngredient}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add ingredient
+      </Button>
+    </div>
+  );
+}
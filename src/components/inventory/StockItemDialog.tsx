@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { StockItem, StockItemPayload, StockUnit } from "../../lib/api/inventory";
+import { STOCK_UNIT_LABELS } from "../../lib/inventory";
+
+interface StockItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The stock item to edit; leave out to add a new one
+  stockItem?: StockItem;
+  onSubmit: (payload: StockItemPayload) => Promise<void>;
+}
+
+const EMPTY_STOCK_ITEM: StockItemPayload = {
+  name: "",
+  unit: "kg",
+  onHand: 0,
+  lowStockThreshold: 0,
+};
+
+export function StockItemDialog({
+  open,
+  onOpenChange,
+  stockItem,
+  onSubmit,
+}: StockItemDialogProps) {
+  const [draft, setDraft] = useState<StockItemPayload>(EMPTY_STOCK_ITEM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the stock item being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      stockItem
+        ? {
+            name: stockItem.name,
+            unit: stockItem.unit,
+            onHand: stockItem.onHand,
+            lowStockThreshold: stockItem.lowStockThreshold,
+          }
+        : EMPTY_STOCK_ITEM
+    );
+    setError(null);
+  }, [open, stockItem]);
+
+  const handleSubmit = async () => {
+    if (!draft.name.trim()) {
+      setError("Name is required");
+      return;
+    }
+    if (draft.onHand < 0 || draft.lowStockThreshold < 0) {
+      setError("Quantities cannot be negative");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onSubmit({ ...draft, name: draft.name.trim() });
+      onOpenChange(false);
+    } catch {
+      // The page reports the failure
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{stockItem ? "Edit Stock Item" : "Add Stock Item"}</DialogTitle>
+          <DialogDescription>
+            An ingredient the kitchen keeps in stock, e.g. paneer, basmati rice or cola cans.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="stock-name">Name</Label>
+            <Input
+              id="stock-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Unit</Label>
+            <Select
+              value={draft.unit}
+              onValueChange={(value) => setDraft({ ...draft, unit: value as StockUnit })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STOCK_UNIT_LABELS) as StockUnit[]).map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {STOCK_UNIT_LABELS[unit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-on-hand">On hand ({draft.unit})</Label>
+              <Input
+                id="stock-on-hand"
+                type="number"
+                min={0}
+                step="any"
+                value={draft.onHand}
+                onChange={(e) => setDraft({ ...draft, onHand: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-threshold">Low stock at ({draft.unit})</Label>
+              <Input
+                id="stock-threshold"
+                type="number"
+                min={0}
+                step="any"
+                value={draft.lowStockThreshold}
+                onChange={(e) =>
+                  setDraft({ ...draft, lowStockThreshold: parseFloat(e.target.value) || 0 })
+                }
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {stockItem ? "Save" : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ClipboardList, Loader2, Save } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { inventoryApi, StockItem, StockTake, StockTakeLine } from "../../lib/api/inventory";
+import {
+  formatStockQuantity,
+  formatVariance,
+  getStockTakeVariance,
+  isSignificantVariance,
+} from "../../lib/inventory";
+
+interface StockTakeTabProps {
+  stockItems: StockItem[];
+  // Called once on-hand stock has been reset to the counts
+  onStockChanged: () => void;
+}
+
+// Colour for a variance, by whether it is bigger than counting noise
+const getVarianceClass = (line: Pick<StockTakeLine, "theoreticalQuantity" | "countedQuantity">) =>
+  !isSignificantVariance(line)
+    ? "text-muted-foreground"
+    : line.countedQuantity < line.theoreticalQuantity
+      ? "text-destructive font-medium"
+      : "text-amber-600 font-medium";
+
+// Counts what is on the shelf and compares it with theoretical stock
+export default function StockTakeTab({ stockItems, onStockChanged }: StockTakeTabProps) {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const fetchStockTakes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setStockTakes(await inventoryApi.getStockTakes());
+    } catch (err) {
+      console.error("Error fetching stock-takes:", err);
+      toast.error("Failed to load stock-takes");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [fetchStockTakes]);
+
+  const sortedStockItems = [...stockItems].sort((a, b) => a.name.localeCompare(b.name));
+  const countedItems = sortedStockItems.filter((stockItem) => counts[stockItem.id]?.trim());
+
+  const handleSave = async () => {
+    if (countedItems.length === 0) {
+      toast.error("Enter a count for at least one ingredient");
+      return;
+    }
+    if (countedItems.some((stockItem) => !(parseFloat(counts[stockItem.id]) >= 0))) {
+      toast.error("Counts cannot be negative");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const stockTake = await inventoryApi.createStockTake({
+        note: note.trim() || undefined,
+        lines: countedItems.map((stockItem) => ({
+          stockItemId: stockItem.id,
+          countedQuantity: parseFloat(counts[stockItem.id]),
+        })),
+      });
+      setStockTakes((prev) => [stockTake, ...prev]);
+      setCounts({});
+      setNote("");
+      onStockChanged();
+      toast.success(
+        `Stock-take saved for ${countedItems.length} ingredient${countedItems.length === 1 ? "" : "s"}`
+      );
+    } catch (err) {
+      console.error("Error saving stock-take:", err);
+      toast.error("Failed to save stock-take");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Count Stock
+          </CardTitle>
+          <CardDescription>
+            Enter what is on the shelf. Saving resets on-hand stock to the counts and
+            records the variance; ingredients left blank are not changed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="text-right">Theoretical</TableHead>
+                <TableHead className="w-40">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedStockItems.map((stockItem) => {
+                const counted = counts[stockItem.id]?.trim();
+                const line = {
+                  theoreticalQuantity: stockItem.onHand,
+                  countedQuantity: parseFloat(counted) || 0,
+                };
+                const { quantity, percent } = getStockTakeVariance(line);
+                return (
+                  <TableRow key={stockItem.id}>
+                    <TableCell className="font-medium">{stockItem.name}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatStockQuantity(stockItem.onHand, stockItem.unit)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={counts[stockItem.id] ?? ""}
+                          onChange={(e) =>
+                            setCounts((prev) => ({ ...prev, [stockItem.id]: e.target.value }))
+                          }
+                        />
+                        <span className="text-sm text-muted-foreground">{stockItem.unit}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className={`text-right tabular-nums ${counted ? getVarianceClass(line) : ""}`}>
+                      {counted ? (
+                        <>
+                          {formatVariance(quantity, stockItem.unit)}
+                          {percent !== null && quantity !== 0 && (
+                            <span className="ml-1 text-xs">({Math.round(percent)}%)</span>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">–</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex items-center gap-4 p-4 border-t">
+            <Input
+              placeholder="Note, e.g. Monday close"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button onClick={handleSave} disabled={saving} className="shrink-0">
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save Count ({countedItems.length})
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Past Stock-Takes</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : stockTakes.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-muted-foreground">No stock-takes saved yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {stockTakes.map((stockTake) => {
+                const flagged = stockTake.lines.filter(isSignificantVariance).length;
+                return (
+                  <li key={stockTake.id}>
+                    <button
+                      type="button"
+                      className="w-full px-6 py-3 text-left flex items-center justify-between gap-2 hover:bg-muted transition-colors"
+                      onClick={() =>
+                        setExpandedId(expandedId === stockTake.id ? null : stockTake.id)
+                      }
+                    >
+                      <div>
+                        <div className="font-medium">
+                          {format(new Date(stockTake.countedAt), "dd MMM yyyy, HH:mm")}
+                          {stockTake.note && (
+                            <span className="ml-2 text-sm text-muted-foreground">
+                              {stockTake.note}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {stockTake.lines.length} counted
+                          {stockTake.countedBy && ` by ${stockTake.countedBy.name}`}
+                        </div>
+                      </div>
+                      <span
+                        className={`text-sm ${flagged > 0 ? "text-destructive" : "text-muted-foreground"}`}
+                      >
+                        {flagged > 0
+                          ? `${flagged} variance${flagged === 1 ? "" : "s"}`
+                          : "No variances"}
+                      </span>
+                    </button>
+                    {expandedId === stockTake.id && (
+                      <Table>
+                        <TableBody>
+                          {stockTake.lines.map((line) => {
+                            const stockItem =
+                              line.stockItem ?? stockItems.find((s) => s.id === line.stockItemId);
+                            const unit = stockItem?.unit ?? "pcs";
+                            return (
+                              <TableRow key={line.stockItemId}>
+                                <TableCell className="pl-10">
+                                  {stockItem?.name ?? `#${line.stockItemId}`}
+                                </TableCell>
+                                <TableCell className="text-right tabular-nums text-muted-foreground">
+                                  {formatStockQuantity(line.theoreticalQuantity, unit)} expected
+                                </TableCell>
+                                <TableCell className="text-right tabular-nums">
+                                  {formatStockQuantity(line.countedQuantity, unit)} counted
+                                </TableCell>
+                                <TableCell
+                                  className={`text-right tabular-nums ${getVarianceClass(line)}`}
+                                >
+                                  {formatVariance(getStockTakeVariance(line).quantity, unit)}
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
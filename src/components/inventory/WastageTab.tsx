@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Loader2, Save, Trash } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  inventoryApi,
+  StockItem,
+  WastageEntry,
+  WastageReason,
+} from "../../lib/api/inventory";
+import { formatStockQuantity, WASTAGE_REASON_LABELS } from "../../lib/inventory";
+
+interface WastageTabProps {
+  stockItems: StockItem[];
+  // Called once logged wastage has been taken off stock
+  onStockChanged: () => void;
+}
+
+// Logs stock that was thrown away or eaten by staff, with the reason why
+export default function WastageTab({ stockItems, onStockChanged }: WastageTabProps) {
+  const [entries, setEntries] = useState<WastageEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stockItemId, setStockItemId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<WastageReason>("SPOILED");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(await inventoryApi.getWastage());
+    } catch (err) {
+      console.error("Error fetching wastage:", err);
+      toast.error("Failed to load wastage");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const selectedStockItem = stockItems.find((s) => s.id.toString() === stockItemId);
+
+  const handleSave = async () => {
+    const amount = parseFloat(quantity);
+    if (!selectedStockItem) {
+      toast.error("Pick the ingredient that was wasted");
+      return;
+    }
+    if (!(amount > 0)) {
+      toast.error("Enter a quantity above zero");
+      return;
+    }
+    if (reason === "OTHER" && !note.trim()) {
+      toast.error("Add a note explaining the wastage");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const entry = await inventoryApi.logWastage({
+        stockItemId: selectedStockItem.id,
+        quantity: amount,
+        reason,
+        note: note.trim() || undefined,
+      });
+      setEntries((prev) => [entry, ...prev]);
+      setQuantity("");
+      setNote("");
+      onStockChanged();
+      toast.success(
+        `Logged ${formatStockQuantity(amount, selectedStockItem.unit)} of ${selectedStockItem.name}`
+      );
+    } catch (err) {
+      console.error("Error logging wastage:", err);
+      toast.error("Failed to log wastage");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[24rem_1fr] gap-4">
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash className="h-5 w-5" />
+            Log Wastage
+          </CardTitle>
+          <CardDescription>The quantity is taken off on-hand stock</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Ingredient</Label>
+            <Select value={stockItemId} onValueChange={setStockItemId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pick an ingredient" />
+              </SelectTrigger>
+              <SelectContent>
+                {stockItems.map((stockItem) => (
+                  <SelectItem key={stockItem.id} value={stockItem.id.toString()}>
+                    {stockItem.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wastage-quantity">
+                Quantity{selectedStockItem && ` (${selectedStockItem.unit})`}
+              </Label>
+              <Input
+                id="wastage-quantity"
+                type="number"
+                min="0"
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as WastageReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WASTAGE_REASON_LABELS) as WastageReason[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {WASTAGE_REASON_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="wastage-note">Note</Label>
+            <Input
+              id="wastage-note"
+              placeholder={reason === "OTHER" ? "Required" : "Optional"}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Log
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="self-start">
+        <CardHeader>
+          <CardTitle>Recent Wastage</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-muted-foreground">No wastage logged yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Logged</TableHead>
+                  <TableHead>Ingredient</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const stockItem =
+                    entry.stockItem ?? stockItems.find((s) => s.id === entry.stockItemId);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.loggedAt), "dd MMM, HH:mm")}
+                        {entry.loggedBy && (
+                          <div className="text-xs text-muted-foreground">
+                            {entry.loggedBy.name}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{stockItem?.name ?? `#${entry.stockItemId}`}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {stockItem
+                          ? formatStockQuantity(entry.quantity, stockItem.unit)
+                          : entry.quantity}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{WASTAGE_REASON_LABELS[entry.reason]}</Badge>
+                        {entry.note && (
+                          <div className="text-xs text-muted-foreground mt-1">{entry.note}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
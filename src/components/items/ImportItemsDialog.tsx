@@ -110,9 +110,9 @@ export default function ImportItemsDialog({
             <p>Upload an Excel file (.xlsx or .xls) with the following columns:</p>
             <ul className="list-disc pl-5 mt-2">
               <li><strong>name</strong> (required) - Item name</li>
-              <li><strong>fullPrice</strong> (required) - Full price of the item</li>
+              <li><strong>fullPrice</strong> (required unless variants are given) - Price of the item</li>
               <li><strong>category</strong> (required) - Category name (must match an existing category)</li>
-              <li><strong>halfPrice</strong> (optional) - Half price of the item</li>
+              <li><strong>variants</strong> (optional) - Portion sizes as <code>Name:Price</code> or <code>Name:Price:PrepMinutes</code> separated by <code>|</code>, e.g. <code>Half:180|Full:320</code></li>
               <li><strong>preparationTime</strong> (optional) - Preparation time in minutes</li>
               <li><strong>imageUrl</strong> (optional) - URL to the item image</li>
               <li><strong>subcategory</strong> (optional) - Subcategory name</li>
@@ -0,0 +1,89 @@
+import { CheckCheck, Layers, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { AllDayCount } from "../../lib/allDay";
+
+interface AllDayPanelProps {
+  counts: AllDayCount[];
+  onBumpAll: (count: AllDayCount) => void;
+  // Count whose lines are being bumped, to disable its button
+  bumpingKey?: string | null;
+}
+
+// Totals per dish across every open ticket, so chefs can cook in batches
+export default function AllDayPanel({ counts, onBumpAll, bumpingKey }: AllDayPanelProps) {
+  return (
+    <Card className="self-start lg:sticky lg:top-4">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Layers className="h-5 w-5" />
+          All Day
+        </CardTitle>
+        <CardDescription>Still to make across pending and preparing orders</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {counts.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">Nothing left to make.</p>
+        ) : (
+          <ul className="divide-y max-h-[calc(100vh-220px)] overflow-y-auto">
+            {counts.map((count) => (
+              <li key={count.key} className="px-6 py-3 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-start gap-3">
+                    <span className="text-2xl font-bold tabular-nums leading-none">
+                      {count.quantity}
+                    </span>
+                    <div>
+                      <div className="font-medium leading-tight">{count.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {count.ticketCount} ticket{count.ticketCount === 1 ? "" : "s"}
+                        {count.cooking > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 border-amber-500 text-amber-700 bg-amber-50 text-[10px] px-1 py-0"
+                          >
+                            {count.cooking} cooking
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    disabled={bumpingKey === count.key}
+                    title={`Mark all ${count.quantity} ${count.name} ready`}
+                    onClick={() => onBumpAll(count)}
+                  >
+                    {bumpingKey === count.key ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <CheckCheck className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                {count.modifiers.some((modifier) => modifier.label) && (
+                  <ul className="pl-9 text-xs text-muted-foreground space-y-0.5">
+                    {count.modifiers.map((modifier) => (
+                      <li key={modifier.label}>
+                        {modifier.quantity}x {modifier.label ? `+ ${modifier.label}` : "plain"}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, RotateCcw, X } from "lucide-react";
+import { Button } from "../ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import TicketTimer from "./TicketTimer";
+import PriorityBadge from "../orders/PriorityBadge";
+import { KitchenSettings } from "../../lib/api/kitchen";
+import { OrderItem, WaiterOrder } from "../../lib/api/orders";
+import { formatModifiers, formatVariantName } from "../../lib/utils";
+import { formatComboItems } from "../../lib/combos";
+import { getItemStatus, ITEM_STATUS_LABELS } from "../../lib/orderItems";
+import { getTicketTiming, SlaState } from "../../lib/kitchenSla";
+import {
+  DisplayGrid,
+  formatGrid,
+  getBumpBarAction,
+  getSavedGrid,
+  getTicketIndexForKey,
+  GRID_OPTIONS,
+  saveGrid,
+} from "../../lib/kitchenDisplay";
+
+interface KitchenDisplayProps<T extends WaiterOrder> {
+  // Tickets to show, most urgent first
+  orders: T[];
+  // The lines of a ticket this screen prepares
+  getLines: (order: T) => OrderItem[];
+  settings: KitchenSettings;
+  now: number;
+  // Station the screen is showing, if any
+  stationName?: string;
+  // Whether there is a bumped ticket to bring back
+  canRecall: boolean;
+  // Ticket whose bump is still being saved, so it is not sent twice
+  bumpingOrderId?: number | null;
+  // Ticket being recalled, so a second press does not recall it twice
+  recallingOrderId?: number | null;
+  onBump: (order: T) => void;
+  onRecall: () => void;
+  onExit: () => void;
+}
+
+// Ticket header colours for each timing state, on the dark display
+const SLA_TILE_STYLES: Record<SlaState, string> = {
+  "on-time": "bg-emerald-800",
+  "at-risk": "bg-amber-600",
+  late: "bg-red-700 animate-pulse",
+};
+
+// Full-screen tiled tickets for kitchens that work from a bump bar or keypad
+export default function KitchenDisplay<T extends WaiterOrder>({
+  orders,
+  getLines,
+  settings,
+  now,
+  stationName,
+  canRecall,
+  bumpingOrderId,
+  recallingOrderId,
+  onBump,
+  onRecall,
+  onExit,
+}: KitchenDisplayProps<T>) {
+  const [grid, setGrid] = useState<DisplayGrid>(getSavedGrid);
+  const [page, setPage] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const pageSize = grid.columns * grid.rows;
+  const pageCount = Math.max(1, Math.ceil(orders.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageOrders = orders.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  const selectedOrder = pageOrders[Math.min(selectedIndex, pageOrders.length - 1)];
+
+  // Use the whole screen while the display is open
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  const changePage = (delta: number) => {
+    setPage(Math.min(pageCount - 1, Math.max(0, currentPage + delta)));
+    setSelectedIndex(0);
+  };
+
+  const handleGridChange = (value: string) => {
+    const nextGrid = GRID_OPTIONS.find((option) => formatGrid(option) === value);
+    if (!nextGrid) return;
+    setGrid(nextGrid);
+    saveGrid(nextGrid);
+    setPage(0);
+    setSelectedIndex(0);
+  };
+
+  const isRecallEnabled = canRecall && (recallingOrderId ?? null) === null;
+
+  // Bump bar and keypad shortcuts
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      // Avoid handling keys when an input has focus
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+
+      const ticketIndex = getTicketIndexForKey(e.key);
+      if (ticketIndex !== null) {
+        if (ticketIndex < pageOrders.length) setSelectedIndex(ticketIndex);
+        return;
+      }
+
+      switch (getBumpBarAction(e.key)) {
+        case "bump":
+          e.preventDefault();
+          // A held key or a second tap must not bump the ticket again
+          if (e.repeat || !selectedOrder || selectedOrder.id === bumpingOrderId) break;
+          onBump(selectedOrder);
+          break;
+        case "recall":
+          if (!e.repeat && isRecallEnabled) onRecall();
+          break;
+        case "next-page":
+          e.preventDefault();
+          changePage(1);
+          break;
+        case "previous-page":
+          e.preventDefault();
+          changePage(-1);
+          break;
+        case "exit":
+          onExit();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyPress);
+    return () => window.removeEventListener("keydown", handleKeyPress);
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-neutral-950 text-white">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-neutral-800">
+        <div className="flex items-center gap-3">
+          <span className="text-lg font-bold">{stationName || "All stations"}</span>
+          <span className="text-sm text-neutral-400">
+            {orders.length} ticket{orders.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        <div className="text-xs text-neutral-400 hidden md:block">
+          1-9 select · Enter bump · 0 recall · arrows page · Esc exit
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-neutral-800"
+            disabled={currentPage === 0}
+            onClick={() => changePage(-1)}
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <span className="text-sm tabular-nums">
+            Page {currentPage + 1} / {pageCount}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-neutral-800"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => changePage(1)}
+          >
+            <ChevronRight className="h-5 w-5" />
+          </Button>
+          <Select value={formatGrid(grid)} onValueChange={handleGridChange}>
+            <SelectTrigger className="w-24 h-8 bg-neutral-900 border-neutral-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRID_OPTIONS.map((option) => (
+                <SelectItem key={formatGrid(option)} value={formatGrid(option)}>
+                  {formatGrid(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-neutral-800"
+            disabled={!isRecallEnabled}
+            onClick={onRecall}
+          >
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Recall
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-neutral-800"
+            onClick={onExit}
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      </div>
+
+      {orders.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-2xl text-neutral-500">
+          No tickets
+        </div>
+      ) : (
+        <div
+          className="flex-1 grid gap-2 p-2 min-h-0"
+          style={{
+            gridTemplateColumns: `repeat(${grid.columns}, minmax(0, 1fr))`,
+            gridTemplateRows: `repeat(${grid.rows}, minmax(0, 1fr))`,
+          }}
+        >
+          {pageOrders.map((order, index) => {
+            const { state } = getTicketTiming(order, settings, now);
+            const isSelected = order.id === selectedOrder?.id;
+
+            return (
+              <div
+                key={order.id}
+                className={`flex flex-col min-h-0 overflow-hidden rounded-md bg-neutral-900 cursor-pointer ${
+                  isSelected ? "ring-4 ring-yellow-400" : ""
+                }`}
+                onClick={() => setSelectedIndex(index)}
+                onDoubleClick={() => order.id !== bumpingOrderId && onBump(order)}
+              >
+                <div
+                  className={`flex items-center justify-between gap-2 px-3 py-2 ${SLA_TILE_STYLES[state]}`}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="flex h-7 w-7 items-center justify-center rounded bg-black/40 text-lg font-bold">
+                      {index + 1}
+                    </span>
+                    <span className="text-lg font-bold">
+                      T{order.table?.tableNumber ?? order.tableId}
+                    </span>
+                    <span className="text-sm opacity-80">#{order.id}</span>
+                  </span>
+                  <TicketTimer order={order} settings={settings} now={now} />
+                </div>
+                {order.priority && (
+                  <div className="px-3 pt-2">
+                    <PriorityBadge order={order} showNote />
+                  </div>
+                )}
+                <ul className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
+                  {getLines(order).map((item) => {
+                    const itemStatus = getItemStatus(item, order);
+                    const isDone = itemStatus !== "QUEUED" && itemStatus !== "COOKING";
+
+                    return (
+                      <li
+                        key={item.id}
+                        className={`text-base leading-tight ${
+                          isDone ? "text-neutral-500 line-through" : ""
+                        }`}
+                      >
+                        <span className="font-bold">{item.quantity}x</span>{" "}
+                        {formatVariantName(item.item?.name || `Item #${item.itemId}`, item.variant)}
+                        {itemStatus === "COOKING" && (
+                          <span className="ml-2 text-xs text-amber-400">
+                            {ITEM_STATUS_LABELS[itemStatus]}
+                          </span>
+                        )}
+                        {item.comboItems && item.comboItems.length > 0 && (
+                          <span className="block pl-5 text-sm text-neutral-400">
+                            {formatComboItems(item.comboItems)}
+                          </span>
+                        )}
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <span className="block pl-5 text-sm text-neutral-400">
+                            + {formatModifiers(item.modifiers)}
+                          </span>
+                        )}
+                        {item.notes && (
+                          <span className="block pl-5 text-sm font-semibold text-yellow-300">
+                            {item.notes}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
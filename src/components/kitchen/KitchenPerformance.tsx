@@ -0,0 +1,343 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { startOfDay, subDays } from "date-fns";
+import { Activity, Check, Loader2, Timer } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs";
+import { Button } from "../ui/button";
+import { ordersApi, WaiterOrder } from "../../lib/api/orders";
+import { MenuItem, menuItemsApi } from "../../lib/api/menuItems";
+import {
+  formatMinutes,
+  getHourlyThroughput,
+  getItemPrepSummaries,
+  getPrepSamples,
+  ItemPrepSummary,
+  median,
+  MIN_SAMPLES_FOR_SUGGESTION,
+  PrepSummary,
+  summarizeSamples,
+} from "../../lib/kitchenAnalytics";
+
+interface KitchenPerformanceProps {
+  items: MenuItem[];
+  // Called once a suggested preparation time has been saved to an item
+  onPreparationTimeUpdated: (itemId: number, minutes: number) => void;
+}
+
+// Periods the metrics can be worked out over, in days including today
+const PERIODS = [
+  { value: "1", label: "Today" },
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+];
+
+// Table of timings per group, shared by the station and chef tabs
+const SummaryTable = ({ summaries, label }: { summaries: PrepSummary[]; label: string }) =>
+  summaries.length === 0 ? (
+    <p className="py-6 text-center text-sm text-muted-foreground">
+      No timings recorded for any {label.toLowerCase()} yet.
+    </p>
+  ) : (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Lines</TableHead>
+          <TableHead className="text-right">Median</TableHead>
+          <TableHead className="text-right">Average</TableHead>
+          <TableHead className="text-right">Over time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {summaries.map((summary) => (
+          <TableRow key={summary.key}>
+            <TableCell className="font-medium">{summary.name}</TableCell>
+            <TableCell className="text-right tabular-nums">{summary.count}</TableCell>
+            <TableCell className="text-right tabular-nums">
+              {formatMinutes(summary.medianMinutes)}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {formatMinutes(summary.averageMinutes)}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {Math.round(summary.overRate * 100)}%
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+// Actual prep times from order timestamps, compared with each item's configured time
+export default function KitchenPerformance({
+  items,
+  onPreparationTimeUpdated,
+}: KitchenPerformanceProps) {
+  const [period, setPeriod] = useState("7");
+  const [orders, setOrders] = useState<WaiterOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applyingItemId, setApplyingItemId] = useState<number | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const from = startOfDay(subDays(new Date(), parseInt(period, 10) - 1));
+      setOrders(await ordersApi.getHistory({ from: from.toISOString() }));
+    } catch (err) {
+      console.error("Error fetching kitchen performance:", err);
+      toast.error("Failed to load kitchen performance");
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const samples = useMemo(() => getPrepSamples(orders), [orders]);
+
+  // Configured times come from the menu, so a saved suggestion shows straight away
+  const preparationTimes = useMemo(
+    () =>
+      items.reduce<Record<number, number | undefined>>((times, item) => {
+        times[item.id] = item.preparationTime;
+        return times;
+      }, {}),
+    [items]
+  );
+
+  const itemSummaries = useMemo(
+    () => getItemPrepSummaries(samples, preparationTimes),
+    [samples, preparationTimes]
+  );
+  const stationSummaries = useMemo(
+    () =>
+      summarizeSamples(samples, (sample) =>
+        sample.stationId
+          ? {
+              key: sample.stationId.toString(),
+              name: sample.stationName || `Station #${sample.stationId}`,
+            }
+          : null
+      ),
+    [samples]
+  );
+  const chefSummaries = useMemo(
+    () =>
+      summarizeSamples(samples, (sample) =>
+        sample.chef ? { key: sample.chef.id.toString(), name: sample.chef.name } : null
+      ),
+    [samples]
+  );
+  const throughput = useMemo(
+    () => getHourlyThroughput(samples, parseInt(period, 10)),
+    [samples, period]
+  );
+
+  const overCount = samples.filter(
+    (sample) => sample.expectedMinutes !== null && sample.actualMinutes > sample.expectedMinutes
+  ).length;
+
+  const applySuggestion = async ({ itemId, suggestedMinutes: minutes }: ItemPrepSummary) => {
+    if (minutes === null) return;
+    try {
+      setApplyingItemId(itemId);
+      await menuItemsApi.update(itemId, { preparationTime: minutes });
+      onPreparationTimeUpdated(itemId, minutes);
+      toast.success(`Preparation time set to ${minutes} min`);
+    } catch (err) {
+      console.error("Error updating preparation time:", err);
+      toast.error("Failed to update preparation time");
+    } finally {
+      setApplyingItemId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-primary" />
+            Kitchen Performance
+          </CardTitle>
+          <CardDescription>
+            Time from an order starting to each dish being ready
+          </CardDescription>
+        </div>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : samples.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">
+            No dishes were cooked in this period.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Dishes measured</p>
+                <p className="text-2xl font-bold">{samples.length}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Median prep time</p>
+                <p className="text-2xl font-bold">
+                  {formatMinutes(median(samples.map((sample) => sample.actualMinutes)))}
+                </p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Over their prep time</p>
+                <p className="text-2xl font-bold">
+                  {Math.round((overCount / samples.length) * 100)}%
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">
+                Dishes ready per hour{period !== "1" && " (daily average)"}
+              </h3>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={throughput} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis dataKey="label" />
+                    <YAxis allowDecimals={period !== "1"} />
+                    <Tooltip formatter={(value) => [value, "Dishes"]} />
+                    <Bar dataKey="lines" fill="hsl(var(--primary))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <Tabs defaultValue="items" className="w-full">
+              <TabsList className="mb-2">
+                <TabsTrigger value="items">By Item</TabsTrigger>
+                <TabsTrigger value="stations">By Station</TabsTrigger>
+                <TabsTrigger value="chefs">By Chef</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="items">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                      <TableHead className="text-right">Configured</TableHead>
+                      <TableHead className="text-right">Median actual</TableHead>
+                      <TableHead className="text-right">Over time</TableHead>
+                      <TableHead className="text-right">Suggested</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {itemSummaries.map((summary) => (
+                      <TableRow key={summary.key}>
+                        <TableCell className="font-medium">{summary.name}</TableCell>
+                        <TableCell className="text-right tabular-nums">{summary.count}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {summary.configuredMinutes !== null
+                            ? formatMinutes(summary.configuredMinutes)
+                            : "–"}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatMinutes(summary.medianMinutes)}
+                        </TableCell>
+                        <TableCell
+                          className={`text-right tabular-nums ${
+                            summary.overRate > 0.5 ? "text-destructive font-medium" : ""
+                          }`}
+                        >
+                          {summary.overCount}/{summary.count}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {summary.suggestedMinutes !== null ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={applyingItemId === summary.itemId}
+                              title="Use this as the item's preparation time"
+                              onClick={() => applySuggestion(summary)}
+                            >
+                              {applyingItemId === summary.itemId ? (
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              ) : (
+                                <Check className="h-4 w-4 mr-1" />
+                              )}
+                              {summary.suggestedMinutes} min
+                            </Button>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Timer className="h-3 w-3" />
+                  Suggestions use the median of at least {MIN_SAMPLES_FOR_SUGGESTION} lines,
+                  leaving out portions with their own preparation time.
+                </p>
+              </TabsContent>
+
+              <TabsContent value="stations">
+                <SummaryTable summaries={stationSummaries} label="Station" />
+              </TabsContent>
+
+              <TabsContent value="chefs">
+                <SummaryTable summaries={chefSummaries} label="Chef" />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { format, formatDistanceStrict } from "date-fns";
+import { History, Loader2, RotateCcw, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { BumpedTicket } from "../../lib/api/orders";
+import { formatVariantName } from "../../lib/utils";
+import { RECENTLY_BUMPED_MINUTES } from "../../lib/bumpHistory";
+import { getStationLines } from "../../lib/stations";
+
+interface RecentlyBumpedDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  tickets: BumpedTicket[];
+  loading: boolean;
+  now: number;
+  onRecall: (ticket: BumpedTicket) => void;
+  // Ticket being recalled, to disable its button
+  recallingId?: number | null;
+}
+
+// Side drawer listing tickets bumped in the last few minutes, with their history
+export default function RecentlyBumpedDrawer({
+  open,
+  onClose,
+  tickets,
+  loading,
+  now,
+  onRecall,
+  recallingId,
+}: RecentlyBumpedDrawerProps) {
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/40 z-50 flex justify-end"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-background w-full max-w-md h-full overflow-auto shadow-xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="sticky top-0 bg-background z-10 border-b px-4 py-4 flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-bold flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Recently Bumped
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Last {RECENTLY_BUMPED_MINUTES} minutes. Recall a ticket to send it
+                  back to the kitchen.
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+
+            {loading && tickets.length === 0 ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : tickets.length === 0 ? (
+              <p className="px-4 py-12 text-center text-muted-foreground">
+                Nothing bumped recently.
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {tickets.map((ticket) => (
+                  <li
+                    key={`${ticket.order.id}-${ticket.stationId ?? "order"}`}
+                    className="px-4 py-3 space-y-2"
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <div className="font-medium">
+                          Table {ticket.order.table?.tableNumber ?? ticket.order.tableId}
+                          <span className="ml-2 text-sm text-muted-foreground">
+                            #{ticket.order.id}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {ticket.stationName || "Whole order"} bumped{" "}
+                          {formatDistanceStrict(new Date(ticket.bumpedAt), now, {
+                            addSuffix: true,
+                          })}
+                          {ticket.bumpedBy && ` by ${ticket.bumpedBy.name}`}
+                        </div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={recallingId === ticket.order.id}
+                        onClick={() => onRecall(ticket)}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Recall
+                      </Button>
+                    </div>
+
+                    <p className="text-sm">
+                      {(ticket.stationId
+                        ? getStationLines(ticket.order, ticket.stationId)
+                        : ticket.order.orderItems
+                      )
+                        .map(
+                          (item) =>
+                            `${item.quantity}x ${formatVariantName(
+                              item.item?.name || `Item #${item.itemId}`,
+                              item.variant
+                            )}`
+                        )
+                        .join(", ")}
+                    </p>
+
+                    {ticket.order.statusHistory && ticket.order.statusHistory.length > 0 && (
+                      <ol className="space-y-0.5 text-xs text-muted-foreground">
+                        {ticket.order.statusHistory.map((change, index) => (
+                          <li key={index} className="flex items-center gap-2">
+                            <span className="tabular-nums">
+                              {format(new Date(change.changedAt), "h:mm a")}
+                            </span>
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">
+                              {change.status}
+                            </Badge>
+                            <span>
+                              {change.changedBy?.name || "System"}
+                              {change.note && ` · ${change.note}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useSocket } from "../../lib/SocketContext";
+import { TicketEscalationEvent } from "../../lib/api/kitchen";
+
+interface TicketEscalationAlertsProps {
+  // Page the alert's View button opens
+  viewPath?: string;
+}
+
+// Alerts staff when a kitchen ticket is escalated for running late. The server
+// only sends escalations to the admins and floor managers who should act on them.
+export default function TicketEscalationAlerts({
+  viewPath = "/chef/orders",
+}: TicketEscalationAlertsProps) {
+  const { socket } = useSocket();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const onEscalated = ({ order, minutesLate }: TicketEscalationEvent) => {
+      toast.error(
+        `Order #${order.id} for Table ${order.table?.tableNumber ?? order.tableId} is ${minutesLate} min late`,
+        {
+          id: `ticket-escalated-${order.id}`,
+          description: "The kitchen has passed its preparation time.",
+          duration: 30000,
+          action: {
+            label: "View",
+            onClick: () => navigate(viewPath),
+          },
+        }
+      );
+    };
+
+    socket.on("kitchen:ticket-escalated", onEscalated);
+    return () => {
+      socket.off("kitchen:ticket-escalated", onEscalated);
+    };
+  }, [socket, navigate, viewPath]);
+
+  return null;
+}
@@ -0,0 +1,36 @@
+import { AlarmClock, Timer } from "lucide-react";
+import { Badge } from "../ui/badge";
+import { KitchenSettings } from "../../lib/api/kitchen";
+import { WaiterOrder } from "../../lib/api/orders";
+import {
+  formatTimer,
+  getTicketTiming,
+  SLA_STATE_LABELS,
+  SLA_STATE_STYLES,
+} from "../../lib/kitchenSla";
+
+interface TicketTimerProps {
+  order: WaiterOrder;
+  settings: KitchenSettings;
+  // Current time, ticked by the page so every timer on it moves together
+  now: number;
+}
+
+// Time since the order was placed, against its preparation time
+export default function TicketTimer({ order, settings, now }: TicketTimerProps) {
+  const { elapsedMs, targetMs, state } = getTicketTiming(order, settings, now);
+  const Icon = state === "late" ? AlarmClock : Timer;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`font-mono tabular-nums ${SLA_STATE_STYLES[state]} ${
+        state === "late" ? "animate-pulse" : ""
+      }`}
+      title={`${SLA_STATE_LABELS[state]}, target ${Math.round(targetMs / 60000)} min`}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {formatTimer(elapsedMs)} / {Math.round(targetMs / 60000)}m
+    </Badge>
+  );
+}
@@ -1,6 +1,8 @@
 import { ReactNode, useState } from "react";
 import { Sidebar } from "./Sidebar";
 import { motion } from "framer-motion";
+import TicketEscalationAlerts from "../kitchen/TicketEscalationAlerts";
+import LowStockAlerts from "../inventory/LowStockAlerts";
 
 interface AdminLayoutProps {
   children: ReactNode;
@@ -11,6 +13,8 @@ export function AdminLayout({ children }: AdminLayoutProps) {
 
   return (
     <div className="flex min-h-screen">
+      <TicketEscalationAlerts />
+      <LowStockAlerts />
       <Sidebar 
         isExpanded={sidebarExpanded}
         setIsExpanded={setSidebarExpanded}
@@ -1,6 +1,7 @@
 import { ReactNode, useState } from "react";
 import { Sidebar } from "./Sidebar";
 import { motion } from "framer-motion";
+import LowStockAlerts from "../inventory/LowStockAlerts";
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -11,6 +12,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   return (
     <div className="flex min-h-screen">
+      <LowStockAlerts />
       <Sidebar 
         isExpanded={sidebarExpanded}
         setIsExpanded={setSidebarExpanded}
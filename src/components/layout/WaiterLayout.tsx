@@ -1,6 +1,7 @@
 import { ReactNode, useState } from "react";
 import { Sidebar } from "./Sidebar";
 import { motion } from "framer-motion";
+import TicketEscalationAlerts from "../kitchen/TicketEscalationAlerts";
 
 interface WaiterLayoutProps {
   children: ReactNode;
@@ -11,6 +12,7 @@ export function WaiterLayout({ children }: WaiterLayoutProps) {
 
   return (
     <div className="flex min-h-screen">
+      <TicketEscalationAlerts viewPath="/waiter" />
       <Sidebar 
         isExpanded={sidebarExpanded}
         setIsExpanded={setSidebarExpanded}
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { Input } from "../ui/input";
+import { Textarea } from "../ui/textarea";
+import { Switch } from "../ui/switch";
+import { Button } from "../ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { useToast } from "../ui/use-toast";
+import { Category } from "../../lib/api/categories";
+import {
+  ComboSlot,
+  CreateMenuItemPayload,
+  MenuItem,
+  UpdateMenuItemPayload,
+} from "../../lib/api/menuItems";
+import { getSeparatePrice, isCombo, validateCombo } from "../../lib/combos";
+import { formatPrice } from "../../lib/utils";
+import ComboSlotsEditor from "./ComboSlotsEditor";
+
+type FormData = {
+  name: string;
+  description?: string;
+  fullPrice: string;
+  isAvailable: boolean;
+  categoryId: string;
+  slots: ComboSlot[];
+};
+
+interface ComboDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: CreateMenuItemPayload | UpdateMenuItemPayload) => void;
+  categories: Category[];
+  // All menu items; combos themselves cannot be part of another combo
+  items: MenuItem[];
+  combo?: MenuItem;
+}
+
+const EMPTY_VALUES: FormData = {
+  name: "",
+  description: "",
+  fullPrice: "0",
+  isAvailable: true,
+  categoryId: "",
+  slots: [],
+};
+
+export default function ComboDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  categories,
+  items,
+  combo,
+}: ComboDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({ defaultValues: EMPTY_VALUES });
+
+  // Update form values when the combo changes
+  useEffect(() => {
+    if (combo) {
+      form.reset({
+        name: combo.name,
+        description: combo.description || "",
+        fullPrice: combo.fullPrice.toString(),
+        isAvailable: combo.isAvailable,
+        categoryId: combo.categoryId.toString(),
+        slots: combo.combo?.slots || [],
+      });
+    } else {
+      form.reset(EMPTY_VALUES);
+    }
+  }, [combo, form]);
+
+  const componentItems = useMemo(
+    () => items.filter((item) => !isCombo(item)),
+    [items]
+  );
+
+  const slots = form.watch("slots");
+  const bundlePrice = parseFloat(form.watch("fullPrice")) || 0;
+  const separatePrice = getSeparatePrice({ slots }, componentItems);
+
+  const handleSubmit = async (values: FormData) => {
+    const error = !values.name
+      ? "Name is required"
+      : !values.categoryId
+        ? "Category is required"
+        : !(parseFloat(values.fullPrice) > 0)
+          ? "Bundle price is required"
+          : validateCombo({ slots: values.slots });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The combo is ready once its slowest component is
+    const slotItems = values.slots.flatMap((slot) =>
+      componentItems.filter((item) => slot.itemIds.includes(item.id))
+    );
+    const preparationTime = Math.max(
+      0,
+      ...slotItems.map((item) => item.preparationTime || 0)
+    );
+
+    try {
+      setIsSubmitting(true);
+      const payload: CreateMenuItemPayload = {
+        name: values.name,
+        description: values.description || "",
+        fullPrice: parseFloat(values.fullPrice),
+        preparationTime,
+        isAvailable: values.isAvailable,
+        categoryId: parseInt(values.categoryId, 10),
+        combo: {
+          slots: values.slots.map((slot) => ({
+            id: slot.id,
+            name: slot.name.trim(),
+            itemIds: slot.itemIds,
+            quantity: slot.quantity,
+          })),
+        },
+      };
+
+      await onSubmit(payload);
+      form.reset(EMPTY_VALUES);
+    } catch (error) {
+      console.error("Error submitting combo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save combo. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{combo ? "Edit Combo" : "New Combo"}</DialogTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Bundle items at a single price, e.g. a thali or "any starter + main + drink".
+          </p>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(handleSubmit)}
+            className="space-y-4 mt-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Lunch Thali" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What's included"
+                      className="resize-none max-h-[100px]"
+                      {...field}
+                      value={field.value || ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fullPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bundle Price (₹)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id.toString()}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="slots"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What's in the combo</FormLabel>
+                  <FormControl>
+                    <ComboSlotsEditor
+                      value={field.value || []}
+                      onChange={field.onChange}
+                      items={componentItems}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {separatePrice > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Ordered separately from {formatPrice(separatePrice)}
+                {bundlePrice > 0 && bundlePrice < separatePrice &&
+                  ` — guests save at least ${formatPrice(separatePrice - bundlePrice)}`}
+              </p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="isAvailable"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <FormLabel>Available</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {combo ? "Save Combo" : "Create Combo"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
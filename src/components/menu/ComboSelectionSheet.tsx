@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Check, Loader } from "lucide-react";
+import { ComboSlot, MenuItem } from "../../lib/api/menuItems";
+import { ComboSlotOption, getSlotOptions } from "../../lib/combos";
+import { formatPrice, getItemPrice } from "../../lib/utils";
+import { getLocalizedName, LanguageCode, Translate } from "../../lib/i18n";
+
+interface ComboSelectionSheetProps {
+  item: MenuItem | null;
+  // Items on the menu, used to name slot options the server did not describe
+  menuItems: MenuItem[];
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (
+    comboSelections: { slotId: number; itemId: number }[],
+    notes: string
+  ) => Promise<void>;
+  language: LanguageCode;
+  t: Translate;
+}
+
+// Maximum length of the free-text note sent to the kitchen
+const MAX_NOTES_LENGTH = 200;
+
+const ComboSelectionSheet: React.FC<ComboSelectionSheetProps> = ({
+  item,
+  menuItems,
+  isOpen,
+  onClose,
+  onConfirm,
+  language,
+  t,
+}) => {
+  // Item id the guest chose, keyed by slot id
+  const [choices, setChoices] = useState<Record<number, number>>({});
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  // Set when the combo could not be added, so the guest can try again
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const slots = useMemo(
+    () =>
+      (item?.combo?.slots || []).filter(
+        (slot): slot is ComboSlot & { id: number } => slot.id !== undefined
+      ),
+    [item]
+  );
+
+  // Slots with a single available choice are filled in for the guest, and kept
+  // current as the menu items load or change availability
+  const fixedSelections = useMemo(() => {
+    const fixed: Record<number, number> = {};
+    slots.forEach((slot) => {
+      const options = getSlotOptions(slot, menuItems);
+      if (options.length === 1 && options[0].isAvailable) {
+        fixed[slot.id] = options[0].id;
+      }
+    });
+    return fixed;
+  }, [slots, menuItems]);
+
+  // Chosen item id keyed by slot id; picks that have since become unavailable are dropped
+  const selections = useMemo(() => {
+    const available: Record<number, number> = {};
+    slots.forEach((slot) => {
+      const choice = choices[slot.id];
+      if (
+        choice !== undefined &&
+        getSlotOptions(slot, menuItems).some((option) => option.id === choice && option.isAvailable)
+      ) {
+        available[slot.id] = choice;
+      }
+    });
+    return { ...available, ...fixedSelections };
+  }, [slots, menuItems, choices, fixedSelections]);
+
+  // Reset the sheet every time it opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setChoices({});
+    setNotes("");
+    setShowErrors(false);
+    setSubmitError(null);
+  }, [isOpen, item?.id]);
+
+  // Slot options are menu items, so they are named in the guest's language when translated
+  const getOptionName = (option: ComboSlotOption) => {
+    const menuItem = menuItems.find((candidate) => candidate.id === option.id);
+    return menuItem ? getLocalizedName(menuItem, language) : option.name;
+  };
+
+  const isComplete = slots.every((slot) => selections[slot.id] !== undefined);
+
+  const handleConfirm = async () => {
+    if (!isComplete) {
+      setShowErrors(true);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+      await onConfirm(
+        slots.map((slot) => ({ slotId: slot.id, itemId: selections[slot.id] })),
+        notes.trim()
+      );
+      onClose();
+    } catch {
+      setSubmitError(t("addToOrderFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && item && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-brand-surface w-full max-w-lg max-h-[85vh] rounded-t-2xl overflow-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-brand-surface z-10 border-b border-brand-muted px-4 py-4 flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-bold text-brand-primary">
+                  {getLocalizedName(item, language)}
+                </h2>
+                <span className="text-xs text-brand-accent">{t("combo")}</span>
+              </div>
+              <button
+                className="p-2 rounded-full hover:bg-brand-muted"
+                onClick={onClose}
+              >
+                <X className="h-5 w-5 text-white" />
+              </button>
+            </div>
+
+            <div className="px-4 py-4 space-y-6">
+              {slots.map((slot) => {
+                const options = getSlotOptions(slot, menuItems);
+                const selected = selections[slot.id];
+
+                return (
+                  <div key={slot.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-medium text-white">
+                        {slot.quantity > 1 && `${slot.quantity}× `}
+                        {slot.name}
+                      </h3>
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-brand-muted text-gray-300">
+                        {options.length > 1 ? t("chooseOne") : t("included")}
+                      </span>
+                    </div>
+
+                    <div className="space-y-2">
+                      {options.map((option) => {
+                        const isSelected = selected === option.id;
+                        const isDisabled = !option.isAvailable || options.length === 1;
+
+                        return (
+                          <button
+                            key={option.id}
+                            type="button"
+                            disabled={isDisabled}
+                            onClick={() =>
+                              setChoices((prev) => ({ ...prev, [slot.id]: option.id }))
+                            }
+                            className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-sm transition-colors ${
+                              isSelected
+                                ? "border-brand-primary bg-brand-primary/10 text-white"
+                                : "border-brand-muted bg-brand-surface-alt text-gray-200 hover:border-brand-primary/50"
+                            } ${!option.isAvailable ? "opacity-50 cursor-not-allowed" : ""}`}
+                          >
+                            <span className="flex items-center gap-2">
+                              <span
+                                className={`h-4 w-4 flex items-center justify-center border rounded-full ${
+                                  isSelected
+                                    ? "border-brand-primary bg-brand-primary"
+                                    : "border-gray-400"
+                                }`}
+                              >
+                                {isSelected && <Check className="h-3 w-3 text-brand-on-primary" />}
+                              </span>
+                              {getOptionName(option)}
+                              {!option.isAvailable && (
+                                <span className="text-xs text-gray-400">{t("optionUnavailable")}</span>
+                              )}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+
+                    {showErrors && selected === undefined && (
+                      <p className="text-xs text-red-400 mt-1">{t("pleaseChooseOne")}</p>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* Special instructions */}
+              <div>
+                <h3 className="font-medium text-white mb-2">{t("specialInstructions")}</h3>
+                <textarea
+                  value={notes}
+                  maxLength={MAX_NOTES_LENGTH}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder={t("specialInstructionsPlaceholder")}
+                  rows={2}
+                  className="w-full bg-brand-surface-alt border border-brand-muted rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-primary/30 resize-none"
+                />
+                <p className="text-right text-xs text-gray-500 mt-1">
+                  {notes.length}/{MAX_NOTES_LENGTH}
+                </p>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-brand-surface border-t border-brand-muted px-4 py-4">
+              {submitError && (
+                <p className="text-sm text-red-400 text-center mb-2">{submitError}</p>
+              )}
+              <button
+                onClick={handleConfirm}
+                disabled={submitting}
+                className="w-full bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? (
+                  <span className="flex items-center justify-center">
+                    <Loader className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                    {t("adding")}
+                  </span>
+                ) : (
+                  t("addToOrderFor", { price: formatPrice(getItemPrice(item)) })
+                )}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ComboSelectionSheet;
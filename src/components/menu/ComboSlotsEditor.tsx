@@ -0,0 +1,145 @@
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { ComboSlot, MenuItem } from "../../lib/api/menuItems";
+
+interface ComboSlotsEditorProps {
+  value: ComboSlot[];
+  onChange: (slots: ComboSlot[]) => void;
+  items: MenuItem[];
+}
+
+// Empty slot used when the admin adds a new one
+const createEmptySlot = (): ComboSlot => ({
+  name: "",
+  itemIds: [],
+  quantity: 1,
+});
+
+export default function ComboSlotsEditor({
+  value,
+  onChange,
+  items,
+}: ComboSlotsEditorProps) {
+  // Update a single slot by index
+  const updateSlot = (index: number, changes: Partial<ComboSlot>) => {
+    onChange(
+      value.map((slot, i) => (i === index ? { ...slot, ...changes } : slot))
+    );
+  };
+
+  const removeSlot = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const getItemName = (itemId: number) =>
+    items.find((item) => item.id === itemId)?.name || `Item #${itemId}`;
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No slots yet. Add one per course, e.g. "Starter", "Main" and "Drink".
+        </p>
+      )}
+
+      {value.map((slot, index) => (
+        <div key={slot.id ?? `new-${index}`} className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Slot name (e.g., Main)"
+              value={slot.name}
+              onChange={(e) => updateSlot(index, { name: e.target.value })}
+            />
+            <div className="w-20">
+              <Input
+                type="number"
+                min="1"
+                title="Quantity included"
+                value={slot.quantity}
+                onChange={(e) =>
+                  updateSlot(index, {
+                    quantity: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })
+                }
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeSlot(index)}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">
+              {slot.itemIds.length > 1
+                ? "Guest picks one of:"
+                : "Items (add more than one to let the guest choose)"}
+            </Label>
+            <div className="flex flex-wrap gap-1">
+              {slot.itemIds.map((itemId) => (
+                <span
+                  key={itemId}
+                  className="flex items-center gap-1 text-xs px-2 py-1 border rounded-full"
+                >
+                  {getItemName(itemId)}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateSlot(index, {
+                        itemIds: slot.itemIds.filter((id) => id !== itemId),
+                      })
+                    }
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <Select
+              value=""
+              onValueChange={(itemId) =>
+                updateSlot(index, { itemIds: [...slot.itemIds, parseInt(itemId, 10)] })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Add an item" />
+              </SelectTrigger>
+              <SelectContent>
+                {items
+                  .filter((item) => !slot.itemIds.includes(item.id))
+                  .map((item) => (
+                    <SelectItem key={item.id} value={item.id.toString()}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, createEmptySlot()])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add slot
+      </Button>
+    </div>
+  );
+}
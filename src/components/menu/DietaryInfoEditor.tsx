@@ -0,0 +1,97 @@
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  DietaryInfo,
+  DietaryLabel,
+  DIETARY_LABELS,
+} from "../../lib/api/menuItems";
+
+interface DietaryInfoEditorProps {
+  value: DietaryInfo | null;
+  onChange: (info: DietaryInfo | null) => void;
+}
+
+// Toggle a value in a list
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+export default function DietaryInfoEditor({
+  value,
+  onChange,
+}: DietaryInfoEditorProps) {
+  const chipClass = (selected: boolean) =>
+    `text-xs px-2 py-1 border rounded-full transition-colors ${
+      selected
+        ? "bg-primary text-primary-foreground border-primary"
+        : "border-input hover:bg-muted"
+    }`;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Declare dietary & allergen info</Label>
+          <p className="text-xs text-muted-foreground">
+            Guests can only filter by this item once it is declared
+          </p>
+        </div>
+        <Switch
+          checked={value !== null}
+          onCheckedChange={(checked) =>
+            onChange(checked ? { labels: [], allergens: [] } : null)
+          }
+        />
+      </div>
+
+      {value && (
+        <>
+          <div>
+            <p className="text-sm text-muted-foreground">Suitable for:</p>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {(Object.keys(DIETARY_LABELS) as DietaryLabel[]).map((label) => (
+                <button
+                  key={label}
+                  type="button"
+                  className={chipClass(value.labels.includes(label))}
+                  onClick={() =>
+                    onChange({ ...value, labels: toggle(value.labels, label) })
+                  }
+                >
+                  {DIETARY_LABELS[label]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground">Contains:</p>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map((allergen) => (
+                <button
+                  key={allergen}
+                  type="button"
+                  className={chipClass(value.allergens.includes(allergen))}
+                  onClick={() =>
+                    onChange({
+                      ...value,
+                      allergens: toggle(value.allergens, allergen),
+                    })
+                  }
+                >
+                  {ALLERGEN_LABELS[allergen]}
+                </button>
+              ))}
+            </div>
+            {value.allergens.length === 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                No allergens selected — the item will be shown as free from all of them.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
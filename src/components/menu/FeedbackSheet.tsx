@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader } from "lucide-react";
+import { WaiterOrder } from "../../lib/api/orders";
+import { feedbackApi } from "../../lib/api/feedback";
+import { formatVariantName } from "../../lib/utils";
+import { Translate } from "../../lib/i18n";
+import StarRating from "../feedback/StarRating";
+
+interface FeedbackSheetProps {
+  // The completed order to rate
+  order: WaiterOrder | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmitted: (orderId: number) => void;
+  // Name to show for an ordered dish, e.g. in the guest's language
+  getItemName: (orderItem: WaiterOrder["orderItems"][number]) => string;
+  t: Translate;
+}
+
+// Maximum length of the comment sent with the ratings
+const MAX_COMMENT_LENGTH = 500;
+
+const FeedbackSheet: React.FC<FeedbackSheetProps> = ({
+  order,
+  isOpen,
+  onClose,
+  onSubmitted,
+  getItemName,
+  t,
+}) => {
+  const [overallRating, setOverallRating] = useState(0);
+  // Star ratings keyed by order item id
+  const [dishRatings, setDishRatings] = useState<Record<number, number>>({});
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the sheet every time it opens for an order
+  useEffect(() => {
+    if (isOpen) {
+      setOverallRating(0);
+      setDishRatings({});
+      setComment("");
+      setError(null);
+    }
+  }, [isOpen, order?.id]);
+
+  const handleSubmit = async () => {
+    if (!order) return;
+    if (overallRating === 0) {
+      setError(t("rateOverallRequired"));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await feedbackApi.submit(order.id, {
+        overallRating,
+        comment: comment.trim() || undefined,
+        // Dishes the guest left unrated are not sent
+        dishRatings: Object.entries(dishRatings).map(([orderItemId, rating]) => ({
+          orderItemId: parseInt(orderItemId, 10),
+          rating,
+        })),
+      });
+      onSubmitted(order.id);
+    } catch (err) {
+      console.error("Error submitting feedback:", err);
+      setError(t("feedbackFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && order && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-brand-surface w-full max-w-lg max-h-[85vh] rounded-t-2xl overflow-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-brand-surface z-10 border-b border-brand-muted px-4 py-4 flex justify-between items-start">
+              <div>
+                <h2 className="font-brand-heading text-lg font-bold text-brand-primary">
+                  {t("howWasYourMeal")}
+                </h2>
+                <span className="text-xs text-brand-accent">{t("order", { id: order.id })}</span>
+              </div>
+              <button
+                className="p-2 rounded-full hover:bg-brand-muted"
+                onClick={onClose}
+              >
+                <X className="h-5 w-5 text-white" />
+              </button>
+            </div>
+
+            <div className="px-4 py-4 space-y-5">
+              <div className="flex flex-col items-center gap-2">
+                <p className="text-sm text-white">{t("overallExperience")}</p>
+                <StarRating
+                  value={overallRating}
+                  onChange={setOverallRating}
+                  size="lg"
+                  label={t("overallRating")}
+                />
+              </div>
+
+              {order.orderItems.length > 0 && (
+                <div>
+                  <p className="text-sm text-white mb-2">{t("rateEachDish")}</p>
+                  <ul className="space-y-2">
+                    {order.orderItems.map((orderItem) => (
+                      <li
+                        key={orderItem.id}
+                        className="flex items-center justify-between gap-2 rounded-lg bg-brand-surface-alt border border-brand-muted px-3 py-2"
+                      >
+                        <span className="text-sm text-white">
+                          {formatVariantName(getItemName(orderItem), orderItem.variant)}
+                        </span>
+                        <StarRating
+                          value={dishRatings[orderItem.id] || 0}
+                          onChange={(rating) =>
+                            setDishRatings((prev) => ({ ...prev, [orderItem.id]: rating }))
+                          }
+                          label={t("ratingFor", { name: getItemName(orderItem) })}
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm text-white mb-1">
+                  {t("feedbackComment")}
+                </label>
+                <textarea
+                  value={comment}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={3}
+                  className="w-full bg-brand-surface-alt border border-brand-muted rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-primary/30"
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              <button
+                onClick={handleSubmit}
+                disabled={submitting}
+                className="w-full bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? (
+                  <Loader className="animate-spin mx-auto h-4 w-4" />
+                ) : (
+                  t("sendFeedback")
+                )}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default FeedbackSheet;
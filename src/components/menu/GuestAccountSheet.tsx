@@ -0,0 +1,352 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader, RotateCcw, LogOut, Phone } from "lucide-react";
+import { GuestAccountSession, guestAccountsApi, OtpChallenge } from "../../lib/api/guestAccounts";
+import { WaiterOrder } from "../../lib/api/orders";
+import { maskPhone, saveGuestAccount } from "../../lib/GuestAccount";
+import { getOtpProvider, normalizePhone, OTP_CODE_LENGTH } from "../../lib/otp";
+import { describeSkipReason, SkippedReorderLine } from "../../lib/reorder";
+import { formatPrice, formatVariantName } from "../../lib/utils";
+import { LanguageCode, Translate } from "../../lib/i18n";
+
+// Outcome of adding a past order to the cart
+export interface ReorderResult {
+  addedCount: number;
+  // Names of the lines added, e.g. "2× Butter Naan"
+  added: string[];
+  skipped: SkippedReorderLine[];
+}
+
+interface GuestAccountSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account: GuestAccountSession | null;
+  onSignedIn: (session: GuestAccountSession) => void;
+  onSignOut: () => void;
+  history: WaiterOrder[];
+  historyLoading: boolean;
+  // Whether the kitchen is taking orders, so past orders can be added to the cart
+  canOrder: boolean;
+  onReorder: (order: WaiterOrder) => Promise<ReorderResult>;
+  // Name to show for an ordered dish, e.g. in the guest's language
+  getItemName: (orderItem: WaiterOrder["orderItems"][number]) => string;
+  language: LanguageCode;
+  t: Translate;
+}
+
+const GuestAccountSheet: React.FC<GuestAccountSheetProps> = ({
+  isOpen,
+  onClose,
+  account,
+  onSignedIn,
+  onSignOut,
+  history,
+  historyLoading,
+  canOrder,
+  onReorder,
+  getItemName,
+  language,
+  t,
+}) => {
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reorderingId, setReorderingId] = useState<number | null>(null);
+  const [reorderResult, setReorderResult] = useState<ReorderResult | null>(null);
+
+  // Start from a clean form every time the sheet opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode("");
+    setChallenge(null);
+    setError(null);
+    setReorderResult(null);
+  }, [isOpen]);
+
+  const handleSendCode = async () => {
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      setError(t("invalidPhone"));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setChallenge(await getOtpProvider().sendCode(normalized));
+    } catch (err) {
+      console.error("Error sending one-time code:", err);
+      setError(t("sendCodeFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!challenge) return;
+    if (code.length !== OTP_CODE_LENGTH) {
+      setError(t("enterCode", { length: OTP_CODE_LENGTH }));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const verificationToken = await getOtpProvider().verifyCode(challenge, code);
+      const session = await guestAccountsApi.signIn(challenge.phone, verificationToken);
+      saveGuestAccount(session);
+      onSignedIn(session);
+    } catch (err) {
+      console.error("Error verifying one-time code:", err);
+      setError(t("codeRejected"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReorder = async (order: WaiterOrder) => {
+    try {
+      setReorderingId(order.id);
+      setReorderResult(await onReorder(order));
+    } catch (err) {
+      console.error("Error adding past order to cart:", err);
+      setError(t("reorderFailed"));
+    } finally {
+      setReorderingId(null);
+    }
+  };
+
+  const lastOrder = history[0];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-brand-surface w-full max-w-lg max-h-[85vh] rounded-t-2xl overflow-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-brand-surface z-10 border-b border-brand-muted px-4 py-4 flex justify-between items-start">
+              <div>
+                <h2 className="font-brand-heading text-lg font-bold text-brand-primary">
+                  {account ? t("accountOrders") : t("orderAgainFaster")}
+                </h2>
+                <span className="text-xs text-brand-accent">
+                  {account
+                    ? t("signedInAs", { phone: maskPhone(account.account.phone) })
+                    : t("signInPrompt")}
+                </span>
+              </div>
+              <button
+                className="p-2 rounded-full hover:bg-brand-muted"
+                onClick={onClose}
+              >
+                <X className="h-5 w-5 text-white" />
+              </button>
+            </div>
+
+            <div className="px-4 py-4 space-y-4">
+              {error && <p className="text-sm text-red-400">{error}</p>}
+
+              {!account && !challenge && (
+                <div className="space-y-3">
+                  <label className="block text-sm text-white">{t("phoneNumber")}</label>
+                  <div className="flex items-center gap-2 bg-brand-surface-alt border border-brand-muted rounded-lg px-3">
+                    <Phone className="h-4 w-4 text-gray-400" />
+                    <input
+                      type="tel"
+                      inputMode="tel"
+                      autoComplete="tel"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      placeholder={t("phonePlaceholder")}
+                      className="flex-1 bg-transparent py-2 text-sm text-white placeholder-gray-400 focus:outline-none"
+                    />
+                  </div>
+                  <button
+                    onClick={handleSendCode}
+                    disabled={submitting}
+                    className="w-full bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? (
+                      <Loader className="animate-spin mx-auto h-4 w-4" />
+                    ) : (
+                      t("sendCode")
+                    )}
+                  </button>
+                  <p className="text-xs text-gray-400">
+                    {t("signInOptional")}
+                  </p>
+                </div>
+              )}
+
+              {!account && challenge && (
+                <div className="space-y-3">
+                  <label className="block text-sm text-white">
+                    {t("codeSentTo", { phone: challenge.phone })}
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={OTP_CODE_LENGTH}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                    className="w-full bg-brand-surface-alt border border-brand-muted rounded-lg px-3 py-2 text-center tracking-[0.5em] text-lg text-white focus:outline-none focus:ring-2 focus:ring-brand-primary/30"
+                  />
+                  <button
+                    onClick={handleVerify}
+                    disabled={submitting}
+                    className="w-full bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {submitting ? (
+                      <Loader className="animate-spin mx-auto h-4 w-4" />
+                    ) : (
+                      t("verifyAndSignIn")
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setChallenge(null);
+                      setCode("");
+                      setError(null);
+                    }}
+                    className="w-full text-sm text-gray-400 hover:text-brand-primary"
+                  >
+                    {t("useDifferentNumber")}
+                  </button>
+                </div>
+              )}
+
+              {account && (
+                <>
+                  {/* Result of the last reorder */}
+                  {reorderResult && (
+                    <div className="rounded-lg bg-brand-surface-alt border border-brand-muted p-3 text-sm">
+                      <p className="text-white">
+                        {reorderResult.addedCount > 0
+                          ? t(reorderResult.addedCount === 1 ? "addedOneItem" : "addedItems", {
+                              count: reorderResult.addedCount,
+                            })
+                          : t("nothingAdded")}
+                      </p>
+                      {reorderResult.skipped.length > 0 && reorderResult.added.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-gray-300">
+                          {reorderResult.added.map((name, index) => (
+                            <li key={`${name}-${index}`}>{t("addedLine", { name })}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {reorderResult.skipped.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-amber-400">
+                          {reorderResult.skipped.map((line, index) => (
+                            <li key={`${line.name}-${index}`}>
+                              {t("skippedLine", {
+                                name: line.name,
+                                reason: describeSkipReason(line, language),
+                              })}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {canOrder && lastOrder && (
+                    <button
+                      onClick={() => handleReorder(lastOrder)}
+                      disabled={reorderingId !== null}
+                      className="w-full flex items-center justify-center gap-2 bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {reorderingId === lastOrder.id ? (
+                        <Loader className="animate-spin h-4 w-4" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      {t("addLastOrder")}
+                    </button>
+                  )}
+
+                  {historyLoading ? (
+                    <div className="flex justify-center py-6">
+                      <Loader className="animate-spin h-5 w-5 text-brand-primary" />
+                    </div>
+                  ) : history.length === 0 ? (
+                    <p className="text-sm text-gray-400 text-center py-6">
+                      {t("noOrderHistory")}
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {history.map((order) => (
+                        <div
+                          key={order.id}
+                          className="rounded-lg bg-brand-surface-alt border border-brand-muted p-3"
+                        >
+                          <div className="flex justify-between text-xs text-gray-400 mb-1">
+                            <span>
+                              {new Date(order.createdAt).toLocaleString(language, {
+                                day: "2-digit",
+                                month: "short",
+                                year: "numeric",
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>
+                            <span>{formatPrice(order.total)}</span>
+                          </div>
+                          <p className="text-sm text-white">
+                            {order.orderItems
+                              .map(
+                                (item) =>
+                                  `${item.quantity}× ${formatVariantName(
+                                    getItemName(item),
+                                    item.variant
+                                  )}`
+                              )
+                              .join(", ")}
+                          </p>
+                          {canOrder && (
+                            <button
+                              onClick={() => handleReorder(order)}
+                              disabled={reorderingId !== null}
+                              className="mt-2 text-sm text-brand-primary hover:text-brand-accent disabled:opacity-50"
+                            >
+                              {reorderingId === order.id ? t("adding") : t("orderAgain")}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={onSignOut}
+                    className="w-full flex items-center justify-center gap-2 text-sm text-gray-400 hover:text-brand-primary py-2"
+                  >
+                    <LogOut className="h-4 w-4" />
+                    {t("signOut")}
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default GuestAccountSheet;
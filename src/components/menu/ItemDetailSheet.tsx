@@ -0,0 +1,124 @@
+import React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Clock } from "lucide-react";
+import { MenuItem } from "../../lib/api/menuItems";
+import { formatPrice, getItemVariants } from "../../lib/utils";
+import { Translate } from "../../lib/i18n";
+import UpsellCarousel from "./UpsellCarousel";
+
+interface ItemDetailSheetProps {
+  item: MenuItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // Name and description to show for an item, e.g. in the guest's language
+  getItemName: (item: MenuItem) => string;
+  getItemDescription: (item: MenuItem) => string | undefined;
+  // Whether the kitchen is taking orders, so the item and suggestions can be added
+  canOrder: boolean;
+  // Add one of the item, in the chosen portion if it has any
+  onAdd: (variantId: number | null) => void;
+  suggestions: MenuItem[];
+  onAddSuggestion: (item: MenuItem) => Promise<void>;
+  t: Translate;
+}
+
+const ItemDetailSheet: React.FC<ItemDetailSheetProps> = ({
+  item,
+  isOpen,
+  onClose,
+  getItemName,
+  getItemDescription,
+  canOrder,
+  onAdd,
+  suggestions,
+  onAddSuggestion,
+  t,
+}) => {
+  const variants = item ? getItemVariants(item) : [];
+  const description = item ? getItemDescription(item) : undefined;
+
+  return (
+    <AnimatePresence>
+      {isOpen && item && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-brand-surface w-full max-w-lg max-h-[85vh] rounded-t-2xl overflow-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {item.imageUrl && (
+              <img
+                src={item.imageUrl}
+                alt={getItemName(item)}
+                className="w-full h-48 object-cover rounded-t-2xl"
+              />
+            )}
+
+            {/* Header */}
+            <div className="px-4 pt-4 flex justify-between items-start">
+              <div>
+                <h2 className="font-brand-heading text-lg font-bold text-brand-primary">
+                  {getItemName(item)}
+                </h2>
+                <span className="flex items-center text-xs text-brand-accent">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {t("minutes", { minutes: item.preparationTime })}
+                </span>
+              </div>
+              <button
+                className="p-2 rounded-full hover:bg-brand-muted"
+                onClick={onClose}
+              >
+                <X className="h-5 w-5 text-white" />
+              </button>
+            </div>
+
+            <div className="px-4 py-4 space-y-4">
+              {description && <p className="text-sm text-gray-300">{description}</p>}
+
+              {/* Price, with a button per portion */}
+              <div className="flex flex-wrap gap-2">
+                {(variants.length > 0 ? variants : [null]).map((variant) => (
+                  <button
+                    key={variant?.id ?? "base"}
+                    onClick={() => onAdd(variant?.id ?? null)}
+                    disabled={!canOrder || !item.isAvailable}
+                    className="flex-1 min-w-[45%] flex items-center justify-between bg-brand-primary text-brand-on-primary py-2 px-3 rounded-lg text-sm font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span>{variant ? t("addVariant", { variant: variant.name }) : t("addToCart")}</span>
+                    <span className="font-bold">
+                      {formatPrice(variant ? variant.price : item.fullPrice)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+
+              {!item.isAvailable && (
+                <p className="text-xs text-amber-400">{t("itemUnavailableNow")}</p>
+              )}
+
+              <UpsellCarousel
+                items={suggestions}
+                onAdd={onAddSuggestion}
+                getItemName={getItemName}
+                canAdd={canOrder}
+                t={t}
+              />
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ItemDetailSheet;
@@ -10,8 +10,9 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
-import { MenuItem } from "../../lib/api/menuItems";
-import { formatPrice, getItemPrice } from "../../lib/utils";
+import { ALLERGEN_LABELS, DIETARY_LABELS, MenuItem } from "../../lib/api/menuItems";
+import { formatPrice, getItemPrice, getItemVariants } from "../../lib/utils";
+import { getSlotOptions, isCombo } from "../../lib/combos";
 
 interface MenuItemCardProps {
   item: MenuItem;
@@ -80,7 +81,17 @@ export function MenuItemCard({
                 Unavailable
               </Badge>
             )}
+
+            {item.isAvailable && item.outOfStock && (
+              <Badge variant="destructive" className="backdrop-blur-sm bg-destructive/90">
+                Out of stock
+              </Badge>
+            )}
             
+            {isCombo(item) && (
+              <Badge className="backdrop-blur-sm bg-primary/90">Combo</Badge>
+            )}
+
             {/* Display first tag as badge if available */}
             {item.tags && item.tags.length > 0 && (
               <Badge variant="secondary" className="backdrop-blur-sm bg-secondary/80">
@@ -132,8 +143,18 @@ export function MenuItemCard({
                   )}
                 </div>
               </div>
-              <div className="text-white font-bold text-lg">
-                {formatPrice(getItemPrice(item))}
+              <div className="text-right">
+                <div className="text-white font-bold text-lg">
+                  {getItemVariants(item).length > 0 && (
+                    <span className="text-xs font-normal text-white/80 mr-1">from</span>
+                  )}
+                  {formatPrice(getItemPrice(item))}
+                </div>
+                {getItemVariants(item).length > 0 && (
+                  <div className="text-white/80 text-xs">
+                    {getItemVariants(item).map((variant) => variant.name).join(" / ")}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -147,7 +168,47 @@ export function MenuItemCard({
           <p className="text-sm text-muted-foreground line-clamp-3">
             {item.description || "No description available"}
           </p>
+
+          {/* Display combo contents */}
+          {item.combo && isCombo(item) && (
+            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+              {item.combo.slots.map((slot, index) => {
+                const options = getSlotOptions(slot);
+                return (
+                  <li key={slot.id ?? index}>
+                    <span className="font-medium text-foreground">{slot.name}:</span>{" "}
+                    {slot.quantity > 1 && `${slot.quantity}× `}
+                    {options.length > 0
+                      ? options.map((option) => option.name).join(" / ")
+                      : `${slot.itemIds.length} items`}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
           
+          {/* Display dietary information */}
+          {item.dietaryInfo ? (
+            <div className="mt-2 space-y-1">
+              {item.dietaryInfo.labels.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {item.dietaryInfo.labels.map((label) => (
+                    <Badge key={label} className="text-xs bg-green-600 hover:bg-green-600">
+                      {DIETARY_LABELS[label]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {item.dietaryInfo.allergens.length > 0
+                  ? `Contains: ${item.dietaryInfo.allergens.map((allergen) => ALLERGEN_LABELS[allergen]).join(", ")}`
+                  : "No declared allergens"}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-amber-600 mt-2">Dietary info not declared</p>
+          )}
+
           {/* Display tags */}
           {item.tags && item.tags.length > 0 && (
             <div className="flex flex-wrap gap-1 mt-2">
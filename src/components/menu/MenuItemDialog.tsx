@@ -20,14 +20,26 @@ import {
   SelectValue,
 } from "../ui/select";
 import { Category } from "../../lib/api/categories";
+import { KitchenStation } from "../../lib/api/stations";
 import { useEffect, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import {
   CreateMenuItemPayload,
+  DietaryInfo,
   MenuItem,
+  ModifierGroup,
+  PortionVariant,
   UpdateMenuItemPayload,
 } from "../../lib/api/menuItems";
 import ImagePreview from "../ImagePreview";
+import ModifierGroupsEditor from "./ModifierGroupsEditor";
+import PortionVariantsEditor from "./PortionVariantsEditor";
+import DietaryInfoEditor from "./DietaryInfoEditor";
+import PairedItemsEditor from "./PairedItemsEditor";
+import TranslationsEditor from "../TranslationsEditor";
+import ScheduleEditor from "./ScheduleEditor";
+import { Schedule, validateSchedule } from "../../lib/schedule";
+import { cleanTranslations, ContentTranslations } from "../../lib/i18n";
 import { useToast } from "../ui/use-toast";
 import { Badge } from "../ui/badge";
 import { X, Plus, Loader2 } from "lucide-react";
@@ -37,12 +49,19 @@ type FormData = {
   name: string;
   description?: string;
   fullPrice: string;
-  halfPrice?: string;
+  variants: PortionVariant[];
   preparationTime: string;
   isAvailable: boolean;
   categoryId: string;
+  // Station id as a string, or "category" to use the category's station
+  stationId: string;
   subcategory?: string;
   tags?: string[];
+  modifierGroups: ModifierGroup[];
+  pairedItemIds: number[];
+  dietaryInfo: DietaryInfo | null;
+  translations: ContentTranslations;
+  schedule: Schedule | null;
   image?: File;
 };
 
@@ -62,6 +81,9 @@ interface MenuItemDialogProps {
   onOpenChange: (open: boolean) => void;
   onSubmit: (data: CreateMenuItemPayload | UpdateMenuItemPayload) => void;
   categories: Category[];
+  // Every menu item, to pick "goes well with" suggestions from
+  items?: MenuItem[];
+  stations?: KitchenStation[];
   menuItem?: MenuItem;
   title?: string;
   description?: string;
@@ -72,6 +94,8 @@ export default function MenuItemDialog({
   onOpenChange,
   onSubmit,
   categories,
+  items = [],
+  stations = [],
   menuItem,
   title,
   description,
@@ -79,19 +103,25 @@ export default function MenuItemDialog({
   const [tagInput, setTagInput] = useState("");
   const [subcategorySuggestions, setSubcategorySuggestions] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [showHalfPrice, setShowHalfPrice] = useState(!!menuItem?.halfPrice);
+  const [showVariants, setShowVariants] = useState(!!menuItem?.variants?.length);
   
   const form = useForm<FormData>({
     defaultValues: {
       name: "",
       description: "",
       fullPrice: "0",
-      halfPrice: "",
+      variants: [],
       preparationTime: "0",
       isAvailable: true,
       categoryId: "",
+      stationId: "category",
       subcategory: "",
       tags: [],
+      modifierGroups: [],
+      pairedItemIds: [],
+      dietaryInfo: null,
+      translations: {},
+      schedule: null,
       image: undefined,
     },
   });
@@ -99,6 +129,8 @@ export default function MenuItemDialog({
   const { toast } = useToast();
   const tags = form.watch("tags") || [];
   const subcategory = form.watch("subcategory") || "";
+  const name = form.watch("name");
+  const itemDescription = form.watch("description");
 
   // Update form values when menuItem changes
   useEffect(() => {
@@ -107,12 +139,18 @@ export default function MenuItemDialog({
         name: menuItem.name,
         description: menuItem.description,
         fullPrice: menuItem.fullPrice.toString(),
-        halfPrice: menuItem.halfPrice?.toString() || "",
+        variants: menuItem.variants || [],
         preparationTime: menuItem.preparationTime.toString(),
         isAvailable: menuItem.isAvailable,
         categoryId: menuItem.categoryId.toString(),
+        stationId: menuItem.stationId ? menuItem.stationId.toString() : "category",
         subcategory: menuItem.subcategory || "",
         tags: menuItem.tags || [],
+        modifierGroups: menuItem.modifierGroups || [],
+        pairedItemIds: menuItem.pairedItemIds || [],
+        dietaryInfo: menuItem.dietaryInfo || null,
+        translations: menuItem.translations || {},
+        schedule: menuItem.schedule || null,
         image: undefined,
       });
     } else {
@@ -120,15 +158,22 @@ export default function MenuItemDialog({
         name: "",
         description: "",
         fullPrice: "0",
-        halfPrice: "",
+        variants: [],
         preparationTime: "0",
         isAvailable: true,
         categoryId: "",
+        stationId: "category",
         subcategory: "",
         tags: [],
+        modifierGroups: [],
+        pairedItemIds: [],
+        dietaryInfo: null,
+        translations: {},
+        schedule: null,
         image: undefined,
       });
     }
+    setShowVariants(!!menuItem?.variants?.length);
   }, [menuItem, form]);
 
   // Filter subcategory suggestions based on input
@@ -199,6 +244,61 @@ export default function MenuItemDialog({
     }
   };
 
+  // Check modifier groups for missing names and impossible selection limits
+  const validateModifierGroups = (groups: ModifierGroup[]): string | null => {
+    for (const group of groups) {
+      if (!group.name.trim()) {
+        return "Every modifier group needs a name";
+      }
+      if (group.options.some((option) => !option.name.trim())) {
+        return `Every option in "${group.name}" needs a name`;
+      }
+      if (group.minSelections > group.maxSelections) {
+        return `"${group.name}" has a minimum larger than its maximum`;
+      }
+      if (group.minSelections > group.options.length) {
+        return `"${group.name}" requires more selections than it has options`;
+      }
+    }
+    return null;
+  };
+
+  // Catch dietary labels that contradict the declared allergens
+  const validateDietaryInfo = (info: DietaryInfo | null): string | null => {
+    if (!info) return null;
+    if (
+      info.labels.includes("VEGAN") &&
+      info.allergens.some((allergen) => allergen === "DAIRY" || allergen === "EGGS")
+    ) {
+      return "A vegan item cannot contain dairy or eggs";
+    }
+    if (
+      info.labels.length > 0 &&
+      info.allergens.some((allergen) => allergen === "FISH" || allergen === "SHELLFISH")
+    ) {
+      return "A vegetarian item cannot contain fish or shellfish";
+    }
+    return null;
+  };
+
+  // Portion sizes need distinct names and a price each
+  const validateVariants = (variants: PortionVariant[]): string | null => {
+    if (variants.length < 2) {
+      return "Add at least two portion sizes, or turn portion sizes off";
+    }
+    if (variants.some((variant) => !variant.name.trim())) {
+      return "Every portion size needs a name";
+    }
+    const names = variants.map((variant) => variant.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length) {
+      return "Portion sizes must have different names";
+    }
+    if (variants.some((variant) => !(variant.price > 0))) {
+      return "Every portion size needs a price";
+    }
+    return null;
+  };
+
   const handleSubmit = async (values: FormData) => {
     // Validate required fields
     if (!values.name) {
@@ -210,7 +310,7 @@ export default function MenuItemDialog({
       return;
     }
 
-    if (!values.fullPrice) {
+    if (!showVariants && !values.fullPrice) {
       toast({
         title: "Error",
         description: "Full price is required",
@@ -237,6 +337,46 @@ export default function MenuItemDialog({
       return;
     }
 
+    const variantError = showVariants ? validateVariants(values.variants) : null;
+    if (variantError) {
+      toast({
+        title: "Error",
+        description: variantError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const modifierError = validateModifierGroups(values.modifierGroups);
+    if (modifierError) {
+      toast({
+        title: "Error",
+        description: modifierError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const dietaryError = validateDietaryInfo(values.dietaryInfo);
+    if (dietaryError) {
+      toast({
+        title: "Error",
+        description: dietaryError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scheduleError = validateSchedule(values.schedule);
+    if (scheduleError) {
+      toast({
+        title: "Error",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       
@@ -249,17 +389,31 @@ export default function MenuItemDialog({
         });
       }
       
+      // Items with portion sizes are listed at the price of the cheapest one
+      const variants = showVariants
+        ? values.variants.map((variant) => ({ ...variant, name: variant.name.trim() }))
+        : [];
+
       // Transform the values from the form to match the menu item payload
       const payload: CreateMenuItemPayload = {
         name: values.name,
         description: values.description || "",
-        fullPrice: parseFloat(values.fullPrice),
-        halfPrice: values.halfPrice ? parseFloat(values.halfPrice) : undefined,
+        fullPrice:
+          variants.length > 0
+            ? Math.min(...variants.map((variant) => variant.price))
+            : parseFloat(values.fullPrice),
+        variants,
         preparationTime: parseInt(values.preparationTime, 10),
         isAvailable: values.isAvailable,
         categoryId: parseInt(values.categoryId, 10),
+        stationId: values.stationId === "category" ? null : parseInt(values.stationId, 10),
         subcategory: values.subcategory || undefined,
         tags: values.tags || [],
+        modifierGroups: values.modifierGroups,
+        pairedItemIds: values.pairedItemIds,
+        dietaryInfo: values.dietaryInfo,
+        translations: cleanTranslations(values.translations),
+        schedule: values.schedule?.isEnabled ? values.schedule : null,
         image: values.image,
       };
       
@@ -326,52 +480,64 @@ export default function MenuItemDialog({
               )}
             />
 
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="translations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Translations (optional)</FormLabel>
+                  <FormControl>
+                    <TranslationsEditor
+                      value={field.value || {}}
+                      onChange={field.onChange}
+                      originalName={name}
+                      originalDescription={itemDescription}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormItem className="flex flex-row items-center justify-between rounded-lg shadow-sm">
+              <div className="">
+                <FormLabel>Multiple portion sizes</FormLabel>
+                <p className="text-xs text-muted-foreground">
+                  e.g. Half/Full, Regular/Large or 250ml/500ml
+                </p>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={showVariants}
+                  onCheckedChange={setShowVariants}
+                />
+              </FormControl>
+            </FormItem>
+
+            {showVariants ? (
               <FormField
                 control={form.control}
-                name="fullPrice"
+                name="variants"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>{isUpdate && !menuItem?.halfPrice ? " Price (₹)" : "Full Price (₹)"}</FormLabel>
+                    <FormLabel>Portion sizes</FormLabel>
                     <FormControl>
-                      <Input
-                        type="number"
-                        min="0"
-                        step="0.01"
-                        placeholder="0.00"
-                        {...field}
+                      <PortionVariantsEditor
+                        value={field.value || []}
+                        onChange={field.onChange}
                       />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-
-              <FormItem className="flex flex-row items-center justify-between rounded-lg mt-6 shadow-sm">
-                <div className="">
-                  <FormLabel>Add Half Price</FormLabel>
-                </div>
-                <FormControl>
-                  <Switch
-                    checked={showHalfPrice}
-                    onCheckedChange={(checked) => {
-                      setShowHalfPrice(checked);
-                      if (!checked) {
-                        form.setValue("halfPrice", "");
-                      }
-                    }}
-                  />
-                </FormControl>
-              </FormItem>
-            </div>
-
-            {showHalfPrice && (
+            ) : (
               <FormField
                 control={form.control}
-                name="halfPrice"
+                name="fullPrice"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Half Price (₹)</FormLabel>
+                    <FormLabel>Price (₹)</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
@@ -379,7 +545,6 @@ export default function MenuItemDialog({
                         step="0.01"
                         placeholder="0.00"
                         {...field}
-                        value={field.value || ""}
                       />
                     </FormControl>
                     <FormMessage />
@@ -439,6 +604,34 @@ export default function MenuItemDialog({
               )}
             />
 
+            {stations.length > 0 && (
+              <FormField
+                control={form.control}
+                name="stationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kitchen station</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Same as category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="category">Same as category</SelectItem>
+                        {stations.map((station) => (
+                          <SelectItem key={station.id} value={station.id.toString()}>
+                            {station.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="subcategory"
@@ -556,6 +749,77 @@ export default function MenuItemDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="dietaryInfo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dietary & allergens</FormLabel>
+                  <FormControl>
+                    <DietaryInfoEditor
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="modifierGroups"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Modifiers & add-ons (optional)</FormLabel>
+                  <FormControl>
+                    <ModifierGroupsEditor
+                      value={field.value || []}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pairedItemIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Goes well with (optional)</FormLabel>
+                  <FormControl>
+                    <PairedItemsEditor
+                      value={field.value || []}
+                      onChange={field.onChange}
+                      items={items}
+                      itemId={menuItem?.id}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Availability schedule (optional)</FormLabel>
+                  <FormControl>
+                    <ScheduleEditor
+                      value={field.value}
+                      onChange={field.onChange}
+                      description="Only offer this item at certain times, e.g. breakfast or happy hour"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="isAvailable"
@@ -0,0 +1,192 @@
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import { ModifierGroup } from "../../lib/api/menuItems";
+
+interface ModifierGroupsEditorProps {
+  value: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}
+
+// Empty group used when the admin adds a new modifier group
+const createEmptyGroup = (): ModifierGroup => ({
+  name: "",
+  isRequired: false,
+  minSelections: 0,
+  maxSelections: 1,
+  options: [{ name: "", priceDelta: 0 }],
+});
+
+export default function ModifierGroupsEditor({
+  value,
+  onChange,
+}: ModifierGroupsEditorProps) {
+  // Update a single group by index
+  const updateGroup = (index: number, changes: Partial<ModifierGroup>) => {
+    onChange(
+      value.map((group, i) => (i === index ? { ...group, ...changes } : group))
+    );
+  };
+
+  const removeGroup = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  // Keep min selections consistent with the required flag
+  const toggleRequired = (index: number, isRequired: boolean) => {
+    const group = value[index];
+    updateGroup(index, {
+      isRequired,
+      minSelections: isRequired ? Math.max(1, group.minSelections) : 0,
+    });
+  };
+
+  const updateOption = (
+    groupIndex: number,
+    optionIndex: number,
+    changes: { name?: string; priceDelta?: number }
+  ) => {
+    const group = value[groupIndex];
+    updateGroup(groupIndex, {
+      options: group.options.map((option, i) =>
+        i === optionIndex ? { ...option, ...changes } : option
+      ),
+    });
+  };
+
+  const addOption = (groupIndex: number) => {
+    const group = value[groupIndex];
+    updateGroup(groupIndex, {
+      options: [...group.options, { name: "", priceDelta: 0 }],
+    });
+  };
+
+  const removeOption = (groupIndex: number, optionIndex: number) => {
+    const group = value[groupIndex];
+    updateGroup(groupIndex, {
+      options: group.options.filter((_, i) => i !== optionIndex),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No modifiers yet. Add a group such as "Extras" or "Spice level".
+        </p>
+      )}
+
+      {value.map((group, groupIndex) => (
+        <div key={group.id ?? `new-${groupIndex}`} className="rounded-lg border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Group name (e.g., Extras)"
+              value={group.name}
+              onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeGroup(groupIndex)}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={group.isRequired}
+                onCheckedChange={(checked) => toggleRequired(groupIndex, checked)}
+              />
+              <Label className="text-xs">Required</Label>
+            </div>
+            <div>
+              <Label className="text-xs">Min</Label>
+              <Input
+                type="number"
+                min="0"
+                value={group.minSelections}
+                onChange={(e) =>
+                  updateGroup(groupIndex, {
+                    minSelections: Math.max(0, parseInt(e.target.value, 10) || 0),
+                  })
+                }
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Max</Label>
+              <Input
+                type="number"
+                min="1"
+                value={group.maxSelections}
+                onChange={(e) =>
+                  updateGroup(groupIndex, {
+                    maxSelections: Math.max(1, parseInt(e.target.value, 10) || 1),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {group.options.map((option, optionIndex) => (
+              <div key={option.id ?? `new-${optionIndex}`} className="flex items-center gap-2">
+                <Input
+                  placeholder="Option (e.g., Extra cheese)"
+                  value={option.name}
+                  onChange={(e) =>
+                    updateOption(groupIndex, optionIndex, { name: e.target.value })
+                  }
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  className="w-24"
+                  placeholder="+₹"
+                  value={option.priceDelta}
+                  onChange={(e) =>
+                    updateOption(groupIndex, optionIndex, {
+                      priceDelta: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeOption(groupIndex, optionIndex)}
+                  disabled={group.options.length <= 1}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => addOption(groupIndex)}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add option
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, createEmptyGroup()])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add modifier group
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Check, Loader } from "lucide-react";
+import { MenuItem, ModifierGroup, PortionVariant } from "../../lib/api/menuItems";
+import { formatPrice, getItemPrice } from "../../lib/utils";
+import { getLocalizedName, LanguageCode, Translate } from "../../lib/i18n";
+
+interface ModifierSelectionSheetProps {
+  item: MenuItem | null;
+  variant: PortionVariant | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (modifierOptionIds: number[], notes: string) => Promise<void>;
+  language: LanguageCode;
+  t: Translate;
+}
+
+// Maximum length of the free-text note sent to the kitchen
+const MAX_NOTES_LENGTH = 200;
+
+// Returns a validation message for a group, or null when the selection is valid
+const getGroupError = (
+  group: ModifierGroup,
+  selectedCount: number,
+  t: Translate
+): string | null => {
+  const min = group.isRequired ? Math.max(1, group.minSelections) : group.minSelections;
+  if (selectedCount < min) {
+    return min === 1 ? t("pleaseChooseOne") : t("pleaseChooseAtLeast", { min });
+  }
+  if (selectedCount > group.maxSelections) {
+    return t("chooseUpTo", { max: group.maxSelections });
+  }
+  return null;
+};
+
+const ModifierSelectionSheet: React.FC<ModifierSelectionSheetProps> = ({
+  item,
+  variant,
+  isOpen,
+  onClose,
+  onConfirm,
+  language,
+  t,
+}) => {
+  // Selected option ids keyed by group id
+  const [selections, setSelections] = useState<Record<number, number[]>>({});
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  // Set when the line could not be added, so the guest can try again
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Reset the sheet every time it opens for an item
+  useEffect(() => {
+    if (isOpen) {
+      setSelections({});
+      setNotes("");
+      setShowErrors(false);
+      setSubmitError(null);
+    }
+  }, [isOpen, item?.id]);
+
+  const groups = (item?.modifierGroups || []).filter(
+    (group): group is ModifierGroup & { id: number } => group.id !== undefined
+  );
+
+  const toggleOption = (group: ModifierGroup & { id: number }, optionId: number) => {
+    setSelections((prev) => {
+      const current = prev[group.id] || [];
+
+      if (current.includes(optionId)) {
+        return { ...prev, [group.id]: current.filter((id) => id !== optionId) };
+      }
+
+      // Single-choice groups behave like radio buttons
+      if (group.maxSelections === 1) {
+        return { ...prev, [group.id]: [optionId] };
+      }
+
+      if (current.length >= group.maxSelections) {
+        return prev;
+      }
+
+      return { ...prev, [group.id]: [...current, optionId] };
+    });
+  };
+
+  const selectedOptionIds = Object.values(selections).flat();
+
+  const modifiersTotal = groups.reduce((sum, group) => {
+    const selected = selections[group.id] || [];
+    return (
+      sum +
+      group.options
+        .filter((option) => option.id !== undefined && selected.includes(option.id))
+        .reduce((groupSum, option) => groupSum + option.priceDelta, 0)
+    );
+  }, 0);
+
+  const unitPrice = getItemPrice(item, variant?.id) + modifiersTotal;
+
+  const hasErrors = groups.some(
+    (group) => getGroupError(group, (selections[group.id] || []).length, t) !== null
+  );
+
+  const handleConfirm = async () => {
+    if (hasErrors) {
+      setShowErrors(true);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+      await onConfirm(selectedOptionIds, notes.trim());
+      onClose();
+    } catch {
+      setSubmitError(t("addToOrderFailed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && item && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-70 z-50 flex items-end justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ y: "100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "100%" }}
+            transition={{ type: "spring", damping: 30, stiffness: 300 }}
+            className="bg-brand-surface w-full max-w-lg max-h-[85vh] rounded-t-2xl overflow-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-brand-surface z-10 border-b border-brand-muted px-4 py-4 flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-bold text-brand-primary">
+                  {getLocalizedName(item, language)}
+                </h2>
+                {variant && (
+                  <span className="text-xs text-amber-400">{variant.name}</span>
+                )}
+              </div>
+              <button
+                className="p-2 rounded-full hover:bg-brand-muted"
+                onClick={onClose}
+              >
+                <X className="h-5 w-5 text-white" />
+              </button>
+            </div>
+
+            <div className="px-4 py-4 space-y-6">
+              {groups.map((group) => {
+                const selected = selections[group.id] || [];
+                const groupError = getGroupError(group, selected.length, t);
+
+                return (
+                  <div key={group.id}>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-medium text-white">{group.name}</h3>
+                      <span
+                        className={`text-xs px-2 py-0.5 rounded-full ${
+                          group.isRequired
+                            ? "bg-amber-500/20 text-amber-400"
+                            : "bg-brand-muted text-gray-300"
+                        }`}
+                      >
+                        {group.isRequired ? t("required") : t("optional")}
+                        {group.maxSelections > 1 && ` · ${t("upTo", { max: group.maxSelections })}`}
+                      </span>
+                    </div>
+
+                    <div className="space-y-2">
+                      {group.options.map((option) => {
+                        if (option.id === undefined) return null;
+                        const optionId = option.id;
+                        const isSelected = selected.includes(optionId);
+                        const isDisabled = option.isAvailable === false;
+
+                        return (
+                          <button
+                            key={optionId}
+                            type="button"
+                            disabled={isDisabled}
+                            onClick={() => toggleOption(group, optionId)}
+                            className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-sm transition-colors ${
+                              isSelected
+                                ? "border-brand-primary bg-brand-primary/10 text-white"
+                                : "border-brand-muted bg-brand-surface-alt text-gray-200 hover:border-brand-primary/50"
+                            } ${isDisabled ? "opacity-50 cursor-not-allowed" : ""}`}
+                          >
+                            <span className="flex items-center gap-2">
+                              <span
+                                className={`h-4 w-4 flex items-center justify-center border ${
+                                  group.maxSelections === 1 ? "rounded-full" : "rounded"
+                                } ${
+                                  isSelected
+                                    ? "border-brand-primary bg-brand-primary"
+                                    : "border-gray-400"
+                                }`}
+                              >
+                                {isSelected && <Check className="h-3 w-3 text-brand-on-primary" />}
+                              </span>
+                              {option.name}
+                              {isDisabled && (
+                                <span className="text-xs text-gray-400">{t("optionUnavailable")}</span>
+                              )}
+                            </span>
+                            {option.priceDelta !== 0 && (
+                              <span className="text-brand-accent">
+                                {option.priceDelta > 0 ? "+" : "-"}
+                                {formatPrice(Math.abs(option.priceDelta))}
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+
+                    {showErrors && groupError && (
+                      <p className="text-xs text-red-400 mt-1">{groupError}</p>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* Special instructions */}
+              <div>
+                <h3 className="font-medium text-white mb-2">{t("specialInstructions")}</h3>
+                <textarea
+                  value={notes}
+                  maxLength={MAX_NOTES_LENGTH}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder={t("specialInstructionsPlaceholder")}
+                  rows={2}
+                  className="w-full bg-brand-surface-alt border border-brand-muted rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-primary/30 resize-none"
+                />
+                <p className="text-right text-xs text-gray-500 mt-1">
+                  {notes.length}/{MAX_NOTES_LENGTH}
+                </p>
+              </div>
+            </div>
+
+            {/* Footer */}
+            <div className="sticky bottom-0 bg-brand-surface border-t border-brand-muted px-4 py-4">
+              {submitError && (
+                <p className="text-sm text-red-400 text-center mb-2">{submitError}</p>
+              )}
+              <button
+                onClick={handleConfirm}
+                disabled={submitting}
+                className="w-full bg-brand-primary text-brand-on-primary py-3 px-4 rounded-lg font-medium hover:bg-brand-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? (
+                  <span className="flex items-center justify-center">
+                    <Loader className="animate-spin -ml-1 mr-2 h-4 w-4" />
+                    {t("adding")}
+                  </span>
+                ) : (
+                  t("addToOrderFor", { price: formatPrice(unitPrice) })
+                )}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ModifierSelectionSheet;
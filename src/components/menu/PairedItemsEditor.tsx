@@ -0,0 +1,71 @@
+import { X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { MenuItem } from "../../lib/api/menuItems";
+
+interface PairedItemsEditorProps {
+  value: number[];
+  onChange: (itemIds: number[]) => void;
+  items: MenuItem[];
+  // The item being edited, which cannot be paired with itself
+  itemId?: number;
+}
+
+export default function PairedItemsEditor({
+  value,
+  onChange,
+  items,
+  itemId,
+}: PairedItemsEditorProps) {
+  const getItemName = (pairedId: number) =>
+    items.find((item) => item.id === pairedId)?.name || `Item #${pairedId}`;
+
+  return (
+    <div className="space-y-2">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No linked items. Guests will see items that are often ordered together instead.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {value.map((pairedId) => (
+            <span
+              key={pairedId}
+              className="flex items-center gap-1 text-xs px-2 py-1 border rounded-full"
+            >
+              {getItemName(pairedId)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((id) => id !== pairedId))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <Select
+        value=""
+        onValueChange={(pairedId) => onChange([...value, parseInt(pairedId, 10)])}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Add an item" />
+        </SelectTrigger>
+        <SelectContent>
+          {items
+            .filter((item) => item.id !== itemId && !value.includes(item.id))
+            .map((item) => (
+              <SelectItem key={item.id} value={item.id.toString()}>
+                {item.name}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
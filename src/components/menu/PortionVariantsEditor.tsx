@@ -0,0 +1,120 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { PortionVariant } from "../../lib/api/menuItems";
+
+interface PortionVariantsEditorProps {
+  value: PortionVariant[];
+  onChange: (variants: PortionVariant[]) => void;
+}
+
+// Common portion sets offered as a starting point
+const VARIANT_PRESETS = [
+  ["Half", "Full"],
+  ["Regular", "Large"],
+  ["250ml", "500ml"],
+  ["Quarter", "Half", "Full"],
+];
+
+export default function PortionVariantsEditor({
+  value,
+  onChange,
+}: PortionVariantsEditorProps) {
+  // Update a single variant by index
+  const updateVariant = (index: number, changes: Partial<PortionVariant>) => {
+    onChange(
+      value.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    );
+  };
+
+  const addVariant = () => {
+    onChange([...value, { name: "", price: 0 }]);
+  };
+
+  const removeVariant = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            No portion sizes yet. Start from a common set or add your own.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {VARIANT_PRESETS.map((names) => (
+              <button
+                key={names.join("/")}
+                type="button"
+                className="text-xs px-2 py-1 border border-input rounded-full hover:bg-muted transition-colors"
+                onClick={() => onChange(names.map((name) => ({ name, price: 0 })))}
+              >
+                {names.join(" / ")}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {value.length > 0 && (
+        <div className="grid grid-cols-[1fr_5rem_4.5rem_2.5rem] gap-2 items-end">
+          <Label className="text-xs">Name</Label>
+          <Label className="text-xs">Price (₹)</Label>
+          <Label className="text-xs">Prep (min)</Label>
+          <span />
+          {value.map((variant, index) => (
+            <div key={variant.id ?? `new-${index}`} className="contents">
+              <Input
+                placeholder="e.g., Large"
+                value={variant.name}
+                onChange={(e) => updateVariant(index, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={variant.price}
+                onChange={(e) =>
+                  updateVariant(index, { price: parseFloat(e.target.value) || 0 })
+                }
+              />
+              <Input
+                type="number"
+                min="0"
+                placeholder="Item"
+                value={variant.preparationTime ?? ""}
+                onChange={(e) =>
+                  updateVariant(index, {
+                    preparationTime: e.target.value
+                      ? Math.max(0, parseInt(e.target.value, 10) || 0)
+                      : undefined,
+                  })
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeVariant(index)}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button type="button" variant="outline" size="sm" onClick={addVariant}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add portion size
+      </Button>
+      {value.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Leave prep time empty to use the item's preparation time.
+        </p>
+      )}
+    </div>
+  );
+}
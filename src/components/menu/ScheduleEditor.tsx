@@ -0,0 +1,234 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+import {
+  createDefaultSchedule,
+  Schedule,
+  ScheduleException,
+  ScheduleWindow,
+  toDateKey,
+  WEEKDAY_LABELS,
+} from "../../lib/schedule";
+
+interface ScheduleEditorProps {
+  value: Schedule | null;
+  onChange: (schedule: Schedule) => void;
+  description?: string;
+}
+
+export default function ScheduleEditor({
+  value,
+  onChange,
+  description = "Only available during these hours",
+}: ScheduleEditorProps) {
+  const schedule = value || createDefaultSchedule();
+
+  const update = (changes: Partial<Schedule>) => {
+    onChange({ ...schedule, ...changes });
+  };
+
+  // Update a single weekly window by index
+  const updateWindow = (index: number, changes: Partial<ScheduleWindow>) => {
+    update({
+      windows: schedule.windows.map((window, i) =>
+        i === index ? { ...window, ...changes } : window
+      ),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = schedule.windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day],
+    });
+  };
+
+  const addWindow = () => {
+    update({
+      windows: [
+        ...schedule.windows,
+        { days: [1, 2, 3, 4, 5], start: "12:00", end: "15:00" },
+      ],
+    });
+  };
+
+  const removeWindow = (index: number) => {
+    update({ windows: schedule.windows.filter((_, i) => i !== index) });
+  };
+
+  // Update a single date exception by index
+  const updateException = (index: number, changes: Partial<ScheduleException>) => {
+    update({
+      exceptions: schedule.exceptions.map((exception, i) =>
+        i === index ? { ...exception, ...changes } : exception
+      ),
+    });
+  };
+
+  const addException = () => {
+    update({
+      exceptions: [
+        ...schedule.exceptions,
+        { date: toDateKey(new Date()), label: "", isClosed: true },
+      ],
+    });
+  };
+
+  const removeException = (index: number) => {
+    update({ exceptions: schedule.exceptions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Use a schedule</Label>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <Switch
+          checked={schedule.isEnabled}
+          onCheckedChange={(checked) => update({ isEnabled: checked })}
+        />
+      </div>
+
+      {schedule.isEnabled && (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Weekly hours</p>
+            {schedule.windows.map((window, index) => (
+              <div key={index} className="rounded-md bg-muted/50 p-2 space-y-2">
+                <div className="flex flex-wrap gap-1">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      className={`text-xs px-2 py-1 border rounded-full transition-colors ${
+                        window.days.includes(day)
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "border-input hover:bg-muted"
+                      }`}
+                      onClick={() => toggleDay(index, day)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={window.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    value={window.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeWindow(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {window.end < window.start && (
+                  <p className="text-xs text-muted-foreground">
+                    Runs past midnight into the next day
+                  </p>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addWindow}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add hours
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Holidays & exceptions</p>
+            {schedule.exceptions.map((exception, index) => (
+              <div key={index} className="rounded-md bg-muted/50 p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    value={exception.date}
+                    onChange={(e) => updateException(index, { date: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Label (e.g. Diwali)"
+                    value={exception.label || ""}
+                    onChange={(e) => updateException(index, { label: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeException(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={exception.isClosed}
+                    onCheckedChange={(checked) =>
+                      updateException(index, {
+                        isClosed: checked,
+                        windows: checked
+                          ? undefined
+                          : exception.windows || [{ start: "11:00", end: "16:00" }],
+                      })
+                    }
+                  />
+                  <Label className="text-sm">Closed all day</Label>
+                </div>
+                {!exception.isClosed && (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={exception.windows?.[0]?.start || ""}
+                      onChange={(e) =>
+                        updateException(index, {
+                          windows: [
+                            {
+                              start: e.target.value,
+                              end: exception.windows?.[0]?.end || "",
+                            },
+                          ],
+                        })
+                      }
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={exception.windows?.[0]?.end || ""}
+                      onChange={(e) =>
+                        updateException(index, {
+                          windows: [
+                            {
+                              start: exception.windows?.[0]?.start || "",
+                              end: e.target.value,
+                            },
+                          ],
+                        })
+                      }
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addException}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add exception
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { Loader, Pizza, Plus } from "lucide-react";
+import { MenuItem } from "../../lib/api/menuItems";
+import { formatPrice } from "../../lib/utils";
+import { Translate } from "../../lib/i18n";
+
+interface UpsellCarouselProps {
+  items: MenuItem[];
+  onAdd: (item: MenuItem) => Promise<void>;
+  title?: string;
+  // Name to show for an item, e.g. in the guest's language
+  getItemName?: (item: MenuItem) => string;
+  // Hide the add buttons, e.g. while the kitchen is not taking orders
+  canAdd?: boolean;
+  t: Translate;
+}
+
+const UpsellCarousel: React.FC<UpsellCarouselProps> = ({
+  items,
+  onAdd,
+  title,
+  getItemName = (item) => item.name,
+  canAdd = true,
+  t,
+}) => {
+  const [addingId, setAddingId] = useState<number | null>(null);
+  const [addedIds, setAddedIds] = useState<number[]>([]);
+
+  if (items.length === 0) return null;
+
+  const handleAdd = async (item: MenuItem) => {
+    try {
+      setAddingId(item.id);
+      await onAdd(item);
+      setAddedIds((prev) => [...prev, item.id]);
+    } catch (err) {
+      console.error("Error adding suggested item to cart:", err);
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="font-brand-heading text-sm font-semibold text-white mb-2">
+        {title ?? t("goesWellWith")}
+      </h3>
+      <div className="flex gap-3 overflow-x-auto pb-2 -mx-1 px-1 snap-x">
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className="w-32 flex-shrink-0 snap-start rounded-lg bg-brand-surface-alt border border-brand-muted overflow-hidden"
+          >
+            <div className="h-20 bg-brand-muted">
+              {item.imageUrl ? (
+                <img
+                  src={item.imageUrl}
+                  alt={getItemName(item)}
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <div className="h-full w-full flex items-center justify-center text-gray-500">
+                  <Pizza className="h-6 w-6" />
+                </div>
+              )}
+            </div>
+            <div className="p-2">
+              <p className="text-xs text-white line-clamp-2 min-h-[2rem]">
+                {getItemName(item)}
+              </p>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs font-bold text-brand-primary">
+                  {formatPrice(item.fullPrice)}
+                </span>
+                {canAdd && (
+                  <button
+                    onClick={() => handleAdd(item)}
+                    disabled={addingId !== null}
+                    className="h-6 w-6 flex items-center justify-center rounded-full bg-brand-primary text-brand-on-primary hover:bg-brand-primary-hover disabled:opacity-50"
+                  >
+                    {addingId === item.id ? (
+                      <Loader className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Plus className="h-3 w-3" />
+                    )}
+                    <span className="sr-only">{t("addItem", { name: getItemName(item) })}</span>
+                  </button>
+                )}
+              </div>
+              {addedIds.includes(item.id) && (
+                <p className="text-[10px] text-green-400 mt-1">{t("added")}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UpsellCarousel;
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Flag, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { OrderPriority, ordersApi, WaiterOrder } from "../../lib/api/orders";
+import {
+  ORDER_PRIORITIES,
+  PRIORITY_DESCRIPTIONS,
+  PRIORITY_LABELS,
+} from "../../lib/orderPriority";
+
+interface OrderPriorityDialogProps {
+  order: WaiterOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onUpdated: (order: WaiterOrder) => void;
+}
+
+// Lets waiters and admins move an order up the kitchen queue
+export default function OrderPriorityDialog({
+  order,
+  onOpenChange,
+  onUpdated,
+}: OrderPriorityDialogProps) {
+  const [priority, setPriority] = useState<OrderPriority | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start from the order's current flag each time the dialog opens
+  useEffect(() => {
+    if (!order) return;
+    setPriority(order.priority ?? null);
+    setNote(order.priorityNote ?? "");
+  }, [order]);
+
+  const handleSave = async () => {
+    if (!order) return;
+    if (priority === "ALLERGY" && !note.trim()) {
+      toast.error("Add the allergy so the kitchen knows what to avoid");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updatedOrder = await ordersApi.setPriority(
+        order.id,
+        priority,
+        priority ? note.trim() || undefined : undefined
+      );
+      onUpdated(updatedOrder);
+      onOpenChange(false);
+      toast.success(
+        priority
+          ? `Order #${order.id} flagged as ${PRIORITY_LABELS[priority].toLowerCase()}`
+          : `Flag cleared on order #${order.id}`
+      );
+    } catch (error) {
+      console.error(`Error updating order ${order.id} priority:`, error);
+      toast.error("Failed to update order priority");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={order !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            Flag Order #{order?.id}
+          </DialogTitle>
+          <DialogDescription>
+            Flagged orders are pinned to the top of the kitchen screen and printed
+            prominently on the KOT.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2">
+            {[...ORDER_PRIORITIES, null].map((option) => (
+              <button
+                key={option ?? "none"}
+                type="button"
+                className={`rounded-lg border p-3 text-left transition-colors hover:bg-muted ${
+                  priority === option ? "border-primary ring-2 ring-primary/30" : ""
+                }`}
+                onClick={() => setPriority(option)}
+              >
+                <div className="font-medium">{option ? PRIORITY_LABELS[option] : "No flag"}</div>
+                <div className="text-xs text-muted-foreground">
+                  {option ? PRIORITY_DESCRIPTIONS[option] : "Cook in turn with other orders"}
+                </div>
+              </button>
+            ))}
+          </div>
+          {priority && (
+            <div className="space-y-2">
+              <Label htmlFor="priority-note">
+                {priority === "ALLERGY" ? "Allergy" : "Note for the kitchen"}
+              </Label>
+              <Input
+                id="priority-note"
+                placeholder={priority === "ALLERGY" ? "e.g. Peanuts, shellfish" : "Optional"}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,30 @@
+import { Flag, Zap } from "lucide-react";
+import { Badge } from "../ui/badge";
+import { WaiterOrder } from "../../lib/api/orders";
+import { PRIORITY_LABELS, PRIORITY_STYLES } from "../../lib/orderPriority";
+
+interface PriorityBadgeProps {
+  order: WaiterOrder;
+  // Show the note next to the flag, e.g. the allergy
+  showNote?: boolean;
+}
+
+// The order's priority or rush flag; renders nothing for unflagged orders
+export default function PriorityBadge({ order, showNote = false }: PriorityBadgeProps) {
+  if (!order.priority) return null;
+  const Icon = order.priority === "RUSH" ? Zap : Flag;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`uppercase ${PRIORITY_STYLES[order.priority]}`}
+      title={order.prioritySetBy ? `Flagged by ${order.prioritySetBy.name}` : undefined}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {PRIORITY_LABELS[order.priority]}
+      {showNote && order.priorityNote && (
+        <span className="ml-1 normal-case font-normal">: {order.priorityNote}</span>
+      )}
+    </Badge>
+  );
+}
@@ -8,6 +8,7 @@ import {
 } from "../ui/card";
 import { Button } from "../ui/button";
 import { PaymentDetails, WaiterOrder } from "../../lib/api/orders";
+import { formatVariantName } from "../../lib/utils";
 import { useSocket } from "../../lib/SocketContext";
 import { 
   CreditCard, 
@@ -159,8 +160,19 @@ export function OrderDetails({ order, onCompleteOrder }: OrderDetailsProps) {
                     <tr key={item.id} className="border-b last:border-b-0">
                       <td className="p-2 pl-3">
                         <div>
-                          <div className="font-medium">{item.item?.name}</div>
-                          {item.item?.description && (
+                          <div className="font-medium">
+                            {formatVariantName(item.item?.name || "", item.variant)}
+                          </div>
+                          {item.comboItems && item.comboItems.length > 0 ? (
+                            <ul className="text-xs text-muted-foreground mt-0.5">
+                              {item.comboItems.map((comboItem) => (
+                                <li key={comboItem.slotId}>
+                                  • {comboItem.quantity > 1 && `${comboItem.quantity}× `}
+                                  {comboItem.name}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : item.item?.description && (
                             <div className="text-xs text-muted-foreground mt-0.5">{item.item.description}</div>
                           )}
                         </div>
@@ -1,9 +1,17 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Card, CardContent } from "../ui/card";
 import { Button } from "../ui/button";
 import { Printer, RotateCcw } from "lucide-react";
 import { WaiterOrder } from "../../lib/api/orders";
 import { format } from "date-fns";
+import { escapeHtml, formatVariantName } from "../../lib/utils";
+import { brandingApi } from "../../lib/api/branding";
+import {
+  Branding,
+  DEFAULT_BRANDING,
+  getFontFamily,
+  toCssVariables,
+} from "../../lib/branding";
 
 interface ReceiptGeneratorProps {
   order: WaiterOrder;
@@ -17,6 +25,15 @@ export function ReceiptGenerator({
   onNewTransaction,
 }: ReceiptGeneratorProps) {
   const receiptRef = useRef<HTMLDivElement>(null);
+  const [branding, setBranding] = useState<Branding>(DEFAULT_BRANDING);
+
+  // Receipts carry the restaurant branding; the default is printed if it cannot be loaded
+  useEffect(() => {
+    brandingApi
+      .get()
+      .then(setBranding)
+      .catch((error) => console.error("Error fetching branding:", error));
+  }, []);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -98,11 +115,19 @@ export function ReceiptGenerator({
       .map(
         (item) => `
       <tr>
-        <td>${item.item?.name}</td>
+        <td>${escapeHtml(formatVariantName(item.item?.name || "", item.variant))}</td>
         <td>${item.quantity}</td>
         <td>₹${Number(item.price).toFixed(2)}</td>
         <td>₹${(Number(item.price) * item.quantity).toFixed(2)}</td>
       </tr>
+      ${(item.comboItems || [])
+        .map(
+          (comboItem) => `
+      <tr class="combo-item">
+        <td colspan="4">- ${comboItem.quantity > 1 ? `${comboItem.quantity}x ` : ""}${escapeHtml(comboItem.name)}</td>
+      </tr>`
+        )
+        .join("")}
     `
       )
       .join("");
@@ -111,6 +136,20 @@ export function ReceiptGenerator({
     const taxAmount = getTaxAmount();
     const taxPercentage = getTaxPercentage();
 
+    // The print window has no base URL, so relative logo paths are resolved here
+    const logoUrl = branding.logoUrl
+      ? new URL(branding.logoUrl, window.location.origin).href
+      : "";
+    const contactLines = [
+      branding.contact.address,
+      branding.contact.phone && `Mobile- ${branding.contact.phone}`,
+      branding.contact.email,
+      branding.contact.gstin && `GSTIN- ${branding.contact.gstin}`,
+    ]
+      .filter(Boolean)
+      .map((line) => `<p>${escapeHtml(line as string)}</p>`)
+      .join("");
+
     // Write the print document
     printWindow.document.open();
     printWindow.document.write(`
@@ -123,6 +162,9 @@ export function ReceiptGenerator({
               margin: 0;
               size: 80mm auto;
             }
+            :root {
+              --brand-font-heading: ${getFontFamily(branding.headingFont)};
+            }
             * {
               margin: 0;
               padding: 0;
@@ -145,7 +187,15 @@ export function ReceiptGenerator({
               text-align: center;
               margin-bottom: 5mm;
             }
+            .receipt-header img {
+              max-height: 12mm;
+              max-width: 40mm;
+              margin: 0 auto 2mm;
+              display: block;
+              filter: grayscale(100%);
+            }
             .receipt-header h1 {
+              font-family: var(--brand-font-heading);
               font-size: 14px;
               margin: 0;
               padding: 0;
@@ -178,6 +228,10 @@ export function ReceiptGenerator({
               text-align: right;
               width: 14mm;
             }
+            .combo-item td {
+              padding: 0 0 0 2mm;
+              font-size: 9px;
+            }
             .totals {
               text-align: right;
               margin: 2mm 0;
@@ -211,10 +265,9 @@ export function ReceiptGenerator({
         <body>
           <div class="receipt-container">
             <div class="receipt-header">
-              <h1>Hotel Dastan</h1>
-              <p>DC Complex,4th Floor, Royal City, Chahal Road, Faridkot, Punjab</p>
-              <p>Mobile- 9876543210</p>
-              <p>GSTIN- 03ANPPC7864G1ZV</p>
+              ${logoUrl ? `<img src="${escapeHtml(logoUrl)}" alt="" />` : ""}
+              <h1>${escapeHtml(branding.name)}</h1>
+              ${contactLines}
               <p>Receipt</p>
               <p>${format(new Date(order.updatedAt), "dd/MM/yyyy HH:mm:ss")}</p>
               <p>Order: #${order.id} • Table: ${
@@ -288,13 +341,25 @@ export function ReceiptGenerator({
   return (
     <div className="space-y-4">
       <Card className="print:shadow-none print:border-none receipt-content">
-        <CardContent className="p-8 thermal-receipt" ref={receiptRef}>
+        <CardContent
+          className="font-brand p-8 thermal-receipt"
+          style={toCssVariables(branding)}
+          ref={receiptRef}
+        >
           {/* Receipt Header */}
           <div className="text-center mb-4">
-            <h2 className="text-xl font-bold">Hotel Dastan</h2>
-            <p>DC Complex,4th Floor, Royal City, Chahal Road, Faridkot, Punjab</p>
-            <p>Mobile- 9876543210</p>
-            <p>GSTIN- 03ANPPC7864G1ZV</p>
+            {branding.logoUrl && (
+              <img
+                src={branding.logoUrl}
+                alt={branding.name}
+                className="h-10 w-auto mx-auto mb-2 object-contain"
+              />
+            )}
+            <h2 className="font-brand-heading text-xl font-bold">{branding.name}</h2>
+            {branding.contact.address && <p>{branding.contact.address}</p>}
+            {branding.contact.phone && <p>Mobile- {branding.contact.phone}</p>}
+            {branding.contact.email && <p>{branding.contact.email}</p>}
+            {branding.contact.gstin && <p>GSTIN- {branding.contact.gstin}</p>}
             <p className="text-xs text-muted-foreground">Receipt</p>
             <div className="text-xs mt-1">
               <p>{format(new Date(order.updatedAt), "dd/MM/yyyy HH:mm:ss")}</p>
@@ -322,7 +387,15 @@ export function ReceiptGenerator({
               <tbody>
                 {order.orderItems.map((item) => (
                   <tr key={item.id} className="border-b border-dotted">
-                    <td className="py-1 text-left">{item.item?.name}</td>
+                    <td className="py-1 text-left">
+                      {formatVariantName(item.item?.name || "", item.variant)}
+                      {item.comboItems?.map((comboItem) => (
+                        <div key={comboItem.slotId} className="text-[10px] text-gray-500">
+                          - {comboItem.quantity > 1 && `${comboItem.quantity}x `}
+                          {comboItem.name}
+                        </div>
+                      ))}
+                    </td>
                     <td className="py-1 text-center">{item.quantity}</td>
                     <td className="py-1 text-right">
                       ₹{Number(item.price).toFixed(2)}
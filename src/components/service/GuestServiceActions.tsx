@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { BellRing, GlassWater, Receipt, UserRound, X } from "lucide-react";
+import {
+  ServiceRequest,
+  ServiceRequestEmit,
+  ServiceRequestType,
+} from "../../lib/api/serviceRequests";
+import { useSocket } from "../../lib/SocketContext";
+import { getGuestId } from "../../lib/GuestIdentity";
+import { getGuestSession } from "../../lib/GuestSession";
+import { Translate } from "../../lib/i18n";
+
+interface GuestServiceActionsProps {
+  tableId: number;
+  onStatusMessage: (message: string) => void;
+  t: Translate;
+}
+
+// Guests can repeat the same request only after this delay
+const REQUEST_COOLDOWN_MS = 60 * 1000;
+
+const actions: { type: ServiceRequestType; icon: React.ReactNode }[] = [
+  { type: "CALL_WAITER", icon: <UserRound className="h-5 w-5" /> },
+  { type: "REQUEST_BILL", icon: <Receipt className="h-5 w-5" /> },
+  { type: "WATER_CUTLERY", icon: <GlassWater className="h-5 w-5" /> },
+];
+
+const GuestServiceActions: React.FC<GuestServiceActionsProps> = ({
+  tableId,
+  onStatusMessage,
+  t,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<
+    Partial<Record<ServiceRequestType, number>>
+  >({});
+  const { socket } = useSocket();
+
+  // Tell the guest when staff pick up or close their request
+  useEffect(() => {
+    const onUpdated = (request: ServiceRequest) => {
+      if (request.tableId !== tableId) return;
+
+      if (request.status === "ACKNOWLEDGED") {
+        onStatusMessage(
+          t("staffOnTheWay", {
+            name: request.acknowledgedBy?.name || t("aStaffMember"),
+            request: t(`serviceRequest.${request.type}`),
+          })
+        );
+      } else if (request.status === "RESOLVED") {
+        setLastSentAt((prev) => ({ ...prev, [request.type]: undefined }));
+      }
+    };
+
+    socket.on("service:request-updated", onUpdated);
+    return () => {
+      socket.off("service:request-updated", onUpdated);
+    };
+  }, [socket, tableId, onStatusMessage, t]);
+
+  const isCoolingDown = (type: ServiceRequestType) => {
+    const sentAt = lastSentAt[type];
+    return sentAt !== undefined && Date.now() - sentAt < REQUEST_COOLDOWN_MS;
+  };
+
+  const sendRequest = (type: ServiceRequestType) => {
+    if (isCoolingDown(type)) return;
+
+    const payload: ServiceRequestEmit = {
+      tableId,
+      type,
+      guestId: getGuestId(),
+      sessionToken: getGuestSession()?.sessionToken,
+    };
+    socket.emit("service:request", payload);
+
+    setLastSentAt((prev) => ({ ...prev, [type]: Date.now() }));
+    onStatusMessage(t("serviceRequestSent", { request: t(`serviceRequest.${type}`) }));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="fixed bottom-20 right-4 z-40 flex flex-col items-end gap-2">
+      <AnimatePresence>
+        {isOpen &&
+          actions.map((action, index) => (
+            <motion.button
+              key={action.type}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0, transition: { delay: index * 0.05 } }}
+              exit={{ opacity: 0, y: 10 }}
+              onClick={() => sendRequest(action.type)}
+              disabled={isCoolingDown(action.type)}
+              className="flex items-center gap-2 bg-brand-surface border border-brand-muted text-white px-4 py-2 rounded-full shadow-lg hover:bg-brand-muted disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <span className="text-brand-primary">{action.icon}</span>
+              <span className="text-sm font-medium">
+                {t(`serviceRequest.${action.type}`)}
+                {isCoolingDown(action.type) && ` (${t("sent")})`}
+              </span>
+            </motion.button>
+          ))}
+      </AnimatePresence>
+
+      <motion.button
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-14 w-14 rounded-full bg-brand-primary text-brand-on-primary flex items-center justify-center shadow-lg"
+        aria-label={t("askForService")}
+      >
+        {isOpen ? <X className="h-6 w-6" /> : <BellRing className="h-6 w-6" />}
+      </motion.button>
+    </div>
+  );
+};
+
+export default GuestServiceActions;
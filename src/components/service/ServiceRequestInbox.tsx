@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  Bell,
+  BellOff,
+  Check,
+  CheckCircle,
+  GlassWater,
+  Receipt,
+  UserRound,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../ui/card";
+import {
+  ServiceRequest,
+  ServiceRequestType,
+  SERVICE_REQUEST_LABELS,
+  serviceRequestsApi,
+} from "../../lib/api/serviceRequests";
+import { useSocket } from "../../lib/SocketContext";
+import { playNotificationSound } from "../../lib/utils";
+
+const SOUND_PREFERENCE_KEY = "service-inbox-sound";
+
+const typeIcons: Record<ServiceRequestType, React.ReactNode> = {
+  CALL_WAITER: <UserRound className="h-4 w-4" />,
+  REQUEST_BILL: <Receipt className="h-4 w-4" />,
+  WATER_CUTLERY: <GlassWater className="h-4 w-4" />,
+};
+
+// Format how long a request has been waiting
+const formatWaiting = (timestamp: string, now: number) => {
+  const diffInSeconds = Math.max(
+    0,
+    Math.floor((now - new Date(timestamp).getTime()) / 1000)
+  );
+  if (diffInSeconds < 60) return `${diffInSeconds}s`;
+
+  const minutes = Math.floor(diffInSeconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Pending requests first, then the ones that have waited longest
+const sortRequests = (requests: ServiceRequest[]) =>
+  [...requests].sort((a, b) => {
+    if (a.status !== b.status) return a.status === "PENDING" ? -1 : 1;
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  });
+
+export default function ServiceRequestInbox() {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [soundEnabled, setSoundEnabled] = useState(
+    localStorage.getItem(SOUND_PREFERENCE_KEY) !== "off"
+  );
+  const { socket } = useSocket();
+
+  // Load the open requests on mount
+  useEffect(() => {
+    const fetchRequests = async () => {
+      try {
+        const data = await serviceRequestsApi.getActive();
+        setRequests(data.filter((request) => request.status !== "RESOLVED"));
+      } catch {
+        toast.error("Failed to load service requests");
+      }
+    };
+
+    fetchRequests();
+  }, []);
+
+  // Refresh the waiting times
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Live updates from guests and other staff devices
+  useEffect(() => {
+    const onCreated = (request: ServiceRequest) => {
+      setRequests((prev) =>
+        prev.some((r) => r.id === request.id) ? prev : [...prev, request]
+      );
+      if (soundEnabled) playNotificationSound();
+      toast.info(
+        `Table ${request.table?.tableNumber ?? request.tableId}: ${
+          SERVICE_REQUEST_LABELS[request.type]
+        }`
+      );
+    };
+
+    const onUpdated = (request: ServiceRequest) => {
+      setRequests((prev) =>
+        request.status === "RESOLVED"
+          ? prev.filter((r) => r.id !== request.id)
+          : prev.map((r) => (r.id === request.id ? request : r))
+      );
+    };
+
+    socket.on("service:request-created", onCreated);
+    socket.on("service:request-updated", onUpdated);
+
+    return () => {
+      socket.off("service:request-created", onCreated);
+      socket.off("service:request-updated", onUpdated);
+    };
+  }, [socket, soundEnabled]);
+
+  const toggleSound = () => {
+    const enabled = !soundEnabled;
+    setSoundEnabled(enabled);
+    localStorage.setItem(SOUND_PREFERENCE_KEY, enabled ? "on" : "off");
+  };
+
+  const handleAcknowledge = async (requestId: number) => {
+    try {
+      const updated = await serviceRequestsApi.acknowledge(requestId);
+      setRequests((prev) => prev.map((r) => (r.id === requestId ? updated : r)));
+    } catch {
+      toast.error("Failed to acknowledge request");
+    }
+  };
+
+  const handleResolve = async (requestId: number) => {
+    try {
+      await serviceRequestsApi.resolve(requestId);
+      setRequests((prev) => prev.filter((r) => r.id !== requestId));
+    } catch {
+      toast.error("Failed to resolve request");
+    }
+  };
+
+  const pendingCount = requests.filter((r) => r.status === "PENDING").length;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Service Requests
+            {pendingCount > 0 && (
+              <Badge className="bg-red-500">{pendingCount} new</Badge>
+            )}
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleSound}
+            title={soundEnabled ? "Mute alerts" : "Unmute alerts"}
+          >
+            {soundEnabled ? (
+              <Bell className="h-4 w-4" />
+            ) : (
+              <BellOff className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+        <CardDescription>Requests from guests at their tables</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No open requests. All tables are taken care of.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            <AnimatePresence initial={false}>
+              {sortRequests(requests).map((request) => (
+                <motion.li
+                  key={request.id}
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: "auto" }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="py-2 flex items-center justify-between gap-3"
+                >
+                  <div className="flex items-center gap-3">
+                    <span
+                      className={`h-8 w-8 rounded-full flex items-center justify-center ${
+                        request.status === "PENDING"
+                          ? "bg-red-100 text-red-600"
+                          : "bg-amber-100 text-amber-600"
+                      }`}
+                    >
+                      {typeIcons[request.type]}
+                    </span>
+                    <div>
+                      <p className="font-medium text-sm">
+                        Table {request.table?.tableNumber ?? request.tableId} ·{" "}
+                        {SERVICE_REQUEST_LABELS[request.type]}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Waiting {formatWaiting(request.createdAt, now)}
+                        {request.status === "ACKNOWLEDGED" &&
+                          ` · Acknowledged${
+                            request.acknowledgedBy
+                              ? ` by ${request.acknowledgedBy.name}`
+                              : ""
+                          }`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {request.status === "PENDING" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleAcknowledge(request.id)}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        On my way
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      className="bg-green-500 hover:bg-green-600"
+                      onClick={() => handleResolve(request.id)}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Done
+                    </Button>
+                  </div>
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
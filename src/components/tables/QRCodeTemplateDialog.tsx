@@ -1,4 +1,4 @@
-import { useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import html2canvas from "html2canvas";
 import {
   Dialog,
@@ -8,6 +8,16 @@ import {
 import { Label } from "../ui/label";
 import { Button } from "../ui/button";
 import { Table } from "../../lib/api/tables";
+import { brandingApi } from "../../lib/api/branding";
+import { menusApi } from "../../lib/api/menus";
+import {
+  Branding,
+  DEFAULT_BRANDING,
+  loadBrandFonts,
+  resolveBranding,
+  toCssVariables,
+} from "../../lib/branding";
+import BrandLogo from "../branding/BrandLogo";
 
 interface QRCodeTemplateDialogProps {
   open: boolean;
@@ -21,6 +31,28 @@ export function QRCodeTemplateDialog({
   table,
 }: QRCodeTemplateDialogProps) {
   const qrTemplateRef = useRef<HTMLDivElement>(null);
+  const [branding, setBranding] = useState<Branding>(DEFAULT_BRANDING);
+
+  // Use the branding guests see on this table's menu
+  useEffect(() => {
+    if (!open || !table) return;
+
+    const fetchBranding = async () => {
+      try {
+        const [restaurantBranding, menu] = await Promise.all([
+          brandingApi.get(),
+          menusApi.getById(table.menuId.toString()),
+        ]);
+        const resolved = resolveBranding(restaurantBranding, menu.branding);
+        loadBrandFonts(resolved);
+        setBranding(resolved);
+      } catch (error) {
+        console.error("Error fetching branding:", error);
+      }
+    };
+
+    fetchBranding();
+  }, [open, table]);
 
   if (!table) return null;
 
@@ -56,33 +88,35 @@ export function QRCodeTemplateDialog({
           <div className="border-t">
             <Label className="block text-sm font-medium">Preview</Label>
             <div
-              className="aspect-square w-full max-w-[200px] h-[200px] mx-auto"
+              className="font-brand w-full max-w-[260px] mx-auto mt-2 rounded-xl bg-brand-background text-white p-4 flex flex-col items-center gap-3"
+              style={toCssVariables(branding)}
               ref={qrTemplateRef}
             >
+              <BrandLogo branding={branding} height={36} />
+
               {/* QR Code */}
-              <div className="flex items-center flex-col justify-center w-full">
-                <div
-                  className="bg-white rounded-md flex items-center justify-center overflow-hidden"
+              <div
+                className="bg-white rounded-md flex items-center justify-center overflow-hidden border-4 border-brand-primary"
+                style={{
+                  width: "200px",
+                  height: "200px",
+                }}
+              >
+                <img
+                  src={table.qrCodeUrl}
+                  alt={`QR Code for Table ${table.tableNumber}`}
                   style={{
-                    width: "200px",
-                    height: "200px",
+                    width: "100%",
+                    height: "100%",
+                    objectFit: "contain",
+                    display: "block",
                   }}
-                >
-                  <img
-                    src={table.qrCodeUrl}
-                    alt={`QR Code for Table ${table.tableNumber}`}
-                    style={{
-                      width: "100%",
-                      height: "100%",
-                      objectFit: "contain",
-                      display: "block",
-                    }}
-                  />
-                </div>
-                <div className="text-center font-bold -mt-8 tracking-wider uppercase">
-                  Table : {table.tableNumber}
-                </div>
+                />
+              </div>
+              <div className="font-brand-heading text-center font-bold tracking-wider uppercase text-brand-primary">
+                Table : {table.tableNumber}
               </div>
+              <div className="text-xs text-brand-accent">Scan to view the menu and order</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,56 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog";
+import { Table } from "../../lib/api/tables";
+
+interface RotateTableTokenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table?: Table;
+  onConfirm: () => Promise<void>;
+}
+
+export function RotateTableTokenDialog({
+  open,
+  onOpenChange,
+  table,
+  onConfirm,
+}: RotateTableTokenDialogProps) {
+  const handleConfirm = async () => {
+    await onConfirm();
+    onOpenChange(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Rotate QR code?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {table && (
+              <span>
+                This issues a new QR code for Table #{table.tableNumber}
+                {table.location ? ` (${table.location})` : ""}.
+                <br />
+                <br />
+                The printed QR code will stop working, so download and replace it
+                afterwards. Guests already seated keep their current session.
+              </span>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm}>Rotate</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * Cart state for the guest menu that keeps up with rapid taps.
+ * Quantity changes show on screen straight away. Taps on the same item and
+ * portion are collected for a moment and sent as one request; requests for an
+ * item go out one at a time so they reach the server in order. A failed
+ * request is rolled back and reported through onError. The cart returned by
+ * the server, and carts pushed by other devices at the table, replace what
+ * is shown unless they are older than it.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Cart, cartApi, CartItemAuthor } from "../lib/api/cart";
+import { getGuestId } from "../lib/GuestIdentity";
+
+// How long to wait for further taps before sending them as one request
+export const CART_BATCH_DELAY_MS = 400;
+
+/**
+ * Key that cart quantities are tracked under
+ * @param itemId The menu item
+ * @param variantId The portion variant, if the item has any
+ * @returns The key, e.g. "12:3"
+ */
+export const getQuantityKey = (itemId: number, variantId?: number | null) =>
+  `${itemId}:${variantId ?? ""}`;
+
+// Taps on one item and portion waiting to be sent
+interface PendingChange {
+  itemId: number;
+  variantId: number | null;
+  delta: number;
+}
+
+interface UseOptimisticCartOptions {
+  // Called after a change was rolled back because the server rejected it
+  onError?: (error: unknown) => void;
+}
+
+// Adds a delta to one key, dropping keys that come back to zero
+const addDelta = (deltas: Record<string, number>, key: string, delta: number) => {
+  const next = { ...deltas, [key]: (deltas[key] || 0) + delta };
+  if (next[key] === 0) delete next[key];
+  return next;
+};
+
+export function useOptimisticCart(
+  tableId: number | null,
+  { onError }: UseOptimisticCartOptions = {}
+) {
+  const [serverCart, setServerCart] = useState<Cart | null>(null);
+  // Changes shown on screen that the server has not confirmed yet, by quantity key
+  const [optimisticDeltas, setOptimisticDeltas] = useState<Record<string, number>>({});
+  const pendingRef = useRef<Record<string, PendingChange>>({});
+  const timersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const versionRef = useRef<number | undefined>(undefined);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  // Show a cart from the server, unless a newer one is already shown
+  const applyServerCart = useCallback((cart: Cart) => {
+    if (
+      cart.version !== undefined &&
+      versionRef.current !== undefined &&
+      cart.version < versionRef.current
+    ) {
+      return;
+    }
+    versionRef.current = cart.version;
+    setServerCart(cart);
+  }, []);
+
+  // Show a cart pushed over the socket. While this device is waiting for its own
+  // change, its own pushes are skipped: the response brings the same cart and the
+  // change would otherwise be counted twice.
+  const applyRemoteCart = useCallback(
+    (cart: Cart, updatedBy?: CartItemAuthor) => {
+      if (updatedBy?.guestId === getGuestId() && inFlightRef.current.size > 0) return;
+      applyServerCart(cart);
+    },
+    [applyServerCart]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!tableId) return;
+    try {
+      applyServerCart(await cartApi.getCartByTableId(tableId));
+    } catch (err) {
+      console.error("Error fetching cart data:", err);
+    }
+  }, [tableId, applyServerCart]);
+
+  // Send the taps collected for one item and portion
+  const flush = useCallback(
+    async (key: string) => {
+      delete timersRef.current[key];
+
+      // The next batch goes out when the current request for this item finishes
+      if (inFlightRef.current.has(key)) return;
+
+      const change = pendingRef.current[key];
+      delete pendingRef.current[key];
+      // Taps that cancelled each other out need no request
+      if (!tableId || !change || change.delta === 0) return;
+
+      inFlightRef.current.add(key);
+      try {
+        const cart = await cartApi.adjustQuantity(tableId, change.itemId, change.delta, {
+          variantId: change.variantId ?? undefined,
+        });
+        applyServerCart(cart);
+      } catch (err) {
+        console.error("Error updating cart:", err);
+        onErrorRef.current?.(err);
+        refresh();
+      } finally {
+        // The change is now part of the server cart, or it has been rolled back
+        setOptimisticDeltas((prev) => addDelta(prev, key, -change.delta));
+        inFlightRef.current.delete(key);
+        if (pendingRef.current[key] && !timersRef.current[key]) {
+          flush(key);
+        }
+      }
+    },
+    [tableId, applyServerCart, refresh]
+  );
+
+  // Add (positive delta) or take off (negative delta) some of an item
+  const changeQuantity = useCallback(
+    (itemId: number, variantId: number | null, delta: number) => {
+      const key = getQuantityKey(itemId, variantId);
+      setOptimisticDeltas((prev) => addDelta(prev, key, delta));
+
+      const pending = pendingRef.current[key];
+      pendingRef.current[key] = {
+        itemId,
+        variantId,
+        delta: (pending?.delta || 0) + delta,
+      };
+
+      clearTimeout(timersRef.current[key]);
+      timersRef.current[key] = setTimeout(() => flush(key), CART_BATCH_DELAY_MS);
+    },
+    [flush]
+  );
+
+  // Load the cart for the table, and start over when the table changes
+  useEffect(() => {
+    versionRef.current = undefined;
+    setServerCart(null);
+    refresh();
+  }, [refresh]);
+
+  // Send any taps still waiting when the page goes away
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      Object.keys(timers).forEach((key) => {
+        clearTimeout(timers[key]);
+        flush(key);
+      });
+    };
+  }, [flush]);
+
+  const items = useMemo(() => serverCart?.items || [], [serverCart]);
+
+  // Quantity per item and portion, including changes not confirmed yet
+  const quantities = useMemo(() => {
+    const result: Record<string, number> = {};
+
+    // An item can appear on several lines with different modifiers
+    items.forEach((item) => {
+      const key = getQuantityKey(item.itemId, item.variant?.variantId);
+      result[key] = (result[key] || 0) + item.quantity;
+    });
+
+    Object.entries(optimisticDeltas).forEach(([key, delta]) => {
+      result[key] = Math.max(0, (result[key] || 0) + delta);
+    });
+
+    return result;
+  }, [items, optimisticDeltas]);
+
+  const itemCount = useMemo(
+    () => Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0),
+    [quantities]
+  );
+
+  return {
+    items,
+    quantities,
+    itemCount,
+    changeQuantity,
+    applyServerCart,
+    applyRemoteCart,
+    refresh,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Remembers which feedback invites a guest has dismissed on this device.
+ * Completed orders that have not been rated are loaded again on every visit,
+ * so without this a dismissed invite would come back after each reload.
+ */
+
+const DISMISSED_KEY = 'feedback-dismissed-orders';
+
+// Only the most recent dismissals are kept; older orders can no longer be rated anyway
+const MAX_DISMISSED = 50;
+
+/**
+ * Returns the ids of orders whose feedback invite was dismissed
+ * @returns The order ids, oldest first
+ */
+export const getDismissedFeedbackOrders = (): number[] => {
+  const stored = localStorage.getItem(DISMISSED_KEY);
+  if (!stored) return [];
+
+  try {
+    const orderIds: unknown = JSON.parse(stored);
+    return Array.isArray(orderIds) ? orderIds.filter((id) => typeof id === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Remembers that the guest does not want to rate an order
+ * @param orderId The order
+ */
+export const dismissFeedbackOrder = (orderId: number) => {
+  const orderIds = getDismissedFeedbackOrders().filter((id) => id !== orderId);
+  orderIds.push(orderId);
+  localStorage.setItem(DISMISSED_KEY, JSON.stringify(orderIds.slice(-MAX_DISMISSED)));
+};
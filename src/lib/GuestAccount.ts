@@ -0,0 +1,52 @@
+/**
+ * Optional sign-in for returning guests.
+ * A guest who verifies their phone number gets an account token that is sent
+ * with every request, so orders are added to their history and favourites are
+ * remembered across visits and devices. Guests can keep ordering without it.
+ */
+
+import type { GuestAccountSession } from './api/guestAccounts';
+
+const ACCOUNT_KEY = 'guest-account';
+
+// Error codes the server returns when the account token is no longer accepted
+export const GUEST_ACCOUNT_ERROR_CODES = ['GUEST_ACCOUNT_INVALID', 'GUEST_ACCOUNT_EXPIRED'];
+
+/**
+ * Returns the signed in guest account on this device
+ * @returns The account and its token, or null if the guest has not signed in
+ */
+export const getGuestAccount = (): GuestAccountSession | null => {
+  const stored = localStorage.getItem(ACCOUNT_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers the account after the guest signs in
+ * @param session The account and its token
+ */
+export const saveGuestAccount = (session: GuestAccountSession) => {
+  localStorage.setItem(ACCOUNT_KEY, JSON.stringify(session));
+};
+
+/**
+ * Signs the guest out on this device
+ */
+export const clearGuestAccount = () => {
+  localStorage.removeItem(ACCOUNT_KEY);
+};
+
+/**
+ * Hides most of a phone number for display, e.g. "••••••3210"
+ * @param phone The phone number
+ * @returns The masked number
+ */
+export const maskPhone = (phone: string): string => {
+  return phone.length <= 4 ? phone : `${'•'.repeat(phone.length - 4)}${phone.slice(-4)}`;
+};
@@ -0,0 +1,55 @@
+/**
+ * Lightweight identity for guests ordering from a table QR code.
+ * Each device gets a random id and a display name so that lines in a
+ * shared table cart can show who added them.
+ */
+
+const GUEST_ID_KEY = 'guest-id';
+const GUEST_NAME_KEY = 'guest-name';
+
+/**
+ * Returns the id for this device, creating one on first use
+ * @returns The guest id
+ */
+export const getGuestId = (): string => {
+  let guestId = localStorage.getItem(GUEST_ID_KEY);
+  if (!guestId) {
+    guestId =
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(GUEST_ID_KEY, guestId);
+  }
+  return guestId;
+};
+
+/**
+ * Returns the display name for this device, defaulting to "Guest XXXX"
+ * @returns The guest display name
+ */
+export const getGuestName = (): string => {
+  const storedName = localStorage.getItem(GUEST_NAME_KEY);
+  if (storedName) return storedName;
+  return `Guest ${getGuestId().slice(-4).toUpperCase()}`;
+};
+
+/**
+ * Saves the display name chosen by the guest
+ * @param name The new display name; an empty name restores the default
+ */
+export const setGuestName = (name: string) => {
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(GUEST_NAME_KEY, trimmed.slice(0, 30));
+  } else {
+    localStorage.removeItem(GUEST_NAME_KEY);
+  }
+};
+
+/**
+ * Whether the guest identity has been created on this device.
+ * Staff screens never create one, so their requests carry no guest headers.
+ */
+export const hasGuestIdentity = (): boolean => {
+  return localStorage.getItem(GUEST_ID_KEY) !== null;
+};
@@ -0,0 +1,94 @@
+/**
+ * Short-lived guest sessions for the table QR menu.
+ * The QR code carries a signed, rotating table token. The server exchanges it
+ * for a session bound to one table, and cart and order calls are only accepted
+ * with that session. The session ends when the bill is closed at the POS, after
+ * which the same QR code starts a fresh one.
+ */
+
+import type { GuestSession } from './api/guestSessions';
+
+const SESSION_KEY = 'guest-table-session';
+
+// Error codes the server returns when a guest session can no longer be used
+export const GUEST_SESSION_ERROR_CODES = [
+  'TABLE_SESSION_EXPIRED',
+  'TABLE_SESSION_CLOSED',
+  'TABLE_SESSION_INVALID',
+];
+
+// Refresh the session when it has less than this long left
+const REFRESH_BEFORE_MS = 5 * 60 * 1000;
+
+interface StoredGuestSession extends GuestSession {
+  // The QR token the session was started from
+  tableToken: string;
+}
+
+type SessionEndedListener = () => void;
+
+const sessionEndedListeners = new Set<SessionEndedListener>();
+
+/**
+ * Returns the stored session if it is still valid
+ * @param tableToken Only return the session if it was started from this QR token
+ * @returns The session, or null if there is none or it has expired
+ */
+export const getGuestSession = (tableToken?: string): StoredGuestSession | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+
+  try {
+    const session: StoredGuestSession = JSON.parse(stored);
+    if (tableToken && session.tableToken !== tableToken) return null;
+    if (new Date(session.expiresAt).getTime() <= Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Stores the session returned by the server
+ * @param tableToken The QR token the session was started from
+ * @param session The session
+ */
+export const saveGuestSession = (tableToken: string, session: GuestSession) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, tableToken }));
+};
+
+/**
+ * Forgets the current session, e.g. after the bill was closed
+ */
+export const clearGuestSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+/**
+ * Whether the session is close enough to expiring that it should be refreshed
+ * @param session The current session
+ * @returns True if the session should be refreshed now
+ */
+export const shouldRefreshSession = (session: GuestSession): boolean => {
+  return new Date(session.expiresAt).getTime() - Date.now() < REFRESH_BEFORE_MS;
+};
+
+/**
+ * Registers a callback for when the server rejects the session as expired or closed
+ * @param listener Called once the stored session has been cleared
+ * @returns A function that removes the listener
+ */
+export const onGuestSessionEnded = (listener: SessionEndedListener) => {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+};
+
+/**
+ * Clears the session and tells listeners that a new one is needed
+ */
+export const endGuestSession = () => {
+  clearGuestSession();
+  sessionEndedListeners.forEach((listener) => listener());
+};
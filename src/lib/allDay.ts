@@ -0,0 +1,104 @@
+/**
+ * Helpers for the kitchen's "all day" view: how much of each dish is still
+ * to be made across every open ticket. Lines are counted per item and portion,
+ * with a breakdown by modifiers, and only while they are queued or cooking.
+ */
+
+import { OrderItem, WaiterOrder } from './api/orders';
+import { formatModifiers, formatVariantName } from './utils';
+import { getItemStatus } from './orderItems';
+
+// One order line that makes up part of an all-day count
+export interface AllDayLine {
+  orderId: number;
+  orderItemId: number;
+  quantity: number;
+}
+
+// How many of an item are wanted with one set of modifiers
+export interface AllDayModifierCount {
+  // e.g. "Extra cheese, No onion"; empty for lines without modifiers
+  label: string;
+  quantity: number;
+}
+
+export interface AllDayCount {
+  key: string;
+  itemId: number;
+  name: string;
+  quantity: number;
+  // How many of the quantity are already cooking
+  cooking: number;
+  ticketCount: number;
+  modifiers: AllDayModifierCount[];
+  lines: AllDayLine[];
+}
+
+/**
+ * Sums what is still to be made across open tickets
+ * @param orders The open orders
+ * @param getLines The lines of an order to count, e.g. a station's own lines
+ * @returns One count per item and portion, largest first
+ */
+export const getAllDayCounts = <T extends WaiterOrder>(
+  orders: T[],
+  getLines: (order: T) => OrderItem[]
+): AllDayCount[] => {
+  const counts = new Map<string, AllDayCount & { orderIds: Set<number> }>();
+
+  orders.forEach((order) => {
+    getLines(order).forEach((item) => {
+      const status = getItemStatus(item, order);
+      if (status !== 'QUEUED' && status !== 'COOKING') return;
+
+      const key = `${item.itemId}:${item.variant?.variantId ?? ''}`;
+      let count = counts.get(key);
+      if (!count) {
+        count = {
+          key,
+          itemId: item.itemId,
+          name: formatVariantName(item.item?.name || `Item #${item.itemId}`, item.variant),
+          quantity: 0,
+          cooking: 0,
+          ticketCount: 0,
+          modifiers: [],
+          lines: [],
+          orderIds: new Set(),
+        };
+        counts.set(key, count);
+      }
+
+      count.quantity += item.quantity;
+      if (status === 'COOKING') count.cooking += item.quantity;
+      count.orderIds.add(order.id);
+      count.lines.push({ orderId: order.id, orderItemId: item.id, quantity: item.quantity });
+
+      const label = formatModifiers(item.modifiers);
+      const modifierCount = count.modifiers.find((m) => m.label === label);
+      if (modifierCount) {
+        modifierCount.quantity += item.quantity;
+      } else {
+        count.modifiers.push({ label, quantity: item.quantity });
+      }
+    });
+  });
+
+  return Array.from(counts.values())
+    .map(({ orderIds, ...count }) => ({
+      ...count,
+      ticketCount: orderIds.size,
+      modifiers: [...count.modifiers].sort((a, b) => b.quantity - a.quantity),
+    }))
+    .sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name));
+};
+
+/**
+ * Groups the lines of a count by order, for updating them one order at a time
+ * @param lines The lines
+ * @returns The order line ids keyed by order id
+ */
+export const groupLinesByOrder = (lines: AllDayLine[]): Record<number, number[]> =>
+  lines.reduce<Record<number, number[]>>((groups, line) => {
+    groups[line.orderId] = [...(groups[line.orderId] || []), line.orderItemId];
+    return groups;
+  }, {});
@@ -0,0 +1,40 @@
+import { apiClient } from './client';
+import { Branding, BrandingOverride } from '../branding';
+
+export const brandingApi = {
+  // Get the restaurant's default branding
+  get: async (): Promise<Branding> => {
+    try {
+      const response = await apiClient.get('/branding');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching branding:', error);
+      throw error;
+    }
+  },
+
+  // Update the restaurant's default branding
+  update: async (branding: Branding): Promise<Branding> => {
+    try {
+      const response = await apiClient.put('/branding', branding);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating branding:', error);
+      throw error;
+    }
+  },
+
+  // Set or clear (with null) the branding override of one menu
+  updateMenuOverride: async (
+    menuId: string,
+    branding: BrandingOverride | null
+  ): Promise<BrandingOverride | null> => {
+    try {
+      const response = await apiClient.put(`/menus/${menuId}/branding`, { branding });
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating branding for menu ${menuId}:`, error);
+      throw error;
+    }
+  },
+};
@@ -1,20 +1,50 @@
 import { apiClient } from './client';
-import { MenuItem } from './menuItems';
+import { MenuItem, SelectedComboItem, SelectedModifier, SelectedVariant } from './menuItems';
 
 export interface CartItem {
   id: number;
   tableId: number;
   itemId: number;
   quantity: number;
-  isHalfPortion: boolean;
+  variant?: SelectedVariant | null;
+  modifiers?: SelectedModifier[];
+  comboItems?: SelectedComboItem[];
+  notes?: string;
+  addedBy?: CartItemAuthor;
   item: MenuItem;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Guest who added a line to a shared table cart
+export interface CartItemAuthor {
+  guestId: string;
+  name: string;
+}
+
 export interface Cart {
   items: CartItem[];
   total: number;
+  // Incremented by the server on every change, used to detect stale carts
+  version?: number;
+}
+
+// Payload of the table-scoped cart socket events
+export interface CartUpdatedEvent {
+  tableId: number;
+  cart: Cart;
+  updatedBy?: CartItemAuthor;
+}
+
+export interface CartOrderPlacingEvent {
+  tableId: number;
+  placedBy?: CartItemAuthor;
+}
+
+export interface CartOrderPlacedEvent {
+  tableId: number;
+  orderId: number;
+  placedBy?: CartItemAuthor;
 }
 
 export interface Order {
@@ -28,7 +58,10 @@ export interface Order {
     itemId: number;
     quantity: number;
     price: number;
-    isHalfPortion: boolean;
+    variant?: SelectedVariant | null;
+    modifiers?: SelectedModifier[];
+    comboItems?: SelectedComboItem[];
+    notes?: string;
     item: {
       id: number;
       name: string;
@@ -39,6 +72,15 @@ export interface Order {
   updatedAt: string;
 }
 
+// Customisations sent along with a new cart line
+export interface AddToCartOptions {
+  variantId?: number;
+  modifierOptionIds?: number[];
+  // Item chosen for each combo slot
+  comboSelections?: { slotId: number; itemId: number }[];
+  notes?: string;
+}
+
 export const cartApi = {
   // Get cart by table ID
   getCartByTableId: async (tableId: number): Promise<Cart> => {
@@ -47,16 +89,44 @@ export const cartApi = {
   },
 
   // Add item to cart
-  addToCart: async (tableId: number, itemId: number, quantity: number, isHalfPortion: boolean = false): Promise<CartItem> => {
-    const { data } = await apiClient.post(`/tables/${tableId}/cart`, { itemId, quantity, isHalfPortion });
+  addToCart: async (
+    tableId: number,
+    itemId: number,
+    quantity: number,
+    options: AddToCartOptions = {}
+  ): Promise<CartItem> => {
+    const { data } = await apiClient.post(`/tables/${tableId}/cart`, {
+      itemId,
+      quantity,
+      variantId: options.variantId,
+      modifierOptionIds: options.modifierOptionIds || [],
+      comboSelections: options.comboSelections,
+      notes: options.notes,
+    });
+    return data;
+  },
+
+  // Add or take off several of an item in one request. The server merges additions into
+  // the line without customisations and takes removals off the most recently added lines.
+  adjustQuantity: async (
+    tableId: number,
+    itemId: number,
+    delta: number,
+    options: Pick<AddToCartOptions, 'variantId'> = {}
+  ): Promise<Cart> => {
+    const { data } = await apiClient.post(`/tables/${tableId}/cart/adjust`, {
+      itemId,
+      delta,
+      variantId: options.variantId,
+    });
     return data;
   },
 
   // Update cart item quantity
-  updateCartItem: async (cartItemId: number, quantity: number, isHalfPortion?: boolean): Promise<CartItem> => {
+  updateCartItem: async (cartItemId: number, quantity: number, notes?: string): Promise<CartItem> => {
     const payload: any = { quantity };
-    if (isHalfPortion !== undefined) {
-      payload.isHalfPortion = isHalfPortion;
+    if (notes !== undefined) {
+      payload.notes = notes;
     }
     const { data } = await apiClient.put(`/cart/${cartItemId}`, payload);
     return data;
@@ -74,9 +144,10 @@ export const cartApi = {
     return data;
   },
 
-  // Place order
-  placeOrder: async (tableId: number): Promise<Order> => {
-    const { data } = await apiClient.post(`/tables/${tableId}/place-order`);
+  // Place order. The server rejects with 409 when the cart version is stale
+  // or another guest at the table is already placing the order.
+  placeOrder: async (tableId: number, cartVersion?: number): Promise<Order> => {
+    const { data } = await apiClient.post(`/tables/${tableId}/place-order`, { cartVersion });
     return data;
   }
 }; 
\ No newline at end of file
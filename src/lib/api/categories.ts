@@ -1,10 +1,14 @@
 import api from "./user";
+import { ContentTranslations } from "../i18n";
 
 export interface Category {
   id: number;
   name: string;
   description?: string;
   imageUrl?: string | null;
+  translations?: ContentTranslations | null;
+  // Kitchen station that prepares the items in this category
+  stationId?: number | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -12,12 +16,16 @@ export interface Category {
 export interface CreateCategoryPayload {
   name: string;
   description?: string;
+  translations?: ContentTranslations;
+  stationId?: number | null;
   image?: File;
 }
 
 export interface UpdateCategoryPayload {
   name?: string;
   description?: string;
+  translations?: ContentTranslations;
+  stationId?: number | null;
   image?: File;
 }
 
@@ -125,7 +133,9 @@ export const categoriesApi = {
         const base64Image = await compressAndConvertToBase64(category.image, 0.5); // Limit to 0.5MB
         const payload = {
           name: category.name,
-          description: category.description
+          description: category.description,
+          translations: category.translations,
+          stationId: category.stationId
         };
         
         const response = await api.post("/categories", {
@@ -150,7 +160,9 @@ export const categoriesApi = {
         const base64Image = await compressAndConvertToBase64(category.image, 0.5); // Limit to 0.5MB
         const payload = {
           name: category.name,
-          description: category.description
+          description: category.description,
+          translations: category.translations,
+          stationId: category.stationId
         };
         
         const response = await api.put(`/categories/${id}`, {
@@ -1,5 +1,8 @@
 import axios from 'axios';
 import { logout } from '../AuthHelpers';
+import { getGuestId, getGuestName, hasGuestIdentity } from '../GuestIdentity';
+import { endGuestSession, getGuestSession, GUEST_SESSION_ERROR_CODES } from '../GuestSession';
+import { clearGuestAccount, getGuestAccount, GUEST_ACCOUNT_ERROR_CODES } from '../GuestAccount';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -10,6 +13,13 @@ export const apiClient = axios.create({
   },
 });
 
+// Endpoints guests call from the table; staff screens on the same device must not
+// send guest details or have guest session errors acted on
+const GUEST_ENDPOINTS = [/^\/public\//, /^\/cart\//, /^\/tables\/\d+\/(cart|place-order)/];
+
+const isGuestEndpoint = (url?: string): boolean =>
+  !!url && GUEST_ENDPOINTS.some((pattern) => pattern.test(url));
+
 // Add request interceptor to include auth token from localStorage if available
 apiClient.interceptors.request.use((config) => {
   if (typeof window !== 'undefined') {
@@ -17,6 +27,28 @@ apiClient.interceptors.request.use((config) => {
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+
+    if (!isGuestEndpoint(config.url)) {
+      return config;
+    }
+
+    // Identify the guest device so shared table carts know who added each line
+    if (hasGuestIdentity()) {
+      config.headers['X-Guest-Id'] = getGuestId();
+      config.headers['X-Guest-Name'] = encodeURIComponent(getGuestName());
+    }
+
+    // Bind cart and order calls to the table the guest scanned
+    const session = getGuestSession();
+    if (session) {
+      config.headers['X-Table-Session'] = session.sessionToken;
+    }
+
+    // Link orders and favourites to a returning guest who signed in
+    const account = getGuestAccount();
+    if (account) {
+      config.headers['X-Guest-Account'] = account.token;
+    }
   }
   return config;
 });
@@ -26,7 +58,20 @@ apiClient.interceptors.response.use(
   (response) => response,
   (error) => {
     const { response } = error;
+    const fromGuestEndpoint = isGuestEndpoint(error.config?.url);
     
+    // A guest session that expired or was closed at the POS needs a new one, not a staff login
+    if (fromGuestEndpoint && response && GUEST_SESSION_ERROR_CODES.includes(response.data?.code)) {
+      endGuestSession();
+      return Promise.reject(error);
+    }
+
+    // An expired guest sign-in only signs the guest out; they can keep ordering
+    if (fromGuestEndpoint && response && GUEST_ACCOUNT_ERROR_CODES.includes(response.data?.code)) {
+      clearGuestAccount();
+      return Promise.reject(error);
+    }
+
     // Handle authentication errors
     if (response && response.status === 401) {
       // Don't logout if it's the "no role assigned" case
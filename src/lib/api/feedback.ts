@@ -0,0 +1,167 @@
+import { apiClient } from './client';
+import { WaiterOrder } from './orders';
+
+// A guest's rating of one dish on a completed order, from 1 to 5 stars
+export interface DishRating {
+  orderItemId: number;
+  itemId: number;
+  itemName?: string;
+  rating: number;
+}
+
+export interface OrderFeedback {
+  id: number;
+  orderId: number;
+  tableId: number;
+  table?: {
+    id: number;
+    tableNumber: number;
+  };
+  // Waiter who served the order, when one was assigned
+  waiter?: {
+    id: number;
+    name: string;
+  };
+  overallRating: number;
+  comment?: string;
+  dishRatings: DishRating[];
+  // Set once staff have dealt with a low-rating alert
+  acknowledgedAt?: string | null;
+  createdAt: string;
+}
+
+export interface SubmitFeedbackPayload {
+  overallRating: number;
+  comment?: string;
+  dishRatings: { orderItemId: number; rating: number }[];
+}
+
+// Average rating and number of ratings for an item or waiter
+export interface RatingSummary {
+  averageRating: number;
+  ratingCount: number;
+}
+
+export interface ItemRatingSummary extends RatingSummary {
+  itemId: number;
+  itemName: string;
+}
+
+export interface WaiterRatingSummary extends RatingSummary {
+  waiterId: number;
+  waiterName: string;
+}
+
+export interface FeedbackSummary {
+  overall: RatingSummary;
+  items: ItemRatingSummary[];
+  waiters: WaiterRatingSummary[];
+}
+
+export interface FeedbackSettings {
+  // Show each item's average rating on the public menu cards
+  showRatingsOnMenu: boolean;
+  // Feedback with an overall or dish rating at or below this raises an alert
+  lowRatingThreshold: number;
+  // Items need at least this many ratings before their average is shown to guests
+  minRatingsToShow: number;
+}
+
+export interface FeedbackFilters {
+  from?: string;
+  to?: string;
+  // Only feedback that raised an alert and has not been acknowledged yet
+  unacknowledgedAlerts?: boolean;
+}
+
+// Payload the server emits to staff on 'feedback:low-rating'
+export type LowRatingEvent = OrderFeedback;
+
+export const feedbackApi = {
+  // Rate a completed order of the guest's table; accepted for a while after the bill is closed
+  submit: async (orderId: number, payload: SubmitFeedbackPayload): Promise<OrderFeedback> => {
+    try {
+      const response = await apiClient.post(`/public/orders/${orderId}/feedback`, payload);
+      return response.data;
+    } catch (error) {
+      console.error(`Error submitting feedback for order ${orderId}:`, error);
+      throw error;
+    }
+  },
+
+  // Get this guest's completed orders that have not been rated yet, from the current
+  // session and, when signed in, their account; closed bills drop out once too old to rate
+  getPendingOrders: async (): Promise<WaiterOrder[]> => {
+    try {
+      const response = await apiClient.get('/public/feedback/pending');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching orders awaiting feedback:', error);
+      throw error;
+    }
+  },
+
+  // Get item averages for the public menu, keyed by item id; empty while they are hidden from guests
+  getMenuRatings: async (menuId: string): Promise<Record<number, RatingSummary>> => {
+    try {
+      const response = await apiClient.get(`/public/menus/${menuId}/ratings`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching ratings for menu ${menuId}:`, error);
+      throw error;
+    }
+  },
+
+  // Get feedback, newest first
+  getAll: async (filters: FeedbackFilters = {}): Promise<OrderFeedback[]> => {
+    try {
+      const response = await apiClient.get('/feedback', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching feedback:', error);
+      throw error;
+    }
+  },
+
+  // Get average ratings overall, per item and per waiter
+  getSummary: async (filters: Pick<FeedbackFilters, 'from' | 'to'> = {}): Promise<FeedbackSummary> => {
+    try {
+      const response = await apiClient.get('/feedback/summary', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching feedback summary:', error);
+      throw error;
+    }
+  },
+
+  // Mark a low-rating alert as dealt with
+  acknowledge: async (id: number): Promise<OrderFeedback> => {
+    try {
+      const response = await apiClient.patch(`/feedback/${id}/acknowledge`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error acknowledging feedback ${id}:`, error);
+      throw error;
+    }
+  },
+
+  getSettings: async (): Promise<FeedbackSettings> => {
+    try {
+      const response = await apiClient.get('/feedback/settings');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching feedback settings:', error);
+      throw error;
+    }
+  },
+
+  updateSettings: async (settings: FeedbackSettings): Promise<FeedbackSettings> => {
+    try {
+      const response = await apiClient.put('/feedback/settings', settings);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating feedback settings:', error);
+      throw error;
+    }
+  },
+};
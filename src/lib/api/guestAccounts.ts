@@ -0,0 +1,106 @@
+import { apiClient } from './client';
+import { WaiterOrder } from './orders';
+
+// A returning guest identified by a verified phone number
+export interface GuestAccount {
+  id: number;
+  phone: string;
+  name?: string;
+}
+
+export interface GuestAccountSession {
+  token: string;
+  account: GuestAccount;
+}
+
+// A one-time code sent to a phone number, waiting to be entered
+export interface OtpChallenge {
+  challengeId: string;
+  phone: string;
+  expiresAt: string;
+  // Earliest time another code can be requested
+  resendAfter?: string;
+}
+
+export const guestAccountsApi = {
+  // Ask the server to text a one-time code to the phone number
+  requestOtp: async (phone: string): Promise<OtpChallenge> => {
+    try {
+      const response = await apiClient.post('/public/guest-accounts/otp', { phone });
+      return response.data;
+    } catch (error) {
+      console.error('Error requesting one-time code:', error);
+      throw error;
+    }
+  },
+
+  // Check a one-time code; the returned token proves the guest owns the number
+  verifyOtp: async (challengeId: string, code: string): Promise<{ verificationToken: string }> => {
+    try {
+      const response = await apiClient.post('/public/guest-accounts/otp/verify', {
+        challengeId,
+        code,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error verifying one-time code:', error);
+      throw error;
+    }
+  },
+
+  // Sign in, creating the account on first use
+  signIn: async (phone: string, verificationToken: string): Promise<GuestAccountSession> => {
+    try {
+      const response = await apiClient.post('/public/guest-accounts/sign-in', {
+        phone,
+        verificationToken,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error signing in guest:', error);
+      throw error;
+    }
+  },
+
+  // Get the signed in guest's past orders, newest first
+  getOrderHistory: async (): Promise<WaiterOrder[]> => {
+    try {
+      const response = await apiClient.get('/public/guest-accounts/me/orders');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+      throw error;
+    }
+  },
+
+  // Get the ids of the signed in guest's favourite items
+  getFavourites: async (): Promise<number[]> => {
+    try {
+      const response = await apiClient.get('/public/guest-accounts/me/favourites');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching favourites:', error);
+      throw error;
+    }
+  },
+
+  // Add an item to the signed in guest's favourites
+  addFavourite: async (itemId: number): Promise<void> => {
+    try {
+      await apiClient.put(`/public/guest-accounts/me/favourites/${itemId}`);
+    } catch (error) {
+      console.error(`Error adding item ${itemId} to favourites:`, error);
+      throw error;
+    }
+  },
+
+  // Remove an item from the signed in guest's favourites
+  removeFavourite: async (itemId: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/public/guest-accounts/me/favourites/${itemId}`);
+    } catch (error) {
+      console.error(`Error removing item ${itemId} from favourites:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,56 @@
+import { apiClient } from './client';
+import { WaiterOrder } from './orders';
+
+// The table details a guest session is allowed to see
+export interface PublicTable {
+  id: number;
+  tableNumber: number;
+  location?: string;
+  menuId: number;
+}
+
+export interface GuestSession {
+  sessionToken: string;
+  expiresAt: string;
+  table: PublicTable;
+}
+
+// Payload the server emits to a table room on 'table:session-closed'
+export interface TableSessionClosedEvent {
+  tableId: number;
+}
+
+export const guestSessionsApi = {
+  // Exchange the signed token from a table QR code for a guest session
+  start: async (tableToken: string): Promise<GuestSession> => {
+    try {
+      const response = await apiClient.post('/public/tables/session', { tableToken });
+      return response.data;
+    } catch (error) {
+      console.error('Error starting table session:', error);
+      throw error;
+    }
+  },
+
+  // Extend the current session while the guest is still at the table
+  refresh: async (): Promise<GuestSession> => {
+    try {
+      const response = await apiClient.post('/public/session/refresh');
+      return response.data;
+    } catch (error) {
+      console.error('Error refreshing table session:', error);
+      throw error;
+    }
+  },
+
+  // Get the orders placed during the current session
+  getOrders: async (): Promise<WaiterOrder[]> => {
+    try {
+      const response = await apiClient.get('/public/session/orders');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching session orders:', error);
+      throw error;
+    }
+  },
+};
@@ -5,4 +5,12 @@ export * from './items';
 export * from './menus';
 export * from './tables';
 export * from './cart';
-export * from './orders'; 
\ No newline at end of file
+export * from './orders';
+export * from './serviceRequests';
+export * from './branding';
+export * from './guestSessions';
+export * from './guestAccounts';
+export * from './feedback';
+export * from './stations';
+export * from './kitchen';
+export * from './inventory';
\ No newline at end of file
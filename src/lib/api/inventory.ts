@@ -0,0 +1,299 @@
+import { apiClient } from './client';
+import { StatusActor } from './orders';
+
+export type StockUnit = 'g' | 'kg' | 'ml' | 'l' | 'pcs';
+
+// An ingredient the kitchen keeps in stock
+export interface StockItem {
+  id: number;
+  name: string;
+  unit: StockUnit;
+  onHand: number;
+  // A low-stock alert is raised once on-hand stock falls to this level
+  lowStockThreshold: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface StockItemPayload {
+  name: string;
+  unit: StockUnit;
+  onHand: number;
+  lowStockThreshold: number;
+}
+
+// How much of an ingredient one portion of a menu item uses, in the ingredient's unit
+export interface RecipeIngredient {
+  stockItemId: number;
+  quantity: number;
+}
+
+export interface Recipe {
+  menuItemId: number;
+  ingredients: RecipeIngredient[];
+}
+
+// Payload the server emits on 'inventory:low-stock'
+export interface LowStockEvent {
+  stockItem: StockItem;
+}
+
+// Payload the server emits on 'menu:items-availability' when items run out of,
+// or come back into, stock
+export interface ItemAvailabilityEvent {
+  menuItemIds: number[];
+  outOfStock: boolean;
+}
+
+export interface Supplier {
+  id: number;
+  name: string;
+  phone?: string | null;
+}
+
+export interface GoodsReceiptLine {
+  stockItemId: number;
+  stockItem?: StockItem;
+  quantity: number;
+  // Cost per unit on the supplier's invoice
+  unitCost?: number | null;
+}
+
+// A delivery from a supplier; receiving it adds each line to on-hand stock
+export interface GoodsReceipt {
+  id: number;
+  supplierId: number;
+  supplier?: Supplier;
+  invoiceNumber?: string | null;
+  note?: string | null;
+  lines: GoodsReceiptLine[];
+  receivedAt: string;
+  receivedBy?: StatusActor;
+}
+
+export interface GoodsReceiptPayload {
+  supplierId: number;
+  invoiceNumber?: string;
+  note?: string;
+  lines: GoodsReceiptLine[];
+}
+
+export type WastageReason = 'SPOILED' | 'DROPPED' | 'STAFF_MEAL' | 'OTHER';
+
+// Stock thrown away or used outside an order; logging it takes it off on-hand stock
+export interface WastageEntry {
+  id: number;
+  stockItemId: number;
+  stockItem?: StockItem;
+  quantity: number;
+  reason: WastageReason;
+  note?: string | null;
+  loggedAt: string;
+  loggedBy?: StatusActor;
+}
+
+export interface WastagePayload {
+  stockItemId: number;
+  quantity: number;
+  reason: WastageReason;
+  note?: string;
+}
+
+// What was on the shelf compared with what the system expected
+export interface StockTakeLine {
+  stockItemId: number;
+  stockItem?: StockItem;
+  // On-hand stock the system had worked out from receipts, orders and wastage
+  theoreticalQuantity: number;
+  countedQuantity: number;
+}
+
+// A periodic count; saving it resets on-hand stock to the counted quantities
+export interface StockTake {
+  id: number;
+  note?: string | null;
+  lines: StockTakeLine[];
+  countedAt: string;
+  countedBy?: StatusActor;
+}
+
+export interface StockTakePayload {
+  note?: string;
+  lines: { stockItemId: number; countedQuantity: number }[];
+}
+
+// Stock records that can be downloaded as a spreadsheet
+export type StockReport = 'receipts' | 'wastage' | 'stock-takes';
+
+export interface StockRecordFilters {
+  from?: string;
+  to?: string;
+}
+
+// Stock is depleted by the server when an order is placed, using each item's
+// recipe. Items whose ingredients run out are marked out of stock until restocked.
+export const inventoryApi = {
+  // Get all stock items
+  getStockItems: async (): Promise<StockItem[]> => {
+    try {
+      const response = await apiClient.get('/inventory/stock-items');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching stock items:', error);
+      throw error;
+    }
+  },
+
+  createStockItem: async (stockItem: StockItemPayload): Promise<StockItem> => {
+    try {
+      const response = await apiClient.post('/inventory/stock-items', stockItem);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating stock item:', error);
+      throw error;
+    }
+  },
+
+  updateStockItem: async (id: number, stockItem: StockItemPayload): Promise<StockItem> => {
+    try {
+      const response = await apiClient.put(`/inventory/stock-items/${id}`, stockItem);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating stock item ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Delete a stock item; it is removed from every recipe that uses it
+  deleteStockItem: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/inventory/stock-items/${id}`);
+    } catch (error) {
+      console.error(`Error deleting stock item ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Get the recipes of every menu item that has one
+  getRecipes: async (): Promise<Recipe[]> => {
+    try {
+      const response = await apiClient.get('/inventory/recipes');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching recipes:', error);
+      throw error;
+    }
+  },
+
+  // Replace a menu item's recipe; an empty list removes it
+  updateRecipe: async (menuItemId: number, ingredients: RecipeIngredient[]): Promise<Recipe> => {
+    try {
+      const response = await apiClient.put(`/inventory/recipes/${menuItemId}`, { ingredients });
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating recipe for item ${menuItemId}:`, error);
+      throw error;
+    }
+  },
+
+  // Get all suppliers
+  getSuppliers: async (): Promise<Supplier[]> => {
+    try {
+      const response = await apiClient.get('/inventory/suppliers');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+      throw error;
+    }
+  },
+
+  createSupplier: async (supplier: Omit<Supplier, 'id'>): Promise<Supplier> => {
+    try {
+      const response = await apiClient.post('/inventory/suppliers', supplier);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      throw error;
+    }
+  },
+
+  // Get goods received, newest first
+  getReceipts: async (filters: StockRecordFilters = {}): Promise<GoodsReceipt[]> => {
+    try {
+      const response = await apiClient.get('/inventory/receipts', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching goods receipts:', error);
+      throw error;
+    }
+  },
+
+  // Record a delivery; the server adds it to on-hand stock
+  createReceipt: async (receipt: GoodsReceiptPayload): Promise<GoodsReceipt> => {
+    try {
+      const response = await apiClient.post('/inventory/receipts', receipt);
+      return response.data;
+    } catch (error) {
+      console.error('Error recording goods receipt:', error);
+      throw error;
+    }
+  },
+
+  // Get logged wastage, newest first
+  getWastage: async (filters: StockRecordFilters = {}): Promise<WastageEntry[]> => {
+    try {
+      const response = await apiClient.get('/inventory/wastage', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching wastage:', error);
+      throw error;
+    }
+  },
+
+  // Log wastage; the server takes it off on-hand stock
+  logWastage: async (entry: WastagePayload): Promise<WastageEntry> => {
+    try {
+      const response = await apiClient.post('/inventory/wastage', entry);
+      return response.data;
+    } catch (error) {
+      console.error('Error logging wastage:', error);
+      throw error;
+    }
+  },
+
+  // Get past stock-takes, newest first
+  getStockTakes: async (filters: StockRecordFilters = {}): Promise<StockTake[]> => {
+    try {
+      const response = await apiClient.get('/inventory/stock-takes', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching stock-takes:', error);
+      throw error;
+    }
+  },
+
+  // Save a count; the server records the variance and resets on-hand stock
+  createStockTake: async (stockTake: StockTakePayload): Promise<StockTake> => {
+    try {
+      const response = await apiClient.post('/inventory/stock-takes', stockTake);
+      return response.data;
+    } catch (error) {
+      console.error('Error saving stock-take:', error);
+      throw error;
+    }
+  },
+
+  // Download stock records as an Excel file
+  exportToExcel: async (report: StockReport, filters: StockRecordFilters = {}): Promise<Blob> => {
+    try {
+      const response = await apiClient.get(`/inventory/${report}/export`, {
+        params: filters,
+        responseType: 'blob',
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error exporting ${report}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,42 @@
+import { apiClient } from './client';
+import { WaiterOrder } from './orders';
+
+// How the kitchen screens judge whether a ticket is running late
+export interface KitchenSettings {
+  // A ticket is at risk once this share of its preparation time has passed
+  atRiskPercent: number;
+  // Escalate a ticket once it is this many minutes past its preparation time
+  escalateAfterMinutes: number;
+  // Send escalations to admins and floor managers at all
+  escalationEnabled: boolean;
+}
+
+// Payload the server emits on 'kitchen:ticket-escalated'
+export interface TicketEscalationEvent {
+  order: WaiterOrder;
+  // Minutes past the order's preparation time when it was escalated
+  minutesLate: number;
+}
+
+export const kitchenApi = {
+  // Get the ticket timing and escalation settings
+  getSettings: async (): Promise<KitchenSettings> => {
+    try {
+      const response = await apiClient.get('/kitchen/settings');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching kitchen settings:', error);
+      throw error;
+    }
+  },
+
+  updateSettings: async (settings: KitchenSettings): Promise<KitchenSettings> => {
+    try {
+      const response = await apiClient.put('/kitchen/settings', settings);
+      return response.data;
+    } catch (error) {
+      console.error('Error updating kitchen settings:', error);
+      throw error;
+    }
+  },
+};
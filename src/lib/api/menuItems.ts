@@ -1,16 +1,137 @@
 import api from "./user";
+import { ContentTranslations } from "../i18n";
+import { Schedule } from "../schedule";
+
+export interface ModifierOption {
+  id?: number;
+  name: string;
+  priceDelta: number;
+  isAvailable?: boolean;
+}
+
+export interface ModifierGroup {
+  id?: number;
+  name: string;
+  isRequired: boolean;
+  minSelections: number;
+  maxSelections: number;
+  options: ModifierOption[];
+}
+
+// A modifier option chosen by the guest, as stored on cart and order lines
+export interface SelectedModifier {
+  groupId: number;
+  groupName: string;
+  optionId: number;
+  name: string;
+  priceDelta: number;
+}
+
+// A named portion size with its own price, e.g. Regular/Large or 250ml/500ml
+export interface PortionVariant {
+  id?: number;
+  name: string;
+  price: number;
+  // Overrides the item's preparation time when set
+  preparationTime?: number;
+}
+
+// The portion chosen by the guest, as stored on cart and order lines
+export interface SelectedVariant {
+  variantId: number;
+  name: string;
+  price: number;
+  preparationTime?: number;
+}
+
+// A slot in a combo such as "any 1 starter"; a slot with a single item is fixed
+export interface ComboSlot {
+  id?: number;
+  name: string;
+  itemIds: number[];
+  // How many of the chosen item the combo includes
+  quantity: number;
+  // Summary of the slot's items, filled in by the server
+  items?: { id: number; name: string; isAvailable: boolean }[];
+}
+
+// Combos are menu items sold at a bundle price, made up of slots the guest fills
+export interface ComboDefinition {
+  slots: ComboSlot[];
+}
+
+// The item chosen for a combo slot, as stored on cart and order lines
+export interface SelectedComboItem {
+  slotId: number;
+  slotName: string;
+  itemId: number;
+  name: string;
+  quantity: number;
+}
+
+export type DietaryLabel = 'VEGETARIAN' | 'VEGAN' | 'JAIN';
+
+export type Allergen =
+  | 'GLUTEN'
+  | 'PEANUTS'
+  | 'TREE_NUTS'
+  | 'DAIRY'
+  | 'EGGS'
+  | 'SOY'
+  | 'FISH'
+  | 'SHELLFISH'
+  | 'SESAME'
+  | 'MUSTARD';
+
+// Structured dietary information; items without it have not been declared yet
+export interface DietaryInfo {
+  labels: DietaryLabel[];
+  allergens: Allergen[];
+}
+
+export const DIETARY_LABELS: Record<DietaryLabel, string> = {
+  VEGETARIAN: 'Vegetarian',
+  VEGAN: 'Vegan',
+  JAIN: 'Jain',
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  GLUTEN: 'Gluten',
+  PEANUTS: 'Peanuts',
+  TREE_NUTS: 'Tree nuts',
+  DAIRY: 'Dairy',
+  EGGS: 'Eggs',
+  SOY: 'Soy',
+  FISH: 'Fish',
+  SHELLFISH: 'Shellfish',
+  SESAME: 'Sesame',
+  MUSTARD: 'Mustard',
+};
 
 export interface MenuItem {
   id: number;
   name: string;
   description?: string;
+  // Base price; for items with variants this is the price of the cheapest one
   fullPrice: number;
-  halfPrice?: number;
+  variants?: PortionVariant[];
   preparationTime: number;
   imageUrl?: string;
   isAvailable: boolean;
+  // Set by the server while an ingredient in the item's recipe has run out;
+  // cleared again when it is restocked, leaving isAvailable untouched
+  outOfStock?: boolean;
   subcategory?: string;
   tags?: string[];
+  modifierGroups?: ModifierGroup[];
+  combo?: ComboDefinition | null;
+  // Items suggested to guests alongside this one, e.g. a drink with a starter
+  pairedItemIds?: number[];
+  // Kitchen station that prepares this item, instead of its category's
+  stationId?: number | null;
+  dietaryInfo?: DietaryInfo | null;
+  translations?: ContentTranslations | null;
+  schedule?: Schedule | null;
   categoryId: number;
   category?: {
     id: number;
@@ -24,11 +145,18 @@ export interface CreateMenuItemPayload {
   name: string;
   description: string;
   fullPrice: number;
-  halfPrice?: number;
+  variants?: PortionVariant[];
   preparationTime: number;
   isAvailable: boolean;
   subcategory?: string;
   tags?: string[];
+  modifierGroups?: ModifierGroup[];
+  combo?: ComboDefinition | null;
+  pairedItemIds?: number[];
+  stationId?: number | null;
+  dietaryInfo?: DietaryInfo | null;
+  translations?: ContentTranslations | null;
+  schedule?: Schedule | null;
   categoryId: number;
   image?: File;
 }
@@ -37,11 +165,18 @@ export interface UpdateMenuItemPayload {
   name?: string;
   description?: string;
   fullPrice?: number;
-  halfPrice?: number;
+  variants?: PortionVariant[];
   preparationTime?: number;
   isAvailable?: boolean;
   subcategory?: string;
   tags?: string[];
+  modifierGroups?: ModifierGroup[];
+  combo?: ComboDefinition | null;
+  pairedItemIds?: number[];
+  stationId?: number | null;
+  dietaryInfo?: DietaryInfo | null;
+  translations?: ContentTranslations | null;
+  schedule?: Schedule | null;
   categoryId?: number;
   image?: File;
 }
@@ -165,12 +300,19 @@ export const menuItemsApi = {
           name: item.name,
           description: item.description || "",
           fullPrice: item.fullPrice,
-          halfPrice: item.halfPrice,
+          variants: item.variants,
           preparationTime: item.preparationTime,
           isAvailable: item.isAvailable,
           categoryId: item.categoryId,
           subcategory: item.subcategory,
           tags: item.tags,
+          modifierGroups: item.modifierGroups,
+          combo: item.combo,
+          pairedItemIds: item.pairedItemIds,
+          stationId: item.stationId,
+          dietaryInfo: item.dietaryInfo,
+          translations: item.translations,
+          schedule: item.schedule,
           image: base64Image
         };
         
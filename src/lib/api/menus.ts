@@ -1,4 +1,6 @@
 import api from "./user";
+import { Schedule } from "../schedule";
+import { BrandingOverride } from "../branding";
 
 export interface Menu {
   id: string;
@@ -7,12 +9,20 @@ export interface Menu {
   totalTables: number;
   description?: string;
   isAcceptingOrders: boolean;
+  schedule?: Schedule | null;
+  // Scheduled menus can be offered at every table while they are open
+  servesAllTables?: boolean;
+  // Differences from the restaurant branding shown to guests on this menu
+  branding?: BrandingOverride | null;
   createdAt: string;
   updatedAt: string;
   tables?: Table[];
   items?: Item[];
 }
 
+// Item ids most often ordered together with each item, most frequent first
+export type ItemPairings = Record<number, number[]>;
+
 // Reference interfaces from other parts of the application
 interface Table {
   id: number;
@@ -50,6 +60,8 @@ export const menusApi = {
     name: string; 
     description?: string;
     isAcceptingOrders?: boolean;
+    schedule?: Schedule | null;
+    servesAllTables?: boolean;
   }): Promise<Menu> => {
     const response = await api.post('/menus', data);
     return response.data;
@@ -60,6 +72,8 @@ export const menusApi = {
     name: string; 
     description?: string;
     isAcceptingOrders?: boolean;
+    schedule?: Schedule | null;
+    servesAllTables?: boolean;
   }): Promise<Menu> => {
     const response = await api.put(`/menus/${id}`, data);
     return response.data;
@@ -86,5 +100,11 @@ export const menusApi = {
   toggleOrderAcceptance: async (id: string, isAcceptingOrders: boolean): Promise<Menu> => {
     const response = await api.post(`/menus/${id}/toggle-orders`, { isAcceptingOrders });
     return response.data;
+  },
+
+  // Get the items most often ordered together on past orders for this menu
+  getPairings: async (id: string): Promise<ItemPairings> => {
+    const response = await api.get(`/menus/${id}/pairings`);
+    return response.data;
   }
 }; 
\ No newline at end of file
@@ -1,4 +1,8 @@
 import { apiClient } from './client';
+import { SelectedComboItem, SelectedModifier, SelectedVariant } from './menuItems';
+
+// Where a single line of an order is in the kitchen
+export type OrderItemStatus = 'QUEUED' | 'COOKING' | 'READY' | 'SERVED' | 'VOIDED';
 
 // Interface definitions based on server types
 export interface OrderItem {
@@ -7,14 +11,82 @@ export interface OrderItem {
   itemId: number;
   quantity: number;
   price: number;
+  variant?: SelectedVariant | null;
+  modifiers?: SelectedModifier[];
+  comboItems?: SelectedComboItem[];
+  notes?: string;
+  // Kitchen station the line was routed to when the order was placed
+  stationId?: number | null;
+  // Missing on lines placed before per-line status existed
+  status?: OrderItemStatus;
+  statusChangedAt?: string;
+  // When the line was first marked READY; kept once it has been served
+  readyAt?: string | null;
+  // Who marked the line READY, if the server recorded it
+  readyBy?: StatusActor | null;
   item?: {
     id: number;
     name: string;
     description?: string;
     imageUrl?: string;
+    preparationTime?: number;
   };
 }
 
+// Whether a kitchen station has finished its part of an order
+export interface OrderStationStatus {
+  stationId: number;
+  stationName: string;
+  bumpedAt?: string | null;
+  bumpedBy?: StatusActor;
+}
+
+// Payload the server emits on 'order:item-status'. The order's own status is
+// derived from its lines, so the full order is sent along.
+export interface OrderItemStatusEvent {
+  order: WaiterOrder;
+  orderItemIds: number[];
+  status: OrderItemStatus;
+}
+
+// Why an order jumps the kitchen queue. RUSH is for speed; the others flag a
+// ticket that needs care, e.g. a VIP table or a guest with an allergy.
+export type OrderPriority = 'RUSH' | 'VIP' | 'ALLERGY' | 'KIDS_FIRST';
+
+// Staff member who made a change, as recorded by the server
+export interface StatusActor {
+  id: number;
+  name: string;
+  role?: string;
+}
+
+// A single entry in an order's status history
+export interface OrderStatusChange {
+  status: WaiterOrder['status'];
+  changedAt: string;
+  // Missing for changes made by the system, e.g. when every station has bumped
+  changedBy?: StatusActor;
+  // e.g. "Recalled from READY"
+  note?: string;
+}
+
+// A ticket bumped off a kitchen screen: a station's part of an order, or the
+// whole order when it was marked READY
+export interface BumpedTicket {
+  order: WaiterOrder;
+  stationId: number | null;
+  stationName?: string;
+  bumpedAt: string;
+  bumpedBy?: StatusActor;
+}
+
+// Minimal view of an active order used to work out kitchen queue depth
+export interface KitchenQueueEntry {
+  id: number;
+  status: 'PENDING' | 'PREPARING';
+  createdAt: string;
+}
+
 // Renamed to avoid collision with the Order interface in cart.ts
 export interface WaiterOrder {
   id: number;
@@ -27,9 +99,18 @@ export interface WaiterOrder {
   status: 'PENDING' | 'PREPARING' | 'READY' | 'DELIVERED' | 'COMPLETED' | 'CANCELLED';
   total: number;
   orderItems: OrderItem[];
+  statusHistory?: OrderStatusChange[];
   createdAt: string;
   updatedAt: string;
   paymentDetails?: PaymentDetails;
+  // Set once the guest has rated the order
+  hasFeedback?: boolean;
+  // One entry per kitchen station with lines on the order
+  stations?: OrderStationStatus[];
+  // Set by waiters and admins; null for orders cooked in turn
+  priority?: OrderPriority | null;
+  priorityNote?: string | null;
+  prioritySetBy?: StatusActor;
 }
 
 // Dashboard data for waiters
@@ -60,6 +141,17 @@ export const ordersApi = {
     }
   },
 
+  // Get orders placed in a period, with their status history, for kitchen analytics
+  getHistory: async (filters: { from: string; to?: string }): Promise<WaiterOrder[]> => {
+    try {
+      const response = await apiClient.get('/orders/history', { params: filters });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching order history:', error);
+      throw error;
+    }
+  },
+
   // Get order by ID
   getById: async (orderId: number): Promise<WaiterOrder> => {
     try {
@@ -93,6 +185,74 @@ export const ordersApi = {
     }
   },
 
+  // Update the status of some lines of an order; the server derives the order's
+  // status from its lines and returns the updated order
+  updateItemStatus: async (
+    orderId: number,
+    orderItemIds: number[],
+    status: OrderItemStatus
+  ): Promise<WaiterOrder> => {
+    try {
+      const response = await apiClient.patch(`/orders/${orderId}/items/status`, {
+        orderItemIds,
+        status,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating items of order ${orderId}:`, error);
+      throw error;
+    }
+  },
+
+  // Flag an order as priority or rush, or clear the flag with null.
+  // The server broadcasts the updated order on 'order:priority-change'.
+  setPriority: async (
+    orderId: number,
+    priority: OrderPriority | null,
+    note?: string
+  ): Promise<WaiterOrder> => {
+    try {
+      const response = await apiClient.patch(`/orders/${orderId}/priority`, { priority, note });
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating order ${orderId} priority:`, error);
+      throw error;
+    }
+  },
+
+  // Get tickets bumped in the last few minutes, newest first
+  getRecentlyBumped: async (params: { minutes: number; limit: number }): Promise<BumpedTicket[]> => {
+    try {
+      const response = await apiClient.get('/orders/recently-bumped', { params });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching recently bumped tickets:', error);
+      throw error;
+    }
+  },
+
+  // Bring a READY order back to PREPARING; the server records who recalled it
+  recall: async (orderId: number): Promise<WaiterOrder> => {
+    try {
+      const response = await apiClient.post(`/orders/${orderId}/recall`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error recalling order ${orderId}:`, error);
+      throw error;
+    }
+  },
+
+  // Get the active kitchen queue (no customer details), used for guest ETAs
+  getKitchenQueue: async (): Promise<KitchenQueueEntry[]> => {
+    try {
+      const response = await apiClient.get('/orders/kitchen-queue');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching kitchen queue:', error);
+      return [];
+    }
+  },
+
   // Get waiter dashboard orders data
   getWaiterDashboardOrders: async (): Promise<WaiterDashboardOrders> => {
     try {
@@ -115,8 +275,8 @@ export const ordersApi = {
     }
   },
 
-  // Complete order after payment
-  completeOrder: async (orderId: number, paymentDetails: PaymentDetails): Promise<{order: WaiterOrder, message: string}> => {
+  // Complete order after payment; once the table has no open orders its guest session is closed
+  completeOrder: async (orderId: number, paymentDetails: PaymentDetails): Promise<{order: WaiterOrder, message: string, sessionClosed?: boolean}> => {
     try {
       const response = await apiClient.post('/orders/pos/complete', {
         orderId,
@@ -0,0 +1,86 @@
+import { apiClient } from './client';
+
+export type ServiceRequestType = 'CALL_WAITER' | 'REQUEST_BILL' | 'WATER_CUTLERY';
+
+export type ServiceRequestStatus = 'PENDING' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+// A guest request for attention raised from the table QR menu
+export interface ServiceRequest {
+  id: number;
+  tableId: number;
+  table?: {
+    id: number;
+    tableNumber: number;
+    location?: string;
+  };
+  type: ServiceRequestType;
+  status: ServiceRequestStatus;
+  createdAt: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+  acknowledgedBy?: {
+    id: number;
+    name: string;
+  };
+}
+
+// Payload guests emit over the socket on 'service:request'
+export interface ServiceRequestEmit {
+  tableId: number;
+  type: ServiceRequestType;
+  guestId?: string;
+  // Guest session the request is raised from, so it can only reach this table
+  sessionToken?: string;
+}
+
+export const SERVICE_REQUEST_LABELS: Record<ServiceRequestType, string> = {
+  CALL_WAITER: 'Call waiter',
+  REQUEST_BILL: 'Request bill',
+  WATER_CUTLERY: 'Need water/cutlery',
+};
+
+export const serviceRequestsApi = {
+  // Get all pending and acknowledged requests
+  getActive: async (): Promise<ServiceRequest[]> => {
+    try {
+      const response = await apiClient.get('/service-requests/active');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching service requests:', error);
+      throw error;
+    }
+  },
+
+  // Get the open requests for one table
+  getByTableId: async (tableId: number): Promise<ServiceRequest[]> => {
+    try {
+      const response = await apiClient.get(`/tables/${tableId}/service-requests`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching service requests for table ${tableId}:`, error);
+      throw error;
+    }
+  },
+
+  // Mark a request as seen by a staff member
+  acknowledge: async (requestId: number): Promise<ServiceRequest> => {
+    try {
+      const response = await apiClient.patch(`/service-requests/${requestId}/acknowledge`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error acknowledging service request ${requestId}:`, error);
+      throw error;
+    }
+  },
+
+  // Close a request once it has been handled
+  resolve: async (requestId: number): Promise<ServiceRequest> => {
+    try {
+      const response = await apiClient.patch(`/service-requests/${requestId}/resolve`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error resolving service request ${requestId}:`, error);
+      throw error;
+    }
+  }
+};
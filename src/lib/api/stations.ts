@@ -0,0 +1,89 @@
+import { apiClient } from './client';
+import { WaiterOrder } from './orders';
+
+// A part of the kitchen that prepares its own lines of an order, e.g. grill or bar
+export interface KitchenStation {
+  id: number;
+  name: string;
+  sortOrder?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface KitchenStationPayload {
+  name: string;
+  sortOrder?: number;
+}
+
+// Payload the server emits on 'order:station-bumped'
+export interface StationBumpedEvent {
+  order: WaiterOrder;
+  stationId: number;
+}
+
+export const stationsApi = {
+  // Get all kitchen stations in display order
+  getAll: async (): Promise<KitchenStation[]> => {
+    try {
+      const response = await apiClient.get('/stations');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching kitchen stations:', error);
+      throw error;
+    }
+  },
+
+  create: async (station: KitchenStationPayload): Promise<KitchenStation> => {
+    try {
+      const response = await apiClient.post('/stations', station);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating kitchen station:', error);
+      throw error;
+    }
+  },
+
+  update: async (id: number, station: KitchenStationPayload): Promise<KitchenStation> => {
+    try {
+      const response = await apiClient.put(`/stations/${id}`, station);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating kitchen station ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Delete a station; its categories and items are left without a station
+  delete: async (id: number): Promise<void> => {
+    try {
+      await apiClient.delete(`/stations/${id}`);
+    } catch (error) {
+      console.error(`Error deleting kitchen station ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Mark a station's part of an order as done. The server moves the order to
+  // READY once every station on it has bumped.
+  bump: async (orderId: number, stationId: number): Promise<WaiterOrder> => {
+    try {
+      const response = await apiClient.post(`/orders/${orderId}/stations/${stationId}/bump`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error bumping station ${stationId} for order ${orderId}:`, error);
+      throw error;
+    }
+  },
+
+  // Undo a station's bump, e.g. when it was bumped by mistake. An order that had
+  // gone READY goes back to PREPARING.
+  recall: async (orderId: number, stationId: number): Promise<WaiterOrder> => {
+    try {
+      const response = await apiClient.delete(`/orders/${orderId}/stations/${stationId}/bump`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error recalling station ${stationId} for order ${orderId}:`, error);
+      throw error;
+    }
+  },
+};
@@ -9,6 +9,8 @@ export interface Table {
   createdAt: string;
   updatedAt: string;
   menuName?: string;
+  // When the signed token in the QR code was last rotated
+  tokenRotatedAt?: string;
   menu?: {
     id: number;
     name: string;
@@ -69,6 +71,15 @@ export const tablesApi = {
     return response.data;
   },
 
+  /**
+   * Issue a new signed token for the table's QR code.
+   * Printed QR codes with the previous token stop working.
+   */
+  async rotateToken(id: number): Promise<Table> {
+    const response = await api.post(`${API_URL}/${id}/rotate-token`);
+    return response.data;
+  },
+
   /**
    * Delete a table
    */
@@ -0,0 +1,293 @@
+/**
+ * White-label branding for the guest menu, QR code templates and receipts.
+ * The restaurant has a default branding and each menu can override parts of it.
+ * Colours are applied as CSS variables holding "r g b" channels so Tailwind's
+ * `brand-*` colours support opacity modifiers such as `bg-brand-primary/20`.
+ */
+
+import type { CSSProperties } from 'react';
+
+export interface BrandPalette {
+  // Page background
+  background: string;
+  // Header, sheets and cards
+  surface: string;
+  // Inputs and secondary cards
+  surfaceAlt: string;
+  // Borders and hover states
+  muted: string;
+  // Buttons, links and highlights
+  primary: string;
+  primaryHover: string;
+  // Secondary highlights such as badges
+  accent: string;
+  // Text shown on primary buttons
+  onPrimary: string;
+}
+
+export type SocialPlatform = 'instagram' | 'facebook' | 'x' | 'youtube' | 'website';
+
+export interface SocialLink {
+  platform: SocialPlatform;
+  url: string;
+}
+
+export interface BrandContact {
+  address?: string;
+  phone?: string;
+  email?: string;
+  hours?: string;
+  // Tax registration printed on receipts
+  gstin?: string;
+}
+
+export interface Branding {
+  name: string;
+  logoUrl?: string;
+  heroImageUrl?: string;
+  palette: BrandPalette;
+  headingFont: string;
+  bodyFont: string;
+  contact: BrandContact;
+  socialLinks: SocialLink[];
+}
+
+// Per-menu branding only stores what differs from the restaurant default
+export type BrandingOverride = Partial<Omit<Branding, 'palette' | 'contact'>> & {
+  palette?: Partial<BrandPalette>;
+  contact?: Partial<BrandContact>;
+};
+
+export const DEFAULT_BRANDING: Branding = {
+  name: 'Hotel Dastan',
+  logoUrl: '/logo.png',
+  palette: {
+    background: '#051119',
+    surface: '#0A2331',
+    surfaceAlt: '#0D3446',
+    muted: '#13465D',
+    primary: '#00EAF0',
+    primaryHover: '#00B0B8',
+    accent: '#84F0F5',
+    onPrimary: '#051119',
+  },
+  headingFont: 'System',
+  bodyFont: 'System',
+  contact: {
+    address: 'DC Complex, 4th Floor, Royal City, Chahal Road, Faridkot, Punjab',
+    phone: '78377-11322',
+    hours: '11:00 AM - 11:00 PM (Mon-Sun)',
+    gstin: '03ANPPC7864G1ZV',
+  },
+  socialLinks: [
+    {
+      platform: 'facebook',
+      url: 'https://www.facebook.com/profile.php?id=61560638404513&mibextid=JRoKGi',
+    },
+    { platform: 'instagram', url: 'https://www.instagram.com/hoteldastan' },
+  ],
+};
+
+export const PALETTE_LABELS: Record<keyof BrandPalette, string> = {
+  background: 'Background',
+  surface: 'Surface',
+  surfaceAlt: 'Surface (alternate)',
+  muted: 'Borders',
+  primary: 'Primary',
+  primaryHover: 'Primary (hover)',
+  accent: 'Accent',
+  onPrimary: 'Text on primary',
+};
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  x: 'X (Twitter)',
+  youtube: 'YouTube',
+  website: 'Website',
+};
+
+// Fonts offered in settings; "System" uses the device font and needs no download
+export const BRAND_FONTS = [
+  'System',
+  'Inter',
+  'Poppins',
+  'Lato',
+  'Montserrat',
+  'Playfair Display',
+  'Merriweather',
+  'Lora',
+  'Oswald',
+];
+
+const SYSTEM_FONT_STACK =
+  'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Checks if a value is a #rgb or #rrggbb colour
+ * @param value The value to check
+ * @returns True if the value is a hex colour
+ */
+export const isHexColor = (value: string): boolean => HEX_COLOR.test(value.trim());
+
+/**
+ * Converts a hex colour to the space separated channels used by the CSS variables
+ * @param hex A #rgb or #rrggbb colour
+ * @returns The channels, e.g. "0 234 240", or null if the colour is invalid
+ */
+export const hexToRgbChannels = (hex: string): string | null => {
+  if (!isHexColor(hex)) return null;
+
+  let digits = hex.trim().slice(1);
+  if (digits.length === 3) {
+    digits = digits
+      .split('')
+      .map((digit) => digit + digit)
+      .join('');
+  }
+
+  const value = parseInt(digits, 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+/**
+ * Returns the CSS font-family for a brand font
+ * @param font A font from BRAND_FONTS
+ * @returns The font family with a fallback stack
+ */
+export const getFontFamily = (font: string): string => {
+  if (!font || font === 'System') return SYSTEM_FONT_STACK;
+  return `"${font}", ${SYSTEM_FONT_STACK}`;
+};
+
+/**
+ * Builds the CSS variables for a branding, to be set on the element that wraps the themed UI
+ * @param branding The branding to apply
+ * @returns Inline styles defining the `--brand-*` variables
+ */
+export const toCssVariables = (branding: Branding): CSSProperties => {
+  const variables: Record<string, string> = {
+    '--brand-font-heading': getFontFamily(branding.headingFont),
+    '--brand-font-body': getFontFamily(branding.bodyFont),
+  };
+
+  (Object.keys(branding.palette) as (keyof BrandPalette)[]).forEach((key) => {
+    const channels =
+      hexToRgbChannels(branding.palette[key]) ||
+      hexToRgbChannels(DEFAULT_BRANDING.palette[key]);
+    const name = key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+    variables[`--brand-${name}`] = channels as string;
+  });
+
+  return variables as CSSProperties;
+};
+
+/**
+ * Applies a menu's branding override on top of the restaurant branding
+ * @param base The restaurant branding
+ * @param override The menu's override, if any
+ * @returns The branding to show
+ */
+export const resolveBranding = (
+  base: Branding = DEFAULT_BRANDING,
+  override?: BrandingOverride | null
+): Branding => {
+  if (!override) return base;
+
+  return {
+    ...base,
+    ...Object.fromEntries(
+      Object.entries(override).filter(([, value]) => value !== undefined && value !== '')
+    ),
+    palette: { ...base.palette, ...override.palette },
+    contact: { ...base.contact, ...override.contact },
+    socialLinks: override.socialLinks?.length ? override.socialLinks : base.socialLinks,
+  };
+};
+
+/**
+ * Loads the branding's web fonts once per page
+ * @param branding The branding being shown
+ */
+export const loadBrandFonts = (branding: Pick<Branding, 'headingFont' | 'bodyFont'>) => {
+  if (typeof document === 'undefined') return;
+
+  [branding.headingFont, branding.bodyFont]
+    .filter((font) => font && font !== 'System')
+    .forEach((font) => {
+      const id = `brand-font-${font.replace(/\s+/g, '-').toLowerCase()}`;
+      if (document.getElementById(id)) return;
+
+      const link = document.createElement('link');
+      link.id = id;
+      link.rel = 'stylesheet';
+      link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font).replace(
+        /%20/g,
+        '+'
+      )}:wght@400;500;700&display=swap`;
+      document.head.appendChild(link);
+    });
+};
+
+/**
+ * Works out what a menu's branding changes compared to the restaurant branding
+ * @param base The restaurant branding
+ * @param branding The branding edited for the menu
+ * @returns The fields that differ, or null if the menu looks the same as the restaurant
+ */
+export const getBrandingOverride = (base: Branding, branding: Branding): BrandingOverride | null => {
+  const override: BrandingOverride = {};
+
+  (['name', 'logoUrl', 'heroImageUrl', 'headingFont', 'bodyFont'] as const).forEach((key) => {
+    if ((branding[key] || '') !== (base[key] || '')) {
+      override[key] = branding[key];
+    }
+  });
+
+  const palette = (Object.keys(branding.palette) as (keyof BrandPalette)[]).filter(
+    (key) => branding.palette[key].toLowerCase() !== base.palette[key].toLowerCase()
+  );
+  if (palette.length > 0) {
+    override.palette = Object.fromEntries(palette.map((key) => [key, branding.palette[key]]));
+  }
+
+  const contact = (Object.keys({ ...base.contact, ...branding.contact }) as (keyof BrandContact)[]).filter(
+    (key) => (branding.contact[key] || '') !== (base.contact[key] || '')
+  );
+  if (contact.length > 0) {
+    override.contact = Object.fromEntries(contact.map((key) => [key, branding.contact[key] || '']));
+  }
+
+  if (JSON.stringify(branding.socialLinks) !== JSON.stringify(base.socialLinks)) {
+    override.socialLinks = branding.socialLinks;
+  }
+
+  return Object.keys(override).length > 0 ? override : null;
+};
+
+/**
+ * Checks a branding for mistakes before it is saved
+ * @param branding The branding as edited in settings
+ * @returns An error message, or null if the branding is valid
+ */
+export const validateBranding = (branding: Branding): string | null => {
+  if (!branding.name.trim()) {
+    return 'Brand name is required';
+  }
+
+  const invalidColor = (Object.keys(branding.palette) as (keyof BrandPalette)[]).find(
+    (key) => !isHexColor(branding.palette[key])
+  );
+  if (invalidColor) {
+    return `${PALETTE_LABELS[invalidColor]} must be a hex colour such as #00EAF0`;
+  }
+
+  const invalidLink = branding.socialLinks.find((link) => !/^https?:\/\//i.test(link.url.trim()));
+  if (invalidLink) {
+    return `${SOCIAL_PLATFORM_LABELS[invalidLink.platform]} link must start with http:// or https://`;
+  }
+
+  return null;
+};
@@ -0,0 +1,54 @@
+/**
+ * Helpers for the list of recently bumped kitchen tickets.
+ * Chefs can recall a ticket bumped by mistake, so each kitchen screen keeps the
+ * last few tickets bumped within a short window. The server keeps the full
+ * audit trail in each order's status history.
+ */
+
+import { BumpedTicket } from './api/orders';
+
+// Tickets older than this drop off the list
+export const RECENTLY_BUMPED_MINUTES = 30;
+
+// Most tickets kept on the list
+export const RECENTLY_BUMPED_LIMIT = 20;
+
+/**
+ * Drops tickets that are too old, keeping at most the list limit
+ * @param tickets The tickets, newest first
+ * @param now Current time in milliseconds
+ * @returns The tickets still in the window
+ */
+export const pruneRecentlyBumped = (
+  tickets: BumpedTicket[],
+  now: number = Date.now()
+): BumpedTicket[] => {
+  const cutoff = now - RECENTLY_BUMPED_MINUTES * 60 * 1000;
+  return tickets
+    .filter((ticket) => new Date(ticket.bumpedAt).getTime() >= cutoff)
+    .slice(0, RECENTLY_BUMPED_LIMIT);
+};
+
+/**
+ * Adds a newly bumped ticket to the top of the list
+ * @param tickets The tickets, newest first
+ * @param ticket The ticket just bumped
+ * @returns The updated list
+ */
+export const addRecentlyBumped = (
+  tickets: BumpedTicket[],
+  ticket: BumpedTicket
+): BumpedTicket[] =>
+  pruneRecentlyBumped([
+    ticket,
+    ...tickets.filter((t) => !isSameTicket(t, ticket)),
+  ]);
+
+/**
+ * Checks if two entries are the same bump
+ * @param a A ticket
+ * @param b Another ticket
+ * @returns True if both are the same order and station
+ */
+export const isSameTicket = (a: BumpedTicket, b: BumpedTicket): boolean =>
+  a.order.id === b.order.id && a.stationId === b.stationId;
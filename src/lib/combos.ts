@@ -0,0 +1,92 @@
+/**
+ * Helpers for combo meals: bundles of items sold at a single price.
+ * A combo is a menu item with a combo definition made up of slots; the guest
+ * picks one item for every slot before the combo is added to the cart.
+ */
+
+import { ComboDefinition, ComboSlot, MenuItem, SelectedComboItem } from './api/menuItems';
+import { getItemPrice } from './utils';
+
+// An item that can be picked for a combo slot
+export interface ComboSlotOption {
+  id: number;
+  name: string;
+  isAvailable: boolean;
+}
+
+/**
+ * Checks if a menu item is a combo
+ * @param item The menu item
+ * @returns True if the item has combo slots
+ */
+export const isCombo = (item?: Pick<MenuItem, 'combo'> | null): boolean => {
+  return !!item?.combo && item.combo.slots.length > 0;
+};
+
+/**
+ * Lists the items a guest can pick for a slot
+ * @param slot The combo slot
+ * @param items Menu items to look up names in when the server did not include them
+ * @returns The slot's options, in the order they were set up
+ */
+export const getSlotOptions = (slot: ComboSlot, items: MenuItem[] = []): ComboSlotOption[] => {
+  if (slot.items && slot.items.length > 0) return slot.items;
+
+  return slot.itemIds
+    .map((itemId) => items.find((item) => item.id === itemId))
+    .filter((item): item is MenuItem => !!item)
+    .map((item) => ({ id: item.id, name: item.name, isAvailable: item.isAvailable }));
+};
+
+/**
+ * Checks a combo definition for mistakes before it is saved
+ * @param combo The combo definition
+ * @returns An error message, or null if the combo is valid
+ */
+export const validateCombo = (combo: ComboDefinition): string | null => {
+  if (combo.slots.length === 0) {
+    return 'Add at least one slot to the combo';
+  }
+
+  for (const slot of combo.slots) {
+    if (!slot.name.trim()) {
+      return 'Every slot needs a name';
+    }
+    if (slot.itemIds.length === 0) {
+      return `Add at least one item to "${slot.name}"`;
+    }
+    if (!(slot.quantity >= 1)) {
+      return `"${slot.name}" must include at least one item`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Works out what the cheapest choice of a combo would cost when ordered separately
+ * @param combo The combo definition
+ * @param items Menu items to look up prices in
+ * @returns The total separate price
+ */
+export const getSeparatePrice = (combo: ComboDefinition, items: MenuItem[]): number => {
+  return combo.slots.reduce((total, slot) => {
+    const prices = slot.itemIds
+      .map((itemId) => items.find((item) => item.id === itemId))
+      .filter((item): item is MenuItem => !!item)
+      .map((item) => getItemPrice(item));
+    return total + (prices.length > 0 ? Math.min(...prices) * slot.quantity : 0);
+  }, 0);
+};
+
+/**
+ * Formats the items chosen for a combo as a readable list, e.g. "Paneer Tikka, 2× Butter Naan"
+ * @param comboItems The items stored on a cart or order line
+ * @returns A comma separated list, or an empty string
+ */
+export const formatComboItems = (comboItems?: SelectedComboItem[] | null): string => {
+  if (!comboItems || comboItems.length === 0) return '';
+  return comboItems
+    .map((comboItem) => (comboItem.quantity > 1 ? `${comboItem.quantity}× ${comboItem.name}` : comboItem.name))
+    .join(', ');
+};
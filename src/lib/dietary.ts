@@ -0,0 +1,63 @@
+/**
+ * Helpers for filtering menu items by their structured dietary information.
+ * Used by the guest menu filters and the admin item list.
+ */
+import { Allergen, DietaryLabel, MenuItem } from './api/menuItems';
+
+export type DietaryFilter = DietaryLabel | 'GLUTEN_FREE' | 'NUT_FREE';
+
+// Filter chips shown to guests, in display order
+export const DIETARY_FILTERS: { id: DietaryFilter; label: string }[] = [
+  { id: 'VEGETARIAN', label: 'Veg' },
+  { id: 'VEGAN', label: 'Vegan' },
+  { id: 'JAIN', label: 'Jain' },
+  { id: 'GLUTEN_FREE', label: 'Gluten-free' },
+  { id: 'NUT_FREE', label: 'Nut-free' },
+];
+
+const NUT_ALLERGENS: Allergen[] = ['PEANUTS', 'TREE_NUTS'];
+
+/**
+ * Whether an item's dietary information has been filled in
+ * @param item The menu item
+ * @returns True if labels or allergens were declared for the item
+ */
+export const hasDietaryInfo = (item: MenuItem): boolean => {
+  return !!item.dietaryInfo;
+};
+
+/**
+ * Checks an item against a dietary filter.
+ * Vegan and Jain dishes are also vegetarian. Free-from filters only match
+ * items whose allergens have been declared, so unknown items are never shown as safe.
+ * @param item The menu item
+ * @param filter The dietary filter
+ * @returns True if the item satisfies the filter
+ */
+export const matchesDietaryFilter = (item: MenuItem, filter: DietaryFilter): boolean => {
+  const info = item.dietaryInfo;
+  if (!info) return false;
+
+  switch (filter) {
+    case 'VEGETARIAN':
+      return info.labels.some((label) => label === 'VEGETARIAN' || label === 'VEGAN' || label === 'JAIN');
+    case 'VEGAN':
+    case 'JAIN':
+      return info.labels.includes(filter);
+    case 'GLUTEN_FREE':
+      return !info.allergens.includes('GLUTEN');
+    case 'NUT_FREE':
+      return !info.allergens.some((allergen) => NUT_ALLERGENS.includes(allergen));
+  }
+};
+
+/**
+ * Lists the allergens of an item that appear in a set of allergens to avoid
+ * @param item The menu item
+ * @param avoided Allergens the guest wants to avoid
+ * @returns The matching allergens, empty if the item is safe or undeclared
+ */
+export const getAvoidedAllergens = (item: MenuItem, avoided: Allergen[]): Allergen[] => {
+  if (!item.dietaryInfo) return [];
+  return item.dietaryInfo.allergens.filter((allergen) => avoided.includes(allergen));
+};
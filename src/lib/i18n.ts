@@ -0,0 +1,1278 @@
+/**
+ * Language support for the guest QR menu.
+ * Menu content (item and category names and descriptions) carries optional
+ * per-language translations; the menu page copy is translated here.
+ * Anything missing falls back to the base language.
+ */
+
+export type LanguageCode = 'en' | 'hi' | 'es' | 'fr' | 'de' | 'zh';
+
+// Language the menu content is originally written in
+export const BASE_LANGUAGE: LanguageCode = 'en';
+
+// Languages offered to guests, labelled in their own language
+export const SUPPORTED_LANGUAGES: { code: LanguageCode; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'zh', label: '中文' },
+];
+
+// Languages that admins can translate menu content into
+export const TRANSLATION_LANGUAGES = SUPPORTED_LANGUAGES.filter(
+  (language) => language.code !== BASE_LANGUAGE
+);
+
+export interface ContentTranslation {
+  name?: string;
+  description?: string;
+}
+
+// Translations of a name and description keyed by language
+export type ContentTranslations = Partial<Record<LanguageCode, ContentTranslation>>;
+
+interface TranslatableContent {
+  name: string;
+  description?: string;
+  translations?: ContentTranslations | null;
+}
+
+const LANGUAGE_KEY = 'menu-language';
+
+const isSupportedLanguage = (code: string): code is LanguageCode =>
+  SUPPORTED_LANGUAGES.some((language) => language.code === code);
+
+/**
+ * Returns the language chosen on this device, or the best match for the browser locale
+ * @returns The language to show the menu in
+ */
+export const getPreferredLanguage = (): LanguageCode => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  if (stored && isSupportedLanguage(stored)) return stored;
+
+  const browserLanguages =
+    typeof navigator !== 'undefined'
+      ? navigator.languages?.length
+        ? navigator.languages
+        : [navigator.language]
+      : [];
+
+  for (const locale of browserLanguages) {
+    const code = locale?.toLowerCase().split('-')[0];
+    if (code && isSupportedLanguage(code)) return code;
+  }
+
+  return BASE_LANGUAGE;
+};
+
+/**
+ * Remembers the language picked by the guest
+ * @param language The chosen language
+ */
+export const setPreferredLanguage = (language: LanguageCode) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
+
+/**
+ * Returns the name of an item or category in a language
+ * @param content The item or category
+ * @param language The language to show
+ * @returns The translated name, or the original name if there is no translation
+ */
+export const getLocalizedName = (content: TranslatableContent, language: LanguageCode): string => {
+  if (language === BASE_LANGUAGE) return content.name;
+  return content.translations?.[language]?.name?.trim() || content.name;
+};
+
+/**
+ * Returns the description of an item or category in a language
+ * @param content The item or category
+ * @param language The language to show
+ * @returns The translated description, or the original description if there is no translation
+ */
+export const getLocalizedDescription = (
+  content: TranslatableContent,
+  language: LanguageCode
+): string | undefined => {
+  if (language === BASE_LANGUAGE) return content.description;
+  return content.translations?.[language]?.description?.trim() || content.description;
+};
+
+/**
+ * Drops empty fields and languages so that only real translations are saved
+ * @param translations Translations as edited in a form
+ * @returns The cleaned translations
+ */
+export const cleanTranslations = (translations: ContentTranslations): ContentTranslations => {
+  const cleaned: ContentTranslations = {};
+  (Object.keys(translations) as LanguageCode[]).forEach((code) => {
+    const name = translations[code]?.name?.trim();
+    const description = translations[code]?.description?.trim();
+    if (name || description) {
+      cleaned[code] = {
+        ...(name ? { name } : {}),
+        ...(description ? { description } : {}),
+      };
+    }
+  });
+  return cleaned;
+};
+
+// Copy used on the guest menu page
+const MENU_STRINGS_EN = {
+  loadingMenu: 'Loading menu...',
+  menuUnavailable: 'Menu Unavailable',
+  goBack: 'Go Back',
+  askStaff: 'Or ask our staff for assistance',
+  language: 'Language',
+  menu: 'Menu',
+  orders: 'Orders',
+  info: 'Info',
+  searchMenu: 'Search menu...',
+  all: 'All',
+  other: 'Other',
+  allergies: 'Allergies',
+  hideItemsContaining: 'Hide items containing…',
+  allergenPreferenceNote:
+    'Saved on this device. Items without allergen information are still shown; please check with our staff.',
+  hiddenByAllergies: 'Hidden because of your allergies: {count}',
+  noItemsFound: 'No items found',
+  adjustFilters: 'Try adjusting your search or filters',
+  unavailable: 'Unavailable',
+  preparationTime: 'Preparation time: {minutes} mins',
+  customisable: 'Customisable',
+  combo: 'Combo',
+  contains: 'Contains:',
+  allergenInfoMissing: 'Allergen information not available. Please ask our staff.',
+  yourOrders: 'Your Orders',
+  trackOrders: 'Track the status of your orders in real-time',
+  noActiveOrders: 'No active orders',
+  ordersAppearHere: 'Your orders will appear here once you place them',
+  order: 'Order #{id}',
+  orderReceived: 'Order Received',
+  preparingYourOrder: 'Preparing Your Order',
+  readyForPickup: 'Ready for Pickup',
+  orderDelivered: 'Order Delivered',
+  orderCompleted: 'Order Completed',
+  stepReceived: 'Received',
+  stepPreparing: 'Preparing',
+  stepReady: 'Ready',
+  stepDelivered: 'Delivered',
+  pendingMessage: 'Your order has been received and will be prepared soon.',
+  preparingMessage: 'Our chefs are preparing your delicious meal right now.',
+  readyMessage: 'Your order is ready! Please pick it up from the counter.',
+  deliveredMessage: 'Your order has been delivered. Enjoy your meal!',
+  estimatedReady: 'Estimated ready by {time} (about {minutes} min)',
+  ordersAhead: 'Orders ahead of yours in the kitchen: {count}',
+  justNow: 'Just now',
+  minutesAgo: '{count} min ago',
+  hoursAgo: '{count} h ago',
+  orderItems: 'Order Items',
+  total: 'Total',
+  restaurantInformation: 'Restaurant Information',
+  table: 'Table',
+  tableNumber: 'Table #{number}',
+  location: 'Location: {location}',
+  hours: 'Hours',
+  openingHours: 'Opening Hours',
+  contact: 'Contact',
+  phone: 'Phone',
+  email: 'Email',
+  ourLocation: 'Our Location',
+  callUs: 'Call Us',
+  kitchenClosesIn: 'Kitchen closes in {minutes} min',
+  kitchenClosed: 'The kitchen is closed right now',
+  opensAt: 'Opens {time}',
+  availableFrom: 'Available from {time}',
+  sessionClosed: 'Your bill has been settled. Thank you for visiting!',
+  favourites: 'Favourites',
+  rateYourMeal: 'How was your meal? Rate order #{orderId}',
+  ratingCount: '({count} ratings)',
+  feedbackThanks: 'Thank you for your feedback!',
+  cartUpdateFailed: 'Your cart could not be updated. Please try again.',
+  pleaseChooseOne: 'Please choose one',
+  pleaseChooseAtLeast: 'Please choose at least {min}',
+  chooseUpTo: 'Choose up to {max}',
+  required: 'Required',
+  optional: 'Optional',
+  upTo: 'up to {max}',
+  optionUnavailable: '(unavailable)',
+  specialInstructions: 'Special instructions',
+  specialInstructionsPlaceholder: 'e.g. No onions, less spicy',
+  adding: 'Adding...',
+  addToOrderFor: 'Add to order · {price}',
+  addToOrderFailed: "Couldn't add this to your order. Please try again.",
+  chooseOne: 'Choose one',
+  included: 'Included',
+  minutes: '{minutes} min',
+  addVariant: 'Add {variant}',
+  addToCart: 'Add to cart',
+  itemUnavailableNow: 'This item is unavailable right now.',
+  goesWellWith: 'Goes well with',
+  addItem: 'Add {name}',
+  added: 'Added',
+  yourOrder: 'Your Order',
+  save: 'Save',
+  orderingAs: 'Ordering as',
+  change: 'Change',
+  cartEmpty: 'Your cart is empty',
+  cartEmptyHint: 'Add some delicious items from the menu to place an order.',
+  orderPlaced: 'Order Placed Successfully!',
+  orderPlacedHint: 'Your order has been received and is being prepared.',
+  addedByYou: 'Added by you',
+  addedBy: 'Added by {name}',
+  priceEach: '{price} each',
+  notePlaceholder: 'e.g. No onions',
+  addNote: 'Add a note',
+  subtotal: 'Subtotal',
+  placingOrderFor: '{name} is placing the order for your table...',
+  processing: 'Processing...',
+  placeOrder: 'Place Order',
+  orderPlacedBy: '{name} placed order #{id} for the table.',
+  cartChangedByOthers: 'The cart was changed by someone else at your table. Please review it and try again.',
+  loadCartFailed: 'Failed to load cart. Please try again.',
+  updateQuantityFailed: 'Failed to update quantity. Please try again.',
+  saveNoteFailed: 'Failed to save note. Please try again.',
+  removeItemFailed: 'Failed to remove item. Please try again.',
+  addItemFailed: 'Failed to add item. Please try again.',
+  placeOrderFailed: 'Failed to place order. Please try again.',
+  askForService: 'Ask for service',
+  sent: 'sent',
+  aStaffMember: 'A staff member',
+  staffOnTheWay: '{name} is on the way ({request}).',
+  serviceRequestSent: '{request} request sent. Our staff will be with you shortly.',
+  'serviceRequest.CALL_WAITER': 'Call waiter',
+  'serviceRequest.REQUEST_BILL': 'Request bill',
+  'serviceRequest.WATER_CUTLERY': 'Need water/cutlery',
+  howWasYourMeal: 'How was your meal?',
+  overallExperience: 'Your overall experience',
+  overallRating: 'Overall rating',
+  rateEachDish: 'Rate each dish (optional)',
+  ratingFor: 'Rating for {name}',
+  feedbackComment: "Anything you'd like to tell us? (optional)",
+  sendFeedback: 'Send feedback',
+  rateOverallRequired: 'Please rate your overall experience',
+  feedbackFailed: 'Could not send your feedback. Please try again.',
+  accountOrders: 'Your orders',
+  orderAgainFaster: 'Order again faster',
+  signedInAs: 'Signed in as {phone}',
+  signInPrompt: 'Sign in with your phone to keep your order history and favourites',
+  phoneNumber: 'Phone number',
+  phonePlaceholder: 'e.g. 98765 43210',
+  sendCode: 'Send code',
+  signInOptional: 'Signing in is optional. You can order without it.',
+  codeSentTo: 'Enter the code sent to {phone}',
+  verifyAndSignIn: 'Verify and sign in',
+  useDifferentNumber: 'Use a different number',
+  addLastOrder: 'Add my last order to cart',
+  noOrderHistory: 'Orders you place while signed in will show up here.',
+  orderAgain: 'Order again',
+  signOut: 'Sign out',
+  addedOneItem: 'Added {count} item to your cart.',
+  addedItems: 'Added {count} items to your cart.',
+  nothingAdded: 'Nothing could be added to your cart.',
+  addedLine: 'Added {name}',
+  skippedLine: 'Skipped {name}: {reason}',
+  invalidPhone: 'Please enter a valid phone number',
+  sendCodeFailed: 'Could not send the code. Please try again.',
+  enterCode: 'Please enter the {length}-digit code',
+  codeRejected: 'That code did not work. Please check it and try again.',
+  reorderFailed: 'Could not add the order to your cart. Please try again.',
+  'reorderSkip.notOnMenu': 'not on this menu right now',
+  'reorderSkip.unavailable': 'unavailable right now',
+  'reorderSkip.variantUnavailable': '{detail} is no longer offered',
+  'reorderSkip.optionUnavailable': '{detail} is unavailable',
+  'reorderSkip.comboChoiceUnavailable': 'combo choice {detail} is unavailable',
+  'reorderSkip.notAdded': 'could not be added, please try again',
+  noTableInfo: 'No table information found. Please scan a valid QR code.',
+  noMenuForTable: 'No menu is currently available for this table. Please ask staff for assistance.',
+  menuLoadFailed: 'Unable to load menu information. Please try again or ask for assistance.',
+  qrCodeInvalid: 'This QR code is no longer valid. Please ask staff for assistance.',
+  'filter.VEGETARIAN': 'Veg',
+  'filter.VEGAN': 'Vegan',
+  'filter.JAIN': 'Jain',
+  'filter.GLUTEN_FREE': 'Gluten-free',
+  'filter.NUT_FREE': 'Nut-free',
+  'diet.VEGETARIAN': 'Vegetarian',
+  'diet.VEGAN': 'Vegan',
+  'diet.JAIN': 'Jain',
+  'allergen.GLUTEN': 'Gluten',
+  'allergen.PEANUTS': 'Peanuts',
+  'allergen.TREE_NUTS': 'Tree nuts',
+  'allergen.DAIRY': 'Dairy',
+  'allergen.EGGS': 'Eggs',
+  'allergen.SOY': 'Soy',
+  'allergen.FISH': 'Fish',
+  'allergen.SHELLFISH': 'Shellfish',
+  'allergen.SESAME': 'Sesame',
+  'allergen.MUSTARD': 'Mustard',
+};
+
+export type MenuStringKey = keyof typeof MENU_STRINGS_EN;
+
+// Translates copy into the language the guest picked, as passed to guest components
+export type Translate = (key: MenuStringKey, params?: Record<string, string | number>) => string;
+
+const MENU_STRINGS: Record<LanguageCode, Partial<Record<MenuStringKey, string>>> = {
+  en: MENU_STRINGS_EN,
+  hi: {
+    loadingMenu: 'मेन्यू लोड हो रहा है...',
+    menuUnavailable: 'मेन्यू उपलब्ध नहीं है',
+    goBack: 'वापस जाएँ',
+    askStaff: 'या सहायता के लिए हमारे स्टाफ से पूछें',
+    language: 'भाषा',
+    menu: 'मेन्यू',
+    orders: 'ऑर्डर',
+    info: 'जानकारी',
+    searchMenu: 'मेन्यू में खोजें...',
+    all: 'सभी',
+    other: 'अन्य',
+    allergies: 'एलर्जी',
+    hideItemsContaining: 'इनसे युक्त व्यंजन छिपाएँ…',
+    allergenPreferenceNote:
+      'इस डिवाइस पर सहेजा गया। जिन व्यंजनों की एलर्जी जानकारी नहीं है वे अभी भी दिखेंगे; कृपया हमारे स्टाफ से पूछें।',
+    hiddenByAllergies: 'आपकी एलर्जी के कारण छिपाए गए: {count}',
+    noItemsFound: 'कोई व्यंजन नहीं मिला',
+    adjustFilters: 'अपनी खोज या फ़िल्टर बदलकर देखें',
+    unavailable: 'उपलब्ध नहीं',
+    preparationTime: 'बनने का समय: {minutes} मिनट',
+    customisable: 'अपनी पसंद से बनवाएँ',
+    combo: 'कॉम्बो',
+    contains: 'इसमें है:',
+    allergenInfoMissing: 'एलर्जी की जानकारी उपलब्ध नहीं है। कृपया हमारे स्टाफ से पूछें।',
+    yourOrders: 'आपके ऑर्डर',
+    trackOrders: 'अपने ऑर्डर की स्थिति लाइव देखें',
+    noActiveOrders: 'कोई सक्रिय ऑर्डर नहीं',
+    ordersAppearHere: 'ऑर्डर देने के बाद आपके ऑर्डर यहाँ दिखेंगे',
+    order: 'ऑर्डर #{id}',
+    orderReceived: 'ऑर्डर मिल गया',
+    preparingYourOrder: 'आपका ऑर्डर बन रहा है',
+    readyForPickup: 'ऑर्डर तैयार है',
+    orderDelivered: 'ऑर्डर पहुँचा दिया गया',
+    orderCompleted: 'ऑर्डर पूरा हुआ',
+    stepReceived: 'प्राप्त',
+    stepPreparing: 'बन रहा है',
+    stepReady: 'तैयार',
+    stepDelivered: 'पहुँचाया गया',
+    pendingMessage: 'आपका ऑर्डर मिल गया है और जल्द ही बनाया जाएगा।',
+    preparingMessage: 'हमारे शेफ अभी आपका स्वादिष्ट खाना बना रहे हैं।',
+    readyMessage: 'आपका ऑर्डर तैयार है! कृपया काउंटर से ले लें।',
+    deliveredMessage: 'आपका ऑर्डर पहुँचा दिया गया है। भोजन का आनंद लें!',
+    estimatedReady: 'लगभग {time} तक तैयार (करीब {minutes} मिनट)',
+    ordersAhead: 'रसोई में आपसे पहले के ऑर्डर: {count}',
+    justNow: 'अभी',
+    minutesAgo: '{count} मिनट पहले',
+    hoursAgo: '{count} घंटे पहले',
+    orderItems: 'ऑर्डर के व्यंजन',
+    total: 'कुल',
+    restaurantInformation: 'रेस्टोरेंट की जानकारी',
+    table: 'टेबल',
+    tableNumber: 'टेबल #{number}',
+    location: 'स्थान: {location}',
+    hours: 'समय',
+    openingHours: 'खुलने का समय',
+    contact: 'संपर्क',
+    phone: 'फ़ोन',
+    email: 'ईमेल',
+    ourLocation: 'हमारा पता',
+    callUs: 'कॉल करें',
+    kitchenClosesIn: 'रसोई {minutes} मिनट में बंद होगी',
+    kitchenClosed: 'रसोई अभी बंद है',
+    opensAt: '{time} पर खुलेगी',
+    availableFrom: '{time} से उपलब्ध',
+    sessionClosed: 'आपका बिल चुका दिया गया है। आने के लिए धन्यवाद!',
+    favourites: 'पसंदीदा',
+    rateYourMeal: 'खाना कैसा लगा? ऑर्डर #{orderId} को रेट करें',
+    ratingCount: '({count} रेटिंग)',
+    feedbackThanks: 'आपकी प्रतिक्रिया के लिए धन्यवाद!',
+    cartUpdateFailed: 'आपका कार्ट अपडेट नहीं हो सका। कृपया फिर से कोशिश करें।',
+    pleaseChooseOne: 'कृपया एक चुनें',
+    pleaseChooseAtLeast: 'कृपया कम से कम {min} चुनें',
+    chooseUpTo: 'अधिकतम {max} चुनें',
+    required: 'ज़रूरी',
+    optional: 'वैकल्पिक',
+    upTo: 'अधिकतम {max}',
+    optionUnavailable: '(उपलब्ध नहीं)',
+    specialInstructions: 'विशेष निर्देश',
+    specialInstructionsPlaceholder: 'जैसे प्याज़ नहीं, कम तीखा',
+    adding: 'जोड़ा जा रहा है...',
+    addToOrderFor: 'ऑर्डर में जोड़ें · {price}',
+    addToOrderFailed: 'इसे आपके ऑर्डर में नहीं जोड़ा जा सका। कृपया फिर से कोशिश करें।',
+    chooseOne: 'एक चुनें',
+    included: 'शामिल',
+    minutes: '{minutes} मिनट',
+    addVariant: '{variant} जोड़ें',
+    addToCart: 'कार्ट में जोड़ें',
+    itemUnavailableNow: 'यह आइटम अभी उपलब्ध नहीं है।',
+    goesWellWith: 'इसके साथ अच्छा लगता है',
+    addItem: '{name} जोड़ें',
+    added: 'जोड़ा गया',
+    yourOrder: 'आपका ऑर्डर',
+    save: 'सहेजें',
+    orderingAs: 'ऑर्डर करने वाले:',
+    change: 'बदलें',
+    cartEmpty: 'आपका कार्ट खाली है',
+    cartEmptyHint: 'ऑर्डर देने के लिए मेन्यू से कुछ स्वादिष्ट आइटम जोड़ें।',
+    orderPlaced: 'ऑर्डर सफलतापूर्वक दिया गया!',
+    orderPlacedHint: 'आपका ऑर्डर मिल गया है और तैयार किया जा रहा है।',
+    addedByYou: 'आपने जोड़ा',
+    addedBy: '{name} ने जोड़ा',
+    priceEach: '{price} प्रति नग',
+    notePlaceholder: 'जैसे प्याज़ नहीं',
+    addNote: 'नोट जोड़ें',
+    subtotal: 'उप-योग',
+    placingOrderFor: '{name} आपकी टेबल का ऑर्डर दे रहे हैं...',
+    processing: 'प्रोसेस हो रहा है...',
+    placeOrder: 'ऑर्डर दें',
+    orderPlacedBy: '{name} ने टेबल के लिए ऑर्डर #{id} दिया।',
+    cartChangedByOthers: 'आपकी टेबल पर किसी और ने कार्ट बदल दिया है। कृपया उसे देखकर फिर से कोशिश करें।',
+    loadCartFailed: 'कार्ट लोड नहीं हो सका। कृपया फिर से कोशिश करें।',
+    updateQuantityFailed: 'मात्रा अपडेट नहीं हो सकी। कृपया फिर से कोशिश करें।',
+    saveNoteFailed: 'नोट सहेजा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    removeItemFailed: 'आइटम हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+    addItemFailed: 'आइटम जोड़ा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    placeOrderFailed: 'ऑर्डर नहीं दिया जा सका। कृपया फिर से कोशिश करें।',
+    askForService: 'सेवा के लिए बुलाएँ',
+    sent: 'भेजा गया',
+    aStaffMember: 'हमारे स्टाफ का एक सदस्य',
+    staffOnTheWay: '{name} आ रहे हैं ({request})।',
+    serviceRequestSent: '{request} का अनुरोध भेज दिया गया। हमारा स्टाफ जल्द ही आपके पास होगा।',
+    'serviceRequest.CALL_WAITER': 'वेटर को बुलाएँ',
+    'serviceRequest.REQUEST_BILL': 'बिल मँगाएँ',
+    'serviceRequest.WATER_CUTLERY': 'पानी/कटलरी चाहिए',
+    howWasYourMeal: 'आपका खाना कैसा रहा?',
+    overallExperience: 'आपका कुल अनुभव',
+    overallRating: 'कुल रेटिंग',
+    rateEachDish: 'हर डिश को रेट करें (वैकल्पिक)',
+    ratingFor: '{name} के लिए रेटिंग',
+    feedbackComment: 'क्या आप हमें कुछ बताना चाहेंगे? (वैकल्पिक)',
+    sendFeedback: 'फ़ीडबैक भेजें',
+    rateOverallRequired: 'कृपया अपने कुल अनुभव को रेट करें',
+    feedbackFailed: 'आपका फ़ीडबैक भेजा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    accountOrders: 'आपके ऑर्डर',
+    orderAgainFaster: 'दोबारा जल्दी ऑर्डर करें',
+    signedInAs: '{phone} के रूप में साइन इन',
+    signInPrompt: 'अपने ऑर्डर का इतिहास और पसंदीदा आइटम रखने के लिए फ़ोन से साइन इन करें',
+    phoneNumber: 'फ़ोन नंबर',
+    phonePlaceholder: 'जैसे 98765 43210',
+    sendCode: 'कोड भेजें',
+    signInOptional: 'साइन इन करना ज़रूरी नहीं है। आप इसके बिना भी ऑर्डर कर सकते हैं।',
+    codeSentTo: '{phone} पर भेजा गया कोड दर्ज करें',
+    verifyAndSignIn: 'सत्यापित करें और साइन इन करें',
+    useDifferentNumber: 'दूसरा नंबर इस्तेमाल करें',
+    addLastOrder: 'मेरा पिछला ऑर्डर कार्ट में जोड़ें',
+    noOrderHistory: 'साइन इन रहते हुए दिए गए ऑर्डर यहाँ दिखेंगे।',
+    orderAgain: 'फिर से ऑर्डर करें',
+    signOut: 'साइन आउट',
+    addedOneItem: 'आपके कार्ट में {count} आइटम जोड़ा गया।',
+    addedItems: 'आपके कार्ट में {count} आइटम जोड़े गए।',
+    nothingAdded: 'आपके कार्ट में कुछ भी नहीं जोड़ा जा सका।',
+    addedLine: '{name} जोड़ा गया',
+    skippedLine: '{name} छोड़ दिया गया: {reason}',
+    invalidPhone: 'कृपया एक सही फ़ोन नंबर दर्ज करें',
+    sendCodeFailed: 'कोड भेजा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    enterCode: 'कृपया {length} अंकों का कोड दर्ज करें',
+    codeRejected: 'यह कोड काम नहीं किया। कृपया जाँचकर फिर से कोशिश करें।',
+    reorderFailed: 'ऑर्डर आपके कार्ट में नहीं जोड़ा जा सका। कृपया फिर से कोशिश करें।',
+    'reorderSkip.notOnMenu': 'अभी इस मेन्यू में नहीं है',
+    'reorderSkip.unavailable': 'अभी उपलब्ध नहीं है',
+    'reorderSkip.variantUnavailable': '{detail} अब नहीं मिलता',
+    'reorderSkip.optionUnavailable': '{detail} उपलब्ध नहीं है',
+    'reorderSkip.comboChoiceUnavailable': 'कॉम्बो विकल्प {detail} उपलब्ध नहीं है',
+    'reorderSkip.notAdded': 'जोड़ा नहीं जा सका, कृपया फिर से कोशिश करें',
+    noTableInfo: 'टेबल की जानकारी नहीं मिली। कृपया एक सही QR कोड स्कैन करें।',
+    noMenuForTable: 'इस टेबल के लिए अभी कोई मेन्यू उपलब्ध नहीं है। कृपया सहायता के लिए स्टाफ से पूछें।',
+    menuLoadFailed: 'मेन्यू की जानकारी लोड नहीं हो सकी। कृपया फिर से कोशिश करें या सहायता माँगें।',
+    qrCodeInvalid: 'यह QR कोड अब मान्य नहीं है। कृपया सहायता के लिए स्टाफ से पूछें।',
+    'filter.VEGETARIAN': 'शाकाहारी',
+    'filter.VEGAN': 'वीगन',
+    'filter.JAIN': 'जैन',
+    'filter.GLUTEN_FREE': 'ग्लूटेन-मुक्त',
+    'filter.NUT_FREE': 'मेवा-मुक्त',
+    'diet.VEGETARIAN': 'शाकाहारी',
+    'diet.VEGAN': 'वीगन',
+    'diet.JAIN': 'जैन',
+    'allergen.GLUTEN': 'ग्लूटेन',
+    'allergen.PEANUTS': 'मूंगफली',
+    'allergen.TREE_NUTS': 'मेवे',
+    'allergen.DAIRY': 'डेयरी',
+    'allergen.EGGS': 'अंडा',
+    'allergen.SOY': 'सोया',
+    'allergen.FISH': 'मछली',
+    'allergen.SHELLFISH': 'शेलफ़िश',
+    'allergen.SESAME': 'तिल',
+    'allergen.MUSTARD': 'सरसों',
+  },
+  es: {
+    loadingMenu: 'Cargando menú...',
+    menuUnavailable: 'Menú no disponible',
+    goBack: 'Volver',
+    askStaff: 'O pide ayuda a nuestro personal',
+    language: 'Idioma',
+    menu: 'Menú',
+    orders: 'Pedidos',
+    info: 'Info',
+    searchMenu: 'Buscar en el menú...',
+    all: 'Todo',
+    other: 'Otros',
+    allergies: 'Alergias',
+    hideItemsContaining: 'Ocultar platos que contengan…',
+    allergenPreferenceNote:
+      'Guardado en este dispositivo. Los platos sin información de alérgenos se siguen mostrando; consulta con nuestro personal.',
+    hiddenByAllergies: 'Ocultos por tus alergias: {count}',
+    noItemsFound: 'No se encontraron platos',
+    adjustFilters: 'Prueba a cambiar la búsqueda o los filtros',
+    unavailable: 'No disponible',
+    preparationTime: 'Tiempo de preparación: {minutes} min',
+    customisable: 'Personalizable',
+    combo: 'Combo',
+    contains: 'Contiene:',
+    allergenInfoMissing: 'Información de alérgenos no disponible. Consulta con nuestro personal.',
+    yourOrders: 'Tus pedidos',
+    trackOrders: 'Sigue el estado de tus pedidos en tiempo real',
+    noActiveOrders: 'No hay pedidos activos',
+    ordersAppearHere: 'Tus pedidos aparecerán aquí cuando los hagas',
+    order: 'Pedido #{id}',
+    orderReceived: 'Pedido recibido',
+    preparingYourOrder: 'Preparando tu pedido',
+    readyForPickup: 'Listo para recoger',
+    orderDelivered: 'Pedido entregado',
+    orderCompleted: 'Pedido completado',
+    stepReceived: 'Recibido',
+    stepPreparing: 'Preparando',
+    stepReady: 'Listo',
+    stepDelivered: 'Entregado',
+    pendingMessage: 'Hemos recibido tu pedido y pronto empezaremos a prepararlo.',
+    preparingMessage: 'Nuestros cocineros están preparando tu comida ahora mismo.',
+    readyMessage: '¡Tu pedido está listo! Recógelo en el mostrador.',
+    deliveredMessage: 'Tu pedido ha sido entregado. ¡Buen provecho!',
+    estimatedReady: 'Listo hacia las {time} (unos {minutes} min)',
+    ordersAhead: 'Pedidos por delante del tuyo en cocina: {count}',
+    justNow: 'Ahora mismo',
+    minutesAgo: 'hace {count} min',
+    hoursAgo: 'hace {count} h',
+    orderItems: 'Platos del pedido',
+    total: 'Total',
+    restaurantInformation: 'Información del restaurante',
+    table: 'Mesa',
+    tableNumber: 'Mesa #{number}',
+    location: 'Ubicación: {location}',
+    hours: 'Horario',
+    openingHours: 'Horario de apertura',
+    contact: 'Contacto',
+    phone: 'Teléfono',
+    email: 'Correo',
+    ourLocation: 'Dónde estamos',
+    callUs: 'Llámanos',
+    kitchenClosesIn: 'La cocina cierra en {minutes} min',
+    kitchenClosed: 'La cocina está cerrada ahora mismo',
+    opensAt: 'Abre {time}',
+    availableFrom: 'Disponible desde {time}',
+    sessionClosed: 'Tu cuenta está pagada. ¡Gracias por tu visita!',
+    favourites: 'Favoritos',
+    rateYourMeal: '¿Qué tal la comida? Valora el pedido #{orderId}',
+    ratingCount: '({count} valoraciones)',
+    feedbackThanks: '¡Gracias por tu opinión!',
+    cartUpdateFailed: 'No se pudo actualizar tu carrito. Inténtalo de nuevo.',
+    pleaseChooseOne: 'Elige una opción',
+    pleaseChooseAtLeast: 'Elige al menos {min}',
+    chooseUpTo: 'Elige hasta {max}',
+    required: 'Obligatorio',
+    optional: 'Opcional',
+    upTo: 'hasta {max}',
+    optionUnavailable: '(no disponible)',
+    specialInstructions: 'Instrucciones especiales',
+    specialInstructionsPlaceholder: 'p. ej. Sin cebolla, menos picante',
+    adding: 'Añadiendo...',
+    addToOrderFor: 'Añadir al pedido · {price}',
+    addToOrderFailed: 'No se pudo añadir a tu pedido. Inténtalo de nuevo.',
+    chooseOne: 'Elige uno',
+    included: 'Incluido',
+    minutes: '{minutes} min',
+    addVariant: 'Añadir {variant}',
+    addToCart: 'Añadir al carrito',
+    itemUnavailableNow: 'Este plato no está disponible en este momento.',
+    goesWellWith: 'Combina bien con',
+    addItem: 'Añadir {name}',
+    added: 'Añadido',
+    yourOrder: 'Tu pedido',
+    save: 'Guardar',
+    orderingAs: 'Pides como',
+    change: 'Cambiar',
+    cartEmpty: 'Tu carrito está vacío',
+    cartEmptyHint: 'Añade algunos platos deliciosos del menú para hacer un pedido.',
+    orderPlaced: '¡Pedido realizado con éxito!',
+    orderPlacedHint: 'Hemos recibido tu pedido y lo estamos preparando.',
+    addedByYou: 'Añadido por ti',
+    addedBy: 'Añadido por {name}',
+    priceEach: '{price} cada uno',
+    notePlaceholder: 'p. ej. Sin cebolla',
+    addNote: 'Añadir una nota',
+    subtotal: 'Subtotal',
+    placingOrderFor: '{name} está haciendo el pedido de tu mesa...',
+    processing: 'Procesando...',
+    placeOrder: 'Hacer pedido',
+    orderPlacedBy: '{name} hizo el pedido #{id} para la mesa.',
+    cartChangedByOthers: 'Otra persona de tu mesa ha cambiado el carrito. Revísalo e inténtalo de nuevo.',
+    loadCartFailed: 'No se pudo cargar el carrito. Inténtalo de nuevo.',
+    updateQuantityFailed: 'No se pudo actualizar la cantidad. Inténtalo de nuevo.',
+    saveNoteFailed: 'No se pudo guardar la nota. Inténtalo de nuevo.',
+    removeItemFailed: 'No se pudo quitar el plato. Inténtalo de nuevo.',
+    addItemFailed: 'No se pudo añadir el plato. Inténtalo de nuevo.',
+    placeOrderFailed: 'No se pudo hacer el pedido. Inténtalo de nuevo.',
+    askForService: 'Pedir atención',
+    sent: 'enviado',
+    aStaffMember: 'Un miembro del personal',
+    staffOnTheWay: '{name} va de camino ({request}).',
+    serviceRequestSent: 'Solicitud enviada: {request}. Nuestro personal te atenderá enseguida.',
+    'serviceRequest.CALL_WAITER': 'Llamar al camarero',
+    'serviceRequest.REQUEST_BILL': 'Pedir la cuenta',
+    'serviceRequest.WATER_CUTLERY': 'Agua/cubiertos',
+    howWasYourMeal: '¿Qué tal tu comida?',
+    overallExperience: 'Tu experiencia general',
+    overallRating: 'Valoración general',
+    rateEachDish: 'Valora cada plato (opcional)',
+    ratingFor: 'Valoración de {name}',
+    feedbackComment: '¿Hay algo que quieras contarnos? (opcional)',
+    sendFeedback: 'Enviar opinión',
+    rateOverallRequired: 'Valora tu experiencia general',
+    feedbackFailed: 'No se pudo enviar tu opinión. Inténtalo de nuevo.',
+    accountOrders: 'Tus pedidos',
+    orderAgainFaster: 'Vuelve a pedir más rápido',
+    signedInAs: 'Sesión iniciada como {phone}',
+    signInPrompt: 'Inicia sesión con tu teléfono para guardar tu historial de pedidos y tus favoritos',
+    phoneNumber: 'Número de teléfono',
+    phonePlaceholder: 'p. ej. 98765 43210',
+    sendCode: 'Enviar código',
+    signInOptional: 'Iniciar sesión es opcional. Puedes pedir sin hacerlo.',
+    codeSentTo: 'Introduce el código enviado a {phone}',
+    verifyAndSignIn: 'Verificar e iniciar sesión',
+    useDifferentNumber: 'Usar otro número',
+    addLastOrder: 'Añadir mi último pedido al carrito',
+    noOrderHistory: 'Aquí aparecerán los pedidos que hagas con la sesión iniciada.',
+    orderAgain: 'Volver a pedir',
+    signOut: 'Cerrar sesión',
+    addedOneItem: 'Se añadió {count} plato a tu carrito.',
+    addedItems: 'Se añadieron {count} platos a tu carrito.',
+    nothingAdded: 'No se pudo añadir nada a tu carrito.',
+    addedLine: 'Añadido: {name}',
+    skippedLine: 'Omitido {name}: {reason}',
+    invalidPhone: 'Introduce un número de teléfono válido',
+    sendCodeFailed: 'No se pudo enviar el código. Inténtalo de nuevo.',
+    enterCode: 'Introduce el código de {length} dígitos',
+    codeRejected: 'Ese código no es válido. Compruébalo e inténtalo de nuevo.',
+    reorderFailed: 'No se pudo añadir el pedido a tu carrito. Inténtalo de nuevo.',
+    'reorderSkip.notOnMenu': 'no está en este menú ahora',
+    'reorderSkip.unavailable': 'no disponible ahora',
+    'reorderSkip.variantUnavailable': '{detail} ya no se ofrece',
+    'reorderSkip.optionUnavailable': '{detail} no está disponible',
+    'reorderSkip.comboChoiceUnavailable': 'la opción del combo {detail} no está disponible',
+    'reorderSkip.notAdded': 'no se pudo añadir, inténtalo de nuevo',
+    noTableInfo: 'No se encontró información de la mesa. Escanea un código QR válido.',
+    noMenuForTable: 'No hay ningún menú disponible para esta mesa. Pide ayuda a nuestro personal.',
+    menuLoadFailed: 'No se pudo cargar el menú. Inténtalo de nuevo o pide ayuda.',
+    qrCodeInvalid: 'Este código QR ya no es válido. Pide ayuda a nuestro personal.',
+    'filter.VEGETARIAN': 'Vegetariano',
+    'filter.VEGAN': 'Vegano',
+    'filter.JAIN': 'Jain',
+    'filter.GLUTEN_FREE': 'Sin gluten',
+    'filter.NUT_FREE': 'Sin frutos secos',
+    'diet.VEGETARIAN': 'Vegetariano',
+    'diet.VEGAN': 'Vegano',
+    'diet.JAIN': 'Jain',
+    'allergen.GLUTEN': 'Gluten',
+    'allergen.PEANUTS': 'Cacahuetes',
+    'allergen.TREE_NUTS': 'Frutos secos',
+    'allergen.DAIRY': 'Lácteos',
+    'allergen.EGGS': 'Huevos',
+    'allergen.SOY': 'Soja',
+    'allergen.FISH': 'Pescado',
+    'allergen.SHELLFISH': 'Marisco',
+    'allergen.SESAME': 'Sésamo',
+    'allergen.MUSTARD': 'Mostaza',
+  },
+  fr: {
+    loadingMenu: 'Chargement du menu...',
+    menuUnavailable: 'Menu indisponible',
+    goBack: 'Retour',
+    askStaff: "Ou demandez de l'aide à notre personnel",
+    language: 'Langue',
+    menu: 'Menu',
+    orders: 'Commandes',
+    info: 'Infos',
+    searchMenu: 'Rechercher dans le menu...',
+    all: 'Tout',
+    other: 'Autres',
+    allergies: 'Allergies',
+    hideItemsContaining: 'Masquer les plats contenant…',
+    allergenPreferenceNote:
+      "Enregistré sur cet appareil. Les plats sans information sur les allergènes restent affichés ; renseignez-vous auprès de notre personnel.",
+    hiddenByAllergies: 'Masqués à cause de vos allergies : {count}',
+    noItemsFound: 'Aucun plat trouvé',
+    adjustFilters: 'Essayez de modifier votre recherche ou vos filtres',
+    unavailable: 'Indisponible',
+    preparationTime: 'Temps de préparation : {minutes} min',
+    customisable: 'Personnalisable',
+    combo: 'Formule',
+    contains: 'Contient :',
+    allergenInfoMissing:
+      'Informations sur les allergènes indisponibles. Renseignez-vous auprès de notre personnel.',
+    yourOrders: 'Vos commandes',
+    trackOrders: 'Suivez vos commandes en temps réel',
+    noActiveOrders: 'Aucune commande en cours',
+    ordersAppearHere: 'Vos commandes apparaîtront ici une fois passées',
+    order: 'Commande n°{id}',
+    orderReceived: 'Commande reçue',
+    preparingYourOrder: 'Commande en préparation',
+    readyForPickup: 'Prête à être retirée',
+    orderDelivered: 'Commande servie',
+    orderCompleted: 'Commande terminée',
+    stepReceived: 'Reçue',
+    stepPreparing: 'En préparation',
+    stepReady: 'Prête',
+    stepDelivered: 'Servie',
+    pendingMessage: 'Votre commande a été reçue et sera bientôt préparée.',
+    preparingMessage: 'Nos chefs préparent votre repas en ce moment.',
+    readyMessage: 'Votre commande est prête ! Venez la retirer au comptoir.',
+    deliveredMessage: 'Votre commande a été servie. Bon appétit !',
+    estimatedReady: 'Prête vers {time} (environ {minutes} min)',
+    ordersAhead: 'Commandes avant la vôtre en cuisine : {count}',
+    justNow: "À l'instant",
+    minutesAgo: 'il y a {count} min',
+    hoursAgo: 'il y a {count} h',
+    orderItems: 'Plats commandés',
+    total: 'Total',
+    restaurantInformation: 'Informations sur le restaurant',
+    table: 'Table',
+    tableNumber: 'Table n°{number}',
+    location: 'Emplacement : {location}',
+    hours: 'Horaires',
+    openingHours: "Horaires d'ouverture",
+    contact: 'Contact',
+    phone: 'Téléphone',
+    email: 'E-mail',
+    ourLocation: 'Notre adresse',
+    callUs: 'Appelez-nous',
+    kitchenClosesIn: 'La cuisine ferme dans {minutes} min',
+    kitchenClosed: 'La cuisine est fermée pour le moment',
+    opensAt: 'Ouvre {time}',
+    availableFrom: 'Disponible à partir de {time}',
+    sessionClosed: 'Votre addition est réglée. Merci de votre visite !',
+    favourites: 'Favoris',
+    rateYourMeal: 'Comment était votre repas ? Notez la commande n° {orderId}',
+    ratingCount: '({count} avis)',
+    feedbackThanks: 'Merci pour votre avis !',
+    cartUpdateFailed: 'Votre panier n’a pas pu être mis à jour. Veuillez réessayer.',
+    pleaseChooseOne: 'Veuillez en choisir un',
+    pleaseChooseAtLeast: 'Veuillez en choisir au moins {min}',
+    chooseUpTo: 'Choisissez-en jusqu’à {max}',
+    required: 'Obligatoire',
+    optional: 'Facultatif',
+    upTo: 'jusqu’à {max}',
+    optionUnavailable: '(indisponible)',
+    specialInstructions: 'Instructions particulières',
+    specialInstructionsPlaceholder: 'ex. Sans oignons, moins épicé',
+    adding: 'Ajout...',
+    addToOrderFor: 'Ajouter à la commande · {price}',
+    addToOrderFailed: 'Impossible d’ajouter ceci à votre commande. Veuillez réessayer.',
+    chooseOne: 'Choisissez-en un',
+    included: 'Inclus',
+    minutes: '{minutes} min',
+    addVariant: 'Ajouter {variant}',
+    addToCart: 'Ajouter au panier',
+    itemUnavailableNow: 'Ce plat n’est pas disponible pour le moment.',
+    goesWellWith: 'Se marie bien avec',
+    addItem: 'Ajouter {name}',
+    added: 'Ajouté',
+    yourOrder: 'Votre commande',
+    save: 'Enregistrer',
+    orderingAs: 'Commande au nom de',
+    change: 'Modifier',
+    cartEmpty: 'Votre panier est vide',
+    cartEmptyHint: 'Ajoutez quelques délicieux plats du menu pour passer commande.',
+    orderPlaced: 'Commande passée avec succès !',
+    orderPlacedHint: 'Votre commande a été reçue et est en préparation.',
+    addedByYou: 'Ajouté par vous',
+    addedBy: 'Ajouté par {name}',
+    priceEach: '{price} l’unité',
+    notePlaceholder: 'ex. Sans oignons',
+    addNote: 'Ajouter une note',
+    subtotal: 'Sous-total',
+    placingOrderFor: '{name} passe la commande pour votre table...',
+    processing: 'Traitement...',
+    placeOrder: 'Commander',
+    orderPlacedBy: '{name} a passé la commande n° {id} pour la table.',
+    cartChangedByOthers: 'Quelqu’un d’autre à votre table a modifié le panier. Veuillez le vérifier et réessayer.',
+    loadCartFailed: 'Impossible de charger le panier. Veuillez réessayer.',
+    updateQuantityFailed: 'Impossible de modifier la quantité. Veuillez réessayer.',
+    saveNoteFailed: 'Impossible d’enregistrer la note. Veuillez réessayer.',
+    removeItemFailed: 'Impossible de retirer le plat. Veuillez réessayer.',
+    addItemFailed: 'Impossible d’ajouter le plat. Veuillez réessayer.',
+    placeOrderFailed: 'Impossible de passer la commande. Veuillez réessayer.',
+    askForService: 'Demander le service',
+    sent: 'envoyé',
+    aStaffMember: 'Un membre du personnel',
+    staffOnTheWay: '{name} arrive ({request}).',
+    serviceRequestSent: 'Demande envoyée : {request}. Notre personnel arrive dans un instant.',
+    'serviceRequest.CALL_WAITER': 'Appeler un serveur',
+    'serviceRequest.REQUEST_BILL': 'Demander l’addition',
+    'serviceRequest.WATER_CUTLERY': 'Eau/couverts',
+    howWasYourMeal: 'Comment était votre repas ?',
+    overallExperience: 'Votre expérience globale',
+    overallRating: 'Note globale',
+    rateEachDish: 'Notez chaque plat (facultatif)',
+    ratingFor: 'Note pour {name}',
+    feedbackComment: 'Souhaitez-vous nous dire quelque chose ? (facultatif)',
+    sendFeedback: 'Envoyer mon avis',
+    rateOverallRequired: 'Veuillez noter votre expérience globale',
+    feedbackFailed: 'Impossible d’envoyer votre avis. Veuillez réessayer.',
+    accountOrders: 'Vos commandes',
+    orderAgainFaster: 'Recommandez plus vite',
+    signedInAs: 'Connecté avec le {phone}',
+    signInPrompt: 'Connectez-vous avec votre téléphone pour garder votre historique de commandes et vos favoris',
+    phoneNumber: 'Numéro de téléphone',
+    phonePlaceholder: 'ex. 98765 43210',
+    sendCode: 'Envoyer le code',
+    signInOptional: 'La connexion est facultative. Vous pouvez commander sans.',
+    codeSentTo: 'Saisissez le code envoyé au {phone}',
+    verifyAndSignIn: 'Vérifier et se connecter',
+    useDifferentNumber: 'Utiliser un autre numéro',
+    addLastOrder: 'Ajouter ma dernière commande au panier',
+    noOrderHistory: 'Les commandes passées en étant connecté apparaîtront ici.',
+    orderAgain: 'Commander à nouveau',
+    signOut: 'Se déconnecter',
+    addedOneItem: '{count} article ajouté à votre panier.',
+    addedItems: '{count} articles ajoutés à votre panier.',
+    nothingAdded: 'Rien n’a pu être ajouté à votre panier.',
+    addedLine: 'Ajouté : {name}',
+    skippedLine: '{name} ignoré : {reason}',
+    invalidPhone: 'Veuillez saisir un numéro de téléphone valide',
+    sendCodeFailed: 'Impossible d’envoyer le code. Veuillez réessayer.',
+    enterCode: 'Veuillez saisir le code à {length} chiffres',
+    codeRejected: 'Ce code n’a pas fonctionné. Veuillez le vérifier et réessayer.',
+    reorderFailed: 'Impossible d’ajouter la commande à votre panier. Veuillez réessayer.',
+    'reorderSkip.notOnMenu': 'ne figure pas sur ce menu pour le moment',
+    'reorderSkip.unavailable': 'indisponible pour le moment',
+    'reorderSkip.variantUnavailable': '{detail} n’est plus proposé',
+    'reorderSkip.optionUnavailable': '{detail} est indisponible',
+    'reorderSkip.comboChoiceUnavailable': 'le choix de menu {detail} est indisponible',
+    'reorderSkip.notAdded': 'n’a pas pu être ajouté, veuillez réessayer',
+    noTableInfo: 'Aucune information de table trouvée. Veuillez scanner un QR code valide.',
+    noMenuForTable: 'Aucun menu n’est disponible pour cette table. Veuillez demander de l’aide à notre personnel.',
+    menuLoadFailed: 'Impossible de charger le menu. Veuillez réessayer ou demander de l’aide.',
+    qrCodeInvalid: 'Ce QR code n’est plus valide. Veuillez demander de l’aide à notre personnel.',
+    'filter.VEGETARIAN': 'Végétarien',
+    'filter.VEGAN': 'Végan',
+    'filter.JAIN': 'Jaïn',
+    'filter.GLUTEN_FREE': 'Sans gluten',
+    'filter.NUT_FREE': 'Sans fruits à coque',
+    'diet.VEGETARIAN': 'Végétarien',
+    'diet.VEGAN': 'Végan',
+    'diet.JAIN': 'Jaïn',
+    'allergen.GLUTEN': 'Gluten',
+    'allergen.PEANUTS': 'Arachides',
+    'allergen.TREE_NUTS': 'Fruits à coque',
+    'allergen.DAIRY': 'Lait',
+    'allergen.EGGS': 'Œufs',
+    'allergen.SOY': 'Soja',
+    'allergen.FISH': 'Poisson',
+    'allergen.SHELLFISH': 'Crustacés',
+    'allergen.SESAME': 'Sésame',
+    'allergen.MUSTARD': 'Moutarde',
+  },
+  de: {
+    loadingMenu: 'Speisekarte wird geladen...',
+    menuUnavailable: 'Speisekarte nicht verfügbar',
+    goBack: 'Zurück',
+    askStaff: 'Oder fragen Sie unser Personal',
+    language: 'Sprache',
+    menu: 'Speisekarte',
+    orders: 'Bestellungen',
+    info: 'Info',
+    searchMenu: 'Speisekarte durchsuchen...',
+    all: 'Alle',
+    other: 'Sonstiges',
+    allergies: 'Allergien',
+    hideItemsContaining: 'Gerichte ausblenden mit…',
+    allergenPreferenceNote:
+      'Auf diesem Gerät gespeichert. Gerichte ohne Allergenangaben werden weiterhin angezeigt; bitte fragen Sie unser Personal.',
+    hiddenByAllergies: 'Wegen Ihrer Allergien ausgeblendet: {count}',
+    noItemsFound: 'Keine Gerichte gefunden',
+    adjustFilters: 'Passen Sie Ihre Suche oder Filter an',
+    unavailable: 'Nicht verfügbar',
+    preparationTime: 'Zubereitungszeit: {minutes} Min.',
+    customisable: 'Anpassbar',
+    combo: 'Menü',
+    contains: 'Enthält:',
+    allergenInfoMissing: 'Keine Allergenangaben verfügbar. Bitte fragen Sie unser Personal.',
+    yourOrders: 'Ihre Bestellungen',
+    trackOrders: 'Verfolgen Sie Ihre Bestellungen in Echtzeit',
+    noActiveOrders: 'Keine aktiven Bestellungen',
+    ordersAppearHere: 'Ihre Bestellungen erscheinen hier, sobald Sie bestellt haben',
+    order: 'Bestellung #{id}',
+    orderReceived: 'Bestellung eingegangen',
+    preparingYourOrder: 'Ihre Bestellung wird zubereitet',
+    readyForPickup: 'Abholbereit',
+    orderDelivered: 'Bestellung serviert',
+    orderCompleted: 'Bestellung abgeschlossen',
+    stepReceived: 'Eingegangen',
+    stepPreparing: 'In Zubereitung',
+    stepReady: 'Fertig',
+    stepDelivered: 'Serviert',
+    pendingMessage: 'Ihre Bestellung ist eingegangen und wird bald zubereitet.',
+    preparingMessage: 'Unsere Köche bereiten gerade Ihr Essen zu.',
+    readyMessage: 'Ihre Bestellung ist fertig! Bitte holen Sie sie an der Theke ab.',
+    deliveredMessage: 'Ihre Bestellung wurde serviert. Guten Appetit!',
+    estimatedReady: 'Voraussichtlich fertig um {time} (ca. {minutes} Min.)',
+    ordersAhead: 'Bestellungen vor Ihrer in der Küche: {count}',
+    justNow: 'Gerade eben',
+    minutesAgo: 'vor {count} Min.',
+    hoursAgo: 'vor {count} Std.',
+    orderItems: 'Bestellte Gerichte',
+    total: 'Gesamt',
+    restaurantInformation: 'Restaurantinformationen',
+    table: 'Tisch',
+    tableNumber: 'Tisch #{number}',
+    location: 'Ort: {location}',
+    hours: 'Öffnungszeiten',
+    openingHours: 'Öffnungszeiten',
+    contact: 'Kontakt',
+    phone: 'Telefon',
+    email: 'E-Mail',
+    ourLocation: 'Unsere Adresse',
+    callUs: 'Rufen Sie uns an',
+    kitchenClosesIn: 'Die Küche schließt in {minutes} Min.',
+    kitchenClosed: 'Die Küche ist gerade geschlossen',
+    opensAt: 'Öffnet {time}',
+    availableFrom: 'Verfügbar ab {time}',
+    sessionClosed: 'Ihre Rechnung ist beglichen. Danke für Ihren Besuch!',
+    favourites: 'Favoriten',
+    rateYourMeal: 'Wie hat es geschmeckt? Bewerten Sie Bestellung #{orderId}',
+    ratingCount: '({count} Bewertungen)',
+    feedbackThanks: 'Vielen Dank für Ihr Feedback!',
+    cartUpdateFailed: 'Ihr Warenkorb konnte nicht aktualisiert werden. Bitte versuchen Sie es erneut.',
+    pleaseChooseOne: 'Bitte wählen Sie eine Option',
+    pleaseChooseAtLeast: 'Bitte wählen Sie mindestens {min}',
+    chooseUpTo: 'Wählen Sie bis zu {max}',
+    required: 'Pflicht',
+    optional: 'Optional',
+    upTo: 'bis zu {max}',
+    optionUnavailable: '(nicht verfügbar)',
+    specialInstructions: 'Besondere Wünsche',
+    specialInstructionsPlaceholder: 'z. B. Ohne Zwiebeln, weniger scharf',
+    adding: 'Wird hinzugefügt...',
+    addToOrderFor: 'Zur Bestellung hinzufügen · {price}',
+    addToOrderFailed: 'Das konnte nicht zu Ihrer Bestellung hinzugefügt werden. Bitte versuchen Sie es erneut.',
+    chooseOne: 'Eine Option wählen',
+    included: 'Inklusive',
+    minutes: '{minutes} Min.',
+    addVariant: '{variant} hinzufügen',
+    addToCart: 'In den Warenkorb',
+    itemUnavailableNow: 'Dieses Gericht ist gerade nicht verfügbar.',
+    goesWellWith: 'Passt gut dazu',
+    addItem: '{name} hinzufügen',
+    added: 'Hinzugefügt',
+    yourOrder: 'Ihre Bestellung',
+    save: 'Speichern',
+    orderingAs: 'Bestellung als',
+    change: 'Ändern',
+    cartEmpty: 'Ihr Warenkorb ist leer',
+    cartEmptyHint: 'Fügen Sie leckere Gerichte aus der Speisekarte hinzu, um zu bestellen.',
+    orderPlaced: 'Bestellung erfolgreich aufgegeben!',
+    orderPlacedHint: 'Ihre Bestellung ist eingegangen und wird zubereitet.',
+    addedByYou: 'Von Ihnen hinzugefügt',
+    addedBy: 'Von {name} hinzugefügt',
+    priceEach: '{price} pro Stück',
+    notePlaceholder: 'z. B. Ohne Zwiebeln',
+    addNote: 'Notiz hinzufügen',
+    subtotal: 'Zwischensumme',
+    placingOrderFor: '{name} gibt die Bestellung für Ihren Tisch auf...',
+    processing: 'Wird verarbeitet...',
+    placeOrder: 'Bestellen',
+    orderPlacedBy: '{name} hat Bestellung #{id} für den Tisch aufgegeben.',
+    cartChangedByOthers: 'Jemand anderes an Ihrem Tisch hat den Warenkorb geändert. Bitte prüfen Sie ihn und versuchen Sie es erneut.',
+    loadCartFailed: 'Der Warenkorb konnte nicht geladen werden. Bitte versuchen Sie es erneut.',
+    updateQuantityFailed: 'Die Menge konnte nicht geändert werden. Bitte versuchen Sie es erneut.',
+    saveNoteFailed: 'Die Notiz konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.',
+    removeItemFailed: 'Das Gericht konnte nicht entfernt werden. Bitte versuchen Sie es erneut.',
+    addItemFailed: 'Das Gericht konnte nicht hinzugefügt werden. Bitte versuchen Sie es erneut.',
+    placeOrderFailed: 'Die Bestellung konnte nicht aufgegeben werden. Bitte versuchen Sie es erneut.',
+    askForService: 'Service rufen',
+    sent: 'gesendet',
+    aStaffMember: 'Ein Mitarbeiter',
+    staffOnTheWay: '{name} ist unterwegs ({request}).',
+    serviceRequestSent: 'Anfrage gesendet: {request}. Unser Personal ist gleich bei Ihnen.',
+    'serviceRequest.CALL_WAITER': 'Kellner rufen',
+    'serviceRequest.REQUEST_BILL': 'Rechnung anfordern',
+    'serviceRequest.WATER_CUTLERY': 'Wasser/Besteck',
+    howWasYourMeal: 'Wie war Ihr Essen?',
+    overallExperience: 'Ihr Gesamteindruck',
+    overallRating: 'Gesamtbewertung',
+    rateEachDish: 'Jedes Gericht bewerten (optional)',
+    ratingFor: 'Bewertung für {name}',
+    feedbackComment: 'Möchten Sie uns noch etwas mitteilen? (optional)',
+    sendFeedback: 'Feedback senden',
+    rateOverallRequired: 'Bitte bewerten Sie Ihren Gesamteindruck',
+    feedbackFailed: 'Ihr Feedback konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    accountOrders: 'Ihre Bestellungen',
+    orderAgainFaster: 'Schneller erneut bestellen',
+    signedInAs: 'Angemeldet als {phone}',
+    signInPrompt: 'Melden Sie sich mit Ihrer Telefonnummer an, um Ihren Bestellverlauf und Ihre Favoriten zu behalten',
+    phoneNumber: 'Telefonnummer',
+    phonePlaceholder: 'z. B. 98765 43210',
+    sendCode: 'Code senden',
+    signInOptional: 'Die Anmeldung ist optional. Sie können auch ohne bestellen.',
+    codeSentTo: 'Geben Sie den an {phone} gesendeten Code ein',
+    verifyAndSignIn: 'Bestätigen und anmelden',
+    useDifferentNumber: 'Andere Nummer verwenden',
+    addLastOrder: 'Meine letzte Bestellung in den Warenkorb',
+    noOrderHistory: 'Bestellungen, die Sie angemeldet aufgeben, erscheinen hier.',
+    orderAgain: 'Erneut bestellen',
+    signOut: 'Abmelden',
+    addedOneItem: '{count} Artikel zu Ihrem Warenkorb hinzugefügt.',
+    addedItems: '{count} Artikel zu Ihrem Warenkorb hinzugefügt.',
+    nothingAdded: 'Es konnte nichts zu Ihrem Warenkorb hinzugefügt werden.',
+    addedLine: '{name} hinzugefügt',
+    skippedLine: '{name} übersprungen: {reason}',
+    invalidPhone: 'Bitte geben Sie eine gültige Telefonnummer ein',
+    sendCodeFailed: 'Der Code konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    enterCode: 'Bitte geben Sie den {length}-stelligen Code ein',
+    codeRejected: 'Dieser Code hat nicht funktioniert. Bitte prüfen Sie ihn und versuchen Sie es erneut.',
+    reorderFailed: 'Die Bestellung konnte nicht in Ihren Warenkorb gelegt werden. Bitte versuchen Sie es erneut.',
+    'reorderSkip.notOnMenu': 'gerade nicht auf dieser Speisekarte',
+    'reorderSkip.unavailable': 'gerade nicht verfügbar',
+    'reorderSkip.variantUnavailable': '{detail} wird nicht mehr angeboten',
+    'reorderSkip.optionUnavailable': '{detail} ist nicht verfügbar',
+    'reorderSkip.comboChoiceUnavailable': 'Menüauswahl {detail} ist nicht verfügbar',
+    'reorderSkip.notAdded': 'konnte nicht hinzugefügt werden, bitte versuchen Sie es erneut',
+    noTableInfo: 'Keine Tischinformationen gefunden. Bitte scannen Sie einen gültigen QR-Code.',
+    noMenuForTable: 'Für diesen Tisch ist gerade keine Speisekarte verfügbar. Bitte wenden Sie sich an unser Personal.',
+    menuLoadFailed: 'Die Speisekarte konnte nicht geladen werden. Bitte versuchen Sie es erneut oder fragen Sie nach Hilfe.',
+    qrCodeInvalid: 'Dieser QR-Code ist nicht mehr gültig. Bitte wenden Sie sich an unser Personal.',
+    'filter.VEGETARIAN': 'Vegetarisch',
+    'filter.VEGAN': 'Vegan',
+    'filter.JAIN': 'Jain',
+    'filter.GLUTEN_FREE': 'Glutenfrei',
+    'filter.NUT_FREE': 'Nussfrei',
+    'diet.VEGETARIAN': 'Vegetarisch',
+    'diet.VEGAN': 'Vegan',
+    'diet.JAIN': 'Jain',
+    'allergen.GLUTEN': 'Gluten',
+    'allergen.PEANUTS': 'Erdnüsse',
+    'allergen.TREE_NUTS': 'Schalenfrüchte',
+    'allergen.DAIRY': 'Milch',
+    'allergen.EGGS': 'Eier',
+    'allergen.SOY': 'Soja',
+    'allergen.FISH': 'Fisch',
+    'allergen.SHELLFISH': 'Krebstiere',
+    'allergen.SESAME': 'Sesam',
+    'allergen.MUSTARD': 'Senf',
+  },
+  zh: {
+    loadingMenu: '正在加载菜单...',
+    menuUnavailable: '菜单暂不可用',
+    goBack: '返回',
+    askStaff: '或请我们的员工协助',
+    language: '语言',
+    menu: '菜单',
+    orders: '订单',
+    info: '信息',
+    searchMenu: '搜索菜品...',
+    all: '全部',
+    other: '其他',
+    allergies: '过敏',
+    hideItemsContaining: '隐藏含有以下成分的菜品…',
+    allergenPreferenceNote: '已保存在此设备上。没有过敏原信息的菜品仍会显示，请向我们的员工确认。',
+    hiddenByAllergies: '因您的过敏而隐藏：{count}',
+    noItemsFound: '未找到菜品',
+    adjustFilters: '请尝试调整搜索或筛选条件',
+    unavailable: '暂不供应',
+    preparationTime: '制作时间：{minutes} 分钟',
+    customisable: '可定制',
+    combo: '套餐',
+    contains: '含有：',
+    allergenInfoMissing: '暂无过敏原信息，请向我们的员工咨询。',
+    yourOrders: '您的订单',
+    trackOrders: '实时查看订单状态',
+    noActiveOrders: '暂无进行中的订单',
+    ordersAppearHere: '下单后，您的订单会显示在这里',
+    order: '订单 #{id}',
+    orderReceived: '已接单',
+    preparingYourOrder: '正在制作',
+    readyForPickup: '可以取餐',
+    orderDelivered: '已上菜',
+    orderCompleted: '订单已完成',
+    stepReceived: '已接单',
+    stepPreparing: '制作中',
+    stepReady: '已完成',
+    stepDelivered: '已上菜',
+    pendingMessage: '我们已收到您的订单，将很快开始制作。',
+    preparingMessage: '我们的厨师正在为您制作美食。',
+    readyMessage: '您的订单已完成！请到柜台取餐。',
+    deliveredMessage: '您的订单已上菜，祝您用餐愉快！',
+    estimatedReady: '预计 {time} 完成（约 {minutes} 分钟）',
+    ordersAhead: '厨房中排在您前面的订单：{count}',
+    justNow: '刚刚',
+    minutesAgo: '{count} 分钟前',
+    hoursAgo: '{count} 小时前',
+    orderItems: '订单菜品',
+    total: '合计',
+    restaurantInformation: '餐厅信息',
+    table: '桌号',
+    tableNumber: '{number} 号桌',
+    location: '位置：{location}',
+    hours: '营业时间',
+    openingHours: '营业时间',
+    contact: '联系方式',
+    phone: '电话',
+    email: '电子邮件',
+    ourLocation: '我们的地址',
+    callUs: '致电我们',
+    kitchenClosesIn: '厨房将在 {minutes} 分钟后关闭',
+    kitchenClosed: '厨房目前已关闭',
+    opensAt: '{time} 开放',
+    availableFrom: '{time} 起供应',
+    sessionClosed: '您的账单已结清，感谢光临！',
+    favourites: '收藏',
+    rateYourMeal: '用餐体验如何？为订单 #{orderId} 评分',
+    ratingCount: '（{count} 条评分）',
+    feedbackThanks: '感谢您的反馈！',
+    cartUpdateFailed: '购物车更新失败，请重试。',
+    pleaseChooseOne: '请选择一项',
+    pleaseChooseAtLeast: '请至少选择 {min} 项',
+    chooseUpTo: '最多选择 {max} 项',
+    required: '必选',
+    optional: '可选',
+    upTo: '最多 {max} 项',
+    optionUnavailable: '（暂不可选）',
+    specialInstructions: '特殊要求',
+    specialInstructionsPlaceholder: '例如：不要洋葱，少辣',
+    adding: '正在添加...',
+    addToOrderFor: '加入订单 · {price}',
+    addToOrderFailed: '无法加入您的订单，请重试。',
+    chooseOne: '任选一项',
+    included: '已包含',
+    minutes: '{minutes} 分钟',
+    addVariant: '添加{variant}',
+    addToCart: '加入购物车',
+    itemUnavailableNow: '该菜品目前无法供应。',
+    goesWellWith: '搭配推荐',
+    addItem: '添加{name}',
+    added: '已添加',
+    yourOrder: '您的订单',
+    save: '保存',
+    orderingAs: '点餐人：',
+    change: '更改',
+    cartEmpty: '购物车是空的',
+    cartEmptyHint: '从菜单中添加一些美味菜品即可下单。',
+    orderPlaced: '下单成功！',
+    orderPlacedHint: '我们已收到您的订单，正在制作中。',
+    addedByYou: '由您添加',
+    addedBy: '由 {name} 添加',
+    priceEach: '每份 {price}',
+    notePlaceholder: '例如：不要洋葱',
+    addNote: '添加备注',
+    subtotal: '小计',
+    placingOrderFor: '{name} 正在为您这桌下单...',
+    processing: '处理中...',
+    placeOrder: '下单',
+    orderPlacedBy: '{name} 已为本桌下单，订单号 #{id}。',
+    cartChangedByOthers: '同桌的其他人修改了购物车，请查看后重试。',
+    loadCartFailed: '购物车加载失败，请重试。',
+    updateQuantityFailed: '数量更新失败，请重试。',
+    saveNoteFailed: '备注保存失败，请重试。',
+    removeItemFailed: '菜品删除失败，请重试。',
+    addItemFailed: '菜品添加失败，请重试。',
+    placeOrderFailed: '下单失败，请重试。',
+    askForService: '呼叫服务',
+    sent: '已发送',
+    aStaffMember: '服务员',
+    staffOnTheWay: '{name} 正在赶来（{request}）。',
+    serviceRequestSent: '已发送请求：{request}。我们的员工马上就到。',
+    'serviceRequest.CALL_WAITER': '呼叫服务员',
+    'serviceRequest.REQUEST_BILL': '结账',
+    'serviceRequest.WATER_CUTLERY': '需要水/餐具',
+    howWasYourMeal: '用餐体验如何？',
+    overallExperience: '您的整体体验',
+    overallRating: '整体评分',
+    rateEachDish: '为每道菜评分（可选）',
+    ratingFor: '为{name}评分',
+    feedbackComment: '还有什么想告诉我们的吗？（可选）',
+    sendFeedback: '提交反馈',
+    rateOverallRequired: '请为您的整体体验评分',
+    feedbackFailed: '反馈提交失败，请重试。',
+    accountOrders: '您的订单',
+    orderAgainFaster: '更快地再次点餐',
+    signedInAs: '已登录：{phone}',
+    signInPrompt: '使用手机号登录，即可保存订单记录和收藏',
+    phoneNumber: '手机号',
+    phonePlaceholder: '例如：98765 43210',
+    sendCode: '发送验证码',
+    signInOptional: '登录不是必须的，不登录也可以点餐。',
+    codeSentTo: '请输入发送到 {phone} 的验证码',
+    verifyAndSignIn: '验证并登录',
+    useDifferentNumber: '使用其他号码',
+    addLastOrder: '将上一笔订单加入购物车',
+    noOrderHistory: '登录后下的订单会显示在这里。',
+    orderAgain: '再来一单',
+    signOut: '退出登录',
+    addedOneItem: '已将 {count} 件菜品加入购物车。',
+    addedItems: '已将 {count} 件菜品加入购物车。',
+    nothingAdded: '没有任何菜品能加入购物车。',
+    addedLine: '已添加 {name}',
+    skippedLine: '已跳过 {name}：{reason}',
+    invalidPhone: '请输入有效的手机号',
+    sendCodeFailed: '验证码发送失败，请重试。',
+    enterCode: '请输入 {length} 位验证码',
+    codeRejected: '验证码无效，请检查后重试。',
+    reorderFailed: '无法将该订单加入购物车，请重试。',
+    'reorderSkip.notOnMenu': '当前菜单中没有',
+    'reorderSkip.unavailable': '目前无法供应',
+    'reorderSkip.variantUnavailable': '{detail} 已不再提供',
+    'reorderSkip.optionUnavailable': '{detail} 暂不可选',
+    'reorderSkip.comboChoiceUnavailable': '套餐选项 {detail} 暂不可选',
+    'reorderSkip.notAdded': '添加失败，请重试',
+    noTableInfo: '未找到桌位信息，请扫描有效的二维码。',
+    noMenuForTable: '此桌目前没有可用的菜单，请向员工寻求帮助。',
+    menuLoadFailed: '菜单加载失败，请重试或寻求帮助。',
+    qrCodeInvalid: '该二维码已失效，请向员工寻求帮助。',
+    'filter.VEGETARIAN': '素食',
+    'filter.VEGAN': '纯素',
+    'filter.JAIN': '耆那教素食',
+    'filter.GLUTEN_FREE': '无麸质',
+    'filter.NUT_FREE': '无坚果',
+    'diet.VEGETARIAN': '素食',
+    'diet.VEGAN': '纯素',
+    'diet.JAIN': '耆那教素食',
+    'allergen.GLUTEN': '麸质',
+    'allergen.PEANUTS': '花生',
+    'allergen.TREE_NUTS': '坚果',
+    'allergen.DAIRY': '乳制品',
+    'allergen.EGGS': '蛋类',
+    'allergen.SOY': '大豆',
+    'allergen.FISH': '鱼类',
+    'allergen.SHELLFISH': '甲壳类',
+    'allergen.SESAME': '芝麻',
+    'allergen.MUSTARD': '芥末',
+  },
+};
+
+/**
+ * Translates a piece of menu page copy
+ * @param language The language to show
+ * @param key The copy to translate
+ * @param params Values for {placeholders} in the copy
+ * @returns The translated copy, falling back to English
+ */
+export const translate = (
+  language: LanguageCode,
+  key: MenuStringKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const template = MENU_STRINGS[language][key] ?? MENU_STRINGS_EN[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
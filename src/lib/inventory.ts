@@ -0,0 +1,148 @@
+/**
+ * Helpers for ingredient stock and recipes.
+ * Every menu item can have a recipe listing how much of each stock item one
+ * portion uses. The server depletes stock as orders are placed, raises a
+ * low-stock alert at each stock item's threshold, and marks items out of stock
+ * while any ingredient in their recipe has run out.
+ * Deliveries add to stock, logged wastage takes from it, and stock-takes reset
+ * it to what was actually counted, recording the variance.
+ */
+
+import {
+  GoodsReceipt,
+  Recipe,
+  StockItem,
+  StockTakeLine,
+  StockUnit,
+  WastageReason,
+} from './api/inventory';
+
+export type StockStatus = 'ok' | 'low' | 'out';
+
+export const STOCK_UNIT_LABELS: Record<StockUnit, string> = {
+  g: 'Grams (g)',
+  kg: 'Kilograms (kg)',
+  ml: 'Millilitres (ml)',
+  l: 'Litres (l)',
+  pcs: 'Pieces (pcs)',
+};
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  ok: 'In stock',
+  low: 'Low',
+  out: 'Out of stock',
+};
+
+// Badge colours for each status
+export const STOCK_STATUS_STYLES: Record<StockStatus, string> = {
+  ok: 'border-green-500 text-green-700 bg-green-50',
+  low: 'border-amber-500 text-amber-700 bg-amber-50',
+  out: 'border-red-500 text-red-700 bg-red-50',
+};
+
+export const WASTAGE_REASON_LABELS: Record<WastageReason, string> = {
+  SPOILED: 'Spoiled',
+  DROPPED: 'Dropped',
+  STAFF_MEAL: 'Staff meal',
+  OTHER: 'Other',
+};
+
+// Variances within this share of theoretical stock are treated as counting noise
+export const VARIANCE_TOLERANCE_PERCENT = 5;
+
+/**
+ * Works out whether a stock item is running low
+ * @param stockItem The stock item
+ * @returns The status
+ */
+export const getStockStatus = (stockItem: StockItem): StockStatus => {
+  if (stockItem.onHand <= 0) return 'out';
+  if (stockItem.onHand <= stockItem.lowStockThreshold) return 'low';
+  return 'ok';
+};
+
+/**
+ * Formats a stock quantity with its unit
+ * @param quantity The quantity
+ * @param unit The unit
+ * @returns The quantity, e.g. "2.5 kg" or "12 pcs"
+ */
+export const formatStockQuantity = (quantity: number, unit: StockUnit): string =>
+  `${Number(quantity.toFixed(3))} ${unit}`;
+
+/**
+ * Lists the menu items whose recipes use a stock item
+ * @param stockItemId The stock item
+ * @param recipes Every recipe
+ * @returns The menu item ids
+ */
+export const getDependentItemIds = (stockItemId: number, recipes: Recipe[]): number[] =>
+  recipes
+    .filter((recipe) =>
+      recipe.ingredients.some((ingredient) => ingredient.stockItemId === stockItemId)
+    )
+    .map((recipe) => recipe.menuItemId);
+
+/**
+ * Checks a recipe before it is saved
+ * @param recipe The recipe
+ * @returns An error message, or null if the recipe is valid
+ */
+export const validateRecipe = (recipe: Recipe): string | null => {
+  const seen = new Set<number>();
+
+  for (const ingredient of recipe.ingredients) {
+    if (!ingredient.stockItemId) return 'Pick a stock item for every ingredient';
+    if (!(ingredient.quantity > 0)) return 'Every ingredient needs a quantity above zero';
+    if (seen.has(ingredient.stockItemId)) return 'Each stock item can only be listed once';
+    seen.add(ingredient.stockItemId);
+  }
+
+  return null;
+};
+
+/**
+ * Works out how far a count is from theoretical stock
+ * @param line The stock-take line
+ * @returns The difference (negative when stock is missing) and that as a
+ * percentage of theoretical stock, or null when nothing was expected
+ */
+export const getStockTakeVariance = (
+  line: Pick<StockTakeLine, 'theoreticalQuantity' | 'countedQuantity'>
+): { quantity: number; percent: number | null } => {
+  const quantity = line.countedQuantity - line.theoreticalQuantity;
+  return {
+    quantity,
+    percent: line.theoreticalQuantity > 0 ? (quantity / line.theoreticalQuantity) * 100 : null,
+  };
+};
+
+/**
+ * Checks whether a variance is bigger than counting noise
+ * @param line The stock-take line
+ * @returns Whether the count needs a second look
+ */
+export const isSignificantVariance = (
+  line: Pick<StockTakeLine, 'theoreticalQuantity' | 'countedQuantity'>
+): boolean => {
+  const { quantity, percent } = getStockTakeVariance(line);
+  if (quantity === 0) return false;
+  return percent === null || Math.abs(percent) > VARIANCE_TOLERANCE_PERCENT;
+};
+
+/**
+ * Formats a variance with its sign and unit
+ * @param quantity The variance
+ * @param unit The unit
+ * @returns The variance, e.g. "+0.5 kg" or "-3 pcs"
+ */
+export const formatVariance = (quantity: number, unit: StockUnit): string =>
+  `${quantity > 0 ? '+' : ''}${formatStockQuantity(quantity, unit)}`;
+
+/**
+ * Adds up the invoice value of a delivery
+ * @param receipt The goods receipt
+ * @returns The total cost of the lines that have one
+ */
+export const getReceiptTotal = (receipt: Pick<GoodsReceipt, 'lines'>): number =>
+  receipt.lines.reduce((total, line) => total + line.quantity * (line.unitCost || 0), 0);
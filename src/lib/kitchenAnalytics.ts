@@ -0,0 +1,231 @@
+/**
+ * Helpers for measuring how the kitchen actually performs.
+ * Each order line that was cooked gives one sample: the time from the order
+ * entering PREPARING to the line being ready. The line's own ready time is used
+ * when the server recorded one, then its station's bump, then the order going
+ * READY. A ticket that was recalled was first bumped by mistake, so it is
+ * measured to the order's last READY instead. Samples are compared with the
+ * configured preparation time to find dishes that run over, and their median
+ * suggests a better setting.
+ */
+
+import { StatusActor, WaiterOrder } from './api/orders';
+import { getStatusTimestamp } from './orderTracking';
+import { getStationStatus } from './stations';
+
+// Fewest samples needed before a new preparation time is suggested
+export const MIN_SAMPLES_FOR_SUGGESTION = 5;
+
+// Suggestions closer than this to the configured time are not worth making
+const SUGGESTION_THRESHOLD_MINUTES = 2;
+
+// One cooked order line
+export interface PrepSample {
+  orderId: number;
+  itemId: number;
+  itemName: string;
+  // Whether the line was a portion with its own preparation time
+  hasVariantTime: boolean;
+  stationId: number | null;
+  stationName: string | null;
+  // Who marked it ready, if the server recorded it
+  chef: StatusActor | null;
+  expectedMinutes: number | null;
+  actualMinutes: number;
+  readyAt: string;
+}
+
+export interface PrepSummary {
+  key: string;
+  name: string;
+  count: number;
+  medianMinutes: number;
+  averageMinutes: number;
+  // Samples that took longer than their configured preparation time
+  overCount: number;
+  overRate: number;
+}
+
+export interface ItemPrepSummary extends PrepSummary {
+  itemId: number;
+  configuredMinutes: number | null;
+  // Rounded median of the samples, when it differs enough from the configured time
+  suggestedMinutes: number | null;
+}
+
+export interface HourlyThroughput {
+  hour: number;
+  label: string;
+  // Lines made ready in this hour, averaged over the days in the period
+  lines: number;
+}
+
+/**
+ * Works out the middle value of a list
+ * @param values The values
+ * @returns The median, or 0 for an empty list
+ */
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Turns orders into one timing sample per cooked line
+ * @param orders Orders from the period being measured
+ * @returns The samples; lines that never reached the kitchen or were voided are left out
+ */
+export const getPrepSamples = (orders: WaiterOrder[]): PrepSample[] => {
+  const samples: PrepSample[] = [];
+
+  orders.forEach((order) => {
+    const preparingAt = getStatusTimestamp(order, 'PREPARING');
+    if (!preparingAt) return;
+    const readyChanges = (order.statusHistory || []).filter((change) => change.status === 'READY');
+    const orderReady = readyChanges[readyChanges.length - 1];
+    const wasRecalled = readyChanges.length > 1;
+
+    order.orderItems.forEach((item) => {
+      if (item.status === 'VOIDED') return;
+
+      const station = item.stationId ? getStationStatus(order, item.stationId) : undefined;
+      const readyAt = wasRecalled
+        ? orderReady.changedAt
+        : item.readyAt || station?.bumpedAt || orderReady?.changedAt;
+      if (!readyAt) return;
+
+      const actualMinutes =
+        (new Date(readyAt).getTime() - new Date(preparingAt).getTime()) / 60000;
+      if (actualMinutes < 0) return;
+
+      const expectedMinutes =
+        item.variant?.preparationTime || item.item?.preparationTime || null;
+
+      samples.push({
+        orderId: order.id,
+        itemId: item.itemId,
+        itemName: item.item?.name || `Item #${item.itemId}`,
+        hasVariantTime: !!item.variant?.preparationTime,
+        stationId: station?.stationId ?? null,
+        stationName: station?.stationName ?? null,
+        // The order's READY has no actor when the server derived it from stations or lines
+        chef: station?.bumpedBy || item.readyBy || orderReady?.changedBy || null,
+        expectedMinutes,
+        actualMinutes,
+        readyAt,
+      });
+    });
+  });
+
+  return samples;
+};
+
+/**
+ * Summarises samples in groups, e.g. per station or per chef
+ * @param samples The samples
+ * @param getGroup The group key and name of a sample, or null to leave it out
+ * @returns One summary per group, slowest median first
+ */
+export const summarizeSamples = (
+  samples: PrepSample[],
+  getGroup: (sample: PrepSample) => { key: string; name: string } | null
+): PrepSummary[] => {
+  const groups = new Map<string, { name: string; samples: PrepSample[] }>();
+
+  samples.forEach((sample) => {
+    const group = getGroup(sample);
+    if (!group) return;
+    const existing = groups.get(group.key);
+    if (existing) {
+      existing.samples.push(sample);
+    } else {
+      groups.set(group.key, { name: group.name, samples: [sample] });
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const minutes = group.samples.map((sample) => sample.actualMinutes);
+      const overCount = group.samples.filter(
+        (sample) => sample.expectedMinutes !== null && sample.actualMinutes > sample.expectedMinutes
+      ).length;
+      return {
+        key,
+        name: group.name,
+        count: group.samples.length,
+        medianMinutes: median(minutes),
+        averageMinutes: minutes.reduce((total, value) => total + value, 0) / minutes.length,
+        overCount,
+        overRate: overCount / group.samples.length,
+      };
+    })
+    .sort((a, b) => b.medianMinutes - a.medianMinutes);
+};
+
+/**
+ * Summarises samples per menu item and suggests new preparation times
+ * @param samples The samples
+ * @param preparationTimes Configured preparation time in minutes keyed by item id
+ * @returns One summary per item, most often late first
+ */
+export const getItemPrepSummaries = (
+  samples: PrepSample[],
+  preparationTimes: Record<number, number | undefined>
+): ItemPrepSummary[] =>
+  summarizeSamples(samples, (sample) => ({
+    key: sample.itemId.toString(),
+    name: sample.itemName,
+  }))
+    .map((summary) => {
+      const itemId = parseInt(summary.key, 10);
+      const configuredMinutes = preparationTimes[itemId] ?? null;
+
+      // Portions with their own preparation time say nothing about the item's
+      const itemSamples = samples
+        .filter((sample) => sample.itemId === itemId && !sample.hasVariantTime)
+        .map((sample) => sample.actualMinutes);
+      const suggested = Math.max(1, Math.round(median(itemSamples)));
+      const worthSuggesting =
+        itemSamples.length >= MIN_SAMPLES_FOR_SUGGESTION &&
+        (configuredMinutes === null ||
+          Math.abs(suggested - configuredMinutes) >= SUGGESTION_THRESHOLD_MINUTES);
+
+      return {
+        ...summary,
+        itemId,
+        configuredMinutes,
+        suggestedMinutes: worthSuggesting ? suggested : null,
+      };
+    })
+    .sort((a, b) => b.overRate - a.overRate || b.count - a.count);
+
+/**
+ * Counts lines made ready in each hour of the day
+ * @param samples The samples
+ * @param days Number of days the samples cover, to average over
+ * @returns One entry per hour that had any lines, earliest first
+ */
+export const getHourlyThroughput = (samples: PrepSample[], days: number): HourlyThroughput[] => {
+  const counts = new Map<number, number>();
+  samples.forEach((sample) => {
+    const hour = new Date(sample.readyAt).getHours();
+    counts.set(hour, (counts.get(hour) || 0) + 1);
+  });
+
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([hour, count]) => ({
+      hour,
+      label: `${hour.toString().padStart(2, '0')}:00`,
+      lines: Math.round((count / Math.max(days, 1)) * 10) / 10,
+    }));
+};
+
+/**
+ * Formats a duration in minutes for the analytics tables
+ * @param minutes The duration
+ * @returns e.g. "12.5 min"
+ */
+export const formatMinutes = (minutes: number): string => `${Number(minutes.toFixed(1))} min`;
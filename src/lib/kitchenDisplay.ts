@@ -0,0 +1,79 @@
+/**
+ * Helpers for the full-screen kitchen display driven by a bump bar.
+ * Bump bars and cheap numeric keypads only send a handful of keys, so every
+ * action on the display is reachable from digits, Enter, arrows and +/-.
+ * Tickets are tiled in a grid; digit keys pick a ticket on the current page.
+ */
+
+// Columns and rows of tickets shown on one page
+export interface DisplayGrid {
+  columns: number;
+  rows: number;
+}
+
+export type BumpBarAction = 'bump' | 'recall' | 'next-page' | 'previous-page' | 'exit';
+
+// Grid picked on this device, remembered between visits
+const GRID_KEY = 'kitchen-display-grid';
+
+// Pages never hold more than nine tickets so each one has a digit key
+export const GRID_OPTIONS: DisplayGrid[] = [
+  { columns: 2, rows: 2 },
+  { columns: 3, rows: 2 },
+  { columns: 4, rows: 2 },
+  { columns: 3, rows: 3 },
+];
+
+export const DEFAULT_GRID: DisplayGrid = { columns: 4, rows: 2 };
+
+// Keys for each action; keypads send "+" and "-", bump bars usually arrows
+const BUMP_BAR_KEYS: Record<BumpBarAction, string[]> = {
+  bump: ['Enter'],
+  recall: ['0', 'Insert', 'r', 'R'],
+  'next-page': ['ArrowRight', 'ArrowDown', 'PageDown', '+'],
+  'previous-page': ['ArrowLeft', 'ArrowUp', 'PageUp', '-'],
+  exit: ['Escape'],
+};
+
+/**
+ * Returns the grid picked on this device
+ * @returns The saved grid, or the default one
+ */
+export const getSavedGrid = (): DisplayGrid => {
+  const saved = localStorage.getItem(GRID_KEY);
+  const grid = GRID_OPTIONS.find((option) => formatGrid(option) === saved);
+  return grid || DEFAULT_GRID;
+};
+
+/**
+ * Remembers the grid picked on this device
+ * @param grid The grid
+ */
+export const saveGrid = (grid: DisplayGrid) => {
+  localStorage.setItem(GRID_KEY, formatGrid(grid));
+};
+
+/**
+ * Formats a grid for display and storage
+ * @param grid The grid
+ * @returns The grid, e.g. "4 x 2"
+ */
+export const formatGrid = (grid: DisplayGrid): string => `${grid.columns} x ${grid.rows}`;
+
+/**
+ * Works out what a key press does on the display
+ * @param key The key, as reported by KeyboardEvent.key
+ * @returns The action, or null if the key does nothing
+ */
+export const getBumpBarAction = (key: string): BumpBarAction | null => {
+  const entry = Object.entries(BUMP_BAR_KEYS).find(([, keys]) => keys.includes(key));
+  return entry ? (entry[0] as BumpBarAction) : null;
+};
+
+/**
+ * Finds which ticket on a page a digit key selects
+ * @param key The key, as reported by KeyboardEvent.key
+ * @returns The index on the page, or null if the key is not 1-9
+ */
+export const getTicketIndexForKey = (key: string): number | null =>
+  /^[1-9]$/.test(key) ? parseInt(key, 10) - 1 : null;
@@ -0,0 +1,118 @@
+/**
+ * Helpers for timing kitchen tickets against their preparation time.
+ * A ticket's clock starts when the order is placed and its target is the
+ * longest preparation time among its lines, since lines cook in parallel.
+ * Tickets are on time, at risk once most of the target has passed, or late.
+ */
+
+import { KitchenSettings } from './api/kitchen';
+import { WaiterOrder } from './api/orders';
+import { getOrderPreparationMinutes } from './orderTracking';
+
+export type SlaState = 'on-time' | 'at-risk' | 'late';
+
+// Used until the kitchen settings have loaded, or if they fail to
+export const DEFAULT_KITCHEN_SETTINGS: KitchenSettings = {
+  atRiskPercent: 75,
+  escalateAfterMinutes: 10,
+  escalationEnabled: true,
+};
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  'on-time': 'On time',
+  'at-risk': 'At risk',
+  late: 'Late',
+};
+
+// Badge colours for each state
+export const SLA_STATE_STYLES: Record<SlaState, string> = {
+  'on-time': 'border-green-500 text-green-700 bg-green-50',
+  'at-risk': 'border-amber-500 text-amber-700 bg-amber-100',
+  late: 'border-red-500 text-red-700 bg-red-50',
+};
+
+export interface TicketTiming {
+  elapsedMs: number;
+  targetMs: number;
+  state: SlaState;
+}
+
+/**
+ * Preparation time of a ticket, from the preparation times sent with its lines
+ * @param order The order
+ * @returns The preparation time in minutes
+ */
+export const getTicketPreparationMinutes = (order: WaiterOrder): number => {
+  const preparationTimes: Record<number, number> = {};
+  order.orderItems.forEach((orderItem) => {
+    if (orderItem.item?.preparationTime) {
+      preparationTimes[orderItem.itemId] = orderItem.item.preparationTime;
+    }
+  });
+  return getOrderPreparationMinutes(order, preparationTimes);
+};
+
+/**
+ * Works out how long a ticket has been open and whether it is running late
+ * @param order The order
+ * @param settings The kitchen settings
+ * @param now Current time in milliseconds
+ * @returns The elapsed and target times in milliseconds, and the state
+ */
+export const getTicketTiming = (
+  order: WaiterOrder,
+  settings: KitchenSettings,
+  now: number = Date.now()
+): TicketTiming => {
+  const elapsedMs = Math.max(0, now - new Date(order.createdAt).getTime());
+  const targetMs = getTicketPreparationMinutes(order) * 60 * 1000;
+
+  let state: SlaState = 'on-time';
+  if (elapsedMs > targetMs) {
+    state = 'late';
+  } else if (elapsedMs >= (targetMs * settings.atRiskPercent) / 100) {
+    state = 'at-risk';
+  }
+
+  return { elapsedMs, targetMs, state };
+};
+
+/**
+ * Formats a duration as a ticket timer
+ * @param ms The duration in milliseconds
+ * @returns The duration, e.g. "7:05" or "1:02:30"
+ */
+export const formatTimer = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+/**
+ * Sorts tickets so the latest ones come first; the rest stay oldest first
+ * @param orders The orders
+ * @param settings The kitchen settings
+ * @param now Current time in milliseconds
+ * @returns A sorted copy of the orders
+ */
+export const sortTicketsByUrgency = <T extends WaiterOrder>(
+  orders: T[],
+  settings: KitchenSettings,
+  now: number = Date.now()
+): T[] => {
+  const overdueMs = (order: T) => {
+    const timing = getTicketTiming(order, settings, now);
+    return timing.state === 'late' ? timing.elapsedMs - timing.targetMs : 0;
+  };
+
+  return [...orders].sort(
+    (a, b) =>
+      overdueMs(b) - overdueMs(a) ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
@@ -0,0 +1,85 @@
+/**
+ * Helpers for the status of individual order lines.
+ * Chefs move each line from queued to cooking to ready, and waiters serve lines
+ * as they become ready. The server derives the order's own status from its
+ * lines: voided lines are ignored, and the order is ready once every other
+ * line is ready or served.
+ */
+
+import { OrderItem, OrderItemStatus, WaiterOrder } from './api/orders';
+
+// Labels shown for each line status
+export const ITEM_STATUS_LABELS: Record<OrderItemStatus, string> = {
+  QUEUED: 'Queued',
+  COOKING: 'Cooking',
+  READY: 'Ready',
+  SERVED: 'Served',
+  VOIDED: 'Voided',
+};
+
+// Badge colours for each line status
+export const ITEM_STATUS_STYLES: Record<OrderItemStatus, string> = {
+  QUEUED: 'text-muted-foreground',
+  COOKING: 'border-amber-500 text-amber-700 bg-amber-50',
+  READY: 'border-green-500 text-green-700 bg-green-50',
+  SERVED: 'border-gray-400 text-gray-500',
+  VOIDED: 'border-red-300 text-red-500 line-through',
+};
+
+/**
+ * Works out the status of a line
+ * @param item The order line
+ * @param order The order, used for lines placed before per-line status existed
+ * @returns The line's status
+ */
+export const getItemStatus = (item: OrderItem, order?: WaiterOrder): OrderItemStatus => {
+  if (item.status) return item.status;
+
+  switch (order?.status) {
+    case 'READY':
+      return 'READY';
+    case 'DELIVERED':
+    case 'COMPLETED':
+      return 'SERVED';
+    case 'CANCELLED':
+      return 'VOIDED';
+    default:
+      return 'QUEUED';
+  }
+};
+
+/**
+ * Finds the status a chef moves a line to with one tap
+ * @param status The line's current status
+ * @returns The next status, or null if the kitchen is done with the line
+ */
+export const getNextKitchenStatus = (status: OrderItemStatus): OrderItemStatus | null => {
+  if (status === 'QUEUED') return 'COOKING';
+  if (status === 'COOKING') return 'READY';
+  return null;
+};
+
+/**
+ * Lists the lines of an order with a given status
+ * @param order The order
+ * @param status The status to look for
+ * @returns The matching lines
+ */
+export const getItemsWithStatus = (order: WaiterOrder, status: OrderItemStatus): OrderItem[] =>
+  order.orderItems.filter((item) => getItemStatus(item, order) === status);
+
+/**
+ * Counts the lines of an order that are ready or served, ignoring voided lines
+ * @param order The order
+ * @returns The number of lines done and the number of lines to prepare
+ */
+export const getItemProgress = (order: WaiterOrder): { done: number; total: number } => {
+  const statuses = order.orderItems
+    .map((item) => getItemStatus(item, order))
+    .filter((status) => status !== 'VOIDED');
+
+  return {
+    done: statuses.filter((status) => status === 'READY' || status === 'SERVED').length,
+    total: statuses.length,
+  };
+};
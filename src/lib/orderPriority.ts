@@ -0,0 +1,69 @@
+/**
+ * Helpers for priority and rush flags on orders.
+ * Waiters and admins can flag an order; the kitchen pins flagged tickets above
+ * the rest, rush first, and prints the flag at the top of the KOT. Tickets with
+ * the same flag keep the order they were already sorted in.
+ */
+
+import { OrderPriority, WaiterOrder } from './api/orders';
+import { escapeHtml } from './utils';
+
+// Flags in the order they are offered and pinned
+export const ORDER_PRIORITIES: OrderPriority[] = ['RUSH', 'VIP', 'ALLERGY', 'KIDS_FIRST'];
+
+export const PRIORITY_LABELS: Record<OrderPriority, string> = {
+  RUSH: 'Rush',
+  VIP: 'VIP',
+  ALLERGY: 'Allergy',
+  KIDS_FIRST: "Kid's meal first",
+};
+
+export const PRIORITY_DESCRIPTIONS: Record<OrderPriority, string> = {
+  RUSH: 'Cook this order as fast as possible',
+  VIP: 'Special guest; take extra care',
+  ALLERGY: 'Guest has an allergy; check every dish',
+  KIDS_FIRST: "Send the children's dishes out first",
+};
+
+// Badge colours for each flag
+export const PRIORITY_STYLES: Record<OrderPriority, string> = {
+  RUSH: 'border-red-600 bg-red-600 text-white',
+  VIP: 'border-purple-600 bg-purple-600 text-white',
+  ALLERGY: 'border-orange-500 bg-orange-500 text-white',
+  KIDS_FIRST: 'border-sky-500 bg-sky-500 text-white',
+};
+
+// Ticket card outline for each flag
+export const PRIORITY_CARD_STYLES: Record<OrderPriority, string> = {
+  RUSH: 'border-red-600 ring-4 ring-red-300',
+  VIP: 'border-purple-600 ring-4 ring-purple-200',
+  ALLERGY: 'border-orange-500 ring-4 ring-orange-200',
+  KIDS_FIRST: 'border-sky-500 ring-4 ring-sky-200',
+};
+
+/**
+ * Pins flagged orders above the rest, rush first
+ * @param orders The orders, already sorted
+ * @returns A sorted copy of the orders
+ */
+export const pinFlaggedOrders = <T extends WaiterOrder>(orders: T[]): T[] => {
+  const rank = (order: T) =>
+    order.priority ? ORDER_PRIORITIES.indexOf(order.priority) : ORDER_PRIORITIES.length;
+  return [...orders].sort((a, b) => rank(a) - rank(b));
+};
+
+/**
+ * Builds the banner printed at the top of a KOT for a flagged order
+ * @param order The order
+ * @returns The banner HTML, or an empty string if the order is not flagged
+ */
+export const getKotPriorityBanner = (order: WaiterOrder): string => {
+  if (!order.priority) return '';
+
+  const note = order.priorityNote
+    ? `<div style="font-size:12px; font-weight:normal; margin-top:2px;">${escapeHtml(order.priorityNote)}</div>`
+    : '';
+  return `<div style="border:3px solid #000; background:#000; color:#fff; text-align:center; font-size:18px; font-weight:bold; padding:6px 4px; margin-bottom:8px; text-transform:uppercase;">*** ${escapeHtml(
+    PRIORITY_LABELS[order.priority]
+  )} ***${note}</div>`;
+};
@@ -0,0 +1,136 @@
+/**
+ * Helpers for tracking an order's progress and estimating when it will be ready.
+ * Used by the guest order timeline on the QR menu.
+ */
+import { KitchenQueueEntry, OrderStatusChange, WaiterOrder } from './api/orders';
+
+// Prep time assumed for items whose preparation time is unknown
+const DEFAULT_PREPARATION_MINUTES = 15;
+
+// Extra minutes added for every order ahead of this one in the kitchen
+const MINUTES_PER_QUEUED_ORDER = 3;
+
+// Statuses shown on the guest timeline, in order
+export const TIMELINE_STATUSES: WaiterOrder['status'][] = [
+  'PENDING',
+  'PREPARING',
+  'READY',
+  'DELIVERED',
+];
+
+/**
+ * Merges the known status history of an order with a freshly received copy.
+ * Socket payloads may not carry the full history, so changes seen locally are kept.
+ * @param previous The order as currently displayed, if any
+ * @param updated The order received from the server
+ * @returns The combined status history, oldest first
+ */
+export const mergeStatusHistory = (
+  previous: WaiterOrder | undefined,
+  updated: WaiterOrder
+): OrderStatusChange[] => {
+  const history: OrderStatusChange[] = [
+    ...(previous?.statusHistory || []),
+    ...(updated.statusHistory || []),
+  ];
+
+  // Every order starts as PENDING when it is created
+  if (!history.some((change) => change.status === 'PENDING')) {
+    history.push({ status: 'PENDING', changedAt: updated.createdAt });
+  }
+
+  // Record the current status if the server did not include it
+  if (!history.some((change) => change.status === updated.status)) {
+    history.push({ status: updated.status, changedAt: updated.updatedAt || new Date().toISOString() });
+  }
+
+  // Keep the first time each status was reached
+  const firstByStatus = new Map<string, OrderStatusChange>();
+  history.forEach((change) => {
+    const existing = firstByStatus.get(change.status);
+    if (!existing || new Date(change.changedAt) < new Date(existing.changedAt)) {
+      firstByStatus.set(change.status, change);
+    }
+  });
+
+  return Array.from(firstByStatus.values()).sort(
+    (a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+  );
+};
+
+/**
+ * Finds when an order reached a status
+ * @param order The order
+ * @param status The status to look for
+ * @returns The timestamp, or undefined if the status has not been reached
+ */
+export const getStatusTimestamp = (
+  order: WaiterOrder,
+  status: WaiterOrder['status']
+): string | undefined => {
+  return order.statusHistory?.find((change) => change.status === status)?.changedAt;
+};
+
+/**
+ * Longest preparation time among the items of an order; items cook in parallel.
+ * A portion variant with its own preparation time takes precedence.
+ * @param order The order
+ * @param preparationTimes Preparation time in minutes keyed by item id
+ * @returns The preparation time in minutes
+ */
+export const getOrderPreparationMinutes = (
+  order: WaiterOrder,
+  preparationTimes: Record<number, number>
+): number => {
+  const times = order.orderItems.map(
+    (orderItem) =>
+      orderItem.variant?.preparationTime ||
+      preparationTimes[orderItem.itemId] ||
+      DEFAULT_PREPARATION_MINUTES
+  );
+  return times.length > 0 ? Math.max(...times) : DEFAULT_PREPARATION_MINUTES;
+};
+
+/**
+ * Counts the active orders that entered the kitchen queue before this one
+ * @param order The order
+ * @param queue The active kitchen queue
+ * @returns The number of orders ahead
+ */
+export const getOrdersAhead = (order: WaiterOrder, queue: KitchenQueueEntry[]): number => {
+  const createdAt = new Date(order.createdAt).getTime();
+  return queue.filter(
+    (entry) => entry.id !== order.id && new Date(entry.createdAt).getTime() < createdAt
+  ).length;
+};
+
+/**
+ * Estimates when an order will be ready
+ * @param order The order
+ * @param preparationTimes Preparation time in minutes keyed by item id
+ * @param queue The active kitchen queue
+ * @param now Current time in milliseconds
+ * @returns The estimated ready time, or null once the order is ready or closed
+ */
+export const estimateReadyTime = (
+  order: WaiterOrder,
+  preparationTimes: Record<number, number>,
+  queue: KitchenQueueEntry[],
+  now: number = Date.now()
+): Date | null => {
+  if (order.status !== 'PENDING' && order.status !== 'PREPARING') return null;
+
+  const preparationMinutes = getOrderPreparationMinutes(order, preparationTimes);
+  const ordersAhead = getOrdersAhead(order, queue);
+
+  let estimate: number;
+  if (order.status === 'PREPARING') {
+    const preparingAt = getStatusTimestamp(order, 'PREPARING') || order.updatedAt;
+    estimate = new Date(preparingAt).getTime() + preparationMinutes * 60 * 1000;
+  } else {
+    estimate = now + (preparationMinutes + ordersAhead * MINUTES_PER_QUEUED_ORDER) * 60 * 1000;
+  }
+
+  // Never promise a time in the past; the kitchen is simply running late
+  return new Date(Math.max(estimate, now + 60 * 1000));
+};
@@ -0,0 +1,86 @@
+/**
+ * One-time codes for signing returning guests in with their phone number.
+ * Sending and checking codes goes through a provider so the SMS gateway can be
+ * swapped. The default provider asks the server, which texts the code through
+ * whatever gateway it is configured with. For local development set
+ * VITE_OTP_PROVIDER=stub: no text is sent and the code is printed to the
+ * console. The stub only exists in development builds; production builds
+ * always go through a real provider.
+ */
+
+import { guestAccountsApi, OtpChallenge } from './api/guestAccounts';
+
+export interface OtpProvider {
+  // Sends a one-time code to the phone number
+  sendCode: (phone: string) => Promise<OtpChallenge>;
+  // Checks the code and returns a token proving the guest owns the number
+  verifyCode: (challenge: OtpChallenge, code: string) => Promise<string>;
+}
+
+// Code accepted by the stub provider
+export const STUB_OTP_CODE = '123456';
+
+// Length of the codes guests are asked to enter
+export const OTP_CODE_LENGTH = 6;
+
+const serverOtpProvider: OtpProvider = {
+  sendCode: (phone) => guestAccountsApi.requestOtp(phone),
+  verifyCode: async (challenge, code) => {
+    const { verificationToken } = await guestAccountsApi.verifyOtp(challenge.challengeId, code);
+    return verificationToken;
+  },
+};
+
+const stubOtpProvider: OtpProvider = {
+  sendCode: async (phone) => {
+    console.info(`[otp:stub] Code for ${phone} is ${STUB_OTP_CODE}`);
+    return {
+      challengeId: `stub-${Date.now()}`,
+      phone,
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+    };
+  },
+  verifyCode: async (challenge, code) => {
+    if (code !== STUB_OTP_CODE) {
+      throw new Error('Incorrect code');
+    }
+    return `stub:${challenge.phone}`;
+  },
+};
+
+const providers: Record<string, OtpProvider> = {
+  server: serverOtpProvider,
+  // Its tokens can be made by anyone, so never offer it outside development
+  ...(import.meta.env.DEV ? { stub: stubOtpProvider } : {}),
+};
+
+/**
+ * Makes a provider available under a name, e.g. to send codes through a different gateway
+ * @param name The name used in VITE_OTP_PROVIDER
+ * @param provider The provider
+ */
+export const registerOtpProvider = (name: string, provider: OtpProvider) => {
+  providers[name] = provider;
+};
+
+/**
+ * Returns the provider selected by VITE_OTP_PROVIDER, falling back to the server
+ * when it is not set or names a provider that is not available in this build
+ * @returns The OTP provider
+ */
+export const getOtpProvider = (): OtpProvider => {
+  const name = import.meta.env.VITE_OTP_PROVIDER || 'server';
+  return providers[name] || serverOtpProvider;
+};
+
+/**
+ * Cleans up a phone number typed by a guest
+ * @param phone The number as typed, e.g. "+91 98765-43210"
+ * @returns The number with only digits and a leading +, or null if it does not look like a phone number
+ */
+export const normalizePhone = (phone: string): string | null => {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 10 || digits.length > 15) return null;
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+};
@@ -0,0 +1,125 @@
+/**
+ * Helpers for adding a past order back to the cart.
+ * Each line is matched against the menu being shown now; lines that cannot be
+ * ordered as they were (the item, portion, option or combo choice is no longer
+ * available) are skipped with a reason the guest can read. Lines the kitchen
+ * voided from the original order are left out altogether.
+ */
+
+import { MenuItem } from './api/menuItems';
+import { OrderItem } from './api/orders';
+import { AddToCartOptions } from './api/cart';
+import { getItemVariants } from './utils';
+import { getSlotOptions } from './combos';
+import { BASE_LANGUAGE, getLocalizedName, LanguageCode, translate } from './i18n';
+
+export type ReorderSkipReason =
+  | 'notOnMenu'
+  | 'unavailable'
+  | 'variantUnavailable'
+  | 'optionUnavailable'
+  | 'comboChoiceUnavailable'
+  | 'notAdded';
+
+// A past order line that can be added to the cart again
+export interface ReorderLine {
+  item: MenuItem;
+  quantity: number;
+  options: AddToCartOptions;
+}
+
+// A past order line that was left out, and why
+export interface SkippedReorderLine {
+  name: string;
+  reason: ReorderSkipReason;
+  // The portion, option or combo choice that is no longer available
+  detail?: string;
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  skipped: SkippedReorderLine[];
+}
+
+/**
+ * Works out which lines of a past order can be added to the cart again
+ * @param orderItems The lines of the past order
+ * @param menuItems Items on the menu being shown, with availability for the current time
+ * @param language The language to name skipped lines in
+ * @returns The lines to add and the lines that were skipped
+ */
+export const planReorder = (
+  orderItems: OrderItem[],
+  menuItems: MenuItem[],
+  language: LanguageCode = BASE_LANGUAGE
+): ReorderPlan => {
+  const plan: ReorderPlan = { lines: [], skipped: [] };
+
+  orderItems.forEach((orderItem) => {
+    if (orderItem.status === 'VOIDED') return;
+
+    const item = menuItems.find((menuItem) => menuItem.id === orderItem.itemId);
+    const name = item
+      ? getLocalizedName(item, language)
+      : orderItem.item?.name || `Item #${orderItem.itemId}`;
+    const skip = (reason: ReorderSkipReason, detail?: string) => {
+      plan.skipped.push({ name, reason, detail });
+    };
+
+    if (!item) return skip('notOnMenu');
+    if (!item.isAvailable) return skip('unavailable');
+
+    const options: AddToCartOptions = {};
+
+    if (orderItem.variant) {
+      const variant = getItemVariants(item).find(
+        (candidate) => candidate.id === orderItem.variant?.variantId
+      );
+      if (!variant) return skip('variantUnavailable', orderItem.variant.name);
+      options.variantId = variant.id;
+    }
+
+    if (orderItem.modifiers && orderItem.modifiers.length > 0) {
+      const unavailable = orderItem.modifiers.find((modifier) => {
+        const option = item.modifierGroups
+          ?.find((group) => group.id === modifier.groupId)
+          ?.options.find((candidate) => candidate.id === modifier.optionId);
+        return !option || option.isAvailable === false;
+      });
+      if (unavailable) return skip('optionUnavailable', unavailable.name);
+      options.modifierOptionIds = orderItem.modifiers.map((modifier) => modifier.optionId);
+    }
+
+    if (orderItem.comboItems && orderItem.comboItems.length > 0) {
+      const unavailable = orderItem.comboItems.find((comboItem) => {
+        const slot = item.combo?.slots.find((candidate) => candidate.id === comboItem.slotId);
+        const option = slot
+          ? getSlotOptions(slot, menuItems).find((candidate) => candidate.id === comboItem.itemId)
+          : undefined;
+        return !option || !option.isAvailable;
+      });
+      if (unavailable) return skip('comboChoiceUnavailable', unavailable.name);
+      options.comboSelections = orderItem.comboItems.map((comboItem) => ({
+        slotId: comboItem.slotId,
+        itemId: comboItem.itemId,
+      }));
+    }
+
+    if (orderItem.notes) {
+      options.notes = orderItem.notes;
+    }
+
+    plan.lines.push({ item, quantity: orderItem.quantity, options });
+  });
+
+  return plan;
+};
+
+/**
+ * Explains in a few words why a line could not be added again
+ * @param line The skipped line
+ * @param language The language to explain it in
+ * @returns A short explanation, e.g. "Large is no longer offered"
+ */
+export const describeSkipReason = (line: SkippedReorderLine, language: LanguageCode): string =>
+  translate(language, `reorderSkip.${line.reason}`, { detail: line.detail ?? '' });
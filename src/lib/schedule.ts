@@ -0,0 +1,241 @@
+/**
+ * Weekly availability schedules for menus and menu items.
+ * A schedule is a set of opening windows per day of the week, with optional
+ * exceptions for specific dates such as holidays. Times are local "HH:mm";
+ * a window whose end is before its start runs past midnight.
+ */
+
+export interface ScheduleWindow {
+  // Days of the week the window starts on, 0 = Sunday
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface ScheduleException {
+  // Local date in YYYY-MM-DD format
+  date: string;
+  label?: string;
+  isClosed: boolean;
+  // Replacement windows for the day when it is not closed
+  windows?: { start: string; end: string }[];
+}
+
+export interface Schedule {
+  isEnabled: boolean;
+  windows: ScheduleWindow[];
+  exceptions: ScheduleException[];
+}
+
+export interface ScheduleStatus {
+  isOpen: boolean;
+  // When the current opening ends, if open
+  closesAt: Date | null;
+  // When the next opening starts, if closed
+  opensAt: Date | null;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How far ahead to look for the next opening
+const LOOKAHEAD_DAYS = 8;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Creates an empty schedule with a single daily window
+ * @returns A disabled schedule ready to be edited
+ */
+export const createDefaultSchedule = (): Schedule => ({
+  isEnabled: false,
+  windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: '11:00', end: '23:00' }],
+  exceptions: [],
+});
+
+/**
+ * Formats a date as a local YYYY-MM-DD key
+ * @param date The date
+ * @returns The date key
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Timestamp of a "HH:mm" time on the given day
+const atTime = (day: Date, time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+};
+
+// Opening intervals that start on a given day
+const getIntervalsForDay = (schedule: Schedule, day: Date): Interval[] => {
+  const exception = schedule.exceptions.find((e) => e.date === toDateKey(day));
+
+  const windows = exception
+    ? exception.isClosed
+      ? []
+      : exception.windows || []
+    : schedule.windows.filter((window) => window.days.includes(day.getDay()));
+
+  return windows.map((window) => {
+    const start = atTime(day, window.start);
+    let end = atTime(day, window.end);
+    if (end <= start) {
+      // Runs past midnight into the next day
+      const nextDay = new Date(day);
+      nextDay.setDate(nextDay.getDate() + 1);
+      end = atTime(nextDay, window.end);
+    }
+    return { start, end };
+  });
+};
+
+// Sorted, merged opening intervals from the day before `at` onwards
+const getIntervals = (schedule: Schedule, at: Date): Interval[] => {
+  const intervals: Interval[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(at);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offset);
+    intervals.push(...getIntervalsForDay(schedule, day));
+  }
+
+  intervals.sort((a, b) => a.start - b.start);
+
+  // Back-to-back windows count as one opening, e.g. lunch running into dinner
+  return intervals.reduce<Interval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Works out whether a schedule is open at a given time
+ * @param schedule The schedule; a missing or disabled schedule is always open
+ * @param at The time to check
+ * @returns Whether it is open, and when it closes or next opens
+ */
+export const getScheduleStatus = (
+  schedule: Schedule | null | undefined,
+  at: Date = new Date()
+): ScheduleStatus => {
+  if (!schedule || !schedule.isEnabled) {
+    return { isOpen: true, closesAt: null, opensAt: null };
+  }
+
+  const time = at.getTime();
+  const intervals = getIntervals(schedule, at);
+
+  const current = intervals.find((interval) => interval.start <= time && time < interval.end);
+  if (current) {
+    return { isOpen: true, closesAt: new Date(current.end), opensAt: null };
+  }
+
+  const next = intervals.find((interval) => interval.start > time);
+  return { isOpen: false, closesAt: null, opensAt: next ? new Date(next.start) : null };
+};
+
+/**
+ * Checks a schedule for mistakes before it is saved
+ * @param schedule The schedule to check
+ * @returns An error message, or null if the schedule is valid
+ */
+export const validateSchedule = (schedule: Schedule | null | undefined): string | null => {
+  if (!schedule || !schedule.isEnabled) return null;
+
+  if (schedule.windows.length === 0 && !schedule.exceptions.some((e) => !e.isClosed)) {
+    return 'Add at least one opening window';
+  }
+
+  for (const window of schedule.windows) {
+    if (window.days.length === 0) {
+      return 'Every opening window needs at least one day';
+    }
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      return 'Opening times must be in HH:MM format';
+    }
+    if (window.start === window.end) {
+      return 'An opening window cannot start and end at the same time';
+    }
+  }
+
+  for (const exception of schedule.exceptions) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(exception.date)) {
+      return 'Every exception needs a date';
+    }
+    const windows = exception.isClosed ? [] : exception.windows || [];
+    if (!exception.isClosed && windows.length === 0) {
+      return `Add opening hours for ${exception.date} or mark it as closed`;
+    }
+    if (windows.some((w) => !TIME_PATTERN.test(w.start) || !TIME_PATTERN.test(w.end) || w.start === w.end)) {
+      return `Opening hours for ${exception.date} are not valid`;
+    }
+  }
+
+  if (new Set(schedule.exceptions.map((e) => e.date)).size !== schedule.exceptions.length) {
+    return 'Each date can only have one exception';
+  }
+
+  return null;
+};
+
+/**
+ * Summarises the weekly windows of a schedule, e.g. "Mon, Tue 07:00–11:00"
+ * @param schedule The schedule
+ * @returns A short description
+ */
+export const describeSchedule = (schedule: Schedule | null | undefined): string => {
+  if (!schedule || !schedule.isEnabled) return 'Always available';
+  if (schedule.windows.length === 0) return 'Only on exception dates';
+
+  return schedule.windows
+    .map((window) => {
+      const days =
+        window.days.length === 7
+          ? 'Daily'
+          : [...window.days].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join(', ');
+      return `${days} ${window.start}–${window.end}`;
+    })
+    .join('; ');
+};
+
+/**
+ * Picks the menu guests at a table should see at a given time.
+ * A scheduled menu that is open wins over an unscheduled one, so time-based
+ * menus such as breakfast or happy hour take over while they run.
+ * @param tableMenu The menu assigned to the table
+ * @param sharedMenus Scheduled menus offered at every table
+ * @param at The time to check
+ * @returns The menu to show; the table's own menu when nothing else is open
+ */
+export const pickActiveMenu = <T extends { id: string | number; schedule?: Schedule | null }>(
+  tableMenu: T,
+  sharedMenus: T[],
+  at: Date = new Date()
+): T => {
+  const isScheduled = (menu: T) => !!menu.schedule?.isEnabled;
+
+  if (isScheduled(tableMenu) && getScheduleStatus(tableMenu.schedule, at).isOpen) {
+    return tableMenu;
+  }
+
+  const openShared = sharedMenus.find(
+    (menu) => menu.id !== tableMenu.id && isScheduled(menu) && getScheduleStatus(menu.schedule, at).isOpen
+  );
+
+  return openShared || tableMenu;
+};
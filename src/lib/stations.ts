@@ -0,0 +1,78 @@
+/**
+ * Helpers for splitting orders between kitchen stations.
+ * Each order line is routed to a station when the order is placed: the item's
+ * own station if it has one, otherwise its category's. Lines without a station
+ * are shown at every station so nothing is missed. A station bumps its part of
+ * the order when done; the order is ready once every station on it has bumped.
+ */
+
+import { OrderItem, OrderStationStatus, WaiterOrder } from './api/orders';
+
+// Station picked on this device, remembered between visits
+const STATION_KEY = 'kitchen-station';
+
+/**
+ * Returns the station picked on this device
+ * @returns The station id, or null to show every station
+ */
+export const getSavedStationId = (): number | null => {
+  const saved = localStorage.getItem(STATION_KEY);
+  return saved ? parseInt(saved, 10) : null;
+};
+
+/**
+ * Remembers the station picked on this device
+ * @param stationId The station id, or null to show every station
+ */
+export const saveStationId = (stationId: number | null) => {
+  if (stationId === null) {
+    localStorage.removeItem(STATION_KEY);
+  } else {
+    localStorage.setItem(STATION_KEY, stationId.toString());
+  }
+};
+
+/**
+ * Lists the lines of an order a station prepares
+ * @param order The order
+ * @param stationId The station
+ * @returns The station's lines and any lines without a station
+ */
+export const getStationLines = (order: WaiterOrder, stationId: number): OrderItem[] =>
+  order.orderItems.filter((item) => !item.stationId || item.stationId === stationId);
+
+/**
+ * Finds a station's status on an order
+ * @param order The order
+ * @param stationId The station
+ * @returns The status, or undefined if the station has no lines on the order
+ */
+export const getStationStatus = (
+  order: WaiterOrder,
+  stationId: number
+): OrderStationStatus | undefined =>
+  order.stations?.find((station) => station.stationId === stationId);
+
+/**
+ * Checks if a station still has work to do on an order
+ * @param order The order
+ * @param stationId The station
+ * @returns True if the station has lines on the order and has not bumped them
+ */
+export const isStationPending = (order: WaiterOrder, stationId: number): boolean => {
+  const status = getStationStatus(order, stationId);
+  return !!status && !status.bumpedAt;
+};
+
+/**
+ * Counts how many stations have finished an order
+ * @param order The order
+ * @returns The number of stations done and the number of stations on the order
+ */
+export const getStationProgress = (order: WaiterOrder): { done: number; total: number } => {
+  const stations = order.stations || [];
+  return {
+    done: stations.filter((station) => !!station.bumpedAt).length,
+    total: stations.length,
+  };
+};
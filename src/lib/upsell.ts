@@ -0,0 +1,64 @@
+/**
+ * "Goes well with" suggestions for the guest menu and cart.
+ * Staff can link complementary items to a menu item, such as a drink with a
+ * starter or a dessert after a main. When they have not, or to fill the rest
+ * of the carousel, items that were often ordered together on past orders are
+ * used instead. Suggestions are added to the cart in one tap, so only items
+ * that need no choices from the guest are offered.
+ */
+
+import { MenuItem } from './api/menuItems';
+import { ItemPairings } from './api/menus';
+import { isCombo } from './combos';
+import { getItemVariants } from './utils';
+
+// Most suggestions shown in a carousel
+export const MAX_SUGGESTIONS = 6;
+
+/**
+ * Checks if an item can be added to the cart without asking the guest anything
+ * @param item The menu item
+ * @returns True if the item has no portions to pick, no required options and is not a combo
+ */
+export const isQuickAddable = (item: MenuItem): boolean => {
+  if (isCombo(item) || getItemVariants(item).length > 0) return false;
+  return !item.modifierGroups?.some((group) => group.isRequired || group.minSelections > 0);
+};
+
+/**
+ * Picks the items to suggest alongside one or more items
+ * @param sourceItemIds The items to find partners for, e.g. the item being viewed or the cart lines
+ * @param menuItems Items on the menu being shown, with availability for the current time
+ * @param pairings Items often ordered together, from past orders
+ * @param excludeIds Items not to suggest, e.g. ones already in the cart
+ * @returns Up to MAX_SUGGESTIONS items, staff links first
+ */
+export const getSuggestions = (
+  sourceItemIds: number[],
+  menuItems: MenuItem[],
+  pairings: ItemPairings = {},
+  excludeIds: number[] = []
+): MenuItem[] => {
+  const linkedIds: number[] = [];
+  const coOrderedIds: number[] = [];
+
+  sourceItemIds.forEach((itemId) => {
+    const item = menuItems.find((menuItem) => menuItem.id === itemId);
+    linkedIds.push(...(item?.pairedItemIds || []));
+    coOrderedIds.push(...(pairings[itemId] || []));
+  });
+
+  const suggestions: MenuItem[] = [];
+  [...linkedIds, ...coOrderedIds].forEach((itemId) => {
+    if (suggestions.length >= MAX_SUGGESTIONS) return;
+    if (sourceItemIds.includes(itemId) || excludeIds.includes(itemId)) return;
+    if (suggestions.some((suggestion) => suggestion.id === itemId)) return;
+
+    const item = menuItems.find((menuItem) => menuItem.id === itemId);
+    if (item && item.isAvailable && isQuickAddable(item)) {
+      suggestions.push(item);
+    }
+  });
+
+  return suggestions;
+};
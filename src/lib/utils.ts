@@ -1,35 +1,82 @@
-import { type ClassValue, clsx } from "clsx"; import { twMerge } from "tailwind-merge"; export function cn(...inputs: ClassValue[]) { return twMerge(clsx(inputs)); }
+import { type ClassValue, clsx } from "clsx"; import { twMerge } from "tailwind-merge"; import type { PortionVariant } from "./api/menuItems"; export function cn(...inputs: ClassValue[]) { return twMerge(clsx(inputs)); }
+
+// Parses a price that may arrive as a string, treating invalid values as 0
+const toPrice = (value: unknown): number => {
+  const price = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(price) ? 0 : price;
+};
+
+/**
+ * Gets the portion variants of an item that can be ordered
+ * @param item The menu item
+ * @returns The variants with an id, in the order they were set up
+ */
+export const getItemVariants = (item: any): (PortionVariant & { id: number })[] => {
+  if (!item || !Array.isArray(item.variants)) return [];
+  return item.variants
+    .filter((variant: any) => variant && variant.id !== undefined && variant.id !== null)
+    .map((variant: any) => ({ ...variant, price: toPrice(variant.price) }));
+};
 
 /**
- * Gets the appropriate price for an item, handling fullPrice, halfPrice and legacy price field
+ * Checks if an item is offered in more than one portion size
  * @param item The menu item
- * @param isHalfPortion Whether to get the half portion price if available
+ * @returns True if the item has portion variants
+ */
+export const hasVariants = (item: any): boolean => {
+  return getItemVariants(item).length > 0;
+};
+
+/**
+ * Gets the appropriate price for an item, handling variants, fullPrice and the legacy price field
+ * @param item The menu item
+ * @param variantId The chosen portion variant, if any
  * @returns The appropriate price as a number
  */
-export const getItemPrice = (item: any, isHalfPortion: boolean = false): number => {
+export const getItemPrice = (item: any, variantId?: number | null): number => {
   if (!item) return 0;
-  
-  // For half portions
-  if (isHalfPortion && item.halfPrice !== undefined && item.halfPrice !== null) {
-    const halfPrice = typeof item.halfPrice === 'number' ? item.halfPrice : parseFloat(String(item.halfPrice));
-    return isNaN(halfPrice) ? 0 : halfPrice;
+
+  // Price of the chosen portion
+  if (variantId !== undefined && variantId !== null) {
+    const variant = getItemVariants(item).find((v) => v.id === variantId);
+    if (variant) return variant.price;
   }
-  
+
   // Handle fullPrice first (new schema)
   if (item.fullPrice !== undefined && item.fullPrice !== null) {
-    const fullPrice = typeof item.fullPrice === 'number' ? item.fullPrice : parseFloat(String(item.fullPrice));
-    return isNaN(fullPrice) ? 0 : fullPrice;
+    return toPrice(item.fullPrice);
   }
-  
+
   // Legacy support for price field
   if (item.price !== undefined && item.price !== null) {
-    const price = typeof item.price === 'number' ? item.price : parseFloat(String(item.price));
-    return isNaN(price) ? 0 : price;
+    return toPrice(item.price);
   }
-  
+
   return 0;
 };
 
+/**
+ * Gets the preparation time of an item, using the variant's own time when it has one
+ * @param item The menu item
+ * @param variantId The chosen portion variant, if any
+ * @returns The preparation time in minutes
+ */
+export const getItemPreparationTime = (item: any, variantId?: number | null): number => {
+  if (!item) return 0;
+  const variant = getItemVariants(item).find((v) => v.id === variantId);
+  return variant?.preparationTime || item.preparationTime || 0;
+};
+
+/**
+ * Appends the chosen portion to an item name, e.g. "Lassi (500ml)"
+ * @param name The item name
+ * @param variant The portion variant stored on the cart or order line
+ * @returns The item name with its portion, if any
+ */
+export const formatVariantName = (name: string, variant?: { name: string } | null): string => {
+  return variant ? `${name} (${variant.name})` : name;
+};
+
 /**
  * Formats a price as currency
  * @param price The price to format
@@ -52,10 +99,87 @@ export const formatPrice = (price: number, currency: string = '₹'): string =>
 };
 
 /**
- * Checks if an item has half portion pricing available
- * @param item The menu item
- * @returns True if the item has half portion pricing
+ * Sums the price adjustments of the selected modifiers on a cart or order line
+ * @param modifiers The selected modifiers
+ * @returns The total price delta per unit
+ */
+export const getModifiersTotal = (modifiers?: { priceDelta: number }[] | null): number => {
+  if (!modifiers || modifiers.length === 0) return 0;
+
+  return modifiers.reduce((sum, modifier) => {
+    const delta = typeof modifier.priceDelta === 'number' ? modifier.priceDelta : parseFloat(String(modifier.priceDelta));
+    return sum + (isNaN(delta) ? 0 : delta);
+  }, 0);
+};
+
+/**
+ * Formats the selected modifiers of a line as a readable list
+ * @param modifiers The selected modifiers
+ * @returns A comma separated list of modifier names, or an empty string
+ */
+export const formatModifiers = (modifiers?: { name: string }[] | null): string => {
+  if (!modifiers || modifiers.length === 0) return '';
+  return modifiers.map((modifier) => modifier.name).join(', ');
+};
+
+/**
+ * Escapes user supplied text before it is written into printable HTML (KOTs, receipts)
+ * @param value The raw text
+ * @returns The HTML-safe text
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Plays a short two-tone chime to alert staff, without needing an audio asset
+ * @param volume Gain between 0 and 1 (default: 0.2)
+ */
+export const playNotificationSound = (volume: number = 0.2): void => {
+  try {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const context = new AudioContextClass();
+    [880, 660].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const startAt = context.currentTime + index * 0.18;
+
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(volume, startAt);
+      gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.16);
+
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + 0.16);
+    });
+
+    // Release the audio context once the chime has finished
+    setTimeout(() => context.close(), 600);
+  } catch (error) {
+    console.error('Error playing notification sound:', error);
+  }
+};
+
+/**
+ * Saves a file the API generated, such as an Excel export, to the user's device
+ * @param blob The file contents
+ * @param filename The name to save it under
  */
-export const hasHalfPortionPrice = (item: any): boolean => {
-  return item.halfPrice !== undefined && item.halfPrice !== null;
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
 };
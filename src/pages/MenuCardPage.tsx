@@ -1,6 +1,7 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
 import {
   ChevronLeft,
   Search,
@@ -14,21 +15,110 @@ import {
   Check,
   Facebook,
   Instagram,
+  Twitter,
+  Youtube,
   AlertCircle,
   Coffee,
   Plus,
   Minus,
+  ShieldAlert,
+  Globe,
+  Heart,
+  UserRound,
+  Star,
+  X,
 } from "lucide-react";
-import { tablesApi } from "../lib/api/tables";
-import { menusApi } from "../lib/api/menus";
+import {
+  GuestSession,
+  guestSessionsApi,
+  PublicTable,
+  TableSessionClosedEvent,
+} from "../lib/api/guestSessions";
+import { ItemPairings, Menu, menusApi } from "../lib/api/menus";
 import { categoriesApi } from "../lib/api/categories";
-import { MenuItem } from "../lib/api/menuItems";
+import {
+  Allergen,
+  ALLERGEN_LABELS,
+  MenuItem,
+  PortionVariant,
+} from "../lib/api/menuItems";
 import { Category } from "../lib/api/categories";
-import { cartApi, CartItem } from "../lib/api/cart";
-import { ordersApi, WaiterOrder } from "../lib/api/orders";
+import { cartApi, CartUpdatedEvent } from "../lib/api/cart";
+import { ordersApi, KitchenQueueEntry, WaiterOrder } from "../lib/api/orders";
+import {
+  estimateReadyTime,
+  getOrdersAhead,
+  getStatusTimestamp,
+  mergeStatusHistory,
+} from "../lib/orderTracking";
 import CartComponent from "../components/cart/CartComponent";
+import ModifierSelectionSheet from "../components/menu/ModifierSelectionSheet";
+import ComboSelectionSheet from "../components/menu/ComboSelectionSheet";
+import ItemDetailSheet from "../components/menu/ItemDetailSheet";
+import FeedbackSheet from "../components/menu/FeedbackSheet";
+import StarRating from "../components/feedback/StarRating";
+import GuestAccountSheet, {
+  ReorderResult,
+} from "../components/menu/GuestAccountSheet";
+import GuestServiceActions from "../components/service/GuestServiceActions";
+import BrandLogo from "../components/branding/BrandLogo";
 import { useSocket } from "../lib/SocketContext";
-import { formatPrice, hasHalfPortionPrice } from "../lib/utils";
+import { getQuantityKey, useOptimisticCart } from "../hooks/use-optimistic-cart";
+import { getGuestId } from "../lib/GuestIdentity";
+import { clearGuestAccount, getGuestAccount } from "../lib/GuestAccount";
+import { dismissFeedbackOrder, getDismissedFeedbackOrders } from "../lib/FeedbackInvites";
+import { GuestAccountSession, guestAccountsApi } from "../lib/api/guestAccounts";
+import { feedbackApi, RatingSummary } from "../lib/api/feedback";
+import { ItemAvailabilityEvent } from "../lib/api/inventory";
+import { planReorder, ReorderLine, SkippedReorderLine } from "../lib/reorder";
+import { getSuggestions } from "../lib/upsell";
+import {
+  clearGuestSession,
+  getGuestSession,
+  onGuestSessionEnded,
+  saveGuestSession,
+  shouldRefreshSession,
+} from "../lib/GuestSession";
+import {
+  DIETARY_FILTERS,
+  DietaryFilter,
+  getAvoidedAllergens,
+  matchesDietaryFilter,
+} from "../lib/dietary";
+import {
+  getLocalizedDescription,
+  getLocalizedName,
+  getPreferredLanguage,
+  LanguageCode,
+  MenuStringKey,
+  setPreferredLanguage,
+  SUPPORTED_LANGUAGES,
+  translate,
+} from "../lib/i18n";
+import { getScheduleStatus, pickActiveMenu } from "../lib/schedule";
+import { formatModifiers, formatPrice, getItemVariants } from "../lib/utils";
+import { formatComboItems, getSlotOptions, isCombo } from "../lib/combos";
+import { brandingApi } from "../lib/api/branding";
+import {
+  Branding,
+  DEFAULT_BRANDING,
+  loadBrandFonts,
+  resolveBranding,
+  SocialPlatform,
+  toCssVariables,
+} from "../lib/branding";
+
+// Category pill value that shows the signed in guest's favourite items
+const FAVOURITES_CATEGORY = "favourites";
+
+// Icons for the social links in the footer
+const SOCIAL_ICONS: Record<SocialPlatform, typeof Globe> = {
+  instagram: Instagram,
+  facebook: Facebook,
+  x: Twitter,
+  youtube: Youtube,
+  website: Globe,
+};
 
 // Animated container variants
 const containerVariants = {
@@ -51,34 +141,101 @@ const itemVariants = {
   },
 };
 
+// Whether an item asks the guest to pick modifiers before adding it
+const hasModifierGroups = (item?: MenuItem) =>
+  !!item?.modifierGroups && item.modifierGroups.length > 0;
+
+// Menu items arrive in the legacy shape with a single price
+const normalizeMenuItems = (menu: Menu): MenuItem[] =>
+  (menu.items || []).map((item) => {
+    return {
+      ...item,
+      fullPrice: (item as any).fullPrice || item.price || 0, // Use existing fullPrice or convert from price
+    } as MenuItem;
+  });
+
+// Minutes before closing at which guests are warned that the kitchen closes soon
+const CLOSING_SOON_MINUTES = 60;
+
+// Allergens the guest never wants to see, remembered on this device
+const AVOIDED_ALLERGENS_KEY = "avoided-allergens";
+
+const loadAvoidedAllergens = (): Allergen[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AVOIDED_ALLERGENS_KEY) || "[]");
+    return Array.isArray(stored)
+      ? stored.filter((allergen): allergen is Allergen => allergen in ALLERGEN_LABELS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Guest-facing text for each order status
+const ORDER_STATUS_TEXT: Partial<Record<WaiterOrder["status"], MenuStringKey>> = {
+  PENDING: "orderReceived",
+  PREPARING: "preparingYourOrder",
+  READY: "readyForPickup",
+  DELIVERED: "orderDelivered",
+  COMPLETED: "orderCompleted",
+};
+
 // Interface for displaying orders
 interface CustomerOrder extends WaiterOrder {
-  statusText: string;
   statusColor: string;
   icon: React.ReactNode;
 }
 
 export default function MenuCardPage() {
-  const { tableNumber } = useParams();
+  const { tableToken } = useParams();
   const navigate = useNavigate();
   const { socket } = useSocket();
 
   const [loading, setLoading] = useState(true);
-  const [table, setTable] = useState<any>(null);
+  const [table, setTable] = useState<PublicTable | null>(null);
   const [menu, setMenu] = useState<any>(null);
+  // The table's own menu followed by scheduled menus offered at every table
+  const [candidateMenus, setCandidateMenus] = useState<Menu[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [items, setItems] = useState<MenuItem[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  // Kept as a key so the message follows the guest's language
+  const [error, setError] = useState<MenuStringKey | null>(null);
   const [orders, setOrders] = useState<CustomerOrder[]>([]);
   const [showOrderStatus, setShowOrderStatus] = useState(false);
   const [showFullFooter, setShowFullFooter] = useState(false);
+  const [kitchenQueue, setKitchenQueue] = useState<KitchenQueueEntry[]>([]);
+  const [now, setNow] = useState(Date.now());
 
   // UI states
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [cartCount, setCartCount] = useState(0);
   const [activeTab, setActiveTab] = useState("menu"); // 'menu' or 'info' or 'orders'
   const [isCartOpen, setIsCartOpen] = useState(false);
+  const [dietaryFilters, setDietaryFilters] = useState<DietaryFilter[]>([]);
+  const [avoidedAllergens, setAvoidedAllergens] = useState<Allergen[]>(
+    loadAvoidedAllergens
+  );
+  const [showAllergenPanel, setShowAllergenPanel] = useState(false);
+  const [language, setLanguage] = useState<LanguageCode>(getPreferredLanguage);
+
+  // Translate menu page copy into the guest's language
+  const t = useCallback(
+    (key: MenuStringKey, params?: Record<string, string | number>) =>
+      translate(language, key, params),
+    [language]
+  );
+
+  // Cart shown on the menu; taps are applied straight away and sent in batches
+  const {
+    items: cartItems,
+    quantities: itemQuantities,
+    itemCount: cartCount,
+    changeQuantity,
+    applyRemoteCart,
+    refresh: refreshCart,
+  } = useOptimisticCart(table?.id ?? null, {
+    onError: () => toast.error(t("cartUpdateFailed")),
+  });
 
   // New state for tracking active subcategory
   const [activeSubcategories, setActiveSubcategories] = useState<
@@ -89,66 +246,128 @@ export default function MenuCardPage() {
   const [showNoticeBanner, setShowNoticeBanner] = useState(false);
   const [noticeMessage, setNoticeMessage] = useState("");
 
-  // Update state to track both full and half portion quantities
-  const [itemQuantities, setItemQuantities] = useState<Record<number, number>>(
-    {}
+  // Item waiting for modifier selection before it is added to the cart
+  const [modifierSheet, setModifierSheet] = useState<{
+    item: MenuItem;
+    variant: PortionVariant | null;
+  } | null>(null);
+
+  // Combo waiting for the guest to fill its slots
+  const [comboSheet, setComboSheet] = useState<MenuItem | null>(null);
+  const [detailItem, setDetailItem] = useState<MenuItem | null>(null);
+  const [pairings, setPairings] = useState<ItemPairings>({});
+  // Average ratings shown on the item cards, when staff have turned them on
+  const [itemRatings, setItemRatings] = useState<Record<number, RatingSummary>>({});
+  // Completed orders the guest has not rated yet, oldest first
+  const [feedbackOrders, setFeedbackOrders] = useState<WaiterOrder[]>([]);
+  const [showFeedbackSheet, setShowFeedbackSheet] = useState(false);
+  const [restaurantBranding, setRestaurantBranding] =
+    useState<Branding>(DEFAULT_BRANDING);
+  // Optional sign-in for returning guests
+  const [account, setAccount] = useState<GuestAccountSession | null>(
+    getGuestAccount
   );
-  const [halfPortionQuantities, setHalfPortionQuantities] = useState<
-    Record<number, number>
-  >({});
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [showAccountSheet, setShowAccountSheet] = useState(false);
+  const [favourites, setFavourites] = useState<number[]>([]);
+  const [orderHistory, setOrderHistory] = useState<WaiterOrder[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  // Set while a replacement guest session is being started
+  const restartingSessionRef = useRef(false);
+
+  // Offer feedback on orders the guest has not been invited to rate yet
+  const queueFeedbackOrders = useCallback((completedOrders: WaiterOrder[]) => {
+    const dismissed = getDismissedFeedbackOrders();
+    setFeedbackOrders((prev) => [
+      ...prev,
+      ...completedOrders.filter(
+        (completed) =>
+          !dismissed.includes(completed.id) &&
+          !prev.some((order) => order.id === completed.id)
+      ),
+    ]);
+  }, []);
+
+  // Fetch completed orders still to be rated, so the invite survives a reload
+  // or the completion being missed while the phone was offline
+  const fetchPendingFeedback = useCallback(async () => {
+    try {
+      const pending = await feedbackApi.getPendingOrders();
+      queueFeedbackOrders(pending.filter((order) => !order.hasFeedback));
+    } catch (error) {
+      console.error("Error fetching orders awaiting feedback:", error);
+    }
+  }, [queueFeedbackOrders]);
+
+  // Exchange the QR token for a guest session bound to this table
+  const startSession = async (token: string): Promise<GuestSession> => {
+    const session = await guestSessionsApi.start(token);
+    saveGuestSession(token, session);
+    return session;
+  };
 
   useEffect(() => {
     async function fetchData() {
-      if (!tableNumber) {
-        setError("No table information found. Please scan a valid QR code.");
+      if (!tableToken) {
+        setError("noTableInfo");
         setLoading(false);
         return;
       }
 
+      // Make sure this device has a guest identity before touching the cart
+      getGuestId();
+
       try {
-        // Find table by table number
-        const tablesData = await tablesApi.getAll();
-        const foundTable = tablesData.find(
-          (t) => t.tableNumber.toString() === tableNumber
-        );
+        // Load the restaurant branding; the default look is kept if this fails
+        try {
+          const brandingData = await brandingApi.get();
+          setRestaurantBranding(brandingData);
+        } catch (brandingErr) {
+          console.error("Error fetching branding:", brandingErr);
+        }
 
-        if (!foundTable) {
-          setError(
-            "Table not found. Please check the QR code or ask for assistance."
-          );
-          setLoading(false);
-          return;
+        // Resume this device's session for the table, or start a new one
+        let session: GuestSession | null = getGuestSession(tableToken);
+        if (!session) {
+          try {
+            session = await startSession(tableToken);
+          } catch (sessionErr) {
+            console.error("Error starting table session:", sessionErr);
+            setError("qrCodeInvalid");
+            setLoading(false);
+            return;
+          }
         }
 
+        const foundTable = session.table;
         setTable(foundTable);
 
         // Get menu for this table
         try {
           const menuData = await menusApi.getById(foundTable.menuId.toString());
-          setMenu(menuData);
-
-          // Get items for this menu
-          if (menuData.items) {
-            setItems(
-              menuData.items.map((item) => {
-                // Some items may have halfPrice already set in the database
-                // Use database halfPrice if available, otherwise check if there's price data to convert
-                return {
-                  ...item,
-                  fullPrice: (item as any).fullPrice || item.price || 0, // Use existing fullPrice or convert from price
-                  halfPrice:
-                    (item as any).halfPrice ||
-                    (item.price ? item.price * 0.6 : undefined), // Keep existing halfPrice or calculate from price
-                };
-              })
+
+          // Scheduled menus such as breakfast can take over while they are open
+          let sharedMenus: Menu[] = [];
+          try {
+            const allMenus = await menusApi.getAll();
+            sharedMenus = await Promise.all(
+              allMenus
+                .filter(
+                  (m) =>
+                    m.servesAllTables &&
+                    m.schedule?.isEnabled &&
+                    m.id.toString() !== menuData.id.toString()
+                )
+                .map((m) => menusApi.getById(m.id))
             );
+          } catch (sharedErr) {
+            console.error("Error fetching scheduled menus:", sharedErr);
+            // The table's own menu is enough to continue
           }
+
+          setCandidateMenus([menuData, ...sharedMenus]);
         } catch (menuErr) {
           console.error("Error fetching menu data:", menuErr);
-          setError(
-            "No menu is currently available for this table. Please ask staff for assistance."
-          );
+          setError("noMenuForTable");
           setLoading(false);
           return;
         }
@@ -162,21 +381,20 @@ export default function MenuCardPage() {
           // We can still proceed with missing categories
         }
 
-        // Fetch active orders for this table
-        fetchTableOrders(foundTable.id);
+        // Fetch active orders for this table, and completed ones still to be rated
+        fetchTableOrders();
+        fetchPendingFeedback();
 
         setLoading(false);
       } catch (err) {
         console.error("Error in menu data loading process:", err);
-        setError(
-          "Unable to load menu information. Please try again or ask for assistance."
-        );
+        setError("menuLoadFailed");
         setLoading(false);
       }
     }
 
     fetchData();
-  }, [tableNumber]);
+  }, [tableToken]);
 
   useEffect(() => {
     // Detect scroll to bottom to show full footer
@@ -201,33 +419,46 @@ export default function MenuCardPage() {
   useEffect(() => {
     if (!table) return;
 
+    // Merge an order received over the socket into the displayed list
+    const upsertOrder = (updatedOrder: WaiterOrder) => {
+      setOrders((prevOrders) => {
+        const previous = prevOrders.find(
+          (order) => order.id === updatedOrder.id
+        );
+
+        if (!previous) {
+          // It's a new order
+          return [...prevOrders, formatOrderForDisplay(updatedOrder)];
+        }
+
+        // Update existing order, keeping the status history seen so far
+        return prevOrders.map((order) =>
+          order.id === updatedOrder.id
+            ? formatOrderForDisplay(updatedOrder, previous)
+            : order
+        );
+      });
+    };
+
     // Listen for order status changes
     socket.on("order:status-change", (updatedOrder) => {
       console.log("Received order:status-change", updatedOrder);
 
+      // Any status change moves the kitchen queue, so refresh the estimate
+      fetchKitchenQueue();
+
       if (updatedOrder.tableId === table.id) {
-        setOrders((prevOrders) => {
-          const orderExists = prevOrders.some(
-            (order) => order.id === updatedOrder.id
-          );
-
-          if (!orderExists) {
-            // It's a new order
-            return [...prevOrders, formatOrderForDisplay(updatedOrder)];
-          } else {
-            // Update existing order
-            return prevOrders.map((order) =>
-              order.id === updatedOrder.id
-                ? formatOrderForDisplay(updatedOrder)
-                : order
-            );
-          }
-        });
+        upsertOrder(updatedOrder);
 
         // Show toast notification for status change
         if (updatedOrder.status === "READY") {
           setShowOrderStatus(true);
         }
+
+        // Invite the guest to rate the meal once the order is completed
+        if (updatedOrder.status === "COMPLETED" && !updatedOrder.hasFeedback) {
+          queueFeedbackOrders([updatedOrder]);
+        }
       }
     });
 
@@ -235,22 +466,10 @@ export default function MenuCardPage() {
     socket.on("order:status-preparing", (updatedOrder) => {
       console.log("Received order:status-preparing", updatedOrder);
 
+      fetchKitchenQueue();
+
       if (updatedOrder.tableId === table.id) {
-        setOrders((prevOrders) => {
-          const orderExists = prevOrders.some(
-            (order) => order.id === updatedOrder.id
-          );
-
-          if (!orderExists) {
-            return [...prevOrders, formatOrderForDisplay(updatedOrder)];
-          } else {
-            return prevOrders.map((order) =>
-              order.id === updatedOrder.id
-                ? formatOrderForDisplay(updatedOrder)
-                : order
-            );
-          }
-        });
+        upsertOrder(updatedOrder);
       }
     });
 
@@ -258,30 +477,122 @@ export default function MenuCardPage() {
       socket.off("order:status-change");
       socket.off("order:status-preparing");
     };
-  }, [socket, table]);
+  }, [socket, table, queueFeedbackOrders]);
 
-  // Add a function to check if an order is less than 3 hours old
-  const isOrderRecent = (timestamp: string): boolean => {
-    const orderTime = new Date(timestamp);
-    const now = new Date();
-    const threeHoursInMs = 3 * 60 * 60 * 1000; // 3 hours in milliseconds
-    return now.getTime() - orderTime.getTime() < threeHoursInMs;
+  // Tick every 30 seconds so elapsed times and estimates stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Show the menu scheduled for the current time
+  useEffect(() => {
+    if (candidateMenus.length === 0) return;
+
+    const [tableMenu, ...sharedMenus] = candidateMenus;
+    const activeMenu = pickActiveMenu(tableMenu, sharedMenus, new Date(now));
+    if (activeMenu.id !== menu?.id) {
+      setMenu(activeMenu);
+      setItems(normalizeMenuItems(activeMenu));
+    }
+  }, [candidateMenus, now, menu?.id]);
+
+  // Items often ordered together on this menu, used when staff have not linked any
+  useEffect(() => {
+    if (!menu?.id) return;
+
+    menusApi
+      .getPairings(menu.id.toString())
+      .then(setPairings)
+      .catch((err) => {
+        console.error("Error fetching item pairings:", err);
+        setPairings({});
+      });
+  }, [menu?.id]);
+
+  // Load item ratings; the server returns none while they are hidden from guests
+  useEffect(() => {
+    if (!menu?.id) return;
+
+    feedbackApi
+      .getMenuRatings(menu.id.toString())
+      .then(setItemRatings)
+      .catch((err) => {
+        console.error("Error fetching item ratings:", err);
+        setItemRatings({});
+      });
+  }, [menu?.id]);
+
+  // Whether the kitchen is open for the active menu right now
+  const menuStatus = getScheduleStatus(menu?.schedule, new Date(now));
+  const isAcceptingOrders = !!menu?.isAcceptingOrders && menuStatus.isOpen;
+  const minutesUntilClosing = menuStatus.closesAt
+    ? Math.ceil((menuStatus.closesAt.getTime() - now) / 60000)
+    : null;
+
+  // The active menu can override the restaurant branding
+  const branding = useMemo(
+    () => resolveBranding(restaurantBranding, menu?.branding),
+    [restaurantBranding, menu]
+  );
+  const brandStyle = useMemo(() => toCssVariables(branding), [branding]);
+
+  useEffect(() => {
+    loadBrandFonts(branding);
+  }, [branding]);
+
+  // Items outside their own schedule, or out of an ingredient, cannot be ordered
+  // until they open again or are restocked
+  const scheduledItems = useMemo(
+    () =>
+      items.map((item) =>
+        item.isAvailable &&
+        (item.outOfStock || !getScheduleStatus(item.schedule, new Date(now)).isOpen)
+          ? { ...item, isAvailable: false }
+          : item
+      ),
+    [items, now]
+  );
+
+  // Suggestions for the item being viewed, leaving out what is already in the cart
+  const detailSuggestions = useMemo(
+    () =>
+      detailItem
+        ? getSuggestions(
+            [detailItem.id],
+            scheduledItems,
+            pairings,
+            cartItems.map((cartItem) => cartItem.itemId)
+          )
+        : [],
+    [detailItem, scheduledItems, pairings, cartItems]
+  );
+
+  // Preparation time per item, used to estimate when orders will be ready
+  const preparationTimes = useMemo(
+    () =>
+      items.reduce((acc, item) => {
+        acc[item.id] = item.preparationTime;
+        return acc;
+      }, {} as Record<number, number>),
+    [items]
+  );
+
+  const fetchKitchenQueue = async () => {
+    const queue = await ordersApi.getKitchenQueue();
+    setKitchenQueue(queue);
   };
 
-  // Fetch active orders for the current table
-  const fetchTableOrders = async (tableId: number) => {
+  // Fetch active orders placed during this guest session
+  const fetchTableOrders = async () => {
     try {
-      const allOrders = await ordersApi.getAll();
-      const tableOrders = allOrders
-        .filter(
-          (order) =>
-            order.tableId === tableId &&
-            !["COMPLETED", "CANCELLED"].includes(order.status) &&
-            isOrderRecent(order.createdAt)
-        )
-        .map(formatOrderForDisplay);
+      const sessionOrders = await guestSessionsApi.getOrders();
+      const tableOrders = sessionOrders
+        .filter((order) => !["COMPLETED", "CANCELLED"].includes(order.status))
+        .map((order) => formatOrderForDisplay(order));
 
       setOrders(tableOrders);
+      fetchKitchenQueue();
 
       // If there are active orders, show the order status tab
       if (tableOrders.length > 0) {
@@ -292,73 +603,104 @@ export default function MenuCardPage() {
     }
   };
 
-  // Format order for display with status text, color and icon
-  const formatOrderForDisplay = (order: WaiterOrder): CustomerOrder => {
-    let statusText = "";
+  // Format order for display with status text, color, icon and status history
+  const formatOrderForDisplay = (
+    order: WaiterOrder,
+    previous?: WaiterOrder
+  ): CustomerOrder => {
     let statusColor = "";
     let icon;
 
     switch (order.status) {
       case "PENDING":
-        statusText = "Order Received";
         statusColor = "text-blue-500 bg-blue-500/10";
         icon = <Clock className="h-5 w-5 text-blue-500" />;
         break;
       case "PREPARING":
-        statusText = "Preparing Your Order";
         statusColor = "text-amber-500 bg-amber-500/10";
         icon = <Utensils className="h-5 w-5 text-amber-500" />;
         break;
       case "READY":
-        statusText = "Ready for Pickup";
         statusColor = "text-green-500 bg-green-500/10";
         icon = <CheckCircle className="h-5 w-5 text-green-500" />;
         break;
       case "DELIVERED":
-        statusText = "Order Delivered";
         statusColor = "text-purple-500 bg-purple-500/10";
         icon = <Truck className="h-5 w-5 text-purple-500" />;
         break;
       case "COMPLETED":
-        statusText = "Order Completed";
         statusColor = "text-gray-500 bg-gray-500/10";
         icon = <Check className="h-5 w-5 text-gray-500" />;
         break;
       default:
-        statusText = order.status;
         statusColor = "text-gray-500 bg-gray-500/10";
         icon = <Info className="h-5 w-5 text-gray-500" />;
     }
 
     return {
       ...order,
-      statusText,
+      statusHistory: mergeStatusHistory(previous, order),
       statusColor,
       icon,
     };
   };
 
   // Filter items based on search and category
-  const filteredItems = items.filter((item) => {
+  const filteredItems = scheduledItems.filter((item) => {
     const matchesSearch =
       searchQuery === "" ||
       item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (item.description?.toLowerCase().includes(searchQuery.toLowerCase()) ??
+      getLocalizedName(item, language)
+        .toLowerCase()
+        .includes(searchQuery.toLowerCase()) ||
+      (getLocalizedDescription(item, language)
+        ?.toLowerCase()
+        .includes(searchQuery.toLowerCase()) ??
         false);
 
     const matchesCategory =
       selectedCategory === "all" ||
+      (selectedCategory === FAVOURITES_CATEGORY && favourites.includes(item.id)) ||
       item.categoryId.toString() === selectedCategory;
 
-    return matchesSearch && matchesCategory;
-  });
+    const matchesDietary = dietaryFilters.every((filter) =>
+      matchesDietaryFilter(item, filter)
+    );
+
+    return matchesSearch && matchesCategory && matchesDietary;
+  }).filter((item) => getAvoidedAllergens(item, avoidedAllergens).length === 0);
+
+  // Items left out only because of the guest's allergen preference
+  const hiddenByAllergensCount = scheduledItems.filter(
+    (item) => getAvoidedAllergens(item, avoidedAllergens).length > 0
+  ).length;
+
+  const toggleDietaryFilter = (filter: DietaryFilter) => {
+    setDietaryFilters((prev) =>
+      prev.includes(filter)
+        ? prev.filter((f) => f !== filter)
+        : [...prev, filter]
+    );
+  };
+
+  const toggleAvoidedAllergen = (allergen: Allergen) => {
+    setAvoidedAllergens((prev) => {
+      const updated = prev.includes(allergen)
+        ? prev.filter((a) => a !== allergen)
+        : [...prev, allergen];
+      localStorage.setItem(AVOIDED_ALLERGENS_KEY, JSON.stringify(updated));
+      return updated;
+    });
+  };
 
   // Group items by category and then by subcategory
   const getGroupedItems = (items: MenuItem[]) => {
     // First group by category
     const byCategory = items.reduce((acc, item) => {
       const category = categories.find((c) => c.id === item.categoryId);
-      const categoryName = category ? category.name : "Other";
+      const categoryName = category
+        ? getLocalizedName(category, language)
+        : t("other");
 
       if (!acc[categoryName]) {
         acc[categoryName] = [];
@@ -404,6 +746,29 @@ export default function MenuCardPage() {
   const { byCategory, categorySubcategories } = getGroupedItems(filteredItems);
 
   // Handle back navigation
+  // Switch the menu language and remember it on this device
+  const handleLanguageChange = (code: LanguageCode) => {
+    setLanguage(code);
+    setPreferredLanguage(code);
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Text shown for the current status of an order
+  const getStatusText = (order: WaiterOrder) => {
+    const key = ORDER_STATUS_TEXT[order.status];
+    return key ? t(key) : order.status;
+  };
+
+  // Name of an ordered item, translated when it is on the current menu
+  const getOrderItemName = (orderItem: WaiterOrder["orderItems"][number]) => {
+    const menuItem = items.find((item) => item.id === orderItem.itemId);
+    if (menuItem) return getLocalizedName(menuItem, language);
+    return orderItem.item?.name || `Item #${orderItem.itemId}`;
+  };
+
   const handleBack = () => {
     navigate(-1);
   };
@@ -416,207 +781,382 @@ export default function MenuCardPage() {
       (now.getTime() - orderTime.getTime()) / (1000 * 60)
     );
 
-    if (diffInMinutes < 1) return "Just now";
-    if (diffInMinutes === 1) return "1 minute ago";
-    if (diffInMinutes < 60) return `${diffInMinutes} minutes ago`;
+    if (diffInMinutes < 1) return t("justNow");
+    if (diffInMinutes < 60) return t("minutesAgo", { count: diffInMinutes });
 
-    const hours = Math.floor(diffInMinutes / 60);
-    if (hours === 1) return "1 hour ago";
-    return `${hours} hours ago`;
+    return t("hoursAgo", { count: Math.floor(diffInMinutes / 60) });
   };
 
-  // Add an effect to fetch cart data when table is loaded
-  useEffect(() => {
-    if (table) {
-      fetchCartData(table.id);
-    }
-  }, [table]);
+  // Format a status timestamp as a short clock time, e.g. "7:45 PM"
+  const formatClockTime = (timestamp?: string | Date) => {
+    if (!timestamp) return "";
+    return new Date(timestamp).toLocaleTimeString(language, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
 
-  // Function to fetch cart data
-  const fetchCartData = async (tableId: number) => {
-    try {
-      const cartData = await cartApi.getCartByTableId(tableId);
-      setCartItems(cartData.items);
-      setCartCount(
-        cartData.items.reduce(
-          (sum: number, item: CartItem) => sum + item.quantity,
-          0
-        )
-      );
+  // Format when a menu or item opens next, with the day if it is not today
+  const formatOpeningTime = (date: Date) =>
+    date.toLocaleString(language, {
+      weekday:
+        date.toDateString() === new Date(now).toDateString() ? undefined : "short",
+      hour: "numeric",
+      minute: "2-digit",
+    });
 
-      // Initialize quantities based on cart data
-      const fullItems: Record<number, number> = {};
-      const halfItems: Record<number, number> = {};
+  // Tell guests when an item outside its schedule can be ordered again
+  const getItemAvailabilityText = (item: MenuItem) => {
+    const status = getScheduleStatus(item.schedule, new Date(now));
+    if (status.isOpen || !status.opensAt) return null;
+    return t("availableFrom", { time: formatOpeningTime(status.opensAt) });
+  };
 
-      cartData.items.forEach((item) => {
-        if (item.isHalfPortion) {
-          halfItems[item.itemId] = item.quantity;
-        } else {
-          fullItems[item.itemId] = item.quantity;
-        }
+  // Describe the estimated ready time of an order for the guest
+  const getEstimateText = (order: WaiterOrder) => {
+    const readyAt = estimateReadyTime(order, preparationTimes, kitchenQueue, now);
+    if (!readyAt) return null;
+
+    const minutesLeft = Math.max(1, Math.round((readyAt.getTime() - now) / 60000));
+    return t("estimatedReady", {
+      time: formatClockTime(readyAt),
+      minutes: minutesLeft,
+    });
+  };
+
+  // Join the table room so every device at this table receives cart updates
+  useEffect(() => {
+    if (!table) return;
+
+    const joinTable = () =>
+      socket.emit("table:join", {
+        tableId: table.id,
+        sessionToken: getGuestSession()?.sessionToken,
       });
 
-      setItemQuantities(fullItems);
-      setHalfPortionQuantities(halfItems);
-    } catch (err) {
-      console.error("Error fetching cart data:", err);
+    const onCartUpdated = (event: CartUpdatedEvent) => {
+      if (event.tableId === table.id) {
+        applyRemoteCart(event.cart, event.updatedBy);
+      }
+    };
+
+    joinTable();
+    socket.on("connect", joinTable);
+    socket.on("cart:updated", onCartUpdated);
+
+    return () => {
+      socket.emit("table:leave", { tableId: table.id });
+      socket.off("connect", joinTable);
+      socket.off("cart:updated", onCartUpdated);
+    };
+  }, [socket, table, applyRemoteCart]);
+
+  // Add one of an item, in the chosen portion variant if it has any
+  const incrementQuantity = (itemId: number, variantId: number | null = null) => {
+    if (!table) return;
+
+    // Combos and customisable items go through a selection sheet instead
+    const menuItem = items.find((item) => item.id === itemId);
+    if (menuItem && isCombo(menuItem)) {
+      setComboSheet(menuItem);
+      return;
+    }
+    if (menuItem && hasModifierGroups(menuItem)) {
+      const variant =
+        getItemVariants(menuItem).find((v) => v.id === variantId) || null;
+      setModifierSheet({ item: menuItem, variant });
+      return;
     }
+
+    changeQuantity(itemId, variantId, 1);
   };
 
-  // Add functions to handle quantity changes for full portions
-  const incrementQuantity = async (itemId: number) => {
+  const decrementQuantity = (itemId: number, variantId: number | null = null) => {
     if (!table) return;
+    if ((itemQuantities[getQuantityKey(itemId, variantId)] || 0) <= 0) return;
 
-    const newQuantity = (itemQuantities[itemId] || 0) + 1;
-    setItemQuantities((prev) => ({
-      ...prev,
-      [itemId]: newQuantity,
-    }));
+    changeQuantity(itemId, variantId, -1);
+  };
+
+  // Add a customised line once the guest has picked modifiers
+  const handleModifierConfirm = async (
+    modifierOptionIds: number[],
+    notes: string
+  ) => {
+    if (!table || !modifierSheet) return;
 
     try {
-      // Find if this item already exists in cart
-      const existingItem = cartItems.find(
-        (item) => item.itemId === itemId && !item.isHalfPortion
+      await cartApi.addToCart(
+        table.id,
+        modifierSheet.item.id,
+        1,
+        {
+          variantId: modifierSheet.variant?.id,
+          modifierOptionIds,
+          notes: notes || undefined,
+        }
       );
+      await refreshCart();
+    } catch (err) {
+      console.error("Error adding customised item to cart:", err);
+      // The sheet stays open and shows the error
+      throw err;
+    }
+  };
 
-      if (existingItem) {
-        // Update existing cart item
-        await cartApi.updateCartItem(existingItem.id, newQuantity);
-      } else {
-        // Add new item to cart
-        const newItem = await cartApi.addToCart(table.id, itemId, 1, false);
-        setCartItems((prev) => [...prev, newItem]);
-      }
+  // Add a combo line once the guest has filled every slot
+  const handleComboConfirm = async (
+    comboSelections: { slotId: number; itemId: number }[],
+    notes: string
+  ) => {
+    if (!table || !comboSheet) return;
 
-      // Refresh cart data to get updated totals
-      await fetchCartData(table.id);
+    try {
+      await cartApi.addToCart(table.id, comboSheet.id, 1, {
+        comboSelections,
+        notes: notes || undefined,
+      });
+      await refreshCart();
     } catch (err) {
-      console.error("Error updating cart:", err);
+      console.error("Error adding combo to cart:", err);
+      // The sheet stays open and shows the error
+      throw err;
     }
   };
 
-  const decrementQuantity = async (itemId: number) => {
+  // Add a "goes well with" suggestion as a plain line
+  const addSuggestion = async (item: MenuItem) => {
     if (!table) return;
 
-    const currentQuantity = itemQuantities[itemId] || 0;
-    if (currentQuantity <= 0) return;
+    await cartApi.addToCart(table.id, item.id, 1);
+    await refreshCart();
+  };
 
-    const newQuantity = currentQuantity - 1;
-    setItemQuantities((prev) => ({
-      ...prev,
-      [itemId]: newQuantity,
-    }));
+  // Add the item being viewed; items that need choices hand over to their own sheet
+  const handleDetailAdd = (variantId: number | null) => {
+    if (!detailItem) return;
+    if (isCombo(detailItem) || hasModifierGroups(detailItem)) {
+      setDetailItem(null);
+    }
+    incrementQuantity(detailItem.id, variantId);
+  };
 
-    try {
-      // Find the existing cart item
-      const existingItem = cartItems.find(
-        (item) => item.itemId === itemId && !item.isHalfPortion
-      );
+  // Drop an order from the rating queue once it has been rated or dismissed
+  const removeFeedbackOrder = (orderId: number) => {
+    setFeedbackOrders((prev) => prev.filter((order) => order.id !== orderId));
+  };
 
-      if (existingItem) {
-        if (newQuantity === 0) {
-          // Remove item from cart
-          await cartApi.removeFromCart(existingItem.id);
-          setCartItems((prev) =>
-            prev.filter((item) => item.id !== existingItem.id)
-          );
-        } else {
-          // Update quantity
-          await cartApi.updateCartItem(existingItem.id, newQuantity);
-        }
+  // The guest does not want to rate this order, so stop offering it on later visits too
+  const dismissFeedbackInvite = (orderId: number) => {
+    dismissFeedbackOrder(orderId);
+    removeFeedbackOrder(orderId);
+  };
+
+  const handleFeedbackSubmitted = (orderId: number) => {
+    removeFeedbackOrder(orderId);
+    setShowFeedbackSheet(false);
+    showNotice(t("feedbackThanks"));
+  };
 
-        // Refresh cart data
-        await fetchCartData(table.id);
+  // Show service request feedback in the notice banner for a few seconds
+  const showNotice = useCallback((message: string) => {
+    setNoticeMessage(message);
+    setShowNoticeBanner(true);
+  }, []);
+
+  useEffect(() => {
+    if (!showNoticeBanner) return;
+    const timeout = setTimeout(() => setShowNoticeBanner(false), 8000);
+    return () => clearTimeout(timeout);
+  }, [showNoticeBanner, noticeMessage]);
+
+  // Load favourites for a signed in guest
+  useEffect(() => {
+    if (!account) {
+      setFavourites([]);
+      setOrderHistory([]);
+      return;
+    }
+
+    guestAccountsApi
+      .getFavourites()
+      .then(setFavourites)
+      .catch((err) => console.error("Error fetching favourites:", err));
+
+    // Orders from earlier visits may still be waiting for a rating
+    fetchPendingFeedback();
+  }, [account, fetchPendingFeedback]);
+
+  // Refresh the order history whenever the account sheet is opened
+  useEffect(() => {
+    if (!account || !showAccountSheet) return;
+
+    const fetchHistory = async () => {
+      try {
+        setHistoryLoading(true);
+        setOrderHistory(await guestAccountsApi.getOrderHistory());
+      } catch (err) {
+        console.error("Error fetching order history:", err);
+      } finally {
+        setHistoryLoading(false);
       }
-    } catch (err) {
-      console.error("Error updating cart:", err);
+    };
+
+    fetchHistory();
+  }, [account, showAccountSheet]);
+
+  const handleSignOut = () => {
+    clearGuestAccount();
+    setAccount(null);
+    if (selectedCategory === FAVOURITES_CATEGORY) {
+      setSelectedCategory("all");
     }
   };
 
-  // Add functions to handle quantity changes for half portions
-  const incrementHalfQuantity = async (itemId: number) => {
-    if (!table) return;
+  // Favourites need an account, so guests are asked to sign in first
+  const toggleFavourite = async (itemId: number) => {
+    if (!account) {
+      setShowAccountSheet(true);
+      return;
+    }
 
-    const newQuantity = (halfPortionQuantities[itemId] || 0) + 1;
-    setHalfPortionQuantities((prev) => ({
-      ...prev,
-      [itemId]: newQuantity,
-    }));
+    const isFavourite = favourites.includes(itemId);
+    setFavourites((prev) =>
+      isFavourite ? prev.filter((id) => id !== itemId) : [...prev, itemId]
+    );
 
     try {
-      // Find if this item already exists in cart
-      const existingItem = cartItems.find(
-        (item) => item.itemId === itemId && item.isHalfPortion
+      if (isFavourite) {
+        await guestAccountsApi.removeFavourite(itemId);
+      } else {
+        await guestAccountsApi.addFavourite(itemId);
+      }
+    } catch (err) {
+      console.error("Error updating favourites:", err);
+      // Put the heart back the way it was
+      setFavourites((prev) =>
+        isFavourite ? [...prev, itemId] : prev.filter((id) => id !== itemId)
       );
+    }
+  };
 
-      if (existingItem) {
-        // Update existing cart item
-        await cartApi.updateCartItem(existingItem.id, newQuantity);
-      } else {
-        // Add new item to cart
-        const newItem = await cartApi.addToCart(table.id, itemId, 1, true);
-        setCartItems((prev) => [...prev, newItem]);
+  // Add the lines of a past order that can still be ordered to the cart
+  const handleReorder = async (order: WaiterOrder): Promise<ReorderResult> => {
+    if (!table) return { addedCount: 0, added: [], skipped: [] };
+
+    const plan = planReorder(order.orderItems, scheduledItems, language);
+    const added: ReorderLine[] = [];
+    const notAdded: SkippedReorderLine[] = [];
+
+    // Lines are added one at a time; once one fails the rest are reported as not added
+    for (const line of plan.lines) {
+      const name = getLocalizedName(line.item, language);
+      if (notAdded.length > 0) {
+        notAdded.push({ name, reason: "notAdded" });
+        continue;
+      }
+      try {
+        await cartApi.addToCart(table.id, line.item.id, line.quantity, line.options);
+        added.push(line);
+      } catch (err) {
+        console.error(`Error adding ${line.item.name} to cart:`, err);
+        notAdded.push({ name, reason: "notAdded" });
       }
+    }
 
-      // Refresh cart data to get updated totals
-      await fetchCartData(table.id);
-    } catch (err) {
-      console.error("Error updating cart:", err);
+    // Show whatever did reach the cart, even if some lines failed
+    if (plan.lines.length > 0) {
+      await refreshCart();
     }
+
+    return {
+      addedCount: added.reduce((sum, line) => sum + line.quantity, 0),
+      added: added.map((line) => `${line.quantity}× ${getLocalizedName(line.item, language)}`),
+      skipped: [...notAdded, ...plan.skipped],
+    };
   };
 
-  const decrementHalfQuantity = async (itemId: number) => {
-    if (!table) return;
+  // Start a new guest session when the bill is closed at the POS or the session expires
+  useEffect(() => {
+    if (!table || !tableToken) return;
 
-    const currentQuantity = halfPortionQuantities[itemId] || 0;
-    if (currentQuantity <= 0) return;
+    const restartSession = async () => {
+      if (restartingSessionRef.current) return;
+      restartingSessionRef.current = true;
 
-    const newQuantity = currentQuantity - 1;
-    setHalfPortionQuantities((prev) => ({
-      ...prev,
-      [itemId]: newQuantity,
-    }));
+      clearGuestSession();
+      setOrders([]);
+      setShowOrderStatus(false);
+      setActiveTab("menu");
 
-    try {
-      // Find the existing cart item
-      const existingItem = cartItems.find(
-        (item) => item.itemId === itemId && item.isHalfPortion
+      try {
+        await startSession(tableToken);
+        refreshCart();
+      } catch (err) {
+        console.error("Error starting a new table session:", err);
+        setError("qrCodeInvalid");
+      } finally {
+        restartingSessionRef.current = false;
+      }
+    };
+
+    const onSessionClosed = (event: TableSessionClosedEvent) => {
+      if (event.tableId !== table.id) return;
+      showNotice(t("sessionClosed"));
+      restartSession();
+    };
+
+    const unsubscribe = onGuestSessionEnded(restartSession);
+    socket.on("table:session-closed", onSessionClosed);
+
+    return () => {
+      unsubscribe();
+      socket.off("table:session-closed", onSessionClosed);
+    };
+  }, [socket, table, tableToken, showNotice, t, refreshCart]);
+
+  // Items run out of stock, and come back, as orders deplete ingredients and
+  // the kitchen restocks
+  useEffect(() => {
+    const onItemsAvailability = ({ menuItemIds, outOfStock }: ItemAvailabilityEvent) => {
+      setItems((prev) =>
+        prev.map((item) => (menuItemIds.includes(item.id) ? { ...item, outOfStock } : item))
       );
+    };
 
-      if (existingItem) {
-        if (newQuantity === 0) {
-          // Remove item from cart
-          await cartApi.removeFromCart(existingItem.id);
-          setCartItems((prev) =>
-            prev.filter((item) => item.id !== existingItem.id)
-          );
-        } else {
-          // Update quantity
-          await cartApi.updateCartItem(existingItem.id, newQuantity);
-        }
+    socket.on("menu:items-availability", onItemsAvailability);
+    return () => {
+      socket.off("menu:items-availability", onItemsAvailability);
+    };
+  }, [socket]);
 
-        // Refresh cart data
-        await fetchCartData(table.id);
-      }
-    } catch (err) {
-      console.error("Error updating cart:", err);
-    }
-  };
+  // Keep the session alive while the guest is still browsing
+  useEffect(() => {
+    if (!tableToken) return;
 
-  // Handle cart update from CartComponent
-  const handleCartUpdate = (itemCount: number) => {
-    setCartCount(itemCount);
-    if (table) {
-      fetchCartData(table.id);
-    }
+    const session = getGuestSession(tableToken);
+    if (!session || !shouldRefreshSession(session)) return;
+
+    guestSessionsApi
+      .refresh()
+      .then((refreshed) => saveGuestSession(tableToken, refreshed))
+      .catch((err) => console.error("Error refreshing table session:", err));
+  }, [now, tableToken]);
+
+  // Pick up changes made in CartComponent
+  const handleCartUpdate = () => {
+    refreshCart();
   };
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-[#051119] text-white flex items-center justify-center">
+      <div
+        className="font-brand min-h-screen bg-brand-background text-white flex items-center justify-center"
+        style={brandStyle}
+      >
         <div className="flex flex-col items-center">
-          <div className="w-12 h-12 border-t-2 border-b-2 border-[#00EAF0] rounded-full animate-spin mb-4"></div>
-          <p className="text-lg">Loading menu...</p>
+          <div className="w-12 h-12 border-t-2 border-b-2 border-brand-primary rounded-full animate-spin mb-4"></div>
+          <p className="text-lg">{t("loadingMenu")}</p>
         </div>
       </div>
     );
@@ -624,23 +1164,26 @@ export default function MenuCardPage() {
 
   if (error) {
     return (
-      <div className="min-h-screen bg-[#051119] text-white flex items-center justify-center p-4">
-        <div className="bg-[#0A2331] rounded-lg p-8 max-w-md w-full text-center">
+      <div
+        className="font-brand min-h-screen bg-brand-background text-white flex items-center justify-center p-4"
+        style={brandStyle}
+      >
+        <div className="bg-brand-surface rounded-lg p-8 max-w-md w-full text-center">
           <div className="flex justify-center mb-6">
             <AlertCircle className="h-16 w-16 text-amber-500" />
           </div>
-          <h2 className="text-2xl font-semibold mb-3">Menu Unavailable</h2>
-          <p className="text-gray-300 mb-6">{error}</p>
+          <h2 className="font-brand-heading text-2xl font-semibold mb-3">{t("menuUnavailable")}</h2>
+          <p className="text-gray-300 mb-6">{t(error)}</p>
           <div className="flex flex-col items-center gap-4">
             <button
               onClick={handleBack}
               className="w-full px-4 py-3 bg-amber-500 text-black rounded-lg font-medium hover:bg-amber-400 transition-colors"
             >
-              Go Back
+              {t("goBack")}
             </button>
             <div className="flex items-center gap-2 text-gray-400 text-sm mt-2">
               <Coffee className="h-4 w-4" />
-              <span>Or ask our staff for assistance</span>
+              <span>{t("askStaff")}</span>
             </div>
           </div>
         </div>
@@ -649,74 +1192,155 @@ export default function MenuCardPage() {
   }
 
   return (
-    <div className="min-h-screen bg-[#051119] text-white pb-24">
+    <div
+        className="font-brand min-h-screen bg-brand-background text-white pb-24"
+        style={brandStyle}
+      >
       {/* Header */}
-      <header className="sticky top-0 z-50 bg-[#0A2331] border-b border-[#00EAF0]/20">
+      <header className="sticky top-0 z-50 bg-brand-surface border-b border-brand-primary/20">
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              <div
-                className="flex-shrink-0"
-                style={{ width: "auto", height: "42px" }}
-              >
-                <img
-                  src="/logo.png"
-                  alt="Hotel Dastan"
-                  className="h-full w-auto object-contain"
-                  style={{ maxWidth: "none" }}
-                />
-              </div>
+              <BrandLogo branding={branding} />
             </div>
+            <div className="flex items-center gap-2">
+            {/* Sign in, order history and reorder */}
+            <button
+              className="p-2 rounded-full hover:bg-brand-muted"
+              onClick={() => setShowAccountSheet(true)}
+            >
+              <UserRound
+                className={`h-5 w-5 ${account ? "text-brand-accent" : "text-brand-primary"}`}
+              />
+              <span className="sr-only">{t("yourOrders")}</span>
+            </button>
+            {/* Language picker */}
+            <label className="flex items-center gap-1 text-brand-primary">
+              <Globe className="h-5 w-5" />
+              <span className="sr-only">{t("language")}</span>
+              <select
+                value={language}
+                onChange={(e) =>
+                  handleLanguageChange(e.target.value as LanguageCode)
+                }
+                className="bg-brand-surface border border-brand-muted rounded-md text-sm text-white px-2 py-1 focus:outline-none focus:ring-2 focus:ring-brand-primary/30"
+              >
+                {SUPPORTED_LANGUAGES.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
             {/* Only show cart icon if menu is accepting orders */}
-            {menu?.isAcceptingOrders && (
+            {isAcceptingOrders && (
               <button
-                className="p-2 rounded-full hover:bg-[#13465D] relative"
+                className="p-2 rounded-full hover:bg-brand-muted relative"
                 onClick={() => setIsCartOpen(true)}
               >
-                <ShoppingCart className="h-6 w-6 text-[#00EAF0]" />
+                <ShoppingCart className="h-6 w-6 text-brand-primary" />
                 {cartCount > 0 && (
-                  <span className="absolute -top-1 -right-1 bg-[#00EAF0] text-[#051119] text-xs rounded-full h-5 w-5 flex items-center justify-center font-bold">
+                  <span className="absolute -top-1 -right-1 bg-brand-primary text-brand-on-primary text-xs rounded-full h-5 w-5 flex items-center justify-center font-bold">
                     {cartCount}
                   </span>
                 )}
               </button>
             )}
             {/* Add a spacer element when cart is hidden to maintain header layout */}
-            {!menu?.isAcceptingOrders && <div className="w-10"></div>}
+            {!isAcceptingOrders && <div className="w-10"></div>}
+            </div>
           </div>
         </div>
       </header>
 
+      {/* Hero image */}
+      {branding.heroImageUrl && (
+        <img
+          src={branding.heroImageUrl}
+          alt={branding.name}
+          className="w-full h-40 md:h-56 object-cover"
+        />
+      )}
+
       {/* Notice Banner */}
       {showNoticeBanner && (
-        <div className="bg-[#00EAF0]/20 px-4 py-3">
+        <div className="bg-brand-primary/20 px-4 py-3">
           <div className="container mx-auto flex items-center">
-            <Info className="h-5 w-5 mr-2 text-[#00EAF0]" />
-            <p className="text-sm text-[#00EAF0]">{noticeMessage}</p>
+            <Info className="h-5 w-5 mr-2 text-brand-primary" />
+            <p className="text-sm text-brand-primary">{noticeMessage}</p>
           </div>
         </div>
       )}
 
+      {/* Invitation to rate a completed order */}
+      {feedbackOrders.length > 0 && (
+        <div className="bg-amber-500/20 px-4 py-3">
+          <div className="container mx-auto flex items-center">
+            <button
+              className="flex-1 flex items-center text-left"
+              onClick={() => setShowFeedbackSheet(true)}
+            >
+              <Star className="h-5 w-5 mr-2 text-amber-400" />
+              <span className="text-sm text-amber-400">
+                {t("rateYourMeal", { orderId: feedbackOrders[0].id })}
+              </span>
+            </button>
+            <button
+              className="p-1 text-amber-400 hover:text-white"
+              onClick={() => dismissFeedbackInvite(feedbackOrders[0].id)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Kitchen hours for scheduled menus */}
+      {menu?.isAcceptingOrders && !menuStatus.isOpen && (
+        <div className="bg-amber-500/20 px-4 py-3">
+          <div className="container mx-auto flex items-center">
+            <Clock className="h-5 w-5 mr-2 text-amber-400" />
+            <p className="text-sm text-amber-400">
+              {t("kitchenClosed")}
+              {menuStatus.opensAt &&
+                ` · ${t("opensAt", { time: formatOpeningTime(menuStatus.opensAt) })}`}
+            </p>
+          </div>
+        </div>
+      )}
+      {isAcceptingOrders &&
+        minutesUntilClosing !== null &&
+        minutesUntilClosing <= CLOSING_SOON_MINUTES && (
+          <div className="bg-amber-500/20 px-4 py-3">
+            <div className="container mx-auto flex items-center">
+              <Clock className="h-5 w-5 mr-2 text-amber-400" />
+              <p className="text-sm text-amber-400">
+                {t("kitchenClosesIn", { minutes: minutesUntilClosing })}
+              </p>
+            </div>
+          </div>
+        )}
+
       {/* Tab Navigation */}
-      <div className="bg-[#0A2331] border-b border-[#13465D]">
+      <div className="bg-brand-surface border-b border-brand-muted">
         <div className="container mx-auto px-4">
           <div className="flex">
             <button
               className={`px-4 py-3 font-medium text-sm transition-colors relative ${
                 activeTab === "menu"
-                  ? "text-[#00EAF0]"
-                  : "text-gray-400 hover:text-[#00EAF0]"
+                  ? "text-brand-primary"
+                  : "text-gray-400 hover:text-brand-primary"
               }`}
               onClick={() => setActiveTab("menu")}
             >
               <span className="flex items-center gap-2">
                 <AlignJustify className="h-4 w-4" />
-                Menu
+                {t("menu")}
               </span>
               {activeTab === "menu" && (
                 <motion.div
                   layoutId="activeTab"
-                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-[#00EAF0]"
+                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-brand-primary"
                 />
               )}
             </button>
@@ -725,25 +1349,25 @@ export default function MenuCardPage() {
               <button
                 className={`px-4 py-3 font-medium text-sm transition-colors relative ${
                   activeTab === "orders"
-                    ? "text-[#00EAF0]"
-                    : "text-gray-400 hover:text-[#00EAF0]"
+                    ? "text-brand-primary"
+                    : "text-gray-400 hover:text-brand-primary"
                 }`}
                 onClick={() => setActiveTab("orders")}
               >
                 <span className="flex items-center gap-2">
                   <Clock className="h-4 w-4" />
-                  Orders
+                  {t("orders")}
                   {orders.some((order) => order.status === "READY") && (
                     <span className="flex h-2 w-2 relative">
-                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-[#00EAF0] opacity-75"></span>
-                      <span className="relative inline-flex rounded-full h-2 w-2 bg-[#00EAF0]"></span>
+                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-brand-primary opacity-75"></span>
+                      <span className="relative inline-flex rounded-full h-2 w-2 bg-brand-primary"></span>
                     </span>
                   )}
                 </span>
                 {activeTab === "orders" && (
                   <motion.div
                     layoutId="activeTab"
-                    className="absolute bottom-0 left-0 right-0 h-0.5 bg-[#00EAF0]"
+                    className="absolute bottom-0 left-0 right-0 h-0.5 bg-brand-primary"
                   />
                 )}
               </button>
@@ -752,19 +1376,19 @@ export default function MenuCardPage() {
             <button
               className={`px-4 py-3 font-medium text-sm transition-colors relative ${
                 activeTab === "info"
-                  ? "text-[#00EAF0]"
-                  : "text-gray-400 hover:text-[#00EAF0]"
+                  ? "text-brand-primary"
+                  : "text-gray-400 hover:text-brand-primary"
               }`}
               onClick={() => setActiveTab("info")}
             >
               <span className="flex items-center gap-2">
                 <Info className="h-4 w-4" />
-                Info
+                {t("info")}
               </span>
               {activeTab === "info" && (
                 <motion.div
                   layoutId="activeTab"
-                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-[#00EAF0]"
+                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-brand-primary"
                 />
               )}
             </button>
@@ -785,11 +1409,11 @@ export default function MenuCardPage() {
             {/* Search and filters */}
             <div className="relative mb-6">
               <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-[#00EAF0] h-5 w-5" />
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-brand-primary h-5 w-5" />
                 <input
                   type="text"
-                  placeholder="Search menu..."
-                  className="w-full bg-[#0A2331] border border-[#13465D] rounded-lg pl-10 pr-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-[#00EAF0]/30"
+                  placeholder={t("searchMenu")}
+                  className="w-full bg-brand-surface border border-brand-muted rounded-lg pl-10 pr-4 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-primary/30"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                 />
@@ -800,37 +1424,123 @@ export default function MenuCardPage() {
                 <button
                   className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap ${
                     selectedCategory === "all"
-                      ? "bg-[#00EAF0] text-[#051119] font-medium"
-                      : "bg-[#0A2331] text-white hover:bg-[#13465D]"
+                      ? "bg-brand-primary text-brand-on-primary font-medium"
+                      : "bg-brand-surface text-white hover:bg-brand-muted"
                   }`}
                   onClick={() => setSelectedCategory("all")}
                 >
-                  All
+                  {t("all")}
                 </button>
+                {account && favourites.length > 0 && (
+                  <button
+                    className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-sm whitespace-nowrap ${
+                      selectedCategory === FAVOURITES_CATEGORY
+                        ? "bg-brand-primary text-brand-on-primary font-medium"
+                        : "bg-brand-surface text-white hover:bg-brand-muted"
+                    }`}
+                    onClick={() => setSelectedCategory(FAVOURITES_CATEGORY)}
+                  >
+                    <Heart className="h-3.5 w-3.5" />
+                    {t("favourites")}
+                  </button>
+                )}
                 {categories.map((category) => (
                   <button
                     key={category.id}
                     className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap ${
                       selectedCategory === category.id.toString()
-                        ? "bg-[#00EAF0] text-[#051119] font-medium"
-                        : "bg-[#0A2331] text-white hover:bg-[#13465D]"
+                        ? "bg-brand-primary text-brand-on-primary font-medium"
+                        : "bg-brand-surface text-white hover:bg-brand-muted"
                     }`}
                     onClick={() => setSelectedCategory(category.id.toString())}
                   >
-                    {category.name}
+                    {getLocalizedName(category, language)}
                   </button>
                 ))}
               </div>
+
+              {/* Dietary filter chips */}
+              <div className="flex gap-2 overflow-x-auto pb-2 hide-scrollbar">
+                {DIETARY_FILTERS.map((filter) => (
+                  <button
+                    key={filter.id}
+                    className={`px-3 py-1 rounded-full text-xs whitespace-nowrap border ${
+                      dietaryFilters.includes(filter.id)
+                        ? "bg-green-500 border-green-500 text-brand-background font-medium"
+                        : "border-brand-muted text-gray-300 hover:bg-brand-muted"
+                    }`}
+                    onClick={() => toggleDietaryFilter(filter.id)}
+                  >
+                    {t(`filter.${filter.id}` as MenuStringKey)}
+                  </button>
+                ))}
+                <button
+                  className={`px-3 py-1 rounded-full text-xs whitespace-nowrap border flex items-center gap-1 ${
+                    avoidedAllergens.length > 0
+                      ? "border-amber-500 text-amber-400"
+                      : "border-brand-muted text-gray-300 hover:bg-brand-muted"
+                  }`}
+                  onClick={() => setShowAllergenPanel(!showAllergenPanel)}
+                >
+                  <ShieldAlert className="h-3 w-3" />
+                  {t("allergies")}
+                  {avoidedAllergens.length > 0 && ` (${avoidedAllergens.length})`}
+                </button>
+              </div>
+
+              {/* Hide items containing the selected allergens */}
+              <AnimatePresence>
+                {showAllergenPanel && (
+                  <motion.div
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: "auto", opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="bg-brand-surface border border-brand-muted rounded-lg p-3 mt-2">
+                      <p className="text-sm text-white mb-2">
+                        {t("hideItemsContaining")}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {(Object.keys(ALLERGEN_LABELS) as Allergen[]).map(
+                          (allergen) => (
+                            <button
+                              key={allergen}
+                              className={`px-3 py-1 rounded-full text-xs border ${
+                                avoidedAllergens.includes(allergen)
+                                  ? "bg-amber-500 border-amber-500 text-brand-background font-medium"
+                                  : "border-brand-muted text-gray-300 hover:bg-brand-muted"
+                              }`}
+                              onClick={() => toggleAvoidedAllergen(allergen)}
+                            >
+                              {t(`allergen.${allergen}` as MenuStringKey)}
+                            </button>
+                          )
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-400 mt-2">
+                        {t("allergenPreferenceNote")}
+                      </p>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              {hiddenByAllergensCount > 0 && (
+                <p className="text-xs text-amber-400 mt-2">
+                  {t("hiddenByAllergies", { count: hiddenByAllergensCount })}
+                </p>
+              )}
             </div>
 
             {/* Menu Items */}
             {Object.keys(byCategory).length === 0 ? (
-              <div className="bg-[#0A2331] rounded-lg p-8 text-center">
-                <h3 className="text-xl font-medium mb-2 text-[#00EAF0]">
-                  No items found
+              <div className="bg-brand-surface rounded-lg p-8 text-center">
+                <h3 className="text-xl font-medium mb-2 text-brand-primary">
+                  {t("noItemsFound")}
                 </h3>
                 <p className="text-gray-400">
-                  Try adjusting your search or filters
+                  {t("adjustFilters")}
                 </p>
               </div>
             ) : (
@@ -860,7 +1570,7 @@ export default function MenuCardPage() {
 
                     return (
                       <div key={categoryName}>
-                        <h2 className="text-xl font-bold mb-2 border-b border-[#13465D] pb-2 text-[#00EAF0]">
+                        <h2 className="font-brand-heading text-xl font-bold mb-2 border-b border-brand-muted pb-2 text-brand-primary">
                           {categoryName}
                         </h2>
 
@@ -872,8 +1582,8 @@ export default function MenuCardPage() {
                                 key={subcategory}
                                 className={`px-3 py-1.5 rounded-full text-sm whitespace-nowrap transition-colors ${
                                   activeSubcategory === subcategory
-                                    ? "bg-[#00EAF0] text-[#051119] font-medium"
-                                    : "bg-[#0A2331] text-white hover:bg-[#13465D]"
+                                    ? "bg-brand-primary text-brand-on-primary font-medium"
+                                    : "bg-brand-surface text-white hover:bg-brand-muted"
                                 }`}
                                 onClick={() =>
                                   setActiveSubcategories((prev) => ({
@@ -882,7 +1592,7 @@ export default function MenuCardPage() {
                                   }))
                                 }
                               >
-                                {subcategory}
+                                {subcategory === "All" ? t("all") : subcategory}
                               </button>
                             ))}
                           </div>
@@ -892,7 +1602,7 @@ export default function MenuCardPage() {
                           {filteredCategoryItems.map((item) => (
                             <motion.div
                               key={item.id}
-                              className={`bg-[#0D3446] rounded-lg overflow-hidden flex flex-col sm:flex-row ${
+                              className={`bg-brand-surface-alt rounded-lg overflow-hidden flex flex-col sm:flex-row ${
                                 !item.isAvailable ? "opacity-60" : ""
                               }`}
                               variants={itemVariants}
@@ -901,10 +1611,13 @@ export default function MenuCardPage() {
                               }
                             >
                               {item.imageUrl && (
-                                <div className="sm:w-1/3 h-40 sm:h-auto relative">
+                                <div
+                                  className="sm:w-1/3 h-40 sm:h-auto relative cursor-pointer"
+                                  onClick={() => setDetailItem(item)}
+                                >
                                   <img
                                     src={item.imageUrl}
-                                    alt={item.name}
+                                    alt={getLocalizedName(item, language)}
                                     className="h-full w-full object-cover"
                                     onError={(e) => {
                                       (e.target as HTMLImageElement).src =
@@ -914,13 +1627,13 @@ export default function MenuCardPage() {
                                   {!item.isAvailable && (
                                     <div className="absolute inset-0 bg-black/70 flex items-center justify-center">
                                       <span className="bg-red-500 text-white px-2 py-1 rounded text-sm font-medium">
-                                        Unavailable
+                                        {t("unavailable")}
                                       </span>
                                     </div>
                                   )}
                                   {/* Display first tag as badge if it exists */}
                                   {item.tags && item.tags.length > 0 && (
-                                    <span className="absolute top-2 left-2 bg-[#00EAF0] text-[#051119] px-2 py-1 rounded-full text-xs font-medium">
+                                    <span className="absolute top-2 left-2 bg-brand-primary text-brand-on-primary px-2 py-1 rounded-full text-xs font-medium">
                                       {item.tags[0]}
                                     </span>
                                   )}
@@ -930,27 +1643,49 @@ export default function MenuCardPage() {
                                 !item.imageUrl ? "sm:w-full" : "sm:w-2/3"
                               }`}>
                                 <div className="flex justify-between items-start mb-1">
-                                  <h3 className="font-bold text-[#00EAF0]">
-                                    {item.name}
-                                  </h3>
+                                  <div className="flex items-start gap-2">
+                                    <h3
+                                      className="font-brand-heading font-bold text-brand-primary cursor-pointer"
+                                      onClick={() => setDetailItem(item)}
+                                    >
+                                      {getLocalizedName(item, language)}
+                                    </h3>
+                                    <button
+                                      className="mt-0.5"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        toggleFavourite(item.id);
+                                      }}
+                                    >
+                                      <Heart
+                                        className={`h-4 w-4 ${
+                                          favourites.includes(item.id)
+                                            ? "fill-brand-primary text-brand-primary"
+                                            : "text-gray-400"
+                                        }`}
+                                      />
+                                      <span className="sr-only">{t("favourites")}</span>
+                                    </button>
+                                  </div>
                                   <div>
-                                    {hasHalfPortionPrice(item) ? (
+                                    {getItemVariants(item).length > 0 ? (
                                       <div className="flex flex-col items-end">
-                                        <div className="flex items-center">
-                                          <span className="text-sm text-[#84F0F5] mr-2">Full</span>
-                                          <span className="font-bold text-lg text-[#00EAF0]">
-                                            {formatPrice(item.fullPrice)}
-                                          </span>
-                                        </div>
-                                        <div className="flex items-center mt-1">
-                                          <span className="text-sm text-[#84F0F5] mr-2">Half</span>
-                                          <span className="font-bold text-[#00EAF0]">
-                                            {formatPrice(item.halfPrice || 0)}
-                                          </span>
-                                        </div>
+                                        {getItemVariants(item).map((variant, index) => (
+                                          <div
+                                            key={variant.id}
+                                            className={`flex items-center ${index > 0 ? "mt-1" : ""}`}
+                                          >
+                                            <span className="text-sm text-brand-accent mr-2">
+                                              {variant.name}
+                                            </span>
+                                            <span className="font-bold text-brand-primary">
+                                              {formatPrice(variant.price)}
+                                            </span>
+                                          </div>
+                                        ))}
                                       </div>
                                     ) : (
-                                      <span className="font-bold text-lg text-[#00EAF0]">
+                                      <span className="font-bold text-lg text-brand-primary">
                                         {formatPrice(item.fullPrice)}
                                       </span>
                                     )}
@@ -959,20 +1694,101 @@ export default function MenuCardPage() {
                                 
                                 <div>
                                   {item.subcategory && (
-                                    <span className="text-xs px-2 py-0.5 rounded-full bg-[#13465D] text-gray-300">
+                                    <span className="text-xs px-2 py-0.5 rounded-full bg-brand-muted text-gray-300">
                                       {item.subcategory}
                                     </span>
                                   )}
                                   
-                                  {item.description && (
+                                  {getLocalizedDescription(item, language) && (
                                     <p className="text-gray-300 text-sm mt-1 line-clamp-2">
-                                      {item.description}
+                                      {getLocalizedDescription(item, language)}
                                     </p>
                                   )}
                                  
-                                  <p className="text-sm text-[#84F0F5] mb-2">
-                                    Preparation time: {item.preparationTime} mins
+                                  <p className="text-sm text-brand-accent mb-2">
+                                    {t("preparationTime", {
+                                      minutes: item.preparationTime,
+                                    })}
                                   </p>
+
+                                  {itemRatings[item.id] && (
+                                    <div className="flex items-center gap-1 mb-2 text-xs text-gray-300">
+                                      <StarRating
+                                        value={itemRatings[item.id].averageRating}
+                                        size="sm"
+                                      />
+                                      <span>
+                                        {itemRatings[item.id].averageRating.toFixed(1)}{" "}
+                                        {t("ratingCount", {
+                                          count: itemRatings[item.id].ratingCount,
+                                        })}
+                                      </span>
+                                    </div>
+                                  )}
+
+                                  {getItemAvailabilityText(item) && (
+                                    <p className="text-xs text-amber-400 mb-2">
+                                      {getItemAvailabilityText(item)}
+                                    </p>
+                                  )}
+
+                                  {item.combo && isCombo(item) && (
+                                    <div className="mb-2">
+                                      <span className="text-xs px-2 py-0.5 rounded-full bg-brand-primary/20 text-brand-primary">
+                                        {t("combo")}
+                                      </span>
+                                      <ul className="mt-1 text-xs text-gray-300">
+                                        {item.combo.slots.map((slot, index) => (
+                                          <li key={slot.id ?? index}>
+                                            {slot.quantity > 1 && `${slot.quantity}× `}
+                                            {getSlotOptions(slot, items)
+                                              .map((option) => option.name)
+                                              .join(" / ")}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    </div>
+                                  )}
+
+                                  {hasModifierGroups(item) && (
+                                    <p className="text-xs text-gray-400 mb-2">
+                                      {t("customisable")}
+                                    </p>
+                                  )}
+
+                                  {/* Dietary badges and allergens */}
+                                  {item.dietaryInfo ? (
+                                    <div className="mb-2">
+                                      {item.dietaryInfo.labels.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mb-1">
+                                          {item.dietaryInfo.labels.map((label) => (
+                                            <span
+                                              key={label}
+                                              className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-400"
+                                            >
+                                              {t(`diet.${label}` as MenuStringKey)}
+                                            </span>
+                                          ))}
+                                        </div>
+                                      )}
+                                      {item.dietaryInfo.allergens.length > 0 && (
+                                        <p className="text-xs text-gray-400">
+                                          {t("contains")}{" "}
+                                          {item.dietaryInfo.allergens
+                                            .map((allergen) =>
+                                              t(`allergen.${allergen}` as MenuStringKey)
+                                            )
+                                            .join(", ")}
+                                        </p>
+                                      )}
+                                    </div>
+                                  ) : (
+                                    avoidedAllergens.length > 0 && (
+                                      <p className="text-xs text-amber-400 mb-2">
+                                        {t("allergenInfoMissing")}
+                                      </p>
+                                    )
+                                  )}
                                   
                                   {/* Display additional tags */}
                                   {item.tags && item.tags.length > 1 && (
@@ -980,13 +1796,13 @@ export default function MenuCardPage() {
                                       {item.tags.slice(1, 4).map((tag) => (
                                         <span
                                           key={tag}
-                                          className="text-xs px-2 py-0.5 rounded-full bg-[#13465D] text-[#84F0F5]"
+                                          className="text-xs px-2 py-0.5 rounded-full bg-brand-muted text-brand-accent"
                                         >
                                           {tag}
                                         </span>
                                       ))}
                                       {item.tags.length > 4 && (
-                                        <span className="text-xs px-2 py-0.5 rounded-full bg-[#13465D] text-[#84F0F5]">
+                                        <span className="text-xs px-2 py-0.5 rounded-full bg-brand-muted text-brand-accent">
                                           +{item.tags.length - 4} more
                                         </span>
                                       )}
@@ -997,178 +1813,69 @@ export default function MenuCardPage() {
                                 {/* Add to cart button with quantity controls */}
                                 <div className="flex gap-2 mt-1">
                                   {item.isAvailable &&
-                                    menu?.isAcceptingOrders && (
+                                    isAcceptingOrders && (
                                       <div className="flex flex-col gap-2 w-full">
                                         {/* Order buttons with integrated quantity controls */}
-                                        <div className="flex gap-2">
-                                          {hasHalfPortionPrice(item) ? (
-                                            <>
-                                              {/* Half Portion Button */}
+                                        <div className="flex flex-wrap gap-2">
+                                          {(getItemVariants(item).length > 0
+                                            ? getItemVariants(item)
+                                            : [null]
+                                          ).map((variant) => {
+                                            const variantId = variant?.id ?? null;
+                                            const quantity =
+                                              itemQuantities[getQuantityKey(item.id, variantId)];
+
+                                            return (
                                               <motion.div
-                                                className="flex-1 flex items-center justify-between bg-amber-600 rounded-lg overflow-hidden"
+                                                key={variantId ?? "base"}
+                                                className="flex-1 min-w-[45%] flex items-center justify-between bg-brand-primary rounded-lg overflow-hidden"
                                                 whileTap={{ scale: 0.98 }}
                                               >
                                                 <motion.button
-                                                  className="w-10 h-10 flex items-center justify-center hover:bg-amber-700 transition-colors duration-200"
+                                                  className="w-10 h-10 flex items-center justify-center hover:bg-brand-primary-hover transition-colors duration-200"
                                                   onClick={(e) => {
                                                     e.stopPropagation();
-                                                    decrementHalfQuantity(
-                                                      item.id
-                                                    );
+                                                    decrementQuantity(item.id, variantId);
                                                   }}
                                                 >
-                                                  <Minus className="h-4 w-4 text-white" />
+                                                  <Minus className="h-4 w-4 text-brand-on-primary" />
                                                 </motion.button>
 
                                                 <motion.button
-                                                  className="flex-1 px-2 py-2 text-sm font-medium text-white"
+                                                  className="flex-1 px-2 py-2 text-sm font-medium text-brand-on-primary"
                                                   onClick={() => {
-                                                    // Reset quantity in UI only - cart is already updated
-                                                    setHalfPortionQuantities(
-                                                      (prev) => ({
-                                                        ...prev,
-                                                        [item.id]: 0,
-                                                      })
-                                                    );
                                                     // Refresh cart data
-                                                    if (table)
-                                                      fetchCartData(table.id);
+                                                    refreshCart();
                                                   }}
                                                   whileTap={{
-                                                    backgroundColor: "#92400e",
+                                                    backgroundColor: branding.palette.primaryHover,
                                                   }}
-                                                  disabled={
-                                                    !halfPortionQuantities[
-                                                      item.id
-                                                    ]
-                                                  }
+                                                  disabled={!quantity}
                                                 >
                                                   <div className="flex flex-col items-center">
-                                                    <span>ORDER HALF</span>
-                                                    <span className="text-xs text-white/90">
-                                                      {halfPortionQuantities[
-                                                        item.id
-                                                      ] || ""}
+                                                    <span>
+                                                      {variant
+                                                        ? variant.name.toUpperCase()
+                                                        : "ORDER"}
                                                     </span>
-                                                  </div>
-                                                </motion.button>
-
-                                                <motion.button
-                                                  className="w-10 h-10 flex items-center justify-center hover:bg-amber-700 transition-colors duration-200"
-                                                  onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    incrementHalfQuantity(
-                                                      item.id
-                                                    );
-                                                  }}
-                                                >
-                                                  <Plus className="h-4 w-4 text-white" />
-                                                </motion.button>
-                                              </motion.div>
-
-                                              {/* Full Portion Button */}
-                                              <motion.div
-                                                className="flex-1 flex items-center justify-between bg-[#00EAF0] rounded-lg overflow-hidden"
-                                                whileTap={{ scale: 0.98 }}
-                                              >
-                                                <motion.button
-                                                  className="w-10 h-10 flex items-center justify-center hover:bg-[#00A0A8] transition-colors duration-200"
-                                                  onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    decrementQuantity(item.id);
-                                                  }}
-                                                >
-                                                  <Minus className="h-4 w-4 text-[#051119]" />
-                                                </motion.button>
-
-                                                <motion.button
-                                                  className="flex-1 px-2 py-2 text-sm font-medium text-[#051119]"
-                                                  onClick={() => {
-                                                    setItemQuantities((prev) => ({
-                                                      ...prev,
-                                                      [item.id]: 0,
-                                                    }));
-                                                    if (table)
-                                                      fetchCartData(table.id);
-                                                  }}
-                                                  whileTap={{
-                                                    backgroundColor: "#00B0B8",
-                                                  }}
-                                                  disabled={
-                                                    !itemQuantities[item.id]
-                                                  }
-                                                >
-                                                  <div className="flex flex-col items-center">
-                                                    <span>ORDER FULL</span>
-                                                    <span className="text-xs text-[#051119]/90">
-                                                      {itemQuantities[item.id] || ""}
+                                                    <span className="text-xs text-brand-on-primary/90">
+                                                      {quantity || ""}
                                                     </span>
                                                   </div>
                                                 </motion.button>
 
                                                 <motion.button
-                                                  className="w-10 h-10 flex items-center justify-center hover:bg-[#00A0A8] transition-colors duration-200"
+                                                  className="w-10 h-10 flex items-center justify-center hover:bg-brand-primary-hover transition-colors duration-200"
                                                   onClick={(e) => {
                                                     e.stopPropagation();
-                                                    incrementQuantity(item.id);
+                                                    incrementQuantity(item.id, variantId);
                                                   }}
                                                 >
-                                                  <Plus className="h-4 w-4 text-[#051119]" />
+                                                  <Plus className="h-4 w-4 text-brand-on-primary" />
                                                 </motion.button>
                                               </motion.div>
-                                            </>
-                                          ) : (
-                                            /* Single Order Button for items without half portions */
-                                            <motion.div
-                                              className="w-full flex items-center justify-between bg-[#00EAF0] rounded-lg overflow-hidden"
-                                              whileTap={{ scale: 0.98 }}
-                                            >
-                                              <motion.button
-                                                className="w-10 h-10 flex items-center justify-center hover:bg-[#00A0A8] transition-colors duration-200"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  decrementQuantity(item.id);
-                                                }}
-                                              >
-                                                <Minus className="h-4 w-4 text-[#051119]" />
-                                              </motion.button>
-
-                                              <motion.button
-                                                className="flex-1 px-2 py-2 text-sm font-medium text-[#051119]"
-                                                onClick={() => {
-                                                  setItemQuantities((prev) => ({
-                                                    ...prev,
-                                                    [item.id]: 0,
-                                                  }));
-                                                  if (table)
-                                                    fetchCartData(table.id);
-                                                }}
-                                                whileTap={{
-                                                  backgroundColor: "#00B0B8",
-                                                }}
-                                                disabled={
-                                                  !itemQuantities[item.id]
-                                                }
-                                              >
-                                                <div className="flex flex-col items-center">
-                                                  <span>ORDER</span>
-                                                  <span className="text-xs text-[#051119]/90">
-                                                    {itemQuantities[item.id] || ""}
-                                                  </span>
-                                                </div>
-                                              </motion.button>
-
-                                              <motion.button
-                                                className="w-10 h-10 flex items-center justify-center hover:bg-[#00A0A8] transition-colors duration-200"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  incrementQuantity(item.id);
-                                                }}
-                                              >
-                                                <Plus className="h-4 w-4 text-[#051119]" />
-                                              </motion.button>
-                                            </motion.div>
-                                          )}
+                                            );
+                                          })}
                                         </div>
                                       </div>
                                     )}
@@ -1179,7 +1886,7 @@ export default function MenuCardPage() {
                                       className="w-full px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-700/50 text-gray-400 cursor-not-allowed transition-colors"
                                       disabled
                                     >
-                                      Unavailable
+                                      {t("unavailable")}
                                     </button>
                                   )}
                                 </div>
@@ -1203,18 +1910,18 @@ export default function MenuCardPage() {
             className="container mx-auto px-4 py-6 mb-24"
           >
             <div className="mb-4">
-              <h2 className="text-xl font-bold mb-2">Your Orders</h2>
+              <h2 className="font-brand-heading text-xl font-bold mb-2">{t("yourOrders")}</h2>
               <p className="text-gray-400 text-sm">
-                Track the status of your orders in real-time
+                {t("trackOrders")}
               </p>
             </div>
 
             {orders.length === 0 ? (
               <div className="bg-zinc-800/50 rounded-lg p-8 text-center">
                 <Clock className="h-12 w-12 mx-auto text-gray-500 mb-4" />
-                <h3 className="text-xl font-medium mb-2">No active orders</h3>
+                <h3 className="text-xl font-medium mb-2">{t("noActiveOrders")}</h3>
                 <p className="text-gray-400">
-                  Your orders will appear here once you place them
+                  {t("ordersAppearHere")}
                 </p>
               </div>
             ) : (
@@ -1232,12 +1939,12 @@ export default function MenuCardPage() {
                       <div className="flex justify-between items-center">
                         <div className="flex items-center">
                           <span className="font-bold text-lg mr-2">
-                            Order #{order.id}
+                            {t("order", { id: order.id })}
                           </span>
                           <span
                             className={`px-3 py-1 rounded-full text-xs font-medium ${order.statusColor}`}
                           >
-                            {order.statusText}
+                            {getStatusText(order)}
                           </span>
                         </div>
                         <p className="text-sm text-gray-400">
@@ -1279,7 +1986,12 @@ export default function MenuCardPage() {
                               <CheckCircle className="h-4 w-4 text-black" />
                             </div>
                             <span className="mt-2 text-xs font-medium">
-                              Received
+                              {t("stepReceived")}
+                            </span>
+                            <span className="text-[10px] text-gray-400 h-3">
+                              {formatClockTime(
+                                getStatusTimestamp(order, "PENDING")
+                              )}
                             </span>
                           </div>
 
@@ -1305,7 +2017,12 @@ export default function MenuCardPage() {
                               <Utensils className="h-4 w-4 text-black" />
                             </div>
                             <span className="mt-2 text-xs font-medium">
-                              Preparing
+                              {t("stepPreparing")}
+                            </span>
+                            <span className="text-[10px] text-gray-400 h-3">
+                              {formatClockTime(
+                                getStatusTimestamp(order, "PREPARING")
+                              )}
                             </span>
                           </div>
 
@@ -1327,7 +2044,12 @@ export default function MenuCardPage() {
                               <CheckCircle className="h-4 w-4 text-black" />
                             </div>
                             <span className="mt-2 text-xs font-medium">
-                              Ready
+                              {t("stepReady")}
+                            </span>
+                            <span className="text-[10px] text-gray-400 h-3">
+                              {formatClockTime(
+                                getStatusTimestamp(order, "READY")
+                              )}
                             </span>
                           </div>
 
@@ -1349,7 +2071,12 @@ export default function MenuCardPage() {
                               <Truck className="h-4 w-4 text-black" />
                             </div>
                             <span className="mt-2 text-xs font-medium">
-                              Delivered
+                              {t("stepDelivered")}
+                            </span>
+                            <span className="text-[10px] text-gray-400 h-3">
+                              {formatClockTime(
+                                getStatusTimestamp(order, "DELIVERED")
+                              )}
                             </span>
                           </div>
                         </div>
@@ -1368,24 +2095,40 @@ export default function MenuCardPage() {
                           {order.icon}
                         </motion.div>
                         <div>
-                          <h4 className="font-medium">{order.statusText}</h4>
+                          <h4 className="font-medium">{getStatusText(order)}</h4>
                           <p className="text-xs mt-1 opacity-80">
-                            {order.status === "PENDING" &&
-                              "Your order has been received and will be prepared soon."}
+                            {order.status === "PENDING" && t("pendingMessage")}
                             {order.status === "PREPARING" &&
-                              "Our chefs are preparing your delicious meal right now."}
-                            {order.status === "READY" &&
-                              "Your order is ready! Please pick it up from the counter."}
+                              t("preparingMessage")}
+                            {order.status === "READY" && t("readyMessage")}
                             {order.status === "DELIVERED" &&
-                              "Your order has been delivered. Enjoy your meal!"}
+                              t("deliveredMessage")}
                           </p>
                         </div>
                       </div>
+
+                      {/* Estimated ready time, updated live from the kitchen queue */}
+                      {getEstimateText(order) && (
+                        <div className="mt-3 flex items-start gap-2 text-sm text-gray-300">
+                          <Clock className="h-4 w-4 mt-0.5 text-brand-primary" />
+                          <div>
+                            <p>{getEstimateText(order)}</p>
+                            {order.status === "PENDING" &&
+                              getOrdersAhead(order, kitchenQueue) > 0 && (
+                                <p className="text-xs text-gray-400">
+                                  {t("ordersAhead", {
+                                    count: getOrdersAhead(order, kitchenQueue),
+                                  })}
+                                </p>
+                              )}
+                          </div>
+                        </div>
+                      )}
                     </div>
 
                     {/* Order Items */}
                     <div className="border-t border-zinc-700 p-4">
-                      <h4 className="font-medium mb-2">Order Items</h4>
+                      <h4 className="font-medium mb-2">{t("orderItems")}</h4>
                       <ul className="space-y-2">
                         {order.orderItems.map((item) => (
                           <li
@@ -1394,7 +2137,22 @@ export default function MenuCardPage() {
                           >
                             <span>
                               {item.quantity}x{" "}
-                              {item.item?.name || `Item #${item.itemId}`}
+                              {getOrderItemName(item)}
+                              {item.comboItems && item.comboItems.length > 0 && (
+                                <span className="block text-xs text-gray-400">
+                                  {formatComboItems(item.comboItems)}
+                                </span>
+                              )}
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <span className="block text-xs text-gray-400">
+                                  {formatModifiers(item.modifiers)}
+                                </span>
+                              )}
+                              {item.notes && (
+                                <span className="block text-xs italic text-gray-400">
+                                  "{item.notes}"
+                                </span>
+                              )}
                             </span>
                             <span className="text-gray-400">
                               {formatPrice(item.price * item.quantity)}
@@ -1403,7 +2161,7 @@ export default function MenuCardPage() {
                         ))}
                       </ul>
                       <div className="flex justify-between font-medium mt-4 pt-3 border-t border-zinc-700">
-                        <span>Total</span>
+                        <span>{t("total")}</span>
                         <span>{formatPrice(order.total)}</span>
                       </div>
                     </div>
@@ -1421,23 +2179,25 @@ export default function MenuCardPage() {
             className="container mx-auto px-4 py-6 mb-24"
           >
             <div className="bg-zinc-800 rounded-lg p-6">
-              <h2 className="text-xl font-bold mb-4 border-b border-zinc-700 pb-2">
-                Restaurant Information
+              <h2 className="font-brand-heading text-xl font-bold mb-4 border-b border-zinc-700 pb-2">
+                {t("restaurantInformation")}
               </h2>
 
               <div className="space-y-6">
                 <div>
-                  <h3 className="text-gray-400 text-sm mb-1">Table</h3>
-                  <p className="font-medium">Table #{tableNumber}</p>
+                  <h3 className="text-gray-400 text-sm mb-1">{t("table")}</h3>
+                  <p className="font-medium">
+                    {t("tableNumber", { number: table?.tableNumber ?? "" })}
+                  </p>
                   {table?.location && (
                     <p className="text-sm text-gray-300 mt-1">
-                      Location: {table.location}
+                      {t("location", { location: table.location })}
                     </p>
                   )}
                 </div>
 
                 <div>
-                  <h3 className="text-gray-400 text-sm mb-1">Menu</h3>
+                  <h3 className="text-gray-400 text-sm mb-1">{t("menu")}</h3>
                   <p className="font-medium">{menu?.name}</p>
                   {menu?.description && (
                     <p className="text-sm text-gray-300 mt-1">
@@ -1446,19 +2206,32 @@ export default function MenuCardPage() {
                   )}
                 </div>
 
-                <div>
-                  <h3 className="text-gray-400 text-sm mb-1">Hours</h3>
-                  <div className="space-y-1">
-                    <p className="text-sm">
-                      Opening Hours: 11:00 AM - 11:00 PM
-                    </p>
+                {branding.contact.hours && (
+                  <div>
+                    <h3 className="text-gray-400 text-sm mb-1">{t("hours")}</h3>
+                    <div className="space-y-1">
+                      <p className="text-sm">
+                        {t("openingHours")}: {branding.contact.hours}
+                      </p>
+                    </div>
                   </div>
-                </div>
+                )}
 
-                <div>
-                  <h3 className="text-gray-400 text-sm mb-1">Contact</h3>
-                  <p className="text-sm">Phone: 78377-11322</p>
-                </div>
+                {(branding.contact.phone || branding.contact.email) && (
+                  <div>
+                    <h3 className="text-gray-400 text-sm mb-1">{t("contact")}</h3>
+                    {branding.contact.phone && (
+                      <p className="text-sm">
+                        {t("phone")}: {branding.contact.phone}
+                      </p>
+                    )}
+                    {branding.contact.email && (
+                      <p className="text-sm">
+                        {t("email")}: {branding.contact.email}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </motion.div>
@@ -1467,12 +2240,12 @@ export default function MenuCardPage() {
 
       {/* Redesigned Sticky Footer */}
       <div
-        className={`fixed bottom-0 left-0 right-0 bg-[#051119] transition-all duration-500 ease-in-out z-50 ${
+        className={`fixed bottom-0 left-0 right-0 bg-brand-background transition-all duration-500 ease-in-out z-50 ${
           showFullFooter ? "h-auto" : "h-16"
         }`}
         style={{
           boxShadow: "0 -8px 16px rgba(0, 0, 0, 0.5)",
-          borderTop: "1px solid rgba(0, 234, 240, 0.15)",
+          borderTop: "1px solid rgb(var(--brand-primary) / 0.15)",
         }}
       >
         {/* Main Footer Content */}
@@ -1481,29 +2254,19 @@ export default function MenuCardPage() {
           <div className="flex items-center justify-between h-16">
             {/* Logo and Name */}
             <div className="flex items-center space-x-3">
-              <div
-                className="flex-shrink-0"
-                style={{ width: "auto", height: "42px" }}
-              >
-                <img
-                  src="/logo.png"
-                  alt="Hotel Dastan"
-                  className="h-full w-auto object-contain"
-                  style={{ maxWidth: "none" }}
-                />
-              </div>
+              <BrandLogo branding={branding} />
             </div>
 
             {/* Toggle Button */}
             <button
               onClick={() => setShowFullFooter(!showFullFooter)}
-              className="rounded-full bg-[#0A2331] hover:bg-[#13465D] p-2 transition-all duration-300"
+              className="rounded-full bg-brand-surface hover:bg-brand-muted p-2 transition-all duration-300"
             >
               <motion.div
                 animate={{ rotate: showFullFooter ? 180 : 0 }}
                 transition={{ duration: 0.3 }}
               >
-                <ChevronLeft className="h-4 w-4 text-[#00EAF0]" />
+                <ChevronLeft className="h-4 w-4 text-brand-primary" />
               </motion.div>
             </button>
           </div>
@@ -1518,72 +2281,92 @@ export default function MenuCardPage() {
             transition={{ duration: 0.3 }}
             className="overflow-hidden"
           >
-            <div className="py-4 border-t border-[#13465D]">
+            <div className="py-4 border-t border-brand-muted">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {/* Location */}
-                <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 rounded-full bg-[#0D3446] flex items-center justify-center flex-shrink-0">
-                    <span className="text-[#00EAF0]">📍</span>
-                  </div>
-                  <div className="text-gray-200">
-                    <div className="text-xs uppercase tracking-wider text-[#00EAF0] mb-1">
-                      Our Location
+                {branding.contact.address && (
+                  <div className="flex items-center space-x-3">
+                    <div className="w-8 h-8 rounded-full bg-brand-surface-alt flex items-center justify-center flex-shrink-0">
+                      <span className="text-brand-primary">📍</span>
                     </div>
-                    <div className="font-medium">
-                      DC Complex, Royal City, Chahal Road, Faridkot, Punjab
+                    <div className="text-gray-200">
+                      <div className="text-xs uppercase tracking-wider text-brand-primary mb-1">
+                        {t("ourLocation")}
+                      </div>
+                      <div className="font-medium">{branding.contact.address}</div>
                     </div>
                   </div>
-                </div>
+                )}
 
                 {/* Contact */}
-                <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 rounded-full bg-[#0D3446] flex items-center justify-center flex-shrink-0">
-                    <span className="text-[#00EAF0]">📞</span>
+                {branding.contact.phone && (
+                  <div className="flex items-center space-x-3">
+                    <div className="w-8 h-8 rounded-full bg-brand-surface-alt flex items-center justify-center flex-shrink-0">
+                      <span className="text-brand-primary">📞</span>
+                    </div>
+                    <div className="text-gray-200">
+                      <div className="text-xs uppercase tracking-wider text-brand-primary mb-1">
+                        {t("callUs")}
+                      </div>
+                      <a href={`tel:${branding.contact.phone}`} className="font-medium">
+                        {branding.contact.phone}
+                      </a>
+                    </div>
                   </div>
-                  <div className="text-gray-200">
-                    <div className="text-xs uppercase tracking-wider text-[#00EAF0] mb-1">
-                      Call Us
+                )}
+
+                {branding.contact.email && (
+                  <div className="flex items-center space-x-3">
+                    <div className="w-8 h-8 rounded-full bg-brand-surface-alt flex items-center justify-center flex-shrink-0">
+                      <span className="text-brand-primary">✉️</span>
+                    </div>
+                    <div className="text-gray-200">
+                      <div className="text-xs uppercase tracking-wider text-brand-primary mb-1">
+                        {t("email")}
+                      </div>
+                      <a href={`mailto:${branding.contact.email}`} className="font-medium">
+                        {branding.contact.email}
+                      </a>
                     </div>
-                    <div className="font-medium">78377-11322</div>
                   </div>
-                </div>
+                )}
               </div>
 
               {/* Additional Info: Hours & Socials */}
               <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
                 {/* Hours */}
-                <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 rounded-full bg-[#0D3446] flex items-center justify-center flex-shrink-0">
-                    <Clock className="h-4 w-4 text-[#00EAF0]" />
-                  </div>
-                  <div className="text-gray-200">
-                    <div className="text-xs uppercase tracking-wider text-[#00EAF0] mb-1">
-                      Opening Hours
+                {branding.contact.hours && (
+                  <div className="flex items-center space-x-3">
+                    <div className="w-8 h-8 rounded-full bg-brand-surface-alt flex items-center justify-center flex-shrink-0">
+                      <Clock className="h-4 w-4 text-brand-primary" />
                     </div>
-                    <div className="font-medium text-sm">
-                      11:00 AM - 11:00 PM (Mon-Sun)
+                    <div className="text-gray-200">
+                      <div className="text-xs uppercase tracking-wider text-brand-primary mb-1">
+                        {t("openingHours")}
+                      </div>
+                      <div className="font-medium text-sm">
+                        {branding.contact.hours}
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
 
-                {/* Social Icons - For visual appeal */}
+                {/* Social Icons */}
                 <div className="flex items-center justify-start md:justify-end space-x-4">
-                  <a
-                    href="https://www.facebook.com/profile.php?id=61560638404513&mibextid=JRoKGi"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="w-8 h-8 rounded-full bg-[#0D3446] hover:bg-[#13465D] flex items-center justify-center cursor-pointer transition-colors"
-                  >
-                    <Facebook className="h-4 w-4 text-[#00EAF0]" />
-                  </a>
-                  <a
-                    href="https://www.instagram.com/hoteldastan"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="w-8 h-8 rounded-full bg-[#0D3446] hover:bg-[#13465D] flex items-center justify-center cursor-pointer transition-colors"
-                  >
-                    <Instagram className="h-4 w-4 text-[#00EAF0]" />
-                  </a>
+                  {branding.socialLinks.map((link) => {
+                    const Icon = SOCIAL_ICONS[link.platform];
+                    return (
+                      <a
+                        key={`${link.platform}-${link.url}`}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="w-8 h-8 rounded-full bg-brand-surface-alt hover:bg-brand-muted flex items-center justify-center cursor-pointer transition-colors"
+                      >
+                        <Icon className="h-4 w-4 text-brand-primary" />
+                      </a>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -1591,13 +2374,84 @@ export default function MenuCardPage() {
         </div>
       </div>
 
+      {/* Call waiter, request bill and similar service actions */}
+      {table && (
+        <GuestServiceActions tableId={table.id} onStatusMessage={showNotice} t={t} />
+      )}
+
+      {/* Modifier selection for customisable items */}
+      <ModifierSelectionSheet
+        item={modifierSheet?.item || null}
+        variant={modifierSheet?.variant || null}
+        isOpen={!!modifierSheet}
+        onClose={() => setModifierSheet(null)}
+        onConfirm={handleModifierConfirm}
+        language={language}
+        t={t}
+      />
+
+      {/* Slot selection for combos */}
+      <ComboSelectionSheet
+        item={comboSheet}
+        menuItems={items}
+        isOpen={!!comboSheet}
+        onClose={() => setComboSheet(null)}
+        onConfirm={handleComboConfirm}
+        language={language}
+        t={t}
+      />
+
+      {/* Item details with "goes well with" suggestions */}
+      <ItemDetailSheet
+        item={detailItem}
+        isOpen={!!detailItem}
+        onClose={() => setDetailItem(null)}
+        getItemName={(item) => getLocalizedName(item, language)}
+        getItemDescription={(item) => getLocalizedDescription(item, language)}
+        canOrder={isAcceptingOrders && !!table}
+        onAdd={handleDetailAdd}
+        suggestions={detailSuggestions}
+        onAddSuggestion={addSuggestion}
+        t={t}
+      />
+
+      {/* Ratings for a completed order */}
+      <FeedbackSheet
+        order={feedbackOrders[0] || null}
+        isOpen={showFeedbackSheet}
+        onClose={() => setShowFeedbackSheet(false)}
+        onSubmitted={handleFeedbackSubmitted}
+        getItemName={getOrderItemName}
+        t={t}
+      />
+
+      {/* Returning guest sign-in, order history and favourites */}
+      <GuestAccountSheet
+        isOpen={showAccountSheet}
+        onClose={() => setShowAccountSheet(false)}
+        account={account}
+        onSignedIn={setAccount}
+        onSignOut={handleSignOut}
+        history={orderHistory}
+        historyLoading={historyLoading}
+        canOrder={isAcceptingOrders}
+        onReorder={handleReorder}
+        getItemName={getOrderItemName}
+        language={language}
+        t={t}
+      />
+
       {/* Cart component - only render if menu is accepting orders */}
-      {menu?.isAcceptingOrders && (
+      {isAcceptingOrders && table && (
         <CartComponent
-          tableId={table?.id}
+          tableId={table.id}
           isOpen={isCartOpen}
           onClose={() => setIsCartOpen(false)}
           onCartUpdate={handleCartUpdate}
+          menuItems={scheduledItems}
+          pairings={pairings}
+          language={language}
+          t={t}
         />
       )}
     </div>
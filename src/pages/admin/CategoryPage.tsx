@@ -11,7 +11,8 @@ import {
   CheckSquare,
   Square,
   Trash2,
-  X
+  X,
+  ChefHat
 } from "lucide-react";
 import { toast } from "sonner";
 import { AdminLayout } from "../../components/layout/AdminLayout";
@@ -23,12 +24,15 @@ import { CategoryCard } from "../../components/category/CategoryCard";
 import CategoryDialog from "../../components/category/CategoryDialog";
 import { DeleteCategoryConfirmDialog } from "../../components/category/DeleteCategoryConfirmDialog";
 import ImportCategoriesDialog from "../../components/category/ImportCategoriesDialog";
+import { KitchenStationsDialog } from "../../components/category/KitchenStationsDialog";
 import { Category, categoriesApi } from "../../lib/api/categories";
 import { MenuItem, menuItemsApi } from "../../lib/api/menuItems";
+import { KitchenStation, stationsApi } from "../../lib/api/stations";
 
 export default function CategoryPage() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,6 +40,7 @@ export default function CategoryPage() {
   const [addEditDialogOpen, setAddEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [stationsDialogOpen, setStationsDialogOpen] = useState(false);
   const [currentCategory, setCurrentCategory] = useState<Category | undefined>(
     undefined
   );
@@ -72,6 +77,11 @@ export default function CategoryPage() {
     fetchData();
   }, []);
 
+  // Stations are optional, so the page still works if they fail to load
+  useEffect(() => {
+    stationsApi.getAll().then(setStations).catch(() => setStations([]));
+  }, []);
+
   // Handle add/edit category
   const handleAddEditCategory = async (formData: any) => {
     try {
@@ -260,6 +270,13 @@ export default function CategoryPage() {
                     <FileSpreadsheet className="mr-2 h-4 w-4" />
                     Import from Excel
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setStationsDialogOpen(true)}
+                  >
+                    <ChefHat className="mr-2 h-4 w-4" />
+                    Kitchen Stations
+                  </Button>
                   <Button
                     onClick={() => {
                       setCurrentCategory(undefined);
@@ -412,6 +429,7 @@ export default function CategoryPage() {
         onOpenChange={setAddEditDialogOpen}
         onSubmit={handleAddEditCategory}
         category={currentCategory}
+        stations={stations}
         title={currentCategory ? "Edit Category" : "Add New Category"}
         description={
           currentCategory
@@ -420,6 +438,14 @@ export default function CategoryPage() {
         }
       />
 
+      {/* Kitchen Stations Dialog */}
+      <KitchenStationsDialog
+        open={stationsDialogOpen}
+        onOpenChange={setStationsDialogOpen}
+        stations={stations}
+        onStationsChange={setStations}
+      />
+
       {/* Delete Confirmation Dialog */}
       <DeleteCategoryConfirmDialog
         open={deleteDialogOpen}
@@ -0,0 +1,433 @@
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import { format, subDays } from "date-fns";
+import { AlertTriangle, Check, RefreshCw, Save } from "lucide-react";
+import { AdminLayout } from "../../components/layout/AdminLayout";
+import { Button } from "../../components/ui/button";
+import { Separator } from "../../components/ui/separator";
+import { Skeleton } from "../../components/ui/skeleton";
+import { Switch } from "../../components/ui/switch";
+import { Label } from "../../components/ui/label";
+import { Input } from "../../components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select";
+import StarRating from "../../components/feedback/StarRating";
+import {
+  feedbackApi,
+  FeedbackSettings,
+  FeedbackSummary,
+  LowRatingEvent,
+  OrderFeedback,
+} from "../../lib/api/feedback";
+import { useSocket } from "../../lib/SocketContext";
+
+// Periods the averages can be worked out over, in days
+const PERIODS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+// Show a rating as "4.3", or a dash when there are none yet
+const formatAverage = (average: number, count: number) =>
+  count > 0 ? average.toFixed(1) : "–";
+
+export default function FeedbackPage() {
+  const [period, setPeriod] = useState("30");
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [recent, setRecent] = useState<OrderFeedback[]>([]);
+  const [alerts, setAlerts] = useState<OrderFeedback[]>([]);
+  const [settings, setSettings] = useState<FeedbackSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const { socket } = useSocket();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const filters = { from: subDays(new Date(), parseInt(period, 10)).toISOString() };
+      const [summaryData, recentData, alertsData, settingsData] = await Promise.all([
+        feedbackApi.getSummary(filters),
+        feedbackApi.getAll(filters),
+        feedbackApi.getAll({ unacknowledgedAlerts: true }),
+        feedbackApi.getSettings(),
+      ]);
+
+      setSummary(summaryData);
+      setRecent(recentData);
+      setAlerts(alertsData);
+      setSettings(settingsData);
+    } catch (err) {
+      console.error("Error fetching feedback:", err);
+      setError("Failed to load feedback. Please try again.");
+      toast.error("Failed to load feedback");
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // New low ratings are pushed to staff as they come in
+  useEffect(() => {
+    const onLowRating = (feedback: LowRatingEvent) => {
+      setAlerts((prev) => [feedback, ...prev.filter((alert) => alert.id !== feedback.id)]);
+      toast.warning(
+        `Low rating (${feedback.overallRating}/5) from table ${
+          feedback.table?.tableNumber ?? feedback.tableId
+        }`
+      );
+    };
+
+    socket.on("feedback:low-rating", onLowRating);
+    return () => {
+      socket.off("feedback:low-rating", onLowRating);
+    };
+  }, [socket]);
+
+  const handleAcknowledge = async (feedback: OrderFeedback) => {
+    try {
+      await feedbackApi.acknowledge(feedback.id);
+      setAlerts((prev) => prev.filter((alert) => alert.id !== feedback.id));
+      toast.success("Alert marked as handled");
+    } catch (err) {
+      console.error("Error acknowledging feedback:", err);
+      toast.error("Failed to update alert");
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    try {
+      setSavingSettings(true);
+      setSettings(await feedbackApi.updateSettings(settings));
+      toast.success("Feedback settings saved");
+    } catch (err) {
+      console.error("Error saving feedback settings:", err);
+      toast.error("Failed to save feedback settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  // One line per piece of feedback, used for alerts and recent comments
+  const renderFeedback = (feedback: OrderFeedback, showAcknowledge: boolean) => (
+    <div key={feedback.id} className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <StarRating value={feedback.overallRating} size="sm" />
+          <span className="text-sm font-medium">
+            Order #{feedback.orderId} · Table {feedback.table?.tableNumber ?? feedback.tableId}
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(feedback.createdAt), "dd MMM, HH:mm")}
+        </span>
+      </div>
+      {feedback.waiter && (
+        <p className="text-xs text-muted-foreground">Served by {feedback.waiter.name}</p>
+      )}
+      {feedback.comment && <p className="text-sm italic">"{feedback.comment}"</p>}
+      {feedback.dishRatings.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {feedback.dishRatings.map((dish) => (
+            <span
+              key={dish.orderItemId}
+              className={`text-xs px-2 py-0.5 rounded-full border ${
+                settings && dish.rating <= settings.lowRatingThreshold
+                  ? "border-destructive text-destructive"
+                  : ""
+              }`}
+            >
+              {dish.itemName || `Item #${dish.itemId}`}: {dish.rating}/5
+            </span>
+          ))}
+        </div>
+      )}
+      {showAcknowledge && (
+        <Button size="sm" variant="outline" onClick={() => handleAcknowledge(feedback)}>
+          <Check className="h-4 w-4 mr-1" />
+          Mark as handled
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Guest Feedback</h1>
+              <p className="text-muted-foreground">
+                Ratings guests left for their meals, dishes and service
+              </p>
+            </div>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </motion.div>
+
+        <Separator />
+
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="rounded-lg border p-4 space-y-2">
+                <Skeleton className="h-4 w-1/2" />
+                <Skeleton className="h-8 w-1/3" />
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="bg-destructive/10 p-4 rounded-lg flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            <p>{error}</p>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={fetchData}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Average rating</CardDescription>
+                  <CardTitle className="text-3xl flex items-center gap-2">
+                    {formatAverage(
+                      summary?.overall.averageRating || 0,
+                      summary?.overall.ratingCount || 0
+                    )}
+                    <StarRating value={summary?.overall.averageRating || 0} />
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Feedback received</CardDescription>
+                  <CardTitle className="text-3xl">{summary?.overall.ratingCount || 0}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Open low-rating alerts</CardDescription>
+                  <CardTitle
+                    className={`text-3xl ${alerts.length > 0 ? "text-destructive" : ""}`}
+                  >
+                    {alerts.length}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            {alerts.length > 0 && (
+              <Card className="border-destructive/50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-destructive" />
+                    Low-rating alerts
+                  </CardTitle>
+                  <CardDescription>
+                    Follow up with these guests, then mark each alert as handled
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {alerts.map((feedback) => renderFeedback(feedback, true))}
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>By dish</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {summary && summary.items.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead className="text-right">Average</TableHead>
+                          <TableHead className="text-right">Ratings</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {summary.items.map((item) => (
+                          <TableRow key={item.itemId}>
+                            <TableCell>{item.itemName}</TableCell>
+                            <TableCell className="text-right">
+                              {formatAverage(item.averageRating, item.ratingCount)}
+                            </TableCell>
+                            <TableCell className="text-right">{item.ratingCount}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No dish ratings yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>By waiter</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {summary && summary.waiters.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Waiter</TableHead>
+                          <TableHead className="text-right">Average</TableHead>
+                          <TableHead className="text-right">Ratings</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {summary.waiters.map((waiter) => (
+                          <TableRow key={waiter.waiterId}>
+                            <TableCell>{waiter.waiterName}</TableCell>
+                            <TableCell className="text-right">
+                              {formatAverage(waiter.averageRating, waiter.ratingCount)}
+                            </TableCell>
+                            <TableCell className="text-right">{waiter.ratingCount}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No ratings for orders with an assigned waiter yet.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Recent feedback</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {recent.length > 0 ? (
+                    recent.map((feedback) => renderFeedback(feedback, false))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No feedback in this period.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {settings && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Settings</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="show-ratings">Show ratings on the menu</Label>
+                      <Switch
+                        id="show-ratings"
+                        checked={settings.showRatingsOnMenu}
+                        onCheckedChange={(checked) =>
+                          setSettings({ ...settings, showRatingsOnMenu: checked })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="min-ratings">Ratings needed before an average is shown</Label>
+                      <Input
+                        id="min-ratings"
+                        type="number"
+                        min="1"
+                        value={settings.minRatingsToShow}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            minRatingsToShow: Math.max(1, parseInt(e.target.value, 10) || 1),
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Alert on ratings of</Label>
+                      <Select
+                        value={settings.lowRatingThreshold.toString()}
+                        onValueChange={(value) =>
+                          setSettings({ ...settings, lowRatingThreshold: parseInt(value, 10) })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[1, 2, 3].map((threshold) => (
+                            <SelectItem key={threshold} value={threshold.toString()}>
+                              {threshold === 1 ? "1 star" : `${threshold} stars or fewer`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      className="w-full"
+                      onClick={handleSaveSettings}
+                      disabled={savingSettings}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      {savingSettings ? "Saving..." : "Save settings"}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
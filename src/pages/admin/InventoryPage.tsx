@@ -0,0 +1,483 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  Loader2,
+  Package,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Save,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { AdminLayout } from "../../components/layout/AdminLayout";
+import { Button } from "../../components/ui/button";
+import { Badge } from "../../components/ui/badge";
+import { Input } from "../../components/ui/input";
+import { Separator } from "../../components/ui/separator";
+import { Skeleton } from "../../components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import { StockItemDialog } from "../../components/inventory/StockItemDialog";
+import RecipeEditor from "../../components/inventory/RecipeEditor";
+import { DeleteConfirmDialog } from "../../components/menu/DeleteConfirmDialog";
+import {
+  inventoryApi,
+  ItemAvailabilityEvent,
+  LowStockEvent,
+  Recipe,
+  RecipeIngredient,
+  StockItem,
+  StockItemPayload,
+} from "../../lib/api/inventory";
+import { MenuItem, menuItemsApi } from "../../lib/api/menuItems";
+import {
+  formatStockQuantity,
+  getDependentItemIds,
+  getStockStatus,
+  STOCK_STATUS_LABELS,
+  STOCK_STATUS_STYLES,
+  validateRecipe,
+} from "../../lib/inventory";
+import { useSocket } from "../../lib/SocketContext";
+
+export default function InventoryPage() {
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStockItem, setEditingStockItem] = useState<StockItem | undefined>();
+  const [deletingStockItem, setDeletingStockItem] = useState<StockItem | null>(null);
+  const [itemSearch, setItemSearch] = useState("");
+  const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
+  const [draftIngredients, setDraftIngredients] = useState<RecipeIngredient[]>([]);
+  const [savingRecipe, setSavingRecipe] = useState(false);
+  const { socket } = useSocket();
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [stockData, recipeData, itemData] = await Promise.all([
+        inventoryApi.getStockItems(),
+        inventoryApi.getRecipes(),
+        menuItemsApi.getAll(),
+      ]);
+
+      setStockItems(stockData);
+      setRecipes(recipeData);
+      setMenuItems(itemData);
+    } catch (err) {
+      console.error("Error fetching inventory:", err);
+      setError("Failed to load inventory. Please try again.");
+      toast.error("Failed to load inventory");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Stock levels and item availability change as orders come in
+  useEffect(() => {
+    const onLowStock = ({ stockItem }: LowStockEvent) => {
+      setStockItems((prev) => prev.map((s) => (s.id === stockItem.id ? stockItem : s)));
+    };
+    const onItemsAvailability = ({ menuItemIds, outOfStock }: ItemAvailabilityEvent) => {
+      setMenuItems((prev) =>
+        prev.map((item) => (menuItemIds.includes(item.id) ? { ...item, outOfStock } : item))
+      );
+    };
+
+    socket.on("inventory:low-stock", onLowStock);
+    socket.on("menu:items-availability", onItemsAvailability);
+    return () => {
+      socket.off("inventory:low-stock", onLowStock);
+      socket.off("menu:items-availability", onItemsAvailability);
+    };
+  }, [socket]);
+
+  const handleSaveStockItem = async (payload: StockItemPayload) => {
+    try {
+      if (editingStockItem) {
+        const updated = await inventoryApi.updateStockItem(editingStockItem.id, payload);
+        setStockItems((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+        toast.success(`${updated.name} updated`);
+      } else {
+        const created = await inventoryApi.createStockItem(payload);
+        setStockItems((prev) => [...prev, created]);
+        toast.success(`${created.name} added`);
+      }
+    } catch (err) {
+      console.error("Error saving stock item:", err);
+      toast.error("Failed to save stock item");
+      throw err;
+    }
+  };
+
+  const handleDeleteStockItem = async () => {
+    if (!deletingStockItem) return;
+    try {
+      await inventoryApi.deleteStockItem(deletingStockItem.id);
+      setStockItems((prev) => prev.filter((s) => s.id !== deletingStockItem.id));
+      // The server drops the stock item from every recipe that used it
+      setRecipes((prev) =>
+        prev.map((recipe) => ({
+          ...recipe,
+          ingredients: recipe.ingredients.filter(
+            (ingredient) => ingredient.stockItemId !== deletingStockItem.id
+          ),
+        }))
+      );
+      setDraftIngredients((prev) =>
+        prev.filter((ingredient) => ingredient.stockItemId !== deletingStockItem.id)
+      );
+      toast.success(`${deletingStockItem.name} deleted`);
+    } catch (err) {
+      console.error("Error deleting stock item:", err);
+      toast.error("Failed to delete stock item");
+    } finally {
+      setDeletingStockItem(null);
+    }
+  };
+
+  const selectItem = (item: MenuItem) => {
+    setSelectedItemId(item.id);
+    setDraftIngredients(
+      recipes.find((recipe) => recipe.menuItemId === item.id)?.ingredients || []
+    );
+  };
+
+  const handleSaveRecipe = async () => {
+    if (selectedItemId === null) return;
+
+    const validationError = validateRecipe({
+      menuItemId: selectedItemId,
+      ingredients: draftIngredients,
+    });
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    try {
+      setSavingRecipe(true);
+      const saved = await inventoryApi.updateRecipe(selectedItemId, draftIngredients);
+      setRecipes((prev) => [
+        ...prev.filter((recipe) => recipe.menuItemId !== selectedItemId),
+        saved,
+      ]);
+      toast.success("Recipe saved");
+    } catch (err) {
+      console.error("Error saving recipe:", err);
+      toast.error("Failed to save recipe");
+    } finally {
+      setSavingRecipe(false);
+    }
+  };
+
+  const lowCount = stockItems.filter((s) => getStockStatus(s) === "low").length;
+  const outCount = stockItems.filter((s) => getStockStatus(s) === "out").length;
+  const outOfStockItems = menuItems.filter((item) => item.outOfStock);
+  const selectedItem = menuItems.find((item) => item.id === selectedItemId);
+
+  const filteredMenuItems = useMemo(
+    () =>
+      menuItems.filter((item) =>
+        item.name.toLowerCase().includes(itemSearch.toLowerCase())
+      ),
+    [menuItems, itemSearch]
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Inventory</h1>
+              <p className="text-muted-foreground">
+                Ingredient stock and the recipes that use it up
+              </p>
+            </div>
+            <Button
+              onClick={() => {
+                setEditingStockItem(undefined);
+                setDialogOpen(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stock Item
+            </Button>
+          </div>
+        </motion.div>
+
+        <Separator />
+
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="rounded-lg border p-4 space-y-2">
+                <Skeleton className="h-4 w-1/2" />
+                <Skeleton className="h-8 w-1/3" />
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <div className="bg-destructive/10 p-4 rounded-lg flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            <p>{error}</p>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={fetchData}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Running low</CardDescription>
+                  <CardTitle className={`text-3xl ${lowCount > 0 ? "text-amber-600" : ""}`}>
+                    {lowCount}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Run out</CardDescription>
+                  <CardTitle className={`text-3xl ${outCount > 0 ? "text-destructive" : ""}`}>
+                    {outCount}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Menu items out of stock</CardDescription>
+                  <CardTitle
+                    className={`text-3xl ${outOfStockItems.length > 0 ? "text-destructive" : ""}`}
+                  >
+                    {outOfStockItems.length}
+                  </CardTitle>
+                </CardHeader>
+                {outOfStockItems.length > 0 && (
+                  <CardContent className="text-sm text-muted-foreground">
+                    {outOfStockItems.map((item) => item.name).join(", ")}
+                  </CardContent>
+                )}
+              </Card>
+            </div>
+
+            <Tabs defaultValue="stock" className="w-full">
+              <TabsList className="mb-4">
+                <TabsTrigger value="stock">Stock</TabsTrigger>
+                <TabsTrigger value="recipes">Recipes</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="stock">
+                <Card>
+                  <CardContent className="p-0">
+                    {stockItems.length === 0 ? (
+                      <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+                        <Package className="h-8 w-8" />
+                        <p>No stock items yet.</p>
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Ingredient</TableHead>
+                            <TableHead className="text-right">On hand</TableHead>
+                            <TableHead className="text-right">Low stock at</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Used in</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {[...stockItems]
+                            .sort((a, b) => a.name.localeCompare(b.name))
+                            .map((stockItem) => {
+                              const status = getStockStatus(stockItem);
+                              const usedIn = getDependentItemIds(stockItem.id, recipes).length;
+                              return (
+                                <TableRow key={stockItem.id}>
+                                  <TableCell className="font-medium">{stockItem.name}</TableCell>
+                                  <TableCell className="text-right tabular-nums">
+                                    {formatStockQuantity(stockItem.onHand, stockItem.unit)}
+                                  </TableCell>
+                                  <TableCell className="text-right tabular-nums text-muted-foreground">
+                                    {formatStockQuantity(
+                                      stockItem.lowStockThreshold,
+                                      stockItem.unit
+                                    )}
+                                  </TableCell>
+                                  <TableCell>
+                                    <Badge variant="outline" className={STOCK_STATUS_STYLES[status]}>
+                                      {STOCK_STATUS_LABELS[status]}
+                                    </Badge>
+                                  </TableCell>
+                                  <TableCell className="text-muted-foreground">
+                                    {usedIn} item{usedIn === 1 ? "" : "s"}
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => {
+                                        setEditingStockItem(stockItem);
+                                        setDialogOpen(true);
+                                      }}
+                                    >
+                                      <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => setDeletingStockItem(stockItem)}
+                                    >
+                                      <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="recipes">
+                <div className="grid grid-cols-1 lg:grid-cols-[20rem_1fr] gap-4">
+                  <Card className="self-start">
+                    <CardHeader className="pb-3">
+                      <div className="relative">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="Search items..."
+                          className="pl-8"
+                          value={itemSearch}
+                          onChange={(e) => setItemSearch(e.target.value)}
+                        />
+                      </div>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                      <ul className="divide-y max-h-[60vh] overflow-y-auto">
+                        {filteredMenuItems.map((item) => {
+                          const ingredientCount =
+                            recipes.find((recipe) => recipe.menuItemId === item.id)?.ingredients
+                              .length || 0;
+                          return (
+                            <li key={item.id}>
+                              <button
+                                type="button"
+                                className={`w-full px-6 py-2 text-left flex items-center justify-between gap-2 hover:bg-muted transition-colors ${
+                                  item.id === selectedItemId ? "bg-muted" : ""
+                                }`}
+                                onClick={() => selectItem(item)}
+                              >
+                                <span className="truncate">{item.name}</span>
+                                {item.outOfStock ? (
+                                  <Badge variant="destructive" className="text-[10px] px-1 py-0">
+                                    Out of stock
+                                  </Badge>
+                                ) : (
+                                  <span className="text-xs text-muted-foreground shrink-0">
+                                    {ingredientCount > 0
+                                      ? `${ingredientCount} ingredient${ingredientCount === 1 ? "" : "s"}`
+                                      : "No recipe"}
+                                  </span>
+                                )}
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="self-start">
+                    {selectedItem ? (
+                      <>
+                        <CardHeader>
+                          <CardTitle>{selectedItem.name}</CardTitle>
+                          <CardDescription>
+                            Ingredients used by one portion. Stock is taken off as orders are
+                            placed, and the item is hidden from the menu while any of them
+                            has run out.
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                          <RecipeEditor
+                            value={draftIngredients}
+                            onChange={setDraftIngredients}
+                            stockItems={stockItems}
+                          />
+                          <div className="flex justify-end">
+                            <Button onClick={handleSaveRecipe} disabled={savingRecipe}>
+                              {savingRecipe ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Save className="h-4 w-4 mr-2" />
+                              )}
+                              Save Recipe
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </>
+                    ) : (
+                      <CardContent className="py-12 text-center text-muted-foreground">
+                        Pick a menu item to edit its recipe.
+                      </CardContent>
+                    )}
+                  </Card>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+
+      <StockItemDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        stockItem={editingStockItem}
+        onSubmit={handleSaveStockItem}
+      />
+
+      <DeleteConfirmDialog
+        open={deletingStockItem !== null}
+        onOpenChange={(open) => !open && setDeletingStockItem(null)}
+        onConfirm={handleDeleteStockItem}
+        title="Delete Stock Item"
+        description={`Are you sure you want to delete ${deletingStockItem?.name}? It will be removed from every recipe that uses it.`}
+      />
+    </AdminLayout>
+  );
+}
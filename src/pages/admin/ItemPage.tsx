@@ -17,6 +17,7 @@ import {
   Trash2,
   CheckSquare,
   Square,
+  Layers,
   X
 } from "lucide-react";
 import { toast } from "sonner";
@@ -52,17 +53,22 @@ import {
 } from "../../components/ui/card";
 import { MenuItemCard } from "../../components/menu/MenuItemCard";
 import MenuItemDialog from '../../components/menu/MenuItemDialog';
+import ComboDialog from '../../components/menu/ComboDialog';
 import { DeleteConfirmDialog } from "../../components/menu/DeleteConfirmDialog";
 import ImportItemsDialog from '../../components/items/ImportItemsDialog';
 import { MenuItem, menuItemsApi } from "../../lib/api/menuItems";
 import { Category, categoriesApi } from "../../lib/api/categories";
 import { Menu, menusApi } from "../../lib/api/menus";
+import { KitchenStation, stationsApi } from "../../lib/api/stations";
 import { formatPrice } from "../../lib/utils";
+import { DIETARY_FILTERS, DietaryFilter, matchesDietaryFilter } from "../../lib/dietary";
+import { isCombo } from "../../lib/combos";
 
 export default function ItemPage() {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [allMenuItems, setAllMenuItems] = useState<MenuItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
   const [currentMenu, setCurrentMenu] = useState<Menu | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -74,6 +80,7 @@ export default function ItemPage() {
   
   // Dialog states
   const [addEditDialogOpen, setAddEditDialogOpen] = useState(false);
+  const [comboDialogOpen, setComboDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [addItemToMenuDialogOpen, setAddItemToMenuDialogOpen] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
@@ -90,6 +97,7 @@ export default function ItemPage() {
   // Add new state variables for subcategory and tag filtering
   const [subcategoryFilter, setSubcategoryFilter] = useState<string>("all");
   const [tagFilter, setTagFilter] = useState<string>("all");
+  const [dietaryFilter, setDietaryFilter] = useState<string>("all");
 
   // Replace selection states
   const [selectionMode, setSelectionMode] = useState(false);
@@ -161,6 +169,11 @@ export default function ItemPage() {
     fetchData();
   }, [menuId, navigate]);
 
+  // Stations are optional, so the page still works if they fail to load
+  useEffect(() => {
+    stationsApi.getAll().then(setStations).catch(() => setStations([]));
+  }, []);
+
   // Handle add/edit item
   const handleAddEditItem = async (formData: any) => {
     try {
@@ -176,7 +189,6 @@ export default function ItemPage() {
       const data = {
         ...formData,
         fullPrice: parseFloat(formData.fullPrice),
-        halfPrice: formData.halfPrice ? parseFloat(formData.halfPrice) : undefined,
         preparationTime: parseInt(formData.preparationTime),
         image: formData.image,
       };
@@ -242,6 +254,7 @@ export default function ItemPage() {
       
       // Close the dialog
       setAddEditDialogOpen(false);
+      setComboDialogOpen(false);
     } catch (error) {
       console.error("Error saving menu item:", error);
       
@@ -300,7 +313,10 @@ export default function ItemPage() {
       const matchesTag = tagFilter === "all" || 
                        (item.tags && item.tags.includes(tagFilter));
       
-      return matchesSearch && matchesCategory && matchesAvailability && matchesSubcategory && matchesTag;
+      const matchesDietary = dietaryFilter === "all" ||
+                           (dietaryFilter === "undeclared" ? !item.dietaryInfo : matchesDietaryFilter(item, dietaryFilter as DietaryFilter));
+      
+      return matchesSearch && matchesCategory && matchesAvailability && matchesSubcategory && matchesTag && matchesDietary;
     })
     .sort((a, b) => {
       let comparison = 0;
@@ -534,6 +550,16 @@ export default function ItemPage() {
                       Import from Excel
                     </Button>
                   )}
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setCurrentItem(undefined);
+                      setComboDialogOpen(true);
+                    }}
+                  >
+                    <Layers className="mr-2 h-4 w-4" />
+                    New Combo
+                  </Button>
                   <Button onClick={() => {
                     setCurrentItem(undefined);
                     setAddEditDialogOpen(true);
@@ -732,6 +758,28 @@ export default function ItemPage() {
                         </SelectContent>
                       </Select>
                     </div>
+
+                    {/* Dietary filter */}
+                    <div>
+                      <label className="text-sm font-medium mb-1 block">Dietary</label>
+                      <Select
+                        value={dietaryFilter}
+                        onValueChange={setDietaryFilter}
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="All Items" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Items</SelectItem>
+                          {DIETARY_FILTERS.map((filter) => (
+                            <SelectItem key={filter.id} value={filter.id}>
+                              {filter.label}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="undeclared">Not declared yet</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 </motion.div>
               )}
@@ -765,7 +813,7 @@ export default function ItemPage() {
           ) : filteredItems.length === 0 ? (
             <div className="text-center py-10 bg-muted rounded-lg">
               <p className="text-muted-foreground mb-4">
-                {searchQuery || selectedCategory !== "all" || availabilityFilter !== "all"
+                {searchQuery || selectedCategory !== "all" || availabilityFilter !== "all" || dietaryFilter !== "all"
                   ? "No items match your filters"
                   : currentMenu
                     ? "No items in this menu yet"
@@ -839,7 +887,11 @@ export default function ItemPage() {
                         item={item}
                         onEdit={(item) => {
                           setCurrentItem(item);
-                          setAddEditDialogOpen(true);
+                          if (isCombo(item)) {
+                            setComboDialogOpen(true);
+                          } else {
+                            setAddEditDialogOpen(true);
+                          }
                         }}
                         onDelete={(item) => {
                           setCurrentItem(item);
@@ -866,9 +918,21 @@ export default function ItemPage() {
         onOpenChange={setAddEditDialogOpen}
         onSubmit={handleAddEditItem}
         categories={categories}
+        items={allMenuItems}
+        stations={stations}
         menuItem={currentItem}
       />
 
+      {/* Combo Form Dialog */}
+      <ComboDialog
+        open={comboDialogOpen}
+        onOpenChange={setComboDialogOpen}
+        onSubmit={handleAddEditItem}
+        categories={categories}
+        items={allMenuItems}
+        combo={currentItem}
+      />
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmDialog
         open={deleteDialogOpen}
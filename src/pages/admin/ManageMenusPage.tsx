@@ -12,7 +12,8 @@ import {
   ShoppingBag,
   AlertTriangle,
   ToggleLeft,
-  ToggleRight
+  ToggleRight,
+  CalendarClock
 } from "lucide-react";
 import { toast } from "sonner";
 import { AdminLayout } from "../../components/layout/AdminLayout";
@@ -52,16 +53,48 @@ import { Badge } from "../../components/ui/badge";
 import { Menu, menusApi } from "../../lib/api/menus";
 import { useNavigate } from "react-router-dom";
 import { Switch } from "../../components/ui/switch";
+import ScheduleEditor from "../../components/menu/ScheduleEditor";
+import {
+  describeSchedule,
+  getScheduleStatus,
+  pickActiveMenu,
+  Schedule,
+  validateSchedule,
+} from "../../lib/schedule";
 
 // Schema for menu form validation
 const menuFormSchema = z.object({
   name: z.string().min(1, "Menu name is required"),
   description: z.string().optional(),
   isAcceptingOrders: z.boolean().default(true),
+  schedule: z.custom<Schedule | null>().optional(),
+  servesAllTables: z.boolean().default(false),
 });
 
 type MenuFormValues = z.infer<typeof menuFormSchema>;
 
+// Describe whether a menu is open at a given time, e.g. "Open · closes 11:00 PM"
+const formatScheduleStatus = (schedule: Schedule | null | undefined, at: Date) => {
+  const status = getScheduleStatus(schedule, at);
+  const formatTime = (date: Date) =>
+    date.toLocaleString([], {
+      weekday: date.toDateString() === at.toDateString() ? undefined : "short",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  if (status.isOpen) {
+    return status.closesAt ? `Open · closes ${formatTime(status.closesAt)}` : "Open";
+  }
+  return status.opensAt ? `Closed · opens ${formatTime(status.opensAt)}` : "Closed";
+};
+
+// Value for a datetime-local input in local time
+const toDateTimeInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
 // Delete Confirmation Dialog
 function DeleteConfirmDialog({ isOpen, onClose, onConfirm, menuName }: { 
   isOpen: boolean; 
@@ -118,6 +151,8 @@ function MenuDialog({ isOpen, onClose, menu, onSave }: {
       name: menu?.name || "",
       description: menu?.description || "",
       isAcceptingOrders: menu?.isAcceptingOrders !== undefined ? menu.isAcceptingOrders : true,
+      schedule: menu?.schedule || null,
+      servesAllTables: menu?.servesAllTables || false,
     },
   });
 
@@ -130,11 +165,21 @@ function MenuDialog({ isOpen, onClose, menu, onSave }: {
         name: menu?.name || "",
         description: menu?.description || "",
         isAcceptingOrders: menu?.isAcceptingOrders !== undefined ? menu.isAcceptingOrders : true,
+        schedule: menu?.schedule || null,
+        servesAllTables: menu?.servesAllTables || false,
       });
     }
   }, [isOpen, menu, form]);
 
+  const schedule = form.watch("schedule");
+
   const handleSubmit = async (data: MenuFormValues) => {
+    const scheduleError = validateSchedule(data.schedule);
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       await onSave(data);
@@ -148,7 +193,7 @@ function MenuDialog({ isOpen, onClose, menu, onSave }: {
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{menu ? "Edit Menu" : "Create New Menu"}</DialogTitle>
           <DialogDescription>
@@ -201,6 +246,42 @@ function MenuDialog({ isOpen, onClose, menu, onSave }: {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control as any}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule</FormLabel>
+                  <FormControl>
+                    <ScheduleEditor
+                      value={field.value || null}
+                      onChange={field.onChange}
+                      description="Guests can only order from this menu during these hours"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {schedule?.isEnabled && (
+              <FormField
+                control={form.control as any}
+                name="servesAllTables"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Offer at every table</FormLabel>
+                      <FormDescription>
+                        While open, this menu replaces the regular menu of every table
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
             <DialogFooter>
               <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
                 Cancel
@@ -276,6 +357,18 @@ function MenuCard({ menu, onEdit, onDelete, onManageItems, onToggleOrderAcceptan
               Created on {new Date(menu.createdAt).toLocaleDateString()}
             </div>
           </div>
+          {menu.schedule?.isEnabled && (
+            <div className="mt-3 flex items-start gap-2 text-xs">
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+              <div>
+                <p>{describeSchedule(menu.schedule)}</p>
+                <p className="text-muted-foreground">
+                  {formatScheduleStatus(menu.schedule, new Date())}
+                  {menu.servesAllTables && " · All tables"}
+                </p>
+              </div>
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex justify-between bg-muted/50 p-2">
           <Button variant="ghost" size="sm" onClick={onManageItems}>
@@ -296,6 +389,89 @@ function MenuCard({ menu, onEdit, onDelete, onManageItems, onToggleOrderAcceptan
   );
 }
 
+// Preview which menus are open, and what tables see, at any chosen time
+function SchedulePreview({ menus }: { menus: Menu[] }) {
+  const [previewAt, setPreviewAt] = useState(() => toDateTimeInputValue(new Date()));
+
+  const at = previewAt ? new Date(previewAt) : new Date();
+  const sharedMenus = menus.filter((menu) => menu.servesAllTables && menu.schedule?.isEnabled);
+  const tableMenus = menus.filter((menu) => (menu.totalTables || 0) > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Schedule Preview
+            </CardTitle>
+            <CardDescription>
+              Pick any date and time to see what guests would be offered
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="datetime-local"
+              value={previewAt}
+              onChange={(e) => setPreviewAt(e.target.value)}
+              className="w-auto"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9"
+              onClick={() => setPreviewAt(toDateTimeInputValue(new Date()))}
+            >
+              Now
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm font-medium mb-2">Menus</p>
+          <ul className="space-y-1">
+            {menus.map((menu) => {
+              const isOpen = getScheduleStatus(menu.schedule, at).isOpen;
+              return (
+                <li key={menu.id} className="flex justify-between gap-2 text-sm">
+                  <span>{menu.name}</span>
+                  <Badge variant={isOpen ? "default" : "outline"}>
+                    {formatScheduleStatus(menu.schedule, at)}
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+        <div>
+          <p className="text-sm font-medium mb-2">Tables see</p>
+          {tableMenus.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No menus are assigned to tables yet</p>
+          ) : (
+            <ul className="space-y-1">
+              {tableMenus.map((menu) => {
+                const activeMenu = pickActiveMenu(menu, sharedMenus, at);
+                const isOpen = getScheduleStatus(activeMenu.schedule, at).isOpen;
+                return (
+                  <li key={menu.id} className="text-sm">
+                    <span className="text-muted-foreground">Tables on {menu.name}: </span>
+                    <span className={isOpen ? "font-medium" : "text-muted-foreground"}>
+                      {activeMenu.name}
+                      {!isOpen && " (closed)"}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function ManageMenusPage() {
   const [menus, setMenus] = useState<Menu[]>([]);
   const [loading, setLoading] = useState(true);
@@ -338,7 +514,9 @@ export default function ManageMenusPage() {
         const updatedMenu = await menusApi.update(currentMenu.id, {
           name: data.name,
           description: data.description,
-          isAcceptingOrders: data.isAcceptingOrders
+          isAcceptingOrders: data.isAcceptingOrders,
+          schedule: data.schedule?.isEnabled ? data.schedule : null,
+          servesAllTables: !!data.schedule?.isEnabled && data.servesAllTables
         });
         setMenus(prev => prev.map(menu => 
           menu.id === currentMenu.id ? updatedMenu : menu
@@ -349,7 +527,9 @@ export default function ManageMenusPage() {
         const newMenu = await menusApi.create({
           name: data.name,
           description: data.description,
-          isAcceptingOrders: data.isAcceptingOrders
+          isAcceptingOrders: data.isAcceptingOrders,
+          schedule: data.schedule?.isEnabled ? data.schedule : null,
+          servesAllTables: !!data.schedule?.isEnabled && data.servesAllTables
         });
         setMenus(prev => [...prev, newMenu]);
         toast.success("Menu created successfully");
@@ -477,6 +657,10 @@ export default function ManageMenusPage() {
             </div>
           </div>
 
+          {!loading && menus.some((menu) => menu.schedule?.isEnabled) && (
+            <SchedulePreview menus={menus} />
+          )}
+
           {loading ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {[...Array(3)].map((_, i) => (
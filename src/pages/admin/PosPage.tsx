@@ -135,6 +135,11 @@ export default function PosPage() {
         ...response.order,
         status: "COMPLETED"
       });
+
+      // The bill is closed, so the next guests at this table get a fresh session
+      if (response.sessionClosed) {
+        socket.emit("table:session-closed", { tableId: response.order.tableId });
+      }
       
       toast.success(`Order #${orderId} completed successfully`);
       return Promise.resolve();
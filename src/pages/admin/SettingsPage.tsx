@@ -1,5 +1,7 @@
 import { AdminLayout } from "../../components/layout/AdminLayout";
 import { UserRoleManager } from "../../components/admin/UserRoleManager";
+import { BrandingSettings } from "../../components/admin/BrandingSettings";
+import { KitchenTimingSettings } from "../../components/admin/KitchenTimingSettings";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
 
 export default function SettingsPage() {
@@ -14,6 +16,8 @@ export default function SettingsPage() {
         <Tabs defaultValue="users" className="w-full">
           <TabsList className="mb-4">
             <TabsTrigger value="users">User Management</TabsTrigger>
+            <TabsTrigger value="branding">Branding</TabsTrigger>
+            <TabsTrigger value="kitchen">Kitchen</TabsTrigger>
             <TabsTrigger value="general">General Settings</TabsTrigger>
           </TabsList>
           
@@ -21,6 +25,14 @@ export default function SettingsPage() {
             <UserRoleManager />
           </TabsContent>
           
+          <TabsContent value="branding" className="space-y-4">
+            <BrandingSettings />
+          </TabsContent>
+
+          <TabsContent value="kitchen" className="space-y-4">
+            <KitchenTimingSettings />
+          </TabsContent>
+          
           <TabsContent value="general">
             <div className="border rounded-lg p-8 flex items-center justify-center min-h-[300px]">
               <p className="text-muted-foreground">General settings will be implemented here.</p>
@@ -9,7 +9,8 @@ import {
   XCircle, 
   RefreshCw, 
   AlertTriangle,
-  Download
+  Download,
+  KeyRound
 } from "lucide-react";
 import { AdminLayout } from "../../components/layout/AdminLayout";
 import { Button } from "../../components/ui/button";
@@ -22,6 +23,7 @@ import { Menu, menusApi } from "../../lib/api/menus";
 import TableDialog from "../../components/tables/TableDialog";
 import { DeleteTableDialog } from "../../components/tables/DeleteTableDialog";
 import { QRCodeTemplateDialog } from "../../components/tables/QRCodeTemplateDialog";
+import { RotateTableTokenDialog } from "../../components/tables/RotateTableTokenDialog";
 import { AnimatePresence, motion } from "framer-motion";
 import {
   Select,
@@ -41,6 +43,7 @@ export default function TablePage() {
   const [addEditDialogOpen, setAddEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [qrTemplateDialogOpen, setQrTemplateDialogOpen] = useState(false);
+  const [rotateDialogOpen, setRotateDialogOpen] = useState(false);
   const [currentTable, setCurrentTable] = useState<Table | undefined>(undefined);
   
   // Filtering states
@@ -121,6 +124,20 @@ export default function TablePage() {
     }
   };
 
+  // Issue a new QR token so the old printed code stops working
+  const handleRotateToken = async () => {
+    if (!currentTable) return;
+    try {
+      const updatedTable = await tablesApi.rotateToken(currentTable.id);
+      setTables(prev => prev.map(table => table.id === updatedTable.id ? updatedTable : table));
+      toast.success(`New QR code issued for Table #${updatedTable.tableNumber}`);
+    } catch (error) {
+      console.error("Error rotating table token:", error);
+      toast.error("Failed to rotate QR code");
+      throw error;
+    }
+  };
+
   // Download QR code
   const handleDownloadQR = (table: Table) => {
     // Open the QR code template dialog with the current table
@@ -321,7 +338,7 @@ export default function TablePage() {
                         </div>
                       </div>
                     </CardContent>
-                    <CardFooter className="grid grid-cols-3 gap-2 pt-2">
+                    <CardFooter className="grid grid-cols-4 gap-2 pt-2">
                       <Button 
                         size="sm" 
                         variant="outline"
@@ -330,6 +347,18 @@ export default function TablePage() {
                       >
                         <Download className="h-4 w-4" />
                       </Button>
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        className="col-span-1"
+                        title="Rotate QR code"
+                        onClick={() => {
+                          setCurrentTable(table);
+                          setRotateDialogOpen(true);
+                        }}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
                       <Button 
                         size="sm"
                         variant="outline"
@@ -378,6 +407,14 @@ export default function TablePage() {
         onConfirm={handleDeleteTable}
       />
 
+      {/* Rotate QR Token Dialog */}
+      <RotateTableTokenDialog
+        open={rotateDialogOpen}
+        onOpenChange={setRotateDialogOpen}
+        table={currentTable}
+        onConfirm={handleRotateToken}
+      />
+
       {/* QR Code Template Dialog */}
       <QRCodeTemplateDialog
         open={qrTemplateDialogOpen}
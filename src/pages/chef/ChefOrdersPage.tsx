@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { motion } from "framer-motion";
 import {
   ShoppingBag,
@@ -8,6 +8,9 @@ import {
   Utensils,
   WifiOff,
   Wifi,
+  Monitor,
+  History,
+  Layers,
 } from "lucide-react";
 import { DashboardLayout } from "../../components/layout/DashboardLayout";
 import { Button } from "../../components/ui/button";
@@ -20,25 +23,191 @@ import {
   CardTitle,
 } from "../../components/ui/card";
 import { Badge } from "../../components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select";
 import { toast } from "sonner";
-import { ordersApi, WaiterOrder } from "../../lib/api/orders";
+import {
+  BumpedTicket,
+  ordersApi,
+  OrderItem,
+  OrderItemStatus,
+  OrderItemStatusEvent,
+  WaiterOrder,
+} from "../../lib/api/orders";
+import { KitchenStation, stationsApi, StationBumpedEvent } from "../../lib/api/stations";
+import { KitchenSettings, kitchenApi } from "../../lib/api/kitchen";
 import { useSocket } from "../../lib/SocketContext";
+import { escapeHtml, formatModifiers, formatVariantName } from "../../lib/utils";
+import { formatComboItems } from "../../lib/combos";
+import {
+  getSavedStationId,
+  getStationLines,
+  getStationProgress,
+  isStationPending,
+  saveStationId,
+} from "../../lib/stations";
+import {
+  getItemStatus,
+  getNextKitchenStatus,
+  ITEM_STATUS_LABELS,
+  ITEM_STATUS_STYLES,
+} from "../../lib/orderItems";
+import {
+  DEFAULT_KITCHEN_SETTINGS,
+  getTicketTiming,
+  SlaState,
+  sortTicketsByUrgency,
+} from "../../lib/kitchenSla";
+import TicketTimer from "../../components/kitchen/TicketTimer";
+import KitchenDisplay from "../../components/kitchen/KitchenDisplay";
+import RecentlyBumpedDrawer from "../../components/kitchen/RecentlyBumpedDrawer";
+import AllDayPanel from "../../components/kitchen/AllDayPanel";
+import PriorityBadge from "../../components/orders/PriorityBadge";
+import { AllDayCount, getAllDayCounts, groupLinesByOrder } from "../../lib/allDay";
+import {
+  addRecentlyBumped,
+  isSameTicket,
+  pruneRecentlyBumped,
+  RECENTLY_BUMPED_LIMIT,
+  RECENTLY_BUMPED_MINUTES,
+} from "../../lib/bumpHistory";
+import {
+  getKotPriorityBanner,
+  pinFlaggedOrders,
+  PRIORITY_CARD_STYLES,
+  PRIORITY_LABELS,
+} from "../../lib/orderPriority";
 
 // Define interface for orders with table name for display
 interface DisplayOrder extends WaiterOrder {
   tableName: string;
 }
 
+// Ticket card colours for each timing state
+const SLA_CARD_STYLES: Record<SlaState, { card: string; header: string }> = {
+  "on-time": { card: "border-amber-200", header: "bg-amber-50" },
+  "at-risk": { card: "border-amber-400", header: "bg-amber-100" },
+  late: { card: "border-red-500 ring-2 ring-red-200", header: "bg-red-50" },
+};
+
 export default function ChefOrdersPage() {
   const [orders, setOrders] = useState<DisplayOrder[]>([]);
+  // Orders not yet sent to the kitchen, counted in the all-day view only
+  const [pendingOrders, setPendingOrders] = useState<WaiterOrder[]>([]);
+  const [showAllDay, setShowAllDay] = useState(false);
+  const [bumpingKey, setBumpingKey] = useState<string | null>(null);
+  // Ticket whose bump is being saved
+  const [bumpingOrderId, setBumpingOrderId] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [stations, setStations] = useState<KitchenStation[]>([]);
+  // Station this screen is showing, or null for the whole kitchen
+  const [stationId, setStationId] = useState<number | null>(getSavedStationId);
+  const [kitchenSettings, setKitchenSettings] =
+    useState<KitchenSettings>(DEFAULT_KITCHEN_SETTINGS);
+  const [now, setNow] = useState(Date.now());
+  const [displayMode, setDisplayMode] = useState(false);
+  const [recentlyBumped, setRecentlyBumped] = useState<BumpedTicket[]>([]);
+  const [bumpedDrawerOpen, setBumpedDrawerOpen] = useState(false);
+  const [loadingBumped, setLoadingBumped] = useState(false);
+  const [recallingId, setRecallingId] = useState<number | null>(null);
   const { socket, isConnected } = useSocket();
 
-  // Fetch preparing orders on mount
+  // Fetch preparing orders and kitchen stations on mount
   useEffect(() => {
     fetchPreparingOrders();
+    stationsApi
+      .getAll()
+      .then(setStations)
+      .catch(() => toast.error("Failed to load kitchen stations"));
+    kitchenApi
+      .getSettings()
+      .then(setKitchenSettings)
+      .catch(() => setKitchenSettings(DEFAULT_KITCHEN_SETTINGS));
   }, []);
 
+  // Load the tickets bumped recently, from every kitchen screen
+  const fetchRecentlyBumped = useCallback(async () => {
+    try {
+      setLoadingBumped(true);
+      const tickets = await ordersApi.getRecentlyBumped({
+        minutes: RECENTLY_BUMPED_MINUTES,
+        limit: RECENTLY_BUMPED_LIMIT,
+      });
+      setRecentlyBumped(pruneRecentlyBumped(tickets));
+    } catch (error) {
+      console.error("Error fetching recently bumped tickets:", error);
+    } finally {
+      setLoadingBumped(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecentlyBumped();
+  }, [fetchRecentlyBumped]);
+
+  // Tick the ticket timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Replace an order with its latest version, dropping it once it is ready
+  const applyOrderUpdate = useCallback((updatedOrder: WaiterOrder) => {
+    setOrders((prevOrders) =>
+      updatedOrder.status !== "PREPARING"
+        ? prevOrders.filter((order) => order.id !== updatedOrder.id)
+        : prevOrders.map((order) =>
+            order.id === updatedOrder.id ? { ...order, ...updatedOrder } : order
+          )
+    );
+  }, []);
+
+  // Keep pending orders current, dropping them once they leave PENDING
+  const applyPendingUpdate = useCallback((updatedOrder: WaiterOrder) => {
+    setPendingOrders((prevOrders) => {
+      const others = prevOrders.filter((order) => order.id !== updatedOrder.id);
+      return updatedOrder.status === "PENDING" ? [...others, updatedOrder] : others;
+    });
+  }, []);
+
+  // Keep station and line progress in sync with the other kitchen screens
+  useEffect(() => {
+    const onStationBumped = (event: StationBumpedEvent) => {
+      applyOrderUpdate(event.order);
+    };
+    const onItemStatus = (event: OrderItemStatusEvent) => {
+      applyOrderUpdate(event.order);
+      applyPendingUpdate(event.order);
+    };
+    const onPriorityChange = (updatedOrder: WaiterOrder) => {
+      applyOrderUpdate(updatedOrder);
+      applyPendingUpdate(updatedOrder);
+      if (updatedOrder.priority) {
+        toast.warning(
+          `Order #${updatedOrder.id} flagged ${PRIORITY_LABELS[updatedOrder.priority].toLowerCase()}`
+        );
+      }
+    };
+
+    socket.on("order:station-bumped", onStationBumped);
+    socket.on("order:item-status", onItemStatus);
+    socket.on("order:priority-change", onPriorityChange);
+    socket.on("order:new-order", applyPendingUpdate);
+    socket.on("order:status-change", applyPendingUpdate);
+    return () => {
+      socket.off("order:station-bumped", onStationBumped);
+      socket.off("order:item-status", onItemStatus);
+      socket.off("order:priority-change", onPriorityChange);
+      socket.off("order:new-order", applyPendingUpdate);
+      socket.off("order:status-change", applyPendingUpdate);
+    };
+  }, [socket, applyOrderUpdate, applyPendingUpdate]);
+
   // Socket event listeners for real-time updates
   useEffect(() => {
     // Listen for new orders with PREPARING status
@@ -51,8 +220,13 @@ export default function ChefOrdersPage() {
           : `Table ID: ${newOrder.tableId}`,
       };
 
-      // Add to current orders list
-      setOrders((prevOrders) => [...prevOrders, displayOrder]);
+      // Add to current orders list, replacing it if it was recalled
+      setOrders((prevOrders) =>
+        prevOrders.some((order) => order.id === displayOrder.id)
+          ? prevOrders.map((order) => (order.id === displayOrder.id ? displayOrder : order))
+          : [...prevOrders, displayOrder]
+      );
+      setPendingOrders((prevOrders) => prevOrders.filter((order) => order.id !== newOrder.id));
       toast.info(`New order #${newOrder.id} received for preparation!`);
     });
 
@@ -65,8 +239,11 @@ export default function ChefOrdersPage() {
   const fetchPreparingOrders = async () => {
     try {
       setLoading(true);
-      // Get orders with PREPARING status
-      const preparingOrders = await ordersApi.getByStatus("PREPARING");
+      // Get orders with PREPARING status, and PENDING ones for the all-day view
+      const [preparingOrders, pending] = await Promise.all([
+        ordersApi.getByStatus("PREPARING"),
+        ordersApi.getByStatus("PENDING"),
+      ]);
 
       // Transform for display with table names
       const displayOrders = preparingOrders.map((order) => ({
@@ -77,6 +254,7 @@ export default function ChefOrdersPage() {
       }));
 
       setOrders(displayOrders);
+      setPendingOrders(pending);
     } catch (error) {
       console.error("Error fetching orders:", error);
       toast.error("Failed to load orders");
@@ -85,24 +263,204 @@ export default function ChefOrdersPage() {
     }
   };
 
-  // Mark order as ready
-  const markOrderAsReady = async (orderId: number) => {
+  // Mark every open line of an order without stations as ready; the server then
+  // derives the order's status from its lines
+  const markOrderAsReady = async (order: DisplayOrder) => {
+    const openItemIds = order.orderItems
+      .filter((item) => getNextKitchenStatus(getItemStatus(item, order)) !== null)
+      .map((item) => item.id);
+    if (openItemIds.length === 0) return;
+
     try {
-      // Update order status to READY
-      await ordersApi.updateStatus(orderId, "READY");
+      const updatedOrder = await ordersApi.updateItemStatus(order.id, openItemIds, "READY");
+      applyOrderUpdate(updatedOrder);
+      if (updatedOrder.status !== "READY") return;
 
-      // Update local state
-      setOrders((prevOrders) =>
-        prevOrders.filter((order) => order.id !== orderId)
+      setRecentlyBumped((prev) =>
+        addRecentlyBumped(prev, {
+          order: { ...order, ...updatedOrder },
+          stationId: null,
+          bumpedAt: new Date().toISOString(),
+        })
       );
 
-      toast.success(`Order #${orderId} is now ready for serving!`);
+      toast.success(`Order #${order.id} is now ready for serving!`);
     } catch (error) {
-      console.error(`Error updating order ${orderId} status:`, error);
+      console.error(`Error updating order ${order.id} status:`, error);
       toast.error("Failed to update order status");
     }
   };
 
+  // Move a single line on, e.g. from queued to cooking
+  const updateItemStatus = async (
+    order: DisplayOrder,
+    item: OrderItem,
+    status: OrderItemStatus
+  ) => {
+    try {
+      const updatedOrder = await ordersApi.updateItemStatus(order.id, [item.id], status);
+      applyOrderUpdate(updatedOrder);
+
+      if (updatedOrder.status === "READY") {
+        toast.success(`Order #${order.id} is now ready for serving!`);
+      }
+    } catch (error) {
+      console.error(`Error updating item ${item.id} of order ${order.id}:`, error);
+      toast.error("Failed to update item status");
+    }
+  };
+
+  // Mark this station's part of an order as done
+  const bumpStation = async (order: DisplayOrder, station: KitchenStation) => {
+    try {
+      const updatedOrder = await stationsApi.bump(order.id, station.id);
+      applyOrderUpdate(updatedOrder);
+      setRecentlyBumped((prev) =>
+        addRecentlyBumped(prev, {
+          order: { ...order, ...updatedOrder },
+          stationId: station.id,
+          stationName: station.name,
+          bumpedAt: new Date().toISOString(),
+        })
+      );
+
+      if (updatedOrder.status === "READY") {
+        toast.success(`Order #${order.id} is now ready for serving!`);
+      } else {
+        toast.success(`${station.name} done for order #${order.id}`);
+      }
+    } catch (error) {
+      console.error(`Error bumping order ${order.id}:`, error);
+      toast.error("Failed to update order");
+    }
+  };
+
+  // Mark every outstanding line of one dish ready, across all tickets
+  const bumpAllDayCount = async (count: AllDayCount) => {
+    try {
+      setBumpingKey(count.key);
+      const updatedOrders = await Promise.all(
+        Object.entries(groupLinesByOrder(count.lines)).map(([orderId, orderItemIds]) =>
+          ordersApi.updateItemStatus(parseInt(orderId, 10), orderItemIds, "READY")
+        )
+      );
+      updatedOrders.forEach((updatedOrder) => {
+        applyOrderUpdate(updatedOrder);
+        applyPendingUpdate(updatedOrder);
+      });
+
+      toast.success(`${count.quantity}x ${count.name} ready`);
+    } catch (error) {
+      console.error(`Error bumping ${count.name}:`, error);
+      toast.error("Failed to update items");
+      fetchPreparingOrders();
+    } finally {
+      setBumpingKey(null);
+    }
+  };
+
+  // Bump a ticket off this screen: the station's part if it has one, otherwise the whole order.
+  // An order split between stations only becomes ready once each station has bumped its part.
+  // Every bump goes through here so a ticket is never sent twice while saving.
+  const bumpTicket = async (order: DisplayOrder, chosenStation?: KitchenStation) => {
+    if (bumpingOrderId === order.id) return;
+    const station =
+      chosenStation ||
+      (selectedStation && isStationPending(order, selectedStation.id) ? selectedStation : null);
+    if (!station && order.stations?.length) {
+      toast.info(`Pick a station to bump its part of order #${order.id}`);
+      return;
+    }
+
+    try {
+      setBumpingOrderId(order.id);
+      await (station ? bumpStation(order, station) : markOrderAsReady(order));
+    } finally {
+      setBumpingOrderId(null);
+    }
+  };
+
+  // Stations that still have to bump their part of an order
+  const getPendingStations = (order: DisplayOrder): KitchenStation[] =>
+    stations.filter((station) => isStationPending(order, station.id));
+
+  // Send a bumped ticket back to the kitchen; the server records who recalled it
+  const recallTicket = async (ticket: BumpedTicket) => {
+    const { order } = ticket;
+    if (recallingId !== null) return;
+
+    try {
+      setRecallingId(order.id);
+      const recalledOrder =
+        ticket.stationId !== null
+          ? await stationsApi.recall(order.id, ticket.stationId)
+          : await ordersApi.recall(order.id);
+
+      const displayOrder: DisplayOrder = {
+        ...recalledOrder,
+        tableName: recalledOrder.table
+          ? `Table ${recalledOrder.table.tableNumber}`
+          : `Table ID: ${recalledOrder.tableId}`,
+      };
+      setOrders((prevOrders) =>
+        prevOrders.some((o) => o.id === order.id)
+          ? prevOrders.map((o) => (o.id === order.id ? displayOrder : o))
+          : [...prevOrders, displayOrder]
+      );
+      setRecentlyBumped((prev) => prev.filter((t) => !isSameTicket(t, ticket)));
+
+      toast.info(`Order #${order.id} recalled`);
+    } catch (error) {
+      console.error(`Error recalling order ${order.id}:`, error);
+      toast.error("Failed to recall order");
+    } finally {
+      setRecallingId(null);
+    }
+  };
+
+  const handleStationChange = (value: string) => {
+    const nextStationId = value === "all" ? null : parseInt(value, 10);
+    setStationId(nextStationId);
+    saveStationId(nextStationId);
+  };
+
+  const selectedStation = stations.find((station) => station.id === stationId) || null;
+
+  // A station sees orders it still has to work on, and orders with no stations at all.
+  // Flagged tickets are pinned first, then late ones.
+  const visibleOrders = pinFlaggedOrders(
+    sortTicketsByUrgency(
+      selectedStation
+        ? orders.filter(
+            (order) =>
+              isStationPending(order, selectedStation.id) ||
+              getStationProgress(order).total === 0
+          )
+        : orders,
+      kitchenSettings,
+      now
+    )
+  );
+
+  // A station sees its own bumps and whole orders marked ready
+  const visibleBumped = pruneRecentlyBumped(
+    selectedStation
+      ? recentlyBumped.filter(
+          (ticket) => ticket.stationId === null || ticket.stationId === selectedStation.id
+        )
+      : recentlyBumped,
+    now
+  );
+
+  // The lines this screen should show for an order
+  const getVisibleLines = (order: WaiterOrder): OrderItem[] =>
+    selectedStation ? getStationLines(order, selectedStation.id) : order.orderItems;
+
+  // Dishes still to make across pending and preparing orders
+  const allDayCounts = showAllDay
+    ? getAllDayCounts([...pendingOrders, ...orders], getVisibleLines)
+    : [];
+
   // Format time elapsed since order was created
   const formatTimeElapsed = (timestamp: string) => {
     const orderTime = new Date(timestamp);
@@ -134,13 +492,26 @@ export default function ChefOrdersPage() {
     const printWindow = window.open("", "_blank", "width=302,height=600");
     if (!printWindow) return;
     
-    const itemsHtml = order.orderItems
+    const itemsHtml = getVisibleLines(order)
+      .filter((item) => getItemStatus(item, order) !== "VOIDED")
       .map(
         (item) =>
           `<tr>
             <td style="padding:2px; width:25px; text-align:center; font-weight:bold;">${item.quantity}x</td>
-            <td style="padding:2px;">${
-              item.item?.name || `Item #${item.itemId}`
+            <td style="padding:2px;">${escapeHtml(
+              formatVariantName(item.item?.name || `Item #${item.itemId}`, item.variant)
+            )}${
+              item.comboItems && item.comboItems.length > 0
+                ? `<div style="font-size:11px;">${escapeHtml(formatComboItems(item.comboItems))}</div>`
+                : ""
+            }${
+              item.modifiers && item.modifiers.length > 0
+                ? `<div style="font-size:11px;">+ ${escapeHtml(formatModifiers(item.modifiers))}</div>`
+                : ""
+            }${
+              item.notes
+                ? `<div style="font-size:11px; font-weight:bold;">NOTE: ${escapeHtml(item.notes)}</div>`
+                : ""
             }</td>
           </tr>`
       )
@@ -203,10 +574,15 @@ export default function ChefOrdersPage() {
         </head>
         <body>
           <div class="kot-header">KITCHEN ORDER TICKET</div>
+          ${getKotPriorityBanner(order)}
           <div class="kot-meta"><strong>Table:</strong> ${
             order.table?.tableNumber || order.tableId
           }</div>
-          <div class="kot-meta"><strong>Order #:</strong> ${order.id}</div>
+          <div class="kot-meta"><strong>Order #:</strong> ${order.id}</div>${
+            selectedStation
+              ? `<div class="kot-meta"><strong>Station:</strong> ${escapeHtml(selectedStation.name)}</div>`
+              : ""
+          }
           <div class="kot-meta"><strong>Time:</strong> ${new Date().toLocaleTimeString()}</div>
           <table>
             <thead>
@@ -249,6 +625,22 @@ export default function ChefOrdersPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <Select
+              value={stationId === null ? "all" : stationId.toString()}
+              onValueChange={handleStationChange}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="All stations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All stations</SelectItem>
+                {stations.map((station) => (
+                  <SelectItem key={station.id} value={station.id.toString()}>
+                    {station.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {isConnected ? (
               <Badge
                 variant="outline"
@@ -278,104 +670,301 @@ export default function ChefOrdersPage() {
               <RefreshCw className="h-4 w-4" />
               Refresh
             </Button>
+            <Button
+              onClick={() => setShowAllDay(!showAllDay)}
+              variant={showAllDay ? "secondary" : "outline"}
+              size="sm"
+              className="gap-2"
+            >
+              <Layers className="h-4 w-4" />
+              All Day
+            </Button>
+            <Button
+              onClick={() => {
+                setBumpedDrawerOpen(true);
+                fetchRecentlyBumped();
+              }}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+            >
+              <History className="h-4 w-4" />
+              Recently Bumped
+              {visibleBumped.length > 0 && (
+                <Badge variant="secondary">{visibleBumped.length}</Badge>
+              )}
+            </Button>
+            <Button
+              onClick={() => setDisplayMode(true)}
+              size="sm"
+              className="gap-2"
+            >
+              <Monitor className="h-4 w-4" />
+              Kitchen Display
+            </Button>
           </div>
         </div>
 
-        {loading ? (
-          <div className="flex justify-center items-center h-64">
-            <div className="animate-spin h-8 w-8 border-t-2 border-b-2 border-primary rounded-full"></div>
-          </div>
-        ) : orders.length === 0 ? (
-          <div className="bg-muted/20 border rounded-lg p-8 text-center">
-            <ShoppingBag className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-medium">No orders in preparation</h3>
-            <p className="text-muted-foreground">
-              There are currently no orders being prepared. Check back later!
-            </p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-            {orders.map((order) => (
-              <motion.div
-                key={order.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.3 }}
-                exit={{ opacity: 0, scale: 0.9 }}
-                layout
-              >
-                <Card className="h-full flex flex-col overflow-hidden border-amber-200 shadow-md">
-                  <CardHeader className="pb-3 bg-amber-50">
-                    <div className="flex justify-between items-center">
-                      <CardTitle className="text-xl">
-                        Table #{order?.table?.tableNumber}
-                      </CardTitle>
-                      <Badge
-                        variant="outline"
-                        className="border-amber-500 text-amber-700 bg-amber-100"
+        <div
+          className={
+            showAllDay ? "grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-6 items-start" : ""
+          }
+        >
+          <div>
+            {loading ? (
+              <div className="flex justify-center items-center h-64">
+                <div className="animate-spin h-8 w-8 border-t-2 border-b-2 border-primary rounded-full"></div>
+              </div>
+            ) : visibleOrders.length === 0 ? (
+              <div className="bg-muted/20 border rounded-lg p-8 text-center">
+                <ShoppingBag className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">
+                  {selectedStation
+                    ? `Nothing to prepare at ${selectedStation.name}`
+                    : "No orders in preparation"}
+                </h3>
+                <p className="text-muted-foreground">
+                  There are currently no orders being prepared. Check back later!
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                {visibleOrders.map((order) => {
+                  const progress = getStationProgress(order);
+                  const lines = getVisibleLines(order);
+                  const slaStyles =
+                    SLA_CARD_STYLES[getTicketTiming(order, kitchenSettings, now).state];
+
+                  return (
+                    <motion.div
+                      key={order.id}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
+                      exit={{ opacity: 0, scale: 0.9 }}
+                      layout
+                    >
+                      <Card
+                        className={`h-full flex flex-col overflow-hidden shadow-md ${
+                          order.priority ? PRIORITY_CARD_STYLES[order.priority] : slaStyles.card
+                        }`}
                       >
-                        <Clock className="h-3 w-3 mr-1" />
-                        Preparing
-                      </Badge>
-                    </div>
-                    <CardDescription className="flex items-center mt-1">
-                      <Clock className="h-3 w-3 mr-1" />
-                      Ordered {formatTimeElapsed(order.createdAt)}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="pb-0 flex-grow">
-                    <div className="space-y-2">
-                      <div className="text-sm text-muted-foreground flex justify-between">
-                        <span>Order #{order.id}</span>
-                        <span>{order.orderItems.length} items</span>
-                      </div>
-                      <ul className="space-y-1 max-h-64 overflow-y-auto border rounded-md p-2">
-                        {order.orderItems.map((item) => (
-                          <li
-                            key={item.id}
-                            className="text-sm flex justify-between border-b pb-1 last:border-0 last:pb-0 pt-1"
-                          >
+                        <CardHeader className={`pb-3 ${slaStyles.header}`}>
+                          <div className="flex justify-between items-center">
+                            <CardTitle className="text-xl">
+                              Table #{order?.table?.tableNumber}
+                            </CardTitle>
+                            <Badge
+                              variant="outline"
+                              className="border-amber-500 text-amber-700 bg-amber-100"
+                            >
+                              <Clock className="h-3 w-3 mr-1" />
+                              Preparing
+                            </Badge>
+                          </div>
+                          <CardDescription className="flex items-center justify-between mt-1">
                             <span className="flex items-center">
-                              <Utensils className="h-3 w-3 mr-1 text-muted-foreground" />
-                              <span className="font-medium">
-                                {item.quantity}x
-                              </span>{" "}
-                              {item.item?.name || `Item #${item.itemId}`}
+                              <Clock className="h-3 w-3 mr-1" />
+                              Ordered {formatTimeElapsed(order.createdAt)}
                             </span>
-                            <span className="text-muted-foreground">
-                              {formatPrice(item.price * item.quantity)}
-                            </span>
-                          </li>
-                        ))}
-                      </ul>
-                      <div className="pt-2 flex justify-between font-semibold">
-                        <span>Total</span>
-                        <span>{formatPrice(order.total)}</span>
-                      </div>
-                    </div>
-                  </CardContent>
-                  <CardFooter className="flex gap-2 mt-4 ">
-                    <Button
-                      className="w-full bg-green-500 hover:bg-green-600"
-                      onClick={() => markOrderAsReady(order.id)}
-                    >
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                      Mark as Ready
-                    </Button>
-                    <Button
-                      variant="outline"
-                      className="w-full "
-                      onClick={() => handlePrintKOT(order)}
-                    >
-                      Print KOT
-                    </Button>
-                  </CardFooter>
-                </Card>
-              </motion.div>
-            ))}
+                            <TicketTimer order={order} settings={kitchenSettings} now={now} />
+                          </CardDescription>
+                          {order.priority && (
+                            <div className="mt-2">
+                              <PriorityBadge order={order} showNote />
+                            </div>
+                          )}
+                          {progress.total > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 mt-2">
+                              <span className="text-xs font-medium mr-1">
+                                {progress.done} of {progress.total} stations done
+                              </span>
+                              {order.stations?.map((station) => (
+                                <Badge
+                                  key={station.stationId}
+                                  variant="outline"
+                                  className={
+                                    station.bumpedAt
+                                      ? "border-green-500 text-green-700 bg-green-50"
+                                      : "text-muted-foreground"
+                                  }
+                                >
+                                  {station.bumpedAt && <CheckCircle className="h-3 w-3 mr-1" />}
+                                  {station.stationName}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </CardHeader>
+                        <CardContent className="pb-0 flex-grow">
+                          <div className="space-y-2">
+                            <div className="text-sm text-muted-foreground flex justify-between">
+                              <span>Order #{order.id}</span>
+                              <span>{lines.length} items</span>
+                            </div>
+                            <ul className="space-y-1 max-h-64 overflow-y-auto border rounded-md p-2">
+                              {lines.map((item) => {
+                                const itemStatus = getItemStatus(item, order);
+                                const nextStatus = getNextKitchenStatus(itemStatus);
+
+                                return (
+                                  <li
+                                    key={item.id}
+                                    className={`text-sm flex justify-between gap-2 border-b pb-1 last:border-0 last:pb-0 pt-1 ${
+                                      itemStatus === "VOIDED" || itemStatus === "SERVED"
+                                        ? "opacity-50"
+                                        : ""
+                                    }`}
+                                  >
+                                    <span className={itemStatus === "VOIDED" ? "line-through" : ""}>
+                                      <span className="flex items-center">
+                                        <Utensils className="h-3 w-3 mr-1 text-muted-foreground" />
+                                        <span className="font-medium">
+                                          {item.quantity}x
+                                        </span>{" "}
+                                        {formatVariantName(
+                                          item.item?.name || `Item #${item.itemId}`,
+                                          item.variant
+                                        )}
+                                      </span>
+                                      {item.comboItems && item.comboItems.length > 0 && (
+                                        <span className="block pl-4 text-xs text-muted-foreground">
+                                          {formatComboItems(item.comboItems)}
+                                        </span>
+                                      )}
+                                      {item.modifiers && item.modifiers.length > 0 && (
+                                        <span className="block pl-4 text-xs text-muted-foreground">
+                                          + {formatModifiers(item.modifiers)}
+                                        </span>
+                                      )}
+                                      {item.notes && (
+                                        <span className="block pl-4 text-xs font-medium text-amber-700">
+                                          Note: {item.notes}
+                                        </span>
+                                      )}
+                                    </span>
+                                    <span className="flex flex-col items-end gap-1">
+                                      <span className="text-muted-foreground">
+                                        {formatPrice(item.price * item.quantity)}
+                                      </span>
+                                      {nextStatus ? (
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          className={`h-6 px-2 text-xs ${ITEM_STATUS_STYLES[itemStatus]}`}
+                                          title={`Mark as ${ITEM_STATUS_LABELS[nextStatus].toLowerCase()}`}
+                                          onClick={() => updateItemStatus(order, item, nextStatus)}
+                                        >
+                                          {ITEM_STATUS_LABELS[itemStatus]}
+                                        </Button>
+                                      ) : (
+                                        <Badge
+                                          variant="outline"
+                                          className={`text-xs ${ITEM_STATUS_STYLES[itemStatus]}`}
+                                        >
+                                          {ITEM_STATUS_LABELS[itemStatus]}
+                                        </Badge>
+                                      )}
+                                    </span>
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                            <div className="pt-2 flex justify-between font-semibold">
+                              <span>Total</span>
+                              <span>{formatPrice(order.total)}</span>
+                            </div>
+                          </div>
+                        </CardContent>
+                        <CardFooter className="flex gap-2 mt-4 ">
+                          {selectedStation && isStationPending(order, selectedStation.id) ? (
+                            <Button
+                              className="w-full bg-green-500 hover:bg-green-600"
+                              disabled={bumpingOrderId === order.id}
+                              onClick={() => bumpTicket(order, selectedStation)}
+                            >
+                              <CheckCircle className="mr-2 h-4 w-4" />
+                              {selectedStation.name} done
+                            </Button>
+                          ) : order.stations?.length ? (
+                            <div className="w-full flex flex-col gap-2">
+                              {getPendingStations(order).map((station) => (
+                                <Button
+                                  key={station.id}
+                                  className="w-full bg-green-500 hover:bg-green-600"
+                                  disabled={bumpingOrderId === order.id}
+                                  onClick={() => bumpTicket(order, station)}
+                                >
+                                  <CheckCircle className="mr-2 h-4 w-4" />
+                                  {station.name} done
+                                </Button>
+                              ))}
+                              {getPendingStations(order).length === 0 && (
+                                <Button className="w-full" variant="secondary" disabled>
+                                  Waiting for stations
+                                </Button>
+                              )}
+                            </div>
+                          ) : (
+                            <Button
+                              className="w-full bg-green-500 hover:bg-green-600"
+                              disabled={bumpingOrderId === order.id}
+                              onClick={() => bumpTicket(order)}
+                            >
+                              <CheckCircle className="mr-2 h-4 w-4" />
+                              Mark as Ready
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            className="w-full "
+                            onClick={() => handlePrintKOT(order)}
+                          >
+                            Print KOT
+                          </Button>
+                        </CardFooter>
+                      </Card>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            )}
           </div>
-        )}
+          {showAllDay && (
+            <AllDayPanel
+              counts={allDayCounts}
+              onBumpAll={bumpAllDayCount}
+              bumpingKey={bumpingKey}
+            />
+          )}
+        </div>
       </div>
+
+      {displayMode && (
+        <KitchenDisplay
+          orders={visibleOrders}
+          getLines={getVisibleLines}
+          settings={kitchenSettings}
+          now={now}
+          stationName={selectedStation?.name}
+          canRecall={visibleBumped.length > 0}
+          bumpingOrderId={bumpingOrderId}
+          recallingOrderId={recallingId}
+          onBump={bumpTicket}
+          onRecall={() => recallTicket(visibleBumped[0])}
+          onExit={() => setDisplayMode(false)}
+        />
+      )}
+
+      <RecentlyBumpedDrawer
+        open={bumpedDrawerOpen}
+        onClose={() => setBumpedDrawerOpen(false)}
+        tickets={visibleBumped}
+        loading={loadingBumped}
+        now={now}
+        onRecall={recallTicket}
+        recallingId={recallingId}
+      />
     </DashboardLayout>
   );
 }
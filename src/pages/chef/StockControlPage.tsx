@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { motion } from "framer-motion";
+import { AlertTriangle, FileSpreadsheet, RefreshCw } from "lucide-react";
+import { DashboardLayout } from "../../components/layout/DashboardLayout";
+import { Button } from "../../components/ui/button";
+import { Separator } from "../../components/ui/separator";
+import { Skeleton } from "../../components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import GoodsReceivedTab from "../../components/inventory/GoodsReceivedTab";
+import WastageTab from "../../components/inventory/WastageTab";
+import StockTakeTab from "../../components/inventory/StockTakeTab";
+import ExportStockDialog from "../../components/inventory/ExportStockDialog";
+import { inventoryApi, StockItem, StockReport, Supplier } from "../../lib/api/inventory";
+
+export default function StockControlPage() {
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<StockReport>("receipts");
+  const [exportOpen, setExportOpen] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [stockData, supplierData] = await Promise.all([
+        inventoryApi.getStockItems(),
+        inventoryApi.getSuppliers(),
+      ]);
+
+      setStockItems(stockData);
+      setSuppliers(supplierData);
+    } catch (err) {
+      console.error("Error fetching stock:", err);
+      setError("Failed to load stock. Please try again.");
+      toast.error("Failed to load stock");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Pick up on-hand quantities the server recalculated after a delivery, wastage or count
+  const refreshStockItems = useCallback(async () => {
+    try {
+      setStockItems(await inventoryApi.getStockItems());
+    } catch (err) {
+      console.error("Error refreshing stock items:", err);
+    }
+  }, []);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Stock Control</h1>
+              <p className="text-muted-foreground">
+                Receive deliveries, log wastage and count stock
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => setExportOpen(true)}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export to Excel
+            </Button>
+          </div>
+        </motion.div>
+
+        <Separator />
+
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="bg-destructive/10 p-4 rounded-lg flex items-center gap-2 text-destructive">
+            <AlertTriangle className="h-5 w-5" />
+            <p>{error}</p>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={fetchData}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          </div>
+        ) : stockItems.length === 0 ? (
+          <div className="border rounded-lg p-8 flex items-center justify-center min-h-[300px]">
+            <p className="text-muted-foreground">
+              No ingredients are tracked yet. Add stock items on the Inventory page first.
+            </p>
+          </div>
+        ) : (
+          <Tabs
+            value={activeTab}
+            onValueChange={(value) => setActiveTab(value as StockReport)}
+            className="w-full"
+          >
+            <TabsList className="mb-4">
+              <TabsTrigger value="receipts">Goods Received</TabsTrigger>
+              <TabsTrigger value="wastage">Wastage</TabsTrigger>
+              <TabsTrigger value="stock-takes">Stock-Take</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="receipts">
+              <GoodsReceivedTab
+                stockItems={stockItems}
+                suppliers={suppliers}
+                onSupplierCreated={(supplier) => setSuppliers((prev) => [...prev, supplier])}
+                onStockChanged={refreshStockItems}
+              />
+            </TabsContent>
+
+            <TabsContent value="wastage">
+              <WastageTab stockItems={stockItems} onStockChanged={refreshStockItems} />
+            </TabsContent>
+
+            <TabsContent value="stock-takes">
+              <StockTakeTab stockItems={stockItems} onStockChanged={refreshStockItems} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <ExportStockDialog open={exportOpen} onOpenChange={setExportOpen} report={activeTab} />
+    </DashboardLayout>
+  );
+}
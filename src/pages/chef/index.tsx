@@ -16,6 +16,7 @@ import { Filter, Search, CheckCircle, XCircle, UtensilsCrossed, Clock, Utensils,
 import { Loader2 } from "lucide-react";
 import { useToast } from "../../components/ui/use-toast";
 import { DashboardLayout } from "../../components/layout/DashboardLayout";
+import KitchenPerformance from "../../components/kitchen/KitchenPerformance";
 import {
   PieChart,
   Pie,
@@ -289,6 +290,18 @@ export default function ChefDashboard() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Actual prep times from order timestamps */}
+        <KitchenPerformance
+          items={items}
+          onPreparationTimeUpdated={(itemId, minutes) =>
+            setItems((prevItems) =>
+              prevItems.map((item) =>
+                item.id === itemId ? { ...item, preparationTime: minutes } : item
+              )
+            )
+          }
+        />
       </div>
     </DashboardLayout>
   );
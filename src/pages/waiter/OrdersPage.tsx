@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { WaiterLayout } from "../../components/layout/WaiterLayout";
 import {
   Table,
@@ -34,6 +34,7 @@ import {
   Filter,
   ArrowRight,
   Eye,
+  Flag,
 } from "lucide-react";
 import { Input } from "../../components/ui/input";
 import {
@@ -43,10 +44,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "../../components/ui/select";
-import { ordersApi, WaiterOrder } from "../../lib/api/orders";
+import { OrderItemStatusEvent, ordersApi, WaiterOrder } from "../../lib/api/orders";
 import { toast } from "sonner";
 
 import { useSocket } from "../../lib/SocketContext";
+import ServiceRequestInbox from "../../components/service/ServiceRequestInbox";
+import { formatModifiers, formatVariantName } from "../../lib/utils";
+import { formatComboItems } from "../../lib/combos";
+import { getItemStatus, ITEM_STATUS_LABELS, ITEM_STATUS_STYLES } from "../../lib/orderItems";
+import OrderPriorityDialog from "../../components/orders/OrderPriorityDialog";
+import PriorityBadge from "../../components/orders/PriorityBadge";
 
 // Define interface to represent an order with table name for easy display
 interface DisplayOrder extends WaiterOrder {
@@ -60,8 +67,22 @@ function OrdersPage() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [selectedOrder, setSelectedOrder] = useState<DisplayOrder | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  // Order whose priority flag is being edited
+  const [flaggingOrder, setFlaggingOrder] = useState<DisplayOrder | null>(null);
   const { socket } = useSocket();
 
+  // Merge a changed order into the list and the details dialog
+  const applyOrderUpdate = useCallback((updatedOrder: WaiterOrder) => {
+    setOrders((prevOrders) =>
+      prevOrders.map((order) =>
+        order.id === updatedOrder.id ? { ...order, ...updatedOrder } : order
+      )
+    );
+    setSelectedOrder((prev) =>
+      prev && prev.id === updatedOrder.id ? { ...prev, ...updatedOrder } : prev
+    );
+  }, []);
+
   // Set up socket listeners for real-time updates
   useEffect(() => {
     // Listen for new orders being created
@@ -141,13 +162,23 @@ function OrdersPage() {
       setOrders((prevOrders) => [displayOrder, ...prevOrders]);
     });
 
+    // Keep line statuses current, including in the details dialog
+    socket.on("order:item-status", (event: OrderItemStatusEvent) => {
+      applyOrderUpdate(event.order);
+    });
+
+    // Flags set from another device
+    socket.on("order:priority-change", applyOrderUpdate);
+
     // Clean up listeners when component unmounts
     return () => {
       socket.off("order:status-change");
       socket.off("order:status-preparing");
       socket.off("order:new-order");
+      socket.off("order:item-status");
+      socket.off("order:priority-change", applyOrderUpdate);
     };
-  }, [socket]);
+  }, [socket, applyOrderUpdate]);
 
   // Fetch orders on component mount
   useEffect(() => {
@@ -308,6 +339,8 @@ function OrdersPage() {
         <p className="text-muted-foreground">Track and manage all orders</p>
       </header>
 
+      <ServiceRequestInbox />
+
       {/* Filters and search */}
       <div className="flex flex-col md:flex-row gap-4 mb-6">
         <div className="relative flex-1">
@@ -376,7 +409,12 @@ function OrdersPage() {
                   <TableRow key={order.id}>
                     <TableCell className="font-medium">#{order.id}</TableCell>
                     <TableCell>{order.tableId}</TableCell>
-                    <TableCell>{getStatusBadge(order.status)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        {getStatusBadge(order.status)}
+                        <PriorityBadge order={order} />
+                      </div>
+                    </TableCell>
                     <TableCell>{order.orderItems.length} items</TableCell>
                     <TableCell>{formatPrice(order.total)}</TableCell>
                     <TableCell>{formatTimeElapsed(order.createdAt)}</TableCell>
@@ -414,6 +452,13 @@ function OrdersPage() {
                                 Only chef can mark as ready
                               </DropdownMenuItem>
                             )}
+                            {(order.status === "PENDING" ||
+                              order.status === "PREPARING") && (
+                              <DropdownMenuItem onClick={() => setFlaggingOrder(order)}>
+                                <Flag className="h-4 w-4 mr-2" />
+                                {order.priority ? "Change Flag" : "Flag as Priority / Rush"}
+                              </DropdownMenuItem>
+                            )}
                             {order.status === "READY" && (
                               <DropdownMenuItem
                                 onClick={() =>
@@ -462,16 +507,48 @@ function OrdersPage() {
                   <span className="text-sm text-muted-foreground">Status</span>
                   {getStatusBadge(selectedOrder.status)}
                 </div>
+                {selectedOrder.priority && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Flag</span>
+                    <PriorityBadge order={selectedOrder} showNote />
+                  </div>
+                )}
                 <div className="border rounded-lg divide-y">
                   {selectedOrder.orderItems.map((item) => (
                     <div key={item.id} className="p-3 flex justify-between">
                       <div>
                         <span className="font-medium">
-                          {item.item?.name || `Item #${item.itemId}`}
+                          {formatVariantName(
+                            item.item?.name || `Item #${item.itemId}`,
+                            item.variant
+                          )}
                         </span>
                         <p className="text-sm text-muted-foreground">
                           Quantity: {item.quantity}
                         </p>
+                        <Badge
+                          variant="outline"
+                          className={`mt-1 text-xs ${
+                            ITEM_STATUS_STYLES[getItemStatus(item, selectedOrder)]
+                          }`}
+                        >
+                          {ITEM_STATUS_LABELS[getItemStatus(item, selectedOrder)]}
+                        </Badge>
+                        {item.comboItems && item.comboItems.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {formatComboItems(item.comboItems)}
+                          </p>
+                        )}
+                        {item.modifiers && item.modifiers.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            + {formatModifiers(item.modifiers)}
+                          </p>
+                        )}
+                        {item.notes && (
+                          <p className="text-xs text-amber-600">
+                            Note: {item.notes}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <span>{formatPrice(item.price * item.quantity)}</span>
@@ -548,6 +625,12 @@ function OrdersPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <OrderPriorityDialog
+        order={flaggingOrder}
+        onOpenChange={(open) => !open && setFlaggingOrder(null)}
+        onUpdated={applyOrderUpdate}
+      />
     </WaiterLayout>
   );
 }
@@ -8,6 +8,7 @@ import {
   ArrowRight,
   Wifi,
   WifiOff,
+  Flag,
 } from "lucide-react";
 import { WaiterLayout } from "../../components/layout/WaiterLayout";
 import { Button } from "../../components/ui/button";
@@ -26,15 +27,33 @@ import {
   TabsList,
   TabsTrigger,
 } from "../../components/ui/tabs";
-import { ordersApi, WaiterOrder } from "../../lib/api/orders";
+import { OrderItemStatusEvent, ordersApi, WaiterOrder } from "../../lib/api/orders";
+import { KitchenSettings, kitchenApi } from "../../lib/api/kitchen";
 import { toast } from "sonner";
 import { useSocket } from "../../lib/SocketContext";
+import ServiceRequestInbox from "../../components/service/ServiceRequestInbox";
+import { escapeHtml, formatModifiers, formatVariantName } from "../../lib/utils";
+import { formatComboItems } from "../../lib/combos";
+import {
+  getItemsWithStatus,
+  getItemStatus,
+  ITEM_STATUS_LABELS,
+  ITEM_STATUS_STYLES,
+} from "../../lib/orderItems";
+import { DEFAULT_KITCHEN_SETTINGS, getTicketTiming } from "../../lib/kitchenSla";
+import TicketTimer from "../../components/kitchen/TicketTimer";
+import OrderPriorityDialog from "../../components/orders/OrderPriorityDialog";
+import PriorityBadge from "../../components/orders/PriorityBadge";
+import { getKotPriorityBanner, PRIORITY_CARD_STYLES } from "../../lib/orderPriority";
 
 // Define an interface for orders with table name
 interface DisplayOrder extends WaiterOrder {
   tableName: string;
 }
 
+// Orders still waiting on the kitchen, which get a ticket timer
+const KITCHEN_STATUSES: WaiterOrder["status"][] = ["PENDING", "PREPARING"];
+
 // Define status to tab mapping
 const statusToTab: Record<string, string> = {
   PENDING: "pending",
@@ -49,6 +68,11 @@ export default function WaiterPage() {
   const [orders, setOrders] = useState<DisplayOrder[]>([]);
   const [activeTab, setActiveTab] = useState("pending");
   const [loading, setLoading] = useState(true);
+  const [kitchenSettings, setKitchenSettings] =
+    useState<KitchenSettings>(DEFAULT_KITCHEN_SETTINGS);
+  const [now, setNow] = useState(Date.now());
+  // Order whose priority flag is being edited
+  const [flaggingOrder, setFlaggingOrder] = useState<DisplayOrder | null>(null);
   const { socket, isConnected } = useSocket();
   const [notifications, setNotifications] = useState({
     pending: 0,
@@ -146,10 +170,47 @@ export default function WaiterPage() {
       });
     });
 
+    // Lines can be ready before the rest of their order
+    socket.on("order:item-status", (event: OrderItemStatusEvent) => {
+      const updatedOrder = event.order;
+
+      if (event.status === "READY") {
+        toast.info(
+          `${event.orderItemIds.length} item${event.orderItemIds.length === 1 ? "" : "s"} ready for Table ${
+            updatedOrder.table?.tableNumber || updatedOrder.tableId
+          }`,
+          {
+            description: `Order #${updatedOrder.id}`,
+            action: {
+              label: "View",
+              onClick: () => setActiveTab(statusToTab[updatedOrder.status]),
+            },
+          }
+        );
+      }
+
+      setOrders((prevOrders) =>
+        prevOrders.map((order) =>
+          order.id === updatedOrder.id ? { ...order, ...updatedOrder } : order
+        )
+      );
+    });
+
+    // Flags set from another device
+    socket.on("order:priority-change", (updatedOrder: WaiterOrder) => {
+      setOrders((prevOrders) =>
+        prevOrders.map((order) =>
+          order.id === updatedOrder.id ? { ...order, ...updatedOrder } : order
+        )
+      );
+    });
+
     // Clean up listeners when component unmounts
     return () => {
       socket.off("order:status-change");
       socket.off("order:new-order");
+      socket.off("order:item-status");
+      socket.off("order:priority-change");
     };
   }, [socket, activeTab]);
 
@@ -161,6 +222,17 @@ export default function WaiterPage() {
     }));
   }, [activeTab]);
 
+  // Load the ticket timing settings and tick the timers
+  useEffect(() => {
+    kitchenApi
+      .getSettings()
+      .then(setKitchenSettings)
+      .catch(() => setKitchenSettings(DEFAULT_KITCHEN_SETTINGS));
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Fetch orders on mount and when tab changes
   useEffect(() => {
     fetchOrders();
@@ -208,7 +280,25 @@ export default function WaiterPage() {
       return order.status === "DELIVERED" || order.status === "COMPLETED";
     return true;
   });
+  // How far past its preparation time a kitchen ticket is, or 0
+  const getOverdueMs = (order: DisplayOrder) => {
+    if (!KITCHEN_STATUSES.includes(order.status)) return 0;
+    const timing = getTicketTiming(order, kitchenSettings, now);
+    return timing.state === "late" ? timing.elapsedMs - timing.targetMs : 0;
+  };
+
+  // Flagged orders still with the kitchen are pinned first
+  const isPinned = (order: DisplayOrder) =>
+    !!order.priority && KITCHEN_STATUSES.includes(order.status);
+
   const filteredOrders = [...filtered].sort((a, b) => {
+    const pinned = Number(isPinned(b)) - Number(isPinned(a));
+    if (pinned !== 0) return pinned;
+
+    // Late tickets come first
+    const overdue = getOverdueMs(b) - getOverdueMs(a);
+    if (overdue !== 0) return overdue;
+
     if (activeTab === "all") {
       return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     }
@@ -240,6 +330,31 @@ export default function WaiterPage() {
     }
   };
 
+  // Serve the lines of an order that are ready, leaving the rest with the kitchen
+  const handleServeReadyItems = async (order: DisplayOrder) => {
+    const readyItems = getItemsWithStatus(order, "READY");
+    if (readyItems.length === 0) return;
+
+    try {
+      const updatedOrder = await ordersApi.updateItemStatus(
+        order.id,
+        readyItems.map((item) => item.id),
+        "SERVED"
+      );
+
+      setOrders((prevOrders) =>
+        prevOrders.map((o) => (o.id === order.id ? { ...o, ...updatedOrder } : o))
+      );
+
+      toast.success(
+        `Served ${readyItems.length} item${readyItems.length === 1 ? "" : "s"} to ${order.tableName}`
+      );
+    } catch (error) {
+      console.error(`Error serving items of order ${order.id}:`, error);
+      toast.error("Failed to update items");
+    }
+  };
+
   // Format time elapsed since order was created
   const formatTimeElapsed = (timestamp: string) => {
     const orderTime = new Date(timestamp);
@@ -273,7 +388,19 @@ export default function WaiterPage() {
       (item) =>
         `<tr>
           <td style="padding:4px 8px;">${item.quantity}x</td>
-          <td style="padding:4px 8px;">${item.item?.name || `Item #${item.itemId}`}</td>
+          <td style="padding:4px 8px;">${escapeHtml(formatVariantName(item.item?.name || `Item #${item.itemId}`, item.variant))}${
+            item.comboItems && item.comboItems.length > 0
+              ? `<div style="font-size:13px;">${escapeHtml(formatComboItems(item.comboItems))}</div>`
+              : ''
+          }${
+            item.modifiers && item.modifiers.length > 0
+              ? `<div style="font-size:13px;">+ ${escapeHtml(formatModifiers(item.modifiers))}</div>`
+              : ''
+          }${
+            item.notes
+              ? `<div style="font-size:13px; font-weight:bold;">NOTE: ${escapeHtml(item.notes)}</div>`
+              : ''
+          }</td>
         </tr>`
     ).join('');
     printWindow.document.write(`
@@ -291,6 +418,7 @@ export default function WaiterPage() {
         </head>
         <body>
           <div class="kot-header">KITCHEN ORDER TICKET (KOT)</div>
+          ${getKotPriorityBanner(order)}
           <div class="kot-meta"><strong>Table:</strong> ${order.table?.tableNumber || order.tableId}</div>
           <div class="kot-meta"><strong>Order #:</strong> ${order.id}</div>
           <table>
@@ -315,6 +443,8 @@ export default function WaiterPage() {
         <p className="text-muted-foreground">Manage customer orders</p>
       </header>
 
+      <ServiceRequestInbox />
+
       <div className="flex justify-end mb-4 items-center gap-3">
         {isConnected ? (
           <Badge
@@ -440,7 +570,11 @@ export default function WaiterPage() {
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ duration: 0.3 }}
                   >
-                    <Card className="overflow-hidden h-full flex flex-col">
+                    <Card
+                      className={`overflow-hidden h-full flex flex-col ${
+                        isPinned(order) && order.priority ? PRIORITY_CARD_STYLES[order.priority] : ""
+                      }`}
+                    >
                       <CardHeader className="pb-3">
                         <div className="flex justify-between items-center">
                           <CardTitle className="text-xl">
@@ -482,10 +616,20 @@ export default function WaiterPage() {
                             {order.status === "CANCELLED" && "Cancelled"}
                           </Badge>
                         </div>
-                        <CardDescription className="flex items-center mt-1">
-                          <Clock className="h-3 w-3 mr-1" />
-                          {formatTimeElapsed(order.createdAt)}
+                        <CardDescription className="flex items-center justify-between mt-1">
+                          <span className="flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {formatTimeElapsed(order.createdAt)}
+                          </span>
+                          {KITCHEN_STATUSES.includes(order.status) && (
+                            <TicketTimer order={order} settings={kitchenSettings} now={now} />
+                          )}
                         </CardDescription>
+                        {order.priority && (
+                          <div className="mt-2">
+                            <PriorityBadge order={order} showNote />
+                          </div>
+                        )}
                       </CardHeader>
                       <CardContent className="pb-0 flex-grow">
                         <div className="space-y-2">
@@ -493,20 +637,52 @@ export default function WaiterPage() {
                             Order #{order.id}
                           </div>
                           <ul className="space-y-1">
-                            {order.orderItems.map((item) => (
-                              <li
-                                key={item.id}
-                                className="text-sm flex justify-between"
-                              >
-                                <span>
-                                  {item.quantity}x{" "}
-                                  {item.item?.name || `Item #${item.itemId}`}
-                                </span>
-                                <span className="font-medium">
-                                  {formatPrice(item.price * item.quantity)}
-                                </span>
-                              </li>
-                            ))}
+                            {order.orderItems.map((item) => {
+                              const itemStatus = getItemStatus(item, order);
+
+                              return (
+                                <li
+                                  key={item.id}
+                                  className="text-sm flex justify-between"
+                                >
+                                  <span className={itemStatus === "VOIDED" ? "line-through opacity-50" : ""}>
+                                    {item.quantity}x{" "}
+                                    {formatVariantName(
+                                      item.item?.name || `Item #${item.itemId}`,
+                                      item.variant
+                                    )}
+                                    {item.comboItems && item.comboItems.length > 0 && (
+                                      <span className="block text-xs text-muted-foreground">
+                                        {formatComboItems(item.comboItems)}
+                                      </span>
+                                    )}
+                                    {item.modifiers && item.modifiers.length > 0 && (
+                                      <span className="block text-xs text-muted-foreground">
+                                        + {formatModifiers(item.modifiers)}
+                                      </span>
+                                    )}
+                                    {item.notes && (
+                                      <span className="block text-xs text-amber-600">
+                                        Note: {item.notes}
+                                      </span>
+                                    )}
+                                  </span>
+                                  <span className="flex flex-col items-end gap-1">
+                                    <span className="font-medium">
+                                      {formatPrice(item.price * item.quantity)}
+                                    </span>
+                                    {order.status === "PREPARING" && (
+                                      <Badge
+                                        variant="outline"
+                                        className={`text-xs ${ITEM_STATUS_STYLES[itemStatus]}`}
+                                      >
+                                        {ITEM_STATUS_LABELS[itemStatus]}
+                                      </Badge>
+                                    )}
+                                  </span>
+                                </li>
+                              );
+                            })}
                           </ul>
                           <div className="pt-2 flex justify-between font-semibold">
                             <span>Total</span>
@@ -526,6 +702,16 @@ export default function WaiterPage() {
                             Confirm & Prepare
                           </Button>
                         )}
+                        {order.status === "PREPARING" &&
+                          getItemsWithStatus(order, "READY").length > 0 && (
+                            <Button
+                              className="w-full bg-green-500 hover:bg-green-600"
+                              onClick={() => handleServeReadyItems(order)}
+                            >
+                              <ArrowRight className="mr-2 h-4 w-4" />
+                              Serve Ready ({getItemsWithStatus(order, "READY").length})
+                            </Button>
+                          )}
                         {order.status === "PREPARING" && (
                           <Button
                             className="w-full"
@@ -559,6 +745,17 @@ export default function WaiterPage() {
                             Complete Order
                           </Button>
                         )}
+                        {KITCHEN_STATUSES.includes(order.status) && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="shrink-0"
+                            title="Flag as priority or rush"
+                            onClick={() => setFlaggingOrder(order)}
+                          >
+                            <Flag className="h-4 w-4" />
+                          </Button>
+                        )}
                         {( (order.status ==="PENDING" || order.status === "DELIVERED") &&
                           <Button
                             variant="outline"
@@ -577,6 +774,18 @@ export default function WaiterPage() {
           </TabsContent>
         )}
       </Tabs>
+
+      <OrderPriorityDialog
+        order={flaggingOrder}
+        onOpenChange={(open) => !open && setFlaggingOrder(null)}
+        onUpdated={(updatedOrder) =>
+          setOrders((prevOrders) =>
+            prevOrders.map((order) =>
+              order.id === updatedOrder.id ? { ...order, ...updatedOrder } : order
+            )
+          )
+        }
+      />
     </WaiterLayout>
   );
 }
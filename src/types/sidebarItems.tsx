@@ -7,6 +7,9 @@ import {
   Users,
   DollarSign,
   Printer,
+  Star,
+  Package,
+  ClipboardList,
 } from "lucide-react";
 import { Role } from "../lib/AuthContext";
 
@@ -42,6 +45,24 @@ export const getAllMenuItems = () => {
       path: "/admin/tables",
       roles: [Role.ADMIN, Role.WAITER],
     },
+    {
+      icon: <Package size={20} />,
+      title: "Inventory",
+      path: "/admin/inventory",
+      roles: [Role.ADMIN, Role.CHEF],
+    },
+    {
+      icon: <ClipboardList size={20} />,
+      title: "Stock Control",
+      path: "/chef/stock",
+      roles: [Role.ADMIN, Role.CHEF],
+    },
+    {
+      icon: <Star size={20} />,
+      title: "Guest Feedback",
+      path: "/admin/feedback",
+      roles: [Role.ADMIN],
+    },
     {
       icon: <Users size={20} />,
       title: "Settings",
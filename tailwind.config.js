@@ -49,7 +49,21 @@ export default {
   				'3': 'hsl(var(--chart-3))',
   				'4': 'hsl(var(--chart-4))',
   				'5': 'hsl(var(--chart-5))'
+  			},
+  			brand: {
+  				background: 'rgb(var(--brand-background) / <alpha-value>)',
+  				surface: 'rgb(var(--brand-surface) / <alpha-value>)',
+  				'surface-alt': 'rgb(var(--brand-surface-alt) / <alpha-value>)',
+  				muted: 'rgb(var(--brand-muted) / <alpha-value>)',
+  				primary: 'rgb(var(--brand-primary) / <alpha-value>)',
+  				'primary-hover': 'rgb(var(--brand-primary-hover) / <alpha-value>)',
+  				accent: 'rgb(var(--brand-accent) / <alpha-value>)',
+  				'on-primary': 'rgb(var(--brand-on-primary) / <alpha-value>)'
   			}
+  		},
+  		fontFamily: {
+  			brand: ['var(--brand-font-body)'],
+  			'brand-heading': ['var(--brand-font-heading)']
   		}
   	}
   },